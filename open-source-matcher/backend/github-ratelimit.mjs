@@ -0,0 +1,34 @@
+import { redis } from "./redis.mjs";
+
+const RATE_LIMIT_KEY = process.env.HUNTER_GITHUB_RATE_LIMIT_KEY ?? "hunter:github:ratelimit";
+
+/**
+ * Estimates when the workers can next call GitHub for `resource` ("search" or "core"), based on the
+ * per-token quota the worker's GitHub client records in Redis. Returns epoch milliseconds; `Date.now()`
+ * when at least one token has quota left or nothing is known yet.
+ */
+export async function estimateGitHubAvailability(resource = "search") {
+  const now = Date.now();
+  const entries = await redis.hgetall(RATE_LIMIT_KEY);
+  const states = Object.entries(entries ?? {})
+    .filter(([field]) => field.endsWith(`:${resource}`))
+    .map(([, raw]) => {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return null;
+      }
+    })
+    .filter(Boolean);
+
+  if (!states.length) {
+    return now;
+  }
+
+  const availability = states.map((state) => {
+    const secondary = state.blockedUntil && state.blockedUntil > now ? state.blockedUntil : 0;
+    const primary = state.remaining === 0 && state.resetAt > now ? state.resetAt : 0;
+    return Math.max(secondary, primary, now);
+  });
+  return Math.min(...availability);
+}
@@ -0,0 +1,479 @@
+import { randomUUID } from "crypto";
+import { redis, blockingRedis } from "./redis.mjs";
+import { publishProgress } from "./progress.mjs";
+import { estimateGitHubAvailability } from "./github-ratelimit.mjs";
+import { DEFAULT_PROFILE_ID, resolveScoringProfile } from "./scoring-profiles.mjs";
+import { DEFAULT_POLICY_ID, resolvePolicy } from "./policy-profiles.mjs";
+import { DEFAULT_WORKSPACE } from "./workspaces.mjs";
+
+export const REQUEST_QUEUE = process.env.HUNTER_REQUEST_QUEUE ?? "hunter:requests";
+export const PROCESSING_QUEUE = process.env.HUNTER_PROCESSING_QUEUE ?? "hunter:processing";
+export const DEAD_LETTER_QUEUE = process.env.HUNTER_DEAD_LETTER_QUEUE ?? "hunter:dead-letter";
+export const RESULT_PREFIX = process.env.HUNTER_RESULT_PREFIX ?? "hunter:results";
+export const JOB_METADATA_PREFIX = process.env.HUNTER_JOB_META_PREFIX ?? "hunter:job";
+const JOB_TTL_SECONDS = Number(process.env.HUNTER_JOB_TTL_SECONDS ?? 300);
+const SEARCH_TIMEOUT_MS = Number(process.env.SEARCH_TIMEOUT_MS ?? 20000);
+const DEFAULT_RESULT_LIMIT = Number(process.env.HUNTER_DEFAULT_LIMIT ?? 6);
+const MAX_RESULT_LIMIT = 15;
+const MAX_LISTED_REPOSITORIES = Number(process.env.HUNTER_MAX_LISTED_REPOSITORIES ?? 30);
+const LISTED_REPOSITORIES_TOPIC = "Imported repositories";
+const MAX_PROMPT_LENGTH = 2000;
+const MAX_AUDITED_DEPENDENCIES = Number(process.env.HUNTER_AUDIT_MAX_DEPENDENCIES ?? 60);
+const DEPENDENCY_ECOSYSTEMS = ["npm", "pypi", "crates", "go"];
+const MAX_ISSUE_AGE_DAYS = 3650;
+const WAIT_SLICE_SECONDS = 2;
+export const SOURCE_PROVIDERS = ["github", "gitlab", "gitea", "bitbucket", "stub"];
+
+export class JobValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "JobValidationError";
+  }
+}
+
+function normalizeList(value, { lowerCase = false } = {}) {
+  if (value == null || value === "") {
+    return undefined;
+  }
+  const list = (Array.isArray(value) ? value : String(value).split(","))
+    .map((entry) => String(entry).trim())
+    .map((entry) => (lowerCase ? entry.toLowerCase() : entry))
+    .filter(Boolean);
+  return list.length ? Array.from(new Set(list)) : undefined;
+}
+
+function normalizeProviders(providers) {
+  const list = normalizeList(providers, { lowerCase: true });
+  const unknown = (list ?? []).filter((provider) => !SOURCE_PROVIDERS.includes(provider));
+  if (unknown.length) {
+    throw new JobValidationError(`Unknown source provider(s): ${unknown.join(", ")}. Use one of ${SOURCE_PROVIDERS.join(", ")}.`);
+  }
+  return list;
+}
+
+function normalizeDate(value, field) {
+  if (value == null || value === "") {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new JobValidationError(`${field} must be a date such as 2023-01-31.`);
+  }
+  return date.toISOString().split("T")[0];
+}
+
+function normalizeOwnerType(ownerType) {
+  if (ownerType == null || ownerType === "") {
+    return undefined;
+  }
+  const value = String(ownerType).trim().toLowerCase();
+  if (value === "organization" || value === "org") {
+    return "organization";
+  }
+  if (value === "user") {
+    return "user";
+  }
+  throw new JobValidationError('ownerType must be "organization" or "user".');
+}
+
+/**
+ * Reduces a repository reference to `https://host/owner/repo`. Clone URLs (`git+https://…`,
+ * `git@host:owner/repo.git`) are accepted; GitLab's `/-/` sub-pages and anything after them are dropped.
+ */
+function normalizeRepositoryUrl(value) {
+  const raw = String(value)
+    .trim()
+    .replace(/^git\+/, "")
+    .replace(/^git@([^:/]+):/, "https://$1/")
+    .replace(/^(git|ssh):\/\/(git@)?/, "https://");
+  let url;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return null;
+  }
+  const segments = url.pathname
+    .split("/-/")[0]
+    .replace(/\.git\/?$/, "")
+    .split("/")
+    .filter(Boolean);
+  if (segments.length < 2) {
+    return null;
+  }
+  return `https://${url.hostname.toLowerCase()}/${segments.join("/")}`;
+}
+
+function normalizeRepositories(repositories) {
+  const list = normalizeList(repositories);
+  if (!list) {
+    return undefined;
+  }
+  const invalid = list.filter((entry) => !normalizeRepositoryUrl(entry));
+  if (invalid.length) {
+    throw new JobValidationError(`Not a repository URL: ${invalid.slice(0, 3).join(", ")}${invalid.length > 3 ? ", …" : ""}.`);
+  }
+  const urls = [];
+  const seen = new Set();
+  for (const url of list.map(normalizeRepositoryUrl)) {
+    if (!seen.has(url.toLowerCase())) {
+      seen.add(url.toLowerCase());
+      urls.push(url);
+    }
+  }
+  if (urls.length > MAX_LISTED_REPOSITORIES) {
+    throw new JobValidationError(`At most ${MAX_LISTED_REPOSITORIES} repositories can be scored in one job; got ${urls.length}.`);
+  }
+  return urls;
+}
+
+/**
+ * Validates the `dependencies` of an audit job: `{ ecosystem, name, version?, dev? }` entries as
+ * `parseManifest` produces them, deduplicated per ecosystem.
+ */
+function normalizeDependencies(dependencies) {
+  if (dependencies == null) {
+    return undefined;
+  }
+  if (!Array.isArray(dependencies)) {
+    throw new JobValidationError("dependencies must be a list.");
+  }
+  const seen = new Set();
+  const list = [];
+  dependencies.forEach((entry, index) => {
+    const ecosystem = typeof entry?.ecosystem === "string" ? entry.ecosystem.trim().toLowerCase() : "";
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    if (!DEPENDENCY_ECOSYSTEMS.includes(ecosystem) || !name) {
+      throw new JobValidationError(
+        `Dependency ${index + 1} needs a name and an ecosystem (one of ${DEPENDENCY_ECOSYSTEMS.join(", ")}).`,
+      );
+    }
+    const key = `${ecosystem}:${name.toLowerCase()}`;
+    if (seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    const version = typeof entry.version === "string" && entry.version.trim() ? entry.version.trim() : undefined;
+    list.push({ ecosystem, name, ...(version ? { version } : {}), ...(isTrue(entry.dev) ? { dev: true } : {}) });
+  });
+  if (list.length > MAX_AUDITED_DEPENDENCIES) {
+    throw new JobValidationError(`At most ${MAX_AUDITED_DEPENDENCIES} dependencies can be audited in one job; got ${list.length}.`);
+  }
+  return list.length ? list : undefined;
+}
+
+function isTrue(value) {
+  return value === true || value === "true";
+}
+
+function optionalNumber(value) {
+  const numeric = Number(value);
+  return value != null && value !== "" && Number.isFinite(numeric) ? numeric : undefined;
+}
+
+function normalizeIssueAge(value) {
+  const days = optionalNumber(value);
+  if (value != null && value !== "" && (days === undefined || days < 1 || days > MAX_ISSUE_AGE_DAYS)) {
+    throw new JobValidationError(`maxIssueAgeDays must be a number of days between 1 and ${MAX_ISSUE_AGE_DAYS}.`);
+  }
+  return days === undefined ? undefined : Math.floor(days);
+}
+
+/**
+ * The request that led to a search, kept with the stored result so the history can show what was
+ * asked. Long prompts are cut rather than refused: losing the tail is better than losing the search.
+ */
+export function normalizePrompt(value) {
+  if (value == null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new JobValidationError("prompt must be a string.");
+  }
+  const prompt = value.trim();
+  return prompt ? prompt.slice(0, MAX_PROMPT_LENGTH) : undefined;
+}
+
+export function normalizeSearchFilters({
+  topic,
+  language,
+  languages,
+  minStars,
+  minForks,
+  onlyMaintained,
+  limit,
+  providers,
+  profile,
+  policy,
+  licenses,
+  excludeLicenses,
+  topics,
+  excludeTopics,
+  excludeArchived,
+  excludeForks,
+  excludeTemplates,
+  createdAfter,
+  createdBefore,
+  ownerType,
+  repositories,
+  dependencies,
+  manifest,
+  contributions,
+  maxIssueAgeDays,
+} = {}) {
+  // A repository list replaces the search: the topic only labels the result and every listed repo is returned.
+  const listed = normalizeRepositories(repositories);
+  // An audit scores the dependencies themselves; the search filters only shape the alternatives it suggests.
+  const audited = normalizeDependencies(dependencies);
+  const manifestLabel = audited && typeof manifest === "string" && manifest.trim() ? manifest.trim() : undefined;
+  // Contribution mode runs the search as usual, then collects beginner-friendly issues of the top results.
+  const contributing = isTrue(contributions) || undefined;
+  const defaultTopic = audited
+    ? `Dependency audit${manifestLabel ? `: ${manifestLabel}` : ""}`
+    : listed
+      ? LISTED_REPOSITORIES_TOPIC
+      : "";
+  const trimmedTopic = typeof topic === "string" && topic.trim() ? topic.trim() : defaultTopic;
+  if (!trimmedTopic) {
+    throw new JobValidationError("A non-empty topic is required to search for projects.");
+  }
+
+  const effectiveLimit = listed
+    ? listed.length
+    : audited
+      ? audited.length
+      : Number(limit) > 0
+        ? Math.min(Number(limit), MAX_RESULT_LIMIT)
+        : DEFAULT_RESULT_LIMIT;
+  const createdRange = {
+    createdAfter: normalizeDate(createdAfter, "createdAfter"),
+    createdBefore: normalizeDate(createdBefore, "createdBefore"),
+  };
+  if (createdRange.createdAfter && createdRange.createdBefore && createdRange.createdAfter > createdRange.createdBefore) {
+    throw new JobValidationError("createdAfter must not be later than createdBefore.");
+  }
+
+  return {
+    topic: trimmedTopic,
+    language: typeof language === "string" ? language.trim() || undefined : undefined,
+    languages: normalizeList(languages),
+    minStars: optionalNumber(minStars),
+    minForks: optionalNumber(minForks),
+    onlyMaintained: isTrue(onlyMaintained),
+    limit: effectiveLimit,
+    providers: normalizeProviders(providers),
+    profile: typeof profile === "string" && profile.trim() ? profile.trim().toLowerCase() : undefined,
+    policy: typeof policy === "string" && policy.trim() ? policy.trim().toLowerCase() : undefined,
+    licenses: normalizeList(licenses),
+    excludeLicenses: normalizeList(excludeLicenses),
+    topics: normalizeList(topics, { lowerCase: true }),
+    excludeTopics: normalizeList(excludeTopics, { lowerCase: true }),
+    excludeArchived: isTrue(excludeArchived) || undefined,
+    excludeForks: isTrue(excludeForks) || undefined,
+    excludeTemplates: isTrue(excludeTemplates) || undefined,
+    ...createdRange,
+    ownerType: normalizeOwnerType(ownerType),
+    repositories: listed,
+    dependencies: audited,
+    manifest: manifestLabel,
+    contributions: contributing,
+    maxIssueAgeDays: contributing ? normalizeIssueAge(maxIssueAgeDays) : undefined,
+  };
+}
+
+function metaKey(jobId) {
+  return `${JOB_METADATA_PREFIX}:${jobId}`;
+}
+
+function resultStoreKey(jobId) {
+  return `${JOB_METADATA_PREFIX}:${jobId}:result`;
+}
+
+/**
+ * Resolves the scoring profile and policy named by normalized filters into the copies a job carries.
+ * Custom ones are looked up in the job's workspace.
+ */
+export async function resolveJobSettings(payload, workspace = DEFAULT_WORKSPACE) {
+  const scoring = await resolveScoringProfile(payload.profile ?? DEFAULT_PROFILE_ID, workspace);
+  if (!scoring) {
+    throw new JobValidationError(`Unknown scoring profile "${payload.profile}".`);
+  }
+  const policy = await resolvePolicy(payload.policy ?? DEFAULT_POLICY_ID, workspace);
+  if (!policy) {
+    throw new JobValidationError(`Unknown policy "${payload.policy}".`);
+  }
+  return { scoring, policy };
+}
+
+/**
+ * Queues a search job. The scoring profile and policy are resolved here so the job carries its
+ * weights and rules, and retries judge results the same way even if either is edited in the meantime.
+ * The workspace travels with the job so its status, events and result stay visible to that workspace only.
+ * The worker's watch scheduler queues watch runs through here too, passing the `watchId`.
+ */
+export async function enqueueJob(payload, { workspace = DEFAULT_WORKSPACE, prompt, watchId, queuedMessage = "Waiting for a worker" } = {}) {
+  const { scoring, policy } = await resolveJobSettings(payload, workspace);
+
+  const jobId = randomUUID();
+  const requestedAt = new Date().toISOString();
+  const request = {
+    id: jobId,
+    requestedAt,
+    payload,
+    scoring,
+    policy,
+    workspace,
+    ...(prompt ? { prompt } : {}),
+    ...(watchId ? { watchId } : {}),
+  };
+
+  // Only GitHub quota is tracked; jobs that skip GitHub can start right away. Listed repositories
+  // and audited dependencies are fetched one by one from the core API rather than searched.
+  const usesGitHub = !payload.providers || payload.providers.includes("github");
+  const availableAt = usesGitHub
+    ? await estimateGitHubAvailability(payload.repositories || payload.dependencies ? "core" : "search").catch(() => Date.now())
+    : Date.now();
+  const expectedStartAt = new Date(Math.max(availableAt, Date.now())).toISOString();
+
+  await redis
+    .multi()
+    .set(
+      metaKey(jobId),
+      JSON.stringify({ status: "queued", queuedAt: requestedAt, expectedStartAt, workspace, ...(watchId ? { watchId } : {}), ...payload }),
+      "EX",
+      JOB_TTL_SECONDS,
+    )
+    .rpush(REQUEST_QUEUE, JSON.stringify(request))
+    .exec();
+
+  const message =
+    availableAt > Date.now() ? `Queued behind the GitHub rate limit, starting in ~${secondsUntil(expectedStartAt)}s` : queuedMessage;
+  await publishProgress(jobId, "queued", message, { topic: payload.topic, expectedStartAt, workspace }).catch((error) => {
+    console.warn(`[backend] Failed to publish queued event for job ${jobId}`, error);
+  });
+
+  return { jobId, request, expectedStartAt };
+}
+
+export async function readJobMeta(jobId) {
+  const raw = await redis.get(metaKey(jobId));
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error(`[backend] Malformed metadata for job ${jobId}`, error);
+    return null;
+  }
+}
+
+async function updateJobMeta(jobId, patch) {
+  const current = (await readJobMeta(jobId)) ?? {};
+  const ttl = await redis.ttl(metaKey(jobId));
+  await redis.set(
+    metaKey(jobId),
+    JSON.stringify({ ...current, ...patch }),
+    "EX",
+    ttl > 0 ? ttl : JOB_TTL_SECONDS,
+  );
+}
+
+/**
+ * Reads the stored copy of a finished job's payload. Unlike the per-job result queue, this key is
+ * not consumed by `waitForResult`, so clients can fetch it for as long as the worker keeps it around.
+ */
+export async function readJobResult(jobId) {
+  const raw = await redis.get(resultStoreKey(jobId));
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error(`[backend] Malformed stored result for job ${jobId}`, error);
+    return null;
+  }
+}
+
+/**
+ * Whether a job belongs to `workspace`. Jobs queued before workspaces existed count as the default
+ * workspace.
+ */
+export function belongsToWorkspace(record, workspace) {
+  return (record?.workspace ?? DEFAULT_WORKSPACE) === workspace;
+}
+
+function secondsUntil(isoDate) {
+  return Math.max(0, Math.ceil((new Date(isoDate).getTime() - Date.now()) / 1000));
+}
+
+export function exceedsSearchTimeout(isoDate) {
+  return new Date(isoDate).getTime() - Date.now() > SEARCH_TIMEOUT_MS;
+}
+
+/**
+ * Builds the response returned to the LLM for a job that has not finished yet, e.g.
+ * "queued, starting in ~40s" when it is waiting on the GitHub rate limit.
+ */
+export function describePendingJob(jobId, filters, meta) {
+  const startsAt = meta?.expectedStartAt;
+  const waitingOnRateLimit = startsAt && secondsUntil(startsAt) > 0;
+  const summary = waitingOnRateLimit
+    ? `Queued, starting in ~${secondsUntil(startsAt)}s: GitHub's rate limit is exhausted, so the search for "${filters.topic}" will run as soon as quota frees up.`
+    : `The search for "${filters.topic}" is still running.`;
+
+  return {
+    jobId,
+    status: waitingOnRateLimit ? "queued" : "pending",
+    expectedStartAt: startsAt,
+    receivedAt: new Date().toISOString(),
+    summary: `${summary} Its result will be available at /api/jobs/${jobId}/result once the worker finishes.`,
+    filters,
+    projects: [],
+  };
+}
+
+/**
+ * Blocks until the worker publishes a result for `jobId` or `SEARCH_TIMEOUT_MS` elapses.
+ * Returns `null` on timeout, or earlier when the worker reschedules the job past the deadline;
+ * the job keeps running and its result stays available via `readJobResult`.
+ */
+export async function waitForResult(jobId) {
+  const resultQueue = `${RESULT_PREFIX}:${jobId}`;
+  const deadline = Date.now() + SEARCH_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const remainingSeconds = Math.max(1, Math.ceil((deadline - Date.now()) / 1000));
+    const response = await blockingRedis.brpop(resultQueue, Math.min(remainingSeconds, WAIT_SLICE_SECONDS));
+
+    if (!response) {
+      const meta = await readJobMeta(jobId);
+      if (meta?.status === "scheduled" && meta.expectedStartAt && new Date(meta.expectedStartAt).getTime() > deadline) {
+        return null;
+      }
+      continue;
+    }
+
+    const [, raw] = response;
+
+    let parsed;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      console.error("[backend] Failed to parse worker response", error);
+      throw new Error("Received malformed data from worker");
+    }
+
+    await redis.del(resultQueue);
+    await updateJobMeta(jobId, {
+      status: parsed.status ?? "completed",
+      completedAt: new Date().toISOString(),
+    });
+    return parsed;
+  }
+
+  return null;
+}
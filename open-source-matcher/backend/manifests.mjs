@@ -0,0 +1,192 @@
+import { JobValidationError } from "./jobs.mjs";
+
+// Keeps a manifest inside the jobs router's 64 KB JSON body limit.
+const MAX_MANIFEST_BYTES = 48 * 1024;
+
+// npm specs that do not come from the registry: local paths, workspaces, tarballs and git sources.
+const NON_REGISTRY_SPEC = /^(file|link|workspace|portal|git|git\+[a-z]+|github|gitlab|bitbucket|https?):|^[^@\s]+\/[^\s]+$/;
+const NPM_SECTIONS = [
+  ["dependencies", false],
+  ["optionalDependencies", false],
+  ["peerDependencies", false],
+  ["devDependencies", true],
+];
+const CARGO_TABLE = /^(?:target\..+\.|workspace\.)?(dev-|build-)?dependencies$/;
+const CARGO_SUBTABLE = /^(?:target\..+\.|workspace\.)?(dev-|build-)?dependencies\.([A-Za-z0-9_-]+)$/;
+
+function addDependency(dependencies, dependency) {
+  if (!dependencies.some((entry) => entry.name === dependency.name)) {
+    dependencies.push(dependency);
+  }
+}
+
+function parsePackageJson(content) {
+  let manifest;
+  try {
+    manifest = JSON.parse(content);
+  } catch {
+    throw new JobValidationError("package.json is not valid JSON.");
+  }
+  const dependencies = [];
+  for (const [section, dev] of NPM_SECTIONS) {
+    for (const [name, rawSpec] of Object.entries(manifest?.[section] ?? {})) {
+      const spec = typeof rawSpec === "string" ? rawSpec.trim() : "";
+      // `npm:real-name@^1.0.0` installs a package under another name.
+      const alias = /^npm:((?:@[^/]+\/)?[^@]+)(?:@(.*))?$/.exec(spec);
+      if (alias) {
+        addDependency(dependencies, { ecosystem: "npm", name: alias[1], version: alias[2] || undefined, dev });
+      } else if (!NON_REGISTRY_SPEC.test(spec)) {
+        addDependency(dependencies, { ecosystem: "npm", name, version: spec || undefined, dev });
+      }
+    }
+  }
+  return dependencies;
+}
+
+function parseRequirements(content) {
+  const dependencies = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    // Options (-r, -e, --index-url …) and direct URL references are not PyPI packages.
+    if (!line || line.startsWith("-") || line.includes("://")) {
+      continue;
+    }
+    const match = /^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*(.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    const pinned = /===?\s*([^,;\s]+)/.exec(match[2]);
+    const name = match[1].toLowerCase().replace(/[-_.]+/g, "-");
+    addDependency(dependencies, { ecosystem: "pypi", name, version: pinned?.[1], dev: false });
+  }
+  return dependencies;
+}
+
+function tomlString(value, key) {
+  return new RegExp(`(?:^|[{,\\s])${key}\\s*=\\s*"([^"]*)"`).exec(value)?.[1];
+}
+
+/**
+ * Reads the dependency tables of a Cargo.toml line by line: `name = "1.0"`, inline tables and
+ * `[dependencies.name]` sub-tables, including target-specific and workspace tables. Path and git
+ * dependencies are skipped.
+ */
+function parseCargoToml(content) {
+  const dependencies = [];
+  let table = null;
+  let subtable = null;
+
+  const flush = () => {
+    if (subtable && !subtable.local) {
+      addDependency(dependencies, { ecosystem: "crates", name: subtable.name, version: subtable.version, dev: subtable.dev });
+    }
+    subtable = null;
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const header = /^\[([^\]]+)\]$/.exec(line);
+    if (header) {
+      flush();
+      const name = header[1].trim();
+      const sub = CARGO_SUBTABLE.exec(name);
+      const whole = CARGO_TABLE.exec(name);
+      table = whole ? { dev: Boolean(whole[1]) } : null;
+      subtable = sub ? { name: sub[2], dev: Boolean(sub[1]), local: false } : null;
+      continue;
+    }
+    const entry = /^([A-Za-z0-9_-]+)\s*=\s*(.+)$/.exec(line);
+    if (!entry) {
+      continue;
+    }
+    const [, key, value] = entry;
+    if (subtable) {
+      if (key === "version") {
+        subtable.version = /^"([^"]*)"/.exec(value)?.[1];
+      } else if (key === "package") {
+        subtable.name = /^"([^"]*)"/.exec(value)?.[1] ?? subtable.name;
+      } else if (key === "path" || key === "git") {
+        subtable.local = true;
+      }
+    } else if (table) {
+      if (value.startsWith('"')) {
+        addDependency(dependencies, { ecosystem: "crates", name: key, version: /^"([^"]*)"/.exec(value)?.[1], dev: table.dev });
+      } else if (value.startsWith("{") && !/(^|[{,\s])(path|git)\s*=/.test(value)) {
+        const name = tomlString(value, "package") ?? key;
+        addDependency(dependencies, { ecosystem: "crates", name, version: tomlString(value, "version"), dev: table.dev });
+      }
+    }
+  }
+  flush();
+  return dependencies;
+}
+
+/** Direct requirements of a go.mod; `// indirect` ones are left to the modules that need them. */
+function parseGoMod(content) {
+  const dependencies = [];
+  let inBlock = false;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const indirect = /\/\/\s*indirect\b/.test(rawLine);
+    const line = rawLine.replace(/\/\/.*$/, "").trim();
+    if (inBlock) {
+      if (line === ")") {
+        inBlock = false;
+      } else if (line && !indirect) {
+        const [name, version] = line.split(/\s+/);
+        addDependency(dependencies, { ecosystem: "go", name, version, dev: false });
+      }
+      continue;
+    }
+    if (/^require\s*\($/.test(line)) {
+      inBlock = true;
+      continue;
+    }
+    const single = /^require\s+(\S+)\s+(\S+)$/.exec(line);
+    if (single && !indirect) {
+      addDependency(dependencies, { ecosystem: "go", name: single[1], version: single[2], dev: false });
+    }
+  }
+  return dependencies;
+}
+
+const FORMATS = {
+  "package.json": { ecosystem: "npm", parse: parsePackageJson },
+  "requirements.txt": { ecosystem: "pypi", parse: parseRequirements },
+  "Cargo.toml": { ecosystem: "crates", parse: parseCargoToml },
+  "go.mod": { ecosystem: "go", parse: parseGoMod },
+};
+
+/** Picks the format from the file name, or from the content when the name says nothing. */
+function detectFormat(base, content) {
+  if (base.toLowerCase() === "package.json") return "package.json";
+  if (base.toLowerCase() === "cargo.toml") return "Cargo.toml";
+  if (base.toLowerCase() === "go.mod") return "go.mod";
+  if (/\.txt$|^requirements/i.test(base)) return "requirements.txt";
+  if (/^\s*\{/.test(content)) return "package.json";
+  if (/^module\s+\S+/m.test(content)) return "go.mod";
+  if (/^\[(package|workspace|(dev-|build-)?dependencies)\]/m.test(content)) return "Cargo.toml";
+  return "requirements.txt";
+}
+
+/**
+ * Turns a dependency manifest (package.json, requirements.txt, Cargo.toml or go.mod) into the
+ * `manifest` label and `dependencies` list of an audit job. Only registry packages are kept.
+ */
+export function parseManifest(content, filename = "") {
+  if (typeof content !== "string" || !content.trim()) {
+    throw new JobValidationError("The manifest is empty.");
+  }
+  if (content.length > MAX_MANIFEST_BYTES) {
+    throw new JobValidationError(`Manifests are at most ${MAX_MANIFEST_BYTES / 1024} KB.`);
+  }
+  const base = typeof filename === "string" ? filename.trim().replace(/^.*[\\/]/, "") : "";
+  const format = detectFormat(base, content);
+  const dependencies = FORMATS[format].parse(content);
+  if (!dependencies.length) {
+    throw new JobValidationError(`No ${FORMATS[format].ecosystem} dependencies found in ${base || format}.`);
+  }
+  return { manifest: base || format, dependencies };
+}
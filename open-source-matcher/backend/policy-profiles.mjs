@@ -0,0 +1,221 @@
+import { redis } from "./redis.mjs";
+import { DEFAULT_WORKSPACE, workspaceKey } from "./workspaces.mjs";
+
+const POLICIES_KEY = process.env.HUNTER_POLICIES_KEY ?? "hunter:policies";
+export const DEFAULT_POLICY_ID = process.env.HUNTER_DEFAULT_POLICY ?? "saas";
+const POLICY_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const SPDX_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9.+-]{0,63}$/;
+
+/**
+ * How a license is treated: `allowed` passes, `review` flags the project for a manual check and
+ * `forbidden` marks it as a violation.
+ */
+export const LICENSE_VERDICTS = ["allowed", "review", "forbidden"];
+const THRESHOLDS = ["maxDaysSinceUpdate", "minStars", "maxOpenIssues"];
+
+const PERMISSIVE = ["MIT", "Apache-2.0", "BSD-2-Clause", "BSD-3-Clause", "ISC", "0BSD", "Unlicense", "Zlib", "BSL-1.0"];
+const WEAK_COPYLEFT = ["LGPL-2.1", "LGPL-3.0", "MPL-2.0", "EPL-2.0"];
+const STRONG_COPYLEFT = ["GPL-2.0", "GPL-3.0", "EUPL-1.2", "OSL-3.0", "CC-BY-SA-4.0"];
+const NETWORK_COPYLEFT = ["AGPL-3.0", "SSPL-1.0"];
+
+function matrix(entries) {
+  return Object.fromEntries(entries.flatMap(([licenses, verdict]) => licenses.map((license) => [license, verdict])));
+}
+
+const BUILT_IN_POLICIES = [
+  {
+    id: "saas",
+    label: "SaaS products",
+    description: "No copyleft in shipped services; dependencies need a commit in the last 6 months and must not be archived.",
+    licenses: matrix([
+      [PERMISSIVE, "allowed"],
+      [WEAK_COPYLEFT, "review"],
+      [STRONG_COPYLEFT, "forbidden"],
+      [NETWORK_COPYLEFT, "forbidden"],
+    ]),
+    unlistedLicenses: "review",
+    missingLicense: "forbidden",
+    maxDaysSinceUpdate: 183,
+    minStars: null,
+    maxOpenIssues: null,
+    allowArchived: false,
+  },
+  {
+    id: "internal-tools",
+    label: "Internal tools",
+    description: "Copyleft is fine for tooling that is never distributed; network copyleft still needs a review.",
+    licenses: matrix([
+      [PERMISSIVE, "allowed"],
+      [WEAK_COPYLEFT, "allowed"],
+      [STRONG_COPYLEFT, "allowed"],
+      [NETWORK_COPYLEFT, "review"],
+    ]),
+    unlistedLicenses: "review",
+    missingLicense: "review",
+    maxDaysSinceUpdate: 365,
+    minStars: null,
+    maxOpenIssues: null,
+    allowArchived: false,
+  },
+];
+
+export class PolicyProfileError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "PolicyProfileError";
+  }
+}
+
+function builtIn(id) {
+  return BUILT_IN_POLICIES.find((policy) => policy.id === id) ?? null;
+}
+
+function parsePolicy(raw) {
+  try {
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function validateVerdict(value, field) {
+  if (!LICENSE_VERDICTS.includes(value)) {
+    throw new PolicyProfileError(`${field} must be one of ${LICENSE_VERDICTS.join(", ")}.`);
+  }
+  return value;
+}
+
+/**
+ * Validates a license matrix update. A `null` verdict removes the license from the matrix so it
+ * falls back to `unlistedLicenses`.
+ */
+function validateLicenses(licenses) {
+  if (licenses == null) {
+    return {};
+  }
+  if (typeof licenses !== "object" || Array.isArray(licenses)) {
+    throw new PolicyProfileError("licenses must be an object of SPDX id → verdict.");
+  }
+  return Object.fromEntries(
+    Object.entries(licenses).map(([license, verdict]) => {
+      if (!SPDX_ID_PATTERN.test(license)) {
+        throw new PolicyProfileError(`"${license}" is not an SPDX license id.`);
+      }
+      return [license, verdict === null ? null : validateVerdict(verdict, `Verdict for ${license}`)];
+    }),
+  );
+}
+
+function validateThresholds(input) {
+  return Object.fromEntries(
+    THRESHOLDS.filter((field) => field in input).map((field) => {
+      const value = input[field];
+      if (value === null) {
+        return [field, null];
+      }
+      const numeric = Number(value);
+      if (!Number.isFinite(numeric) || numeric < 0) {
+        throw new PolicyProfileError(`${field} must be a non-negative number, or null to disable the rule.`);
+      }
+      return [field, Math.floor(numeric)];
+    }),
+  );
+}
+
+function policiesKey(workspace) {
+  return workspaceKey(workspace, POLICIES_KEY);
+}
+
+/**
+ * The read-only built-in policies, followed by the workspace's custom policies.
+ */
+export async function listPolicies(workspace = DEFAULT_WORKSPACE) {
+  const stored = Object.values((await redis.hgetall(policiesKey(workspace))) ?? {}).map(parsePolicy);
+  const builtIns = BUILT_IN_POLICIES.map((policy) => ({ ...policy, builtIn: true }));
+  const custom = stored
+    .filter((policy) => policy && !builtIn(policy.id))
+    .map((policy) => ({ ...policy, builtIn: false }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  return [...builtIns, ...custom];
+}
+
+export async function getPolicy(id, workspace = DEFAULT_WORKSPACE) {
+  const base = builtIn(id);
+  if (base) {
+    return { ...base, builtIn: true };
+  }
+  const stored = parsePolicy(await redis.hget(policiesKey(workspace), id));
+  return stored ? { ...stored, builtIn: false } : null;
+}
+
+/**
+ * Creates or updates a custom policy of the workspace. License verdicts are merged into the current
+ * matrix and omitted fields keep their value; a new policy starts with an empty matrix that reviews
+ * every license.
+ */
+export async function savePolicy(id, input = {}, workspace = DEFAULT_WORKSPACE) {
+  if (!POLICY_ID_PATTERN.test(id)) {
+    throw new PolicyProfileError("Policy ids are lower-case letters, digits and dashes (max 40 characters).");
+  }
+  if (builtIn(id)) {
+    throw new PolicyProfileError(`"${id}" is a built-in policy and cannot be changed; save your rules under a new id.`);
+  }
+  const current = await getPolicy(id, workspace);
+  const licenses = Object.fromEntries(
+    Object.entries({ ...current?.licenses, ...validateLicenses(input.licenses) }).filter(([, verdict]) => verdict !== null),
+  );
+  if (input.allowArchived != null && typeof input.allowArchived !== "boolean") {
+    throw new PolicyProfileError("allowArchived must be a boolean.");
+  }
+
+  const policy = {
+    id,
+    label: typeof input.label === "string" && input.label.trim() ? input.label.trim() : current?.label ?? id,
+    description: typeof input.description === "string" ? input.description.trim() : current?.description ?? "",
+    licenses,
+    unlistedLicenses:
+      input.unlistedLicenses != null ? validateVerdict(input.unlistedLicenses, "unlistedLicenses") : current?.unlistedLicenses ?? "review",
+    missingLicense:
+      input.missingLicense != null ? validateVerdict(input.missingLicense, "missingLicense") : current?.missingLicense ?? "review",
+    maxDaysSinceUpdate: current?.maxDaysSinceUpdate ?? null,
+    minStars: current?.minStars ?? null,
+    maxOpenIssues: current?.maxOpenIssues ?? null,
+    ...validateThresholds(input),
+    allowArchived: input.allowArchived ?? current?.allowArchived ?? false,
+    updatedAt: new Date().toISOString(),
+  };
+  await redis.hset(policiesKey(workspace), id, JSON.stringify(policy));
+  return { ...policy, builtIn: false };
+}
+
+/**
+ * Deletes a custom policy of the workspace. Resolves to `false` when it does not exist.
+ */
+export async function deletePolicy(id, workspace = DEFAULT_WORKSPACE) {
+  if (builtIn(id)) {
+    throw new PolicyProfileError(`"${id}" is a built-in policy and cannot be deleted.`);
+  }
+  return (await redis.hdel(policiesKey(workspace), id)) > 0;
+}
+
+/**
+ * Resolves the policy a job is checked against into the rules the worker consumes. Returns `null`
+ * for unknown ids.
+ */
+export async function resolvePolicy(id = DEFAULT_POLICY_ID, workspace = DEFAULT_WORKSPACE) {
+  const policy = await getPolicy(id, workspace);
+  if (!policy) {
+    return null;
+  }
+  return {
+    id: policy.id,
+    label: policy.label,
+    licenses: policy.licenses ?? {},
+    unlistedLicenses: policy.unlistedLicenses ?? "review",
+    missingLicense: policy.missingLicense ?? "review",
+    maxDaysSinceUpdate: policy.maxDaysSinceUpdate ?? null,
+    minStars: policy.minStars ?? null,
+    maxOpenIssues: policy.maxOpenIssues ?? null,
+    allowArchived: Boolean(policy.allowArchived),
+  };
+}
@@ -0,0 +1,83 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+process.env.HUNTER_POLICIES_KEY = `test:policies:${process.pid}`;
+
+// Imported after the environment is set, since both modules read it when they load.
+const { redis, blockingRedis } = await import("./redis.mjs");
+const { PolicyProfileError, deletePolicy, getPolicy, listPolicies, resolvePolicy, savePolicy } = await import("./policy-profiles.mjs");
+
+const keys = [process.env.HUNTER_POLICIES_KEY, `${process.env.HUNTER_POLICIES_KEY}:ws:team`];
+
+beforeEach(async () => {
+  await redis.del(...keys);
+});
+
+afterAll(async () => {
+  await redis.del(...keys);
+  await blockingRedis.quit();
+  await redis.quit();
+});
+
+describe("built-in policies", () => {
+  it("are listed first and resolve in every workspace", async () => {
+    expect((await listPolicies()).map((policy) => [policy.id, policy.builtIn])).toEqual([
+      ["saas", true],
+      ["internal-tools", true],
+    ]);
+    expect(await resolvePolicy("saas", "team")).toMatchObject({ id: "saas", missingLicense: "forbidden", allowArchived: false });
+  });
+
+  it("are read-only", async () => {
+    await expect(savePolicy("saas", { minStars: 5 })).rejects.toThrow(PolicyProfileError);
+    await expect(deletePolicy("internal-tools")).rejects.toThrow(PolicyProfileError);
+  });
+});
+
+describe("savePolicy", () => {
+  it("starts a new policy that reviews every license", async () => {
+    const policy = await savePolicy("vendor", { label: " Vendor ", minStars: "12.7" });
+
+    expect(policy).toMatchObject({
+      id: "vendor",
+      label: "Vendor",
+      licenses: {},
+      unlistedLicenses: "review",
+      missingLicense: "review",
+      minStars: 12,
+      maxDaysSinceUpdate: null,
+      allowArchived: false,
+      builtIn: false,
+    });
+  });
+
+  it("merges license verdicts and keeps omitted fields, removing licenses set to null", async () => {
+    await savePolicy("vendor", { licenses: { MIT: "allowed", "GPL-3.0": "forbidden" }, maxOpenIssues: 40 });
+    const policy = await savePolicy("vendor", { licenses: { "GPL-3.0": null, "MPL-2.0": "review" }, maxOpenIssues: null });
+
+    expect(policy.licenses).toEqual({ MIT: "allowed", "MPL-2.0": "review" });
+    expect(policy.maxOpenIssues).toBeNull();
+  });
+
+  it("rejects invalid ids, verdicts, SPDX ids and thresholds", async () => {
+    await expect(savePolicy("Not Valid", {})).rejects.toThrow("Policy ids are lower-case");
+    await expect(savePolicy("vendor", { missingLicense: "maybe" })).rejects.toThrow("missingLicense must be one of");
+    await expect(savePolicy("vendor", { licenses: { "MIT license": "allowed" } })).rejects.toThrow("is not an SPDX license id");
+    await expect(savePolicy("vendor", { minStars: -1 })).rejects.toThrow("minStars must be a non-negative number");
+    await expect(savePolicy("vendor", { allowArchived: "yes" })).rejects.toThrow("allowArchived must be a boolean");
+    expect(await getPolicy("vendor")).toBeNull();
+  });
+});
+
+describe("workspaces", () => {
+  it("keep their custom policies apart", async () => {
+    await savePolicy("vendor", { minStars: 50 }, "team");
+
+    expect(await getPolicy("vendor")).toBeNull();
+    expect(await resolvePolicy("vendor", "team")).toMatchObject({ id: "vendor", minStars: 50 });
+    expect((await listPolicies("team")).map((policy) => policy.id)).toEqual(["saas", "internal-tools", "vendor"]);
+
+    expect(await deletePolicy("vendor")).toBe(false);
+    expect(await deletePolicy("vendor", "team")).toBe(true);
+    expect(await resolvePolicy("vendor", "team")).toBeNull();
+  });
+});
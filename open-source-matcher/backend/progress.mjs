@@ -0,0 +1,93 @@
+import { redis } from "./redis.mjs";
+
+const JOB_METADATA_PREFIX = process.env.HUNTER_JOB_META_PREFIX ?? "hunter:job";
+const PROGRESS_CHANNEL = process.env.HUNTER_PROGRESS_CHANNEL ?? "hunter:progress";
+const RESULT_STORE_TTL_SECONDS = Number(process.env.HUNTER_RESULT_STORE_TTL_SECONDS ?? 3600);
+
+export const TERMINAL_STEPS = new Set(["completed", "error"]);
+
+const listeners = new Set();
+let subscriber = null;
+let subscribed = null;
+
+function ensureSubscriber() {
+  if (subscriber) {
+    return;
+  }
+  const connection = redis.duplicate();
+  subscriber = connection;
+  connection.on("message", (_channel, raw) => {
+    let event;
+    try {
+      event = JSON.parse(raw);
+    } catch (error) {
+      console.warn("[backend] Ignoring malformed progress event", error);
+      return;
+    }
+    listeners.forEach((listener) => listener(event));
+  });
+  subscribed = connection.subscribe(PROGRESS_CHANNEL).then(
+    () => {},
+    (error) => {
+      console.error("[backend] Failed to subscribe to progress channel", error);
+      // The next listener opens a fresh subscriber.
+      connection.disconnect();
+      if (subscriber === connection) {
+        subscriber = null;
+      }
+    },
+  );
+}
+
+/**
+ * Registers a listener for every progress event published by the workers.
+ * Returns an unsubscribe function.
+ */
+export function onProgress(listener) {
+  ensureSubscriber();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Resolves once the channel subscription made for `onProgress` listeners is active. Callers that
+ * replay the stored event log await it first, so no event is published between the two unseen.
+ */
+export function progressSubscribed() {
+  return subscribed ?? Promise.resolve();
+}
+
+export async function readJobEvents(jobId) {
+  const raw = await redis.lrange(`${JOB_METADATA_PREFIX}:${jobId}:events`, 0, -1);
+  return raw
+    .map((entry) => {
+      try {
+        return JSON.parse(entry);
+      } catch {
+        return null;
+      }
+    })
+    .filter(Boolean);
+}
+
+export async function publishProgress(jobId, step, message, extra = {}) {
+  const serialized = JSON.stringify({ jobId, step, message, ...extra, at: new Date().toISOString() });
+  const eventsKey = `${JOB_METADATA_PREFIX}:${jobId}:events`;
+  await redis
+    .multi()
+    .rpush(eventsKey, serialized)
+    .expire(eventsKey, RESULT_STORE_TTL_SECONDS)
+    .publish(PROGRESS_CHANNEL, serialized)
+    .exec();
+}
+
+export async function closeProgress() {
+  listeners.clear();
+  if (subscriber) {
+    await subscriber.quit();
+    subscriber = null;
+    subscribed = null;
+  }
+}
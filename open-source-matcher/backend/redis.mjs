@@ -0,0 +1,20 @@
+import Redis from "ioredis";
+import { connectMemoryStore } from "../worker/memory-store.mjs";
+
+export const REDIS_URL = process.env.REDIS_URL ?? "redis://127.0.0.1:6379";
+export const HUNTER_STORE = (process.env.HUNTER_STORE ?? "redis").trim().toLowerCase();
+
+// A backend process of its own would queue jobs into a store no worker reads.
+if (HUNTER_STORE === "memory" && process.env.HUNTER_STANDALONE !== "true") {
+  console.error("[backend] HUNTER_STORE=memory only works with `npm run standalone`, which runs every service in one process.");
+  process.exit(1);
+}
+
+export const redis =
+  HUNTER_STORE === "memory"
+    ? connectMemoryStore()
+    : new Redis(REDIS_URL, {
+        maxRetriesPerRequest: null,
+        enableReadyCheck: true,
+      });
+export const blockingRedis = redis.duplicate();
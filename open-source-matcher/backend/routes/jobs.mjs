@@ -0,0 +1,205 @@
+import express from "express";
+import {
+  JobValidationError,
+  belongsToWorkspace,
+  enqueueJob,
+  normalizePrompt,
+  normalizeSearchFilters,
+  readJobMeta,
+  readJobResult,
+} from "../jobs.mjs";
+import { parseManifest } from "../manifests.mjs";
+import { TERMINAL_STEPS, onProgress, progressSubscribed, readJobEvents } from "../progress.mjs";
+
+const PENDING_STATUSES = new Set(["queued", "processing", "retrying", "scheduled"]);
+const SSE_HEARTBEAT_MS = 15000;
+
+function jobLinks(jobId) {
+  return {
+    statusUrl: `/api/jobs/${jobId}`,
+    resultUrl: `/api/jobs/${jobId}/result`,
+  };
+}
+
+/**
+ * Switches the response into a Server-Sent Events stream and returns a writer for events.
+ * The returned `close` function stops the heartbeat and ends the response.
+ */
+function openEventStream(req, res, onClose) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 3000\n\n");
+
+  const heartbeat = setInterval(() => {
+    res.write(": keep-alive\n\n");
+  }, SSE_HEARTBEAT_MS);
+
+  let closed = false;
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    onClose();
+    res.end();
+  };
+  req.on("close", close);
+
+  return {
+    send(event) {
+      if (!closed) {
+        res.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    },
+    close,
+  };
+}
+
+export function createJobsRouter() {
+  const router = express.Router();
+  router.use(express.json({ limit: "64kb" }));
+
+  router.post("/", async (req, res) => {
+    let filters;
+    let prompt;
+    try {
+      // `manifestFile: { filename, content }` queues a dependency audit of that manifest.
+      const manifestFile = req.body?.manifestFile;
+      const body = manifestFile
+        ? { ...req.body, ...parseManifest(manifestFile.content, manifestFile.filename) }
+        : (req.body ?? {});
+      filters = normalizeSearchFilters(body);
+      prompt = normalizePrompt(req.body?.prompt);
+    } catch (error) {
+      const status = error instanceof JobValidationError ? 422 : 400;
+      res.status(status).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    try {
+      const { jobId, request, expectedStartAt } = await enqueueJob(filters, { workspace: req.workspace, prompt });
+      res.status(202).json({
+        jobId,
+        status: "queued",
+        requestedAt: request.requestedAt,
+        expectedStartAt,
+        filters,
+        ...jobLinks(jobId),
+      });
+    } catch (error) {
+      if (error instanceof JobValidationError) {
+        res.status(422).json({ error: error.message });
+        return;
+      }
+      console.error("[backend] Failed to enqueue job", error);
+      res.status(500).json({ error: "Failed to enqueue search job." });
+    }
+  });
+
+  router.get("/events", (req, res) => {
+    let unsubscribe = () => {};
+    const stream = openEventStream(req, res, () => unsubscribe());
+    unsubscribe = onProgress((event) => {
+      if (belongsToWorkspace(event, req.workspace)) {
+        stream.send(event);
+      }
+    });
+  });
+
+  router.get("/:jobId/events", async (req, res) => {
+    const { jobId } = req.params;
+    try {
+      const owner = (await readJobMeta(jobId)) ?? (await readJobResult(jobId));
+      if (!owner || !belongsToWorkspace(owner, req.workspace)) {
+        res.status(404).json({ error: `Unknown or expired job "${jobId}".` });
+        return;
+      }
+    } catch (error) {
+      console.error(`[backend] Failed to read status for job ${jobId}`, error);
+      res.status(500).json({ error: "Failed to read job status." });
+      return;
+    }
+
+    let unsubscribe = () => {};
+    const stream = openEventStream(req, res, () => unsubscribe());
+
+    // Subscribe before replaying the stored log so no event slips between the two.
+    const buffered = [];
+    let replaying = true;
+    unsubscribe = onProgress((event) => {
+      if (event.jobId !== jobId || !belongsToWorkspace(event, req.workspace)) {
+        return;
+      }
+      if (replaying) {
+        buffered.push(event);
+        return;
+      }
+      stream.send(event);
+      if (TERMINAL_STEPS.has(event.step)) {
+        stream.close();
+      }
+    });
+
+    try {
+      await progressSubscribed();
+      const history = (await readJobEvents(jobId)).filter((event) => belongsToWorkspace(event, req.workspace));
+      const seen = new Set(history.map((event) => `${event.at}:${event.step}:${event.message}`));
+      const pending = buffered.filter((event) => !seen.has(`${event.at}:${event.step}:${event.message}`));
+      replaying = false;
+
+      for (const event of [...history, ...pending]) {
+        stream.send(event);
+        if (TERMINAL_STEPS.has(event.step)) {
+          stream.close();
+          return;
+        }
+      }
+    } catch (error) {
+      console.error(`[backend] Failed to replay progress for job ${jobId}`, error);
+      stream.close();
+    }
+  });
+
+  router.get("/:jobId", async (req, res) => {
+    const { jobId } = req.params;
+    try {
+      const meta = await readJobMeta(jobId);
+      if (!meta || !belongsToWorkspace(meta, req.workspace)) {
+        res.status(404).json({ error: `Unknown or expired job "${jobId}".` });
+        return;
+      }
+      res.json({ jobId, ...meta, ...jobLinks(jobId) });
+    } catch (error) {
+      console.error(`[backend] Failed to read status for job ${jobId}`, error);
+      res.status(500).json({ error: "Failed to read job status." });
+    }
+  });
+
+  router.get("/:jobId/result", async (req, res) => {
+    const { jobId } = req.params;
+    try {
+      const result = await readJobResult(jobId);
+      if (result && belongsToWorkspace(result, req.workspace)) {
+        res.json({ jobId, ...result });
+        return;
+      }
+
+      const meta = await readJobMeta(jobId);
+      if (!result && meta && belongsToWorkspace(meta, req.workspace) && PENDING_STATUSES.has(meta.status)) {
+        res.status(202).json({ jobId, status: meta.status, expectedStartAt: meta.expectedStartAt, ...jobLinks(jobId) });
+        return;
+      }
+      res.status(404).json({ error: `No result stored for job "${jobId}".` });
+    } catch (error) {
+      console.error(`[backend] Failed to read result for job ${jobId}`, error);
+      res.status(500).json({ error: "Failed to read job result." });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,59 @@
+import express from "express";
+import { LICENSE_VERDICTS, PolicyProfileError, deletePolicy, getPolicy, listPolicies, savePolicy } from "../policy-profiles.mjs";
+
+function sendError(res, error, fallback) {
+  if (error instanceof PolicyProfileError) {
+    res.status(422).json({ error: error.message });
+    return;
+  }
+  console.error(`[backend] ${fallback}`, error);
+  res.status(500).json({ error: fallback });
+}
+
+export function createPoliciesRouter() {
+  const router = express.Router();
+  router.use(express.json({ limit: "32kb" }));
+
+  router.get("/", async (req, res) => {
+    try {
+      res.json({ verdicts: LICENSE_VERDICTS, policies: await listPolicies(req.workspace) });
+    } catch (error) {
+      sendError(res, error, "Failed to load policies.");
+    }
+  });
+
+  router.get("/:policyId", async (req, res) => {
+    try {
+      const policy = await getPolicy(req.params.policyId, req.workspace);
+      if (!policy) {
+        res.status(404).json({ error: "Policy not found." });
+        return;
+      }
+      res.json(policy);
+    } catch (error) {
+      sendError(res, error, "Failed to load policy.");
+    }
+  });
+
+  router.put("/:policyId", async (req, res) => {
+    try {
+      res.json(await savePolicy(req.params.policyId, req.body ?? {}, req.workspace));
+    } catch (error) {
+      sendError(res, error, "Failed to save policy.");
+    }
+  });
+
+  router.delete("/:policyId", async (req, res) => {
+    try {
+      if (!(await deletePolicy(req.params.policyId, req.workspace))) {
+        res.status(404).json({ error: "Policy not found." });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error, "Failed to delete policy.");
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,66 @@
+import express from "express";
+import {
+  SCORING_COMPONENTS,
+  ScoringProfileError,
+  deleteScoringProfile,
+  getScoringProfile,
+  listScoringProfiles,
+  saveScoringProfile,
+} from "../scoring-profiles.mjs";
+
+function sendError(res, error, fallback) {
+  if (error instanceof ScoringProfileError) {
+    res.status(422).json({ error: error.message });
+    return;
+  }
+  console.error(`[backend] ${fallback}`, error);
+  res.status(500).json({ error: fallback });
+}
+
+export function createScoringProfilesRouter() {
+  const router = express.Router();
+  router.use(express.json({ limit: "16kb" }));
+
+  router.get("/", async (req, res) => {
+    try {
+      res.json({ components: SCORING_COMPONENTS, profiles: await listScoringProfiles(req.workspace) });
+    } catch (error) {
+      sendError(res, error, "Failed to load scoring profiles.");
+    }
+  });
+
+  router.get("/:profileId", async (req, res) => {
+    try {
+      const profile = await getScoringProfile(req.params.profileId, req.workspace);
+      if (!profile) {
+        res.status(404).json({ error: "Scoring profile not found." });
+        return;
+      }
+      res.json(profile);
+    } catch (error) {
+      sendError(res, error, "Failed to load scoring profile.");
+    }
+  });
+
+  router.put("/:profileId", async (req, res) => {
+    try {
+      res.json(await saveScoringProfile(req.params.profileId, req.body ?? {}, req.workspace));
+    } catch (error) {
+      sendError(res, error, "Failed to save scoring profile.");
+    }
+  });
+
+  router.delete("/:profileId", async (req, res) => {
+    try {
+      if (!(await deleteScoringProfile(req.params.profileId, req.workspace))) {
+        res.status(404).json({ error: "Scoring profile not found." });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error, "Failed to delete scoring profile.");
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,97 @@
+import express from "express";
+import { JobValidationError } from "../jobs.mjs";
+import {
+  WatchlistError,
+  createWatch,
+  deleteWatch,
+  getWatch,
+  listWatchRuns,
+  listWatches,
+  runWatchNow,
+  updateWatch,
+} from "../watchlists.mjs";
+
+const MAX_RUNS_PER_PAGE = 30;
+
+function sendError(res, error, fallback) {
+  if (error instanceof WatchlistError || error instanceof JobValidationError) {
+    res.status(422).json({ error: error.message });
+    return;
+  }
+  console.error(`[backend] ${fallback}`, error);
+  res.status(500).json({ error: fallback });
+}
+
+export function createWatchlistsRouter() {
+  const router = express.Router();
+  router.use(express.json({ limit: "32kb" }));
+
+  router.get("/", async (req, res) => {
+    try {
+      res.json({ watches: await listWatches(req.workspace) });
+    } catch (error) {
+      sendError(res, error, "Failed to load watches.");
+    }
+  });
+
+  router.post("/", async (req, res) => {
+    try {
+      res.status(201).json(await createWatch(req.body ?? {}, req.workspace));
+    } catch (error) {
+      sendError(res, error, "Failed to create watch.");
+    }
+  });
+
+  router.get("/:watchId", async (req, res) => {
+    try {
+      const watch = await getWatch(req.params.watchId, req.workspace);
+      if (!watch) {
+        res.status(404).json({ error: "Watch not found." });
+        return;
+      }
+      const limit = Math.min(Number(req.query.runs) > 0 ? Number(req.query.runs) : 10, MAX_RUNS_PER_PAGE);
+      res.json({ ...watch, runs: await listWatchRuns(watch.id, limit) });
+    } catch (error) {
+      sendError(res, error, "Failed to load watch.");
+    }
+  });
+
+  router.put("/:watchId", async (req, res) => {
+    try {
+      const watch = await updateWatch(req.params.watchId, req.body ?? {}, req.workspace);
+      if (!watch) {
+        res.status(404).json({ error: "Watch not found." });
+        return;
+      }
+      res.json(watch);
+    } catch (error) {
+      sendError(res, error, "Failed to update watch.");
+    }
+  });
+
+  router.delete("/:watchId", async (req, res) => {
+    try {
+      if (!(await deleteWatch(req.params.watchId, req.workspace))) {
+        res.status(404).json({ error: "Watch not found." });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error, "Failed to delete watch.");
+    }
+  });
+
+  router.post("/:watchId/run", async (req, res) => {
+    try {
+      if (!(await runWatchNow(req.params.watchId, req.workspace))) {
+        res.status(404).json({ error: "Watch not found." });
+        return;
+      }
+      res.status(202).json({ status: "scheduled" });
+    } catch (error) {
+      sendError(res, error, "Failed to schedule watch run.");
+    }
+  });
+
+  return router;
+}
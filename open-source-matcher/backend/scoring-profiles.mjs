@@ -0,0 +1,211 @@
+import { redis } from "./redis.mjs";
+import { DEFAULT_WORKSPACE, workspaceKey } from "./workspaces.mjs";
+
+const PROFILES_KEY = process.env.HUNTER_SCORING_PROFILES_KEY ?? "hunter:scoring:profiles";
+export const DEFAULT_PROFILE_ID = process.env.HUNTER_DEFAULT_SCORING_PROFILE ?? "balanced";
+const MAX_WEIGHT = 10;
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+/**
+ * Components the worker scores a project on. Each one is a signal (log-scaled counts, a 0–3
+ * freshness bonus, a 0–1 inactivity flag, a 0–3 documentation grade) multiplied by the profile's
+ * weight; negative weights penalize.
+ */
+export const SCORING_COMPONENTS = [
+  "stars",
+  "forks",
+  "watchers",
+  "freshness",
+  "issues",
+  "downloads",
+  "dependents",
+  "contributors",
+  "inactivity",
+  "docs",
+];
+
+const BUILT_IN_PROFILES = [
+  {
+    id: "balanced",
+    label: "Balanced",
+    description: "Popularity first, with recent activity, adoption, community health and documentation as tie-breakers.",
+    weights: {
+      stars: 2.5,
+      forks: 1.5,
+      watchers: 1,
+      freshness: 1,
+      issues: -1,
+      downloads: 1.2,
+      dependents: 1.5,
+      contributors: 1.5,
+      inactivity: -1.5,
+      docs: 1,
+    },
+  },
+  {
+    id: "popularity",
+    label: "Popularity",
+    description: "Stars, forks and installs dominate; maintenance barely matters.",
+    weights: {
+      stars: 3.5,
+      forks: 2,
+      watchers: 1.5,
+      freshness: 0.5,
+      issues: -0.5,
+      downloads: 2,
+      dependents: 2,
+      contributors: 0.5,
+      inactivity: -0.5,
+      docs: 0.5,
+    },
+  },
+  {
+    id: "stability",
+    label: "Stability",
+    description: "Favors widely depended-on projects with several maintainers and few open issues.",
+    weights: {
+      stars: 1.5,
+      forks: 1,
+      watchers: 0.5,
+      freshness: 0.5,
+      issues: -1.5,
+      downloads: 1,
+      dependents: 2.5,
+      contributors: 1.5,
+      inactivity: -3,
+      docs: 1.5,
+    },
+  },
+  {
+    id: "fresh-active",
+    label: "Fresh & active",
+    description: "Recent commits and an active contributor base outweigh raw popularity.",
+    weights: {
+      stars: 1,
+      forks: 1,
+      watchers: 0.5,
+      freshness: 3,
+      issues: -0.5,
+      downloads: 0.5,
+      dependents: 0.5,
+      contributors: 3,
+      inactivity: -3,
+      docs: 1,
+    },
+  },
+];
+
+export class ScoringProfileError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "ScoringProfileError";
+  }
+}
+
+function builtIn(id) {
+  return BUILT_IN_PROFILES.find((profile) => profile.id === id) ?? null;
+}
+
+function profilesKey(workspace) {
+  return workspaceKey(workspace, PROFILES_KEY);
+}
+
+function parseProfile(raw) {
+  try {
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function validateWeights(weights) {
+  if (weights == null) {
+    return {};
+  }
+  if (typeof weights !== "object" || Array.isArray(weights)) {
+    throw new ScoringProfileError("weights must be an object of component → number.");
+  }
+  const unknown = Object.keys(weights).filter((component) => !SCORING_COMPONENTS.includes(component));
+  if (unknown.length) {
+    throw new ScoringProfileError(`Unknown scoring component(s): ${unknown.join(", ")}. Use ${SCORING_COMPONENTS.join(", ")}.`);
+  }
+  return Object.fromEntries(
+    Object.entries(weights).map(([component, value]) => {
+      const weight = Number(value);
+      if (!Number.isFinite(weight) || Math.abs(weight) > MAX_WEIGHT) {
+        throw new ScoringProfileError(`Weight for ${component} must be a number between -${MAX_WEIGHT} and ${MAX_WEIGHT}.`);
+      }
+      return [component, weight];
+    }),
+  );
+}
+
+/**
+ * The read-only built-in profiles, followed by the workspace's custom profiles.
+ */
+export async function listScoringProfiles(workspace = DEFAULT_WORKSPACE) {
+  const stored = Object.values((await redis.hgetall(profilesKey(workspace))) ?? {}).map(parseProfile);
+  const builtIns = BUILT_IN_PROFILES.map((profile) => ({ ...profile, builtIn: true }));
+  const custom = stored
+    .filter((profile) => profile && !builtIn(profile.id))
+    .map((profile) => ({ ...profile, builtIn: false }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  return [...builtIns, ...custom];
+}
+
+export async function getScoringProfile(id, workspace = DEFAULT_WORKSPACE) {
+  const base = builtIn(id);
+  if (base) {
+    return { ...base, builtIn: true };
+  }
+  const stored = parseProfile(await redis.hget(profilesKey(workspace), id));
+  return stored ? { ...stored, builtIn: false } : null;
+}
+
+/**
+ * Creates or updates a custom profile of the workspace. Weights are merged onto the current ones,
+ * so callers can change a single component; components a custom profile leaves out score zero.
+ */
+export async function saveScoringProfile(id, { label, description, weights } = {}, workspace = DEFAULT_WORKSPACE) {
+  if (!PROFILE_ID_PATTERN.test(id)) {
+    throw new ScoringProfileError("Profile ids are lower-case letters, digits and dashes (max 40 characters).");
+  }
+  if (builtIn(id)) {
+    throw new ScoringProfileError(`"${id}" is a built-in profile and cannot be changed; save your weights under a new id.`);
+  }
+  const current = await getScoringProfile(id, workspace);
+  const profile = {
+    id,
+    label: typeof label === "string" && label.trim() ? label.trim() : current?.label ?? id,
+    description: typeof description === "string" ? description.trim() : current?.description ?? "",
+    weights: { ...current?.weights, ...validateWeights(weights) },
+    updatedAt: new Date().toISOString(),
+  };
+  await redis.hset(profilesKey(workspace), id, JSON.stringify(profile));
+  return { ...profile, builtIn: false };
+}
+
+/**
+ * Deletes a custom profile of the workspace. Resolves to `false` when it does not exist.
+ */
+export async function deleteScoringProfile(id, workspace = DEFAULT_WORKSPACE) {
+  if (builtIn(id)) {
+    throw new ScoringProfileError(`"${id}" is a built-in profile and cannot be deleted.`);
+  }
+  return (await redis.hdel(profilesKey(workspace), id)) > 0;
+}
+
+/**
+ * Resolves the profile a job should be ranked with into the `{ id, weights }` pair the worker
+ * consumes. Returns `null` for unknown ids.
+ */
+export async function resolveScoringProfile(id = DEFAULT_PROFILE_ID, workspace = DEFAULT_WORKSPACE) {
+  const profile = await getScoringProfile(id, workspace);
+  if (!profile) {
+    return null;
+  }
+  return {
+    id: profile.id,
+    weights: Object.fromEntries(SCORING_COMPONENTS.map((component) => [component, profile.weights?.[component] ?? 0])),
+  };
+}
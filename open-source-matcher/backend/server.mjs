@@ -1,24 +1,36 @@
-import dotenv from "dotenv";
+import "dotenv/config";
 import express from "express";
 import cors from "cors";
-import Redis from "ioredis";
-import { randomUUID } from "crypto";
 import {
   CopilotRuntime,
   GoogleGenerativeAIAdapter,
   copilotRuntimeNodeExpressEndpoint,
 } from "@copilotkit/runtime";
-
-dotenv.config();
+import { redis, blockingRedis } from "./redis.mjs";
+import {
+  DEAD_LETTER_QUEUE,
+  PROCESSING_QUEUE,
+  REQUEST_QUEUE,
+  RESULT_PREFIX,
+  describePendingJob,
+  enqueueJob,
+  exceedsSearchTimeout,
+  normalizePrompt,
+  normalizeSearchFilters,
+  readJobMeta,
+  waitForResult,
+} from "./jobs.mjs";
+import { parseManifest } from "./manifests.mjs";
+import { closeProgress } from "./progress.mjs";
+import { createJobsRouter } from "./routes/jobs.mjs";
+import { createScoringProfilesRouter } from "./routes/scoring-profiles.mjs";
+import { createPoliciesRouter } from "./routes/policies.mjs";
+import { createWatchlistsRouter } from "./routes/watchlists.mjs";
+import { SESSIONS_ENABLED, currentWorkspace, requireWorkspace } from "./workspaces.mjs";
 
 const PORT = Number(process.env.PORT ?? 4000);
-const REDIS_URL = process.env.REDIS_URL ?? "redis://127.0.0.1:6379";
-const REQUEST_QUEUE = process.env.HUNTER_REQUEST_QUEUE ?? "hunter:requests";
-const RESULT_PREFIX = process.env.HUNTER_RESULT_PREFIX ?? "hunter:results";
-const JOB_METADATA_PREFIX = process.env.HUNTER_JOB_META_PREFIX ?? "hunter:job";
-const JOB_TTL_SECONDS = Number(process.env.HUNTER_JOB_TTL_SECONDS ?? 300);
-const SEARCH_TIMEOUT_MS = Number(process.env.SEARCH_TIMEOUT_MS ?? 20000);
-const DEFAULT_RESULT_LIMIT = Number(process.env.HUNTER_DEFAULT_LIMIT ?? 6);
+// Set by backend/standalone.mjs, which owns shutdown when every service runs in one process.
+const STANDALONE = process.env.HUNTER_STANDALONE === "true";
 const CORS_ORIGINS = (process.env.CORS_ORIGINS ?? "*")
   .split(",")
   .map((origin) => origin.trim())
@@ -27,68 +39,42 @@ const CORS_ORIGINS = (process.env.CORS_ORIGINS ?? "*")
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY ?? process.env.GOOGLE_API_KEY;
 const GEMINI_MODEL = process.env.GEMINI_MODEL ?? "gemini-2.5-flash";
 
+// Without a Gemini key the REST API and job queue still work (offline demos, CI); only the chat is off.
 if (!GEMINI_API_KEY) {
-  console.error(
-    "[backend] Missing GEMINI_API_KEY environment variable.\nSet GEMINI_API_KEY (or GOOGLE_API_KEY) in your .env file before starting the backend.",
+  console.warn(
+    "[backend] GEMINI_API_KEY not set. The Copilot chat endpoint is disabled; set GEMINI_API_KEY (or GOOGLE_API_KEY) to enable it.",
   );
-  process.exit(1);
 }
 
-const redis = new Redis(REDIS_URL, {
-  maxRetriesPerRequest: null,
-  enableReadyCheck: true,
-});
-const blockingRedis = redis.duplicate();
-
-async function enqueueJob(payload) {
-  const jobId = randomUUID();
-  const request = {
-    id: jobId,
-    requestedAt: new Date().toISOString(),
-    payload,
-  };
+/**
+ * Queues a job for a Copilot action and waits for its result. Jobs that cannot finish within
+ * `SEARCH_TIMEOUT_MS` are described as pending so the assistant can tell the user when to check back.
+ */
+async function runJob(filters, prompt) {
+  const { jobId, expectedStartAt } = await enqueueJob(filters, {
+    workspace: currentWorkspace(),
+    prompt: normalizePrompt(prompt),
+  });
 
-  const metaKey = `${JOB_METADATA_PREFIX}:${jobId}`;
-  await redis
-    .multi()
-    .set(metaKey, JSON.stringify({ status: "queued", ...payload }), "EX", JOB_TTL_SECONDS)
-    .rpush(REQUEST_QUEUE, JSON.stringify(request))
-    .exec();
+  if (exceedsSearchTimeout(expectedStartAt)) {
+    return describePendingJob(jobId, filters, { expectedStartAt });
+  }
 
-  return { jobId, request };
-}
+  const result = await waitForResult(jobId);
+
+  if (!result) {
+    return describePendingJob(jobId, filters, await readJobMeta(jobId));
+  }
 
-async function waitForResult(jobId) {
-  const resultQueue = `${RESULT_PREFIX}:${jobId}`;
-  const deadline = Date.now() + SEARCH_TIMEOUT_MS;
-
-  while (Date.now() < deadline) {
-    const remainingSeconds = Math.max(1, Math.ceil((deadline - Date.now()) / 1000));
-    const response = await blockingRedis.brpop(resultQueue, remainingSeconds);
-
-    if (!response) {
-      continue;
-    }
-
-    const [, raw] = response;
-
-    try {
-      const parsed = JSON.parse(raw);
-      await redis.del(resultQueue);
-      await redis.set(
-        `${JOB_METADATA_PREFIX}:${jobId}`,
-        JSON.stringify({ status: parsed.status ?? "completed", completedAt: new Date().toISOString() }),
-        "EX",
-        JOB_TTL_SECONDS,
-      );
-      return parsed;
-    } catch (error) {
-      console.error("[backend] Failed to parse worker response", error);
-      throw new Error("Received malformed data from worker");
-    }
+  if (result?.status === "error") {
+    throw new Error(result.error ?? "Worker failed to process the search request.");
   }
 
-  throw new Error("Search timed out before the worker responded. Please try again.");
+  return {
+    jobId,
+    receivedAt: new Date().toISOString(),
+    ...result,
+  };
 }
 
 const runtime = new CopilotRuntime({
@@ -96,7 +82,7 @@ const runtime = new CopilotRuntime({
     {
       name: "searchOpenSourceProjects",
       description:
-        "Dispatches a hunter job that finds high-quality open-source repositories matching the supplied filters.",
+        "Dispatches a hunter job that finds high-quality open-source repositories matching the supplied filters. If GitHub's rate limit is exhausted the job is queued instead: the response has status \"queued\" and an expectedStartAt, and the user should be told roughly when it will start. Every project carries a compliance verdict against the team policy (status compliant, review or violation, with a list of violations); always tell the user which results break the policy and why.",
       parameters: [
         {
           name: "topic",
@@ -112,10 +98,82 @@ const runtime = new CopilotRuntime({
         },
         {
           name: "minStars",
-          description: "Minimum number of GitHub stars the project should have.",
+          description: "Minimum number of stars the project should have.",
           type: "number",
           required: false,
         },
+        {
+          name: "languages",
+          description: "Several acceptable primary languages; a project matching any of them qualifies.",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "minForks",
+          description: "Minimum number of forks the project should have.",
+          type: "number",
+          required: false,
+        },
+        {
+          name: "licenses",
+          description: "Allowed licenses as SPDX ids (e.g. MIT, Apache-2.0). Projects without a detected license are excluded.",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "excludeLicenses",
+          description: "Licenses to reject as SPDX ids (e.g. GPL-3.0, AGPL-3.0).",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "topics",
+          description: "Repository topics every result must have (e.g. kubernetes, cli).",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "excludeTopics",
+          description: "Repository topics that disqualify a result.",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "excludeArchived",
+          description: "Set to true to drop archived repositories.",
+          type: "boolean",
+          required: false,
+        },
+        {
+          name: "excludeForks",
+          description: "Set to true to drop forks.",
+          type: "boolean",
+          required: false,
+        },
+        {
+          name: "excludeTemplates",
+          description: "Set to true to drop template repositories.",
+          type: "boolean",
+          required: false,
+        },
+        {
+          name: "createdAfter",
+          description: "Only projects created on or after this date (YYYY-MM-DD).",
+          type: "string",
+          required: false,
+        },
+        {
+          name: "createdBefore",
+          description: "Only projects created on or before this date (YYYY-MM-DD).",
+          type: "string",
+          required: false,
+        },
+        {
+          name: "ownerType",
+          description: 'Restrict owners to "organization" or "user" accounts.',
+          type: "string",
+          required: false,
+        },
         {
           name: "onlyMaintained",
           description: "Set to true to filter for projects with recent commits (last 12 months).",
@@ -128,54 +186,171 @@ const runtime = new CopilotRuntime({
           type: "number",
           required: false,
         },
+        {
+          name: "providers",
+          description:
+            "Forges to search: any of github, gitlab, gitea (Codeberg), bitbucket and stub (local demo fixtures). Results from all of them are ranked together. Defaults to GitHub only.",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "profile",
+          description:
+            "Scoring profile used to rank results: balanced (default), popularity, stability, fresh-active, or a custom profile id. Each project's scoreBreakdown shows how much every component contributed.",
+          type: "string",
+          required: false,
+        },
+        {
+          name: "policy",
+          description:
+            "Team policy results are checked against: saas (default; copyleft forbidden, commits within 6 months, not archived), internal-tools, or a custom policy id. Violations are reported, not filtered out.",
+          type: "string",
+          required: false,
+        },
+        {
+          name: "prompt",
+          description:
+            "The user's request that led to this search, in their own words. It is stored with the result so the search history shows what was asked.",
+          type: "string",
+          required: false,
+        },
+      ],
+      handler: async (args) => runJob(normalizeSearchFilters(args), args.prompt),
+    },
+    {
+      name: "auditDependencies",
+      description:
+        "Audits the dependencies of a package.json, requirements.txt, Cargo.toml or go.mod the user pasted or uploaded. Each dependency is traced to its repository and scored; archived, stale and low-scoring ones get better-maintained alternatives from a search on their topics. The result's audit.findings lists every dependency with its status (healthy, archived, stale, low-score or unresolved), reasons and alternatives. Summarize the dependencies that need attention and their best alternatives, then call showDependencyAudit with the jobId so the dashboard shows the full report.",
+      parameters: [
+        {
+          name: "manifest",
+          description: "Full text of the manifest file, exactly as the user provided it.",
+          type: "string",
+          required: true,
+        },
+        {
+          name: "filename",
+          description: "File name of the manifest (package.json, requirements.txt, Cargo.toml or go.mod). Detected from the content when omitted.",
+          type: "string",
+          required: false,
+        },
+        {
+          name: "providers",
+          description: "Forges searched for alternatives: any of github, gitlab, gitea, bitbucket and stub. Defaults to GitHub only.",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "licenses",
+          description: "SPDX license ids an alternative must use (e.g. MIT, Apache-2.0).",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "profile",
+          description: "Scoring profile for dependencies and alternatives: balanced (default), popularity, stability, fresh-active, or a custom profile id.",
+          type: "string",
+          required: false,
+        },
+        {
+          name: "policy",
+          description: "Team policy the dependencies are checked against: saas (default), internal-tools, or a custom policy id.",
+          type: "string",
+          required: false,
+        },
+        {
+          name: "prompt",
+          description: "The user's request that led to this audit, in their own words.",
+          type: "string",
+          required: false,
+        },
+      ],
+      handler: async ({ manifest, filename, ...args }) =>
+        runJob(normalizeSearchFilters({ ...args, ...parseManifest(manifest, filename) }), args.prompt),
+    },
+    {
+      name: "findContributionOpportunities",
+      description:
+        "Finds open-source projects to contribute to rather than adopt. Runs a search (or scores the given repositories), then collects the open good-first-issue and help-wanted issues of the top projects. Each issue in contributions.projects[].issues is rated 0–10 from its age, comment activity, whether it is assigned and how often the project's maintainers answer issues (responseRate). Recommend the best-rated unassigned issues with their links, then call focusStoredSearch with the jobId so the dashboard shows the issue feed.",
+      parameters: [
+        {
+          name: "topic",
+          description: "Kind of project the user wants to contribute to. Optional when repositories are given.",
+          type: "string",
+          required: false,
+        },
+        {
+          name: "repositories",
+          description: "Repository URLs to look for issues in instead of searching, e.g. the projects of an earlier result.",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "language",
+          description: "Programming language the user wants to write.",
+          type: "string",
+          required: false,
+        },
+        {
+          name: "languages",
+          description: "Several acceptable languages; a project matching any of them qualifies.",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "maxIssueAgeDays",
+          description: "Leave out issues opened more than this many days ago (defaults to 365).",
+          type: "number",
+          required: false,
+        },
+        {
+          name: "minStars",
+          description: "Minimum number of stars the project should have.",
+          type: "number",
+          required: false,
+        },
+        {
+          name: "providers",
+          description: "Forges to search: any of github, gitlab, gitea, bitbucket and stub. Issues are collected from GitHub and stub only.",
+          type: "string[]",
+          required: false,
+        },
+        {
+          name: "prompt",
+          description: "The user's request that led to this search, in their own words.",
+          type: "string",
+          required: false,
+        },
       ],
-      handler: async ({ topic, language, minStars, onlyMaintained, limit }) => {
-        const trimmedTopic = topic?.trim();
-        if (!trimmedTopic) {
-          throw new Error("A non-empty topic is required to search for projects.");
-        }
-
-        const effectiveLimit = Number(limit) > 0 ? Math.min(Number(limit), 15) : DEFAULT_RESULT_LIMIT;
-
-        const { jobId } = await enqueueJob({
-          topic: trimmedTopic,
-          language: language?.trim() || undefined,
-          minStars: typeof minStars === "number" ? minStars : undefined,
-          onlyMaintained: Boolean(onlyMaintained),
-          limit: effectiveLimit,
-        });
-
-        const result = await waitForResult(jobId);
-
-        if (result?.status === "error") {
-          throw new Error(result.error ?? "Worker failed to process the search request.");
-        }
-
-        return {
-          jobId,
-          receivedAt: new Date().toISOString(),
-          ...result,
-        };
-      },
+      handler: async (args) =>
+        runJob(normalizeSearchFilters({ onlyMaintained: true, ...args, contributions: true }), args.prompt),
     },
   ],
 });
 
-const serviceAdapter = new GoogleGenerativeAIAdapter({
-  apiKey: GEMINI_API_KEY,
-  model: GEMINI_MODEL,
-});
+const serviceAdapter = GEMINI_API_KEY
+  ? new GoogleGenerativeAIAdapter({
+      apiKey: GEMINI_API_KEY,
+      model: GEMINI_MODEL,
+    })
+  : null;
 
 const app = express();
 app.disable("x-powered-by");
 
+// Credentials are only allowed for an explicit origin list, so the dashboard's session cookie can
+// reach the backend without letting every site make authenticated requests.
 if (CORS_ORIGINS.length === 0 || CORS_ORIGINS.includes("*")) {
-  app.use(cors());
+  if (SESSIONS_ENABLED) {
+    console.error("[backend] HUNTER_SESSION_SECRET needs CORS_ORIGINS set to the dashboard's origins, not \"*\".");
+    process.exit(1);
+  }
+  app.use(cors({ origin: true, credentials: false }));
 } else {
   app.use(
     cors({
       origin: CORS_ORIGINS,
-      credentials: false,
+      credentials: true,
     }),
   );
 }
@@ -183,11 +358,17 @@ if (CORS_ORIGINS.length === 0 || CORS_ORIGINS.includes("*")) {
 app.get("/health", async (_req, res) => {
   try {
     const pong = await redis.ping();
+    const [pending, inFlight, deadLettered] = await Promise.all([
+      redis.llen(REQUEST_QUEUE),
+      redis.llen(PROCESSING_QUEUE),
+      redis.llen(DEAD_LETTER_QUEUE),
+    ]);
     res.json({
       status: "ok",
       redis: pong,
       requestQueue: REQUEST_QUEUE,
       resultPrefix: RESULT_PREFIX,
+      jobs: { pending, inFlight, deadLettered },
       time: new Date().toISOString(),
     });
   } catch (error) {
@@ -195,31 +376,52 @@ app.get("/health", async (_req, res) => {
   }
 });
 
-const yoga = copilotRuntimeNodeExpressEndpoint({
-  runtime,
-  serviceAdapter,
-  endpoint: "/copilotkit",
-  logLevel: process.env.LOG_LEVEL ?? "info",
-});
+const yoga = serviceAdapter
+  ? copilotRuntimeNodeExpressEndpoint({
+      runtime,
+      serviceAdapter,
+      endpoint: "/copilotkit",
+      logLevel: process.env.LOG_LEVEL ?? "info",
+    })
+  : (_req, res) => {
+      res.status(503).json({ error: "The Copilot chat is disabled because GEMINI_API_KEY is not set." });
+    };
 
-app.use("/copilotkit", yoga);
+app.use("/api/jobs", requireWorkspace, createJobsRouter());
+app.use("/api/scoring-profiles", requireWorkspace, createScoringProfilesRouter());
+app.use("/api/policies", requireWorkspace, createPoliciesRouter());
+app.use("/api/watchlists", requireWorkspace, createWatchlistsRouter());
+app.use("/copilotkit", requireWorkspace, yoga);
 
 const server = app.listen(PORT, () => {
   console.log(`[backend] Copilot server listening on port ${PORT}`);
 });
 
-const shutdownSignals = ["SIGINT", "SIGTERM", "SIGQUIT"];
-shutdownSignals.forEach((signal) => {
-  process.on(signal, async () => {
-    console.log(`\n[backend] Received ${signal}, closing gracefully...`);
-    try {
-      server.close();
-      await redis.quit();
-      await blockingRedis.quit();
-    } catch (error) {
-      console.error("[backend] Error during shutdown", error);
-    } finally {
-      process.exit(0);
-    }
+/**
+ * Stops accepting requests, ends open event streams and closes the progress subscriber and the
+ * store connections.
+ */
+export async function closeBackend() {
+  const closed = new Promise((resolve) => server.close(resolve));
+  server.closeAllConnections();
+  await closed;
+  await closeProgress();
+  await redis.quit();
+  await blockingRedis.quit();
+}
+
+if (!STANDALONE) {
+  const shutdownSignals = ["SIGINT", "SIGTERM", "SIGQUIT"];
+  shutdownSignals.forEach((signal) => {
+    process.on(signal, async () => {
+      console.log(`\n[backend] Received ${signal}, closing gracefully...`);
+      try {
+        await closeBackend();
+      } catch (error) {
+        console.error("[backend] Error during shutdown", error);
+      } finally {
+        process.exit(0);
+      }
+    });
   });
-});
+}
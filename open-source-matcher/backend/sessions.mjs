@@ -0,0 +1,94 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Shared by the backend (`./workspaces.mjs`) and the dashboard (`src/lib/workspace.ts`): the dashboard
+// issues session cookies and both verify them, so the token and cookie formats must not drift apart.
+
+export const DEFAULT_WORKSPACE = "default";
+export const SESSION_COOKIE = process.env.HUNTER_SESSION_COOKIE ?? "hunter_session";
+export const SESSION_TTL_SECONDS = Number(process.env.HUNTER_SESSION_TTL_SECONDS ?? 7 * 24 * 3600);
+const SESSION_SECRET = process.env.HUNTER_SESSION_SECRET ?? "";
+const WORKSPACE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+/**
+ * Parses `HUNTER_API_TOKENS`: `token=workspace` pairs separated by commas. Several tokens may share a
+ * workspace; everyone holding one of them sees the same state. Pairs with an invalid workspace are
+ * skipped and passed to `onInvalid`.
+ *
+ * @param {string | undefined} value
+ * @param {(workspace: string) => void} [onInvalid]
+ * @returns {Map<string, string>}
+ */
+export function parseApiTokens(value, onInvalid = () => {}) {
+  const tokens = new Map();
+  for (const entry of (value ?? "").split(",")) {
+    const [token, workspace] = entry.split("=").map((part) => part?.trim());
+    if (!token) {
+      continue;
+    }
+    if (!workspace || !WORKSPACE_PATTERN.test(workspace)) {
+      onInvalid(workspace ?? "");
+      continue;
+    }
+    tokens.set(token, workspace);
+  }
+  return tokens;
+}
+
+/**
+ * Session cookies are only issued and accepted once a secret is configured to sign them.
+ */
+export const SESSIONS_ENABLED = Boolean(SESSION_SECRET);
+
+function sign(value) {
+  return createHmac("sha256", SESSION_SECRET).update(value).digest("base64url");
+}
+
+/**
+ * Session cookie value: `workspace.issuedAt.signature`, signed with `HUNTER_SESSION_SECRET`.
+ *
+ * @param {string} workspace
+ * @param {number} [issuedAt]
+ * @returns {string}
+ */
+export function createSession(workspace, issuedAt = Date.now()) {
+  const payload = `${workspace}.${issuedAt}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Workspace of a session cookie, or `null` when sessions are disabled or the cookie is malformed,
+ * forged or older than `HUNTER_SESSION_TTL_SECONDS`.
+ *
+ * @param {string | null | undefined} cookie
+ * @returns {string | null}
+ */
+export function verifySession(cookie) {
+  if (!SESSIONS_ENABLED || !cookie) {
+    return null;
+  }
+  const [workspace, issuedAt, signature] = cookie.split(".");
+  if (!workspace || !issuedAt || !signature || !WORKSPACE_PATTERN.test(workspace)) {
+    return null;
+  }
+  const expected = Buffer.from(sign(`${workspace}.${issuedAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  if (Date.now() - Number(issuedAt) > SESSION_TTL_SECONDS * 1000) {
+    return null;
+  }
+  return workspace;
+}
+
+/**
+ * Redis key of `key` inside a workspace. The default workspace keeps the unscoped keys, so data
+ * written before workspaces existed stays where it was.
+ *
+ * @param {string} workspace
+ * @param {string} key
+ * @returns {string}
+ */
+export function workspaceKey(workspace, key) {
+  return workspace === DEFAULT_WORKSPACE ? key : `${key}:ws:${workspace}`;
+}
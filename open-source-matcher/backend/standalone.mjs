@@ -0,0 +1,58 @@
+import "dotenv/config";
+import http from "http";
+import { fileURLToPath } from "url";
+
+// Defaults to the in-process store; set before the backend and worker modules pick their client.
+process.env.HUNTER_STORE ??= "memory";
+// Tells the backend and worker that this entry handles shutdown signals for them.
+process.env.HUNTER_STANDALONE = "true";
+
+const UI_PORT = Number(process.env.UI_PORT ?? 3000);
+const UI_DEV = process.env.NODE_ENV !== "production";
+
+/**
+ * Runs the dashboard, the backend and the worker in one Node process. With the default
+ * `HUNTER_STORE=memory` they share a single in-process store, so no Redis server is needed; state is
+ * lost on exit. `HUNTER_STORE=redis` runs the same three pieces against REDIS_URL.
+ */
+async function main() {
+  const { closeBackend } = await import("./server.mjs");
+  const { closeWorker } = await import("../worker/index.mjs");
+
+  const { default: next } = await import("next");
+  const ui = next({ dev: UI_DEV, dir: fileURLToPath(new URL("..", import.meta.url)) });
+  const handle = ui.getRequestHandler();
+  await ui.prepare();
+  const server = http.createServer((req, res) => handle(req, res)).listen(UI_PORT, () => {
+    console.log(`[standalone] Dashboard on http://localhost:${UI_PORT} (store: ${process.env.HUNTER_STORE})`);
+  });
+
+  // The worker drains first so running jobs can still publish progress and store their results.
+  let closing = false;
+  const shutdownSignals = ["SIGINT", "SIGTERM", "SIGQUIT"];
+  shutdownSignals.forEach((signal) => {
+    process.on(signal, async () => {
+      if (closing) {
+        return;
+      }
+      closing = true;
+      console.log(`\n[standalone] Received ${signal}, draining the worker before shutdown...`);
+      try {
+        await closeWorker();
+        server.close();
+        server.closeAllConnections();
+        await closeBackend();
+        await ui.close();
+      } catch (error) {
+        console.error("[standalone] Error during shutdown", error);
+      } finally {
+        process.exit(0);
+      }
+    });
+  });
+}
+
+main().catch((error) => {
+  console.error("[standalone] Fatal startup error", error);
+  process.exit(1);
+});
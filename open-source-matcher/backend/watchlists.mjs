@@ -0,0 +1,189 @@
+import { randomUUID } from "crypto";
+import { redis } from "./redis.mjs";
+import { normalizeSearchFilters, resolveJobSettings } from "./jobs.mjs";
+import { DEFAULT_WORKSPACE, workspaceKey } from "./workspaces.mjs";
+import { InvalidScheduleError, nextRunAt, shortestInterval } from "../worker/schedule.mjs";
+
+const WATCHES_KEY = process.env.HUNTER_WATCHES_KEY ?? "hunter:watches";
+const WATCH_SCHEDULE_KEY = process.env.HUNTER_WATCH_SCHEDULE_KEY ?? "hunter:watches:due";
+const WATCH_RUNS_PREFIX = process.env.HUNTER_WATCH_RUNS_PREFIX ?? "hunter:watch";
+const MIN_INTERVAL_MINUTES = Number(process.env.HUNTER_WATCH_MIN_INTERVAL_MINUTES ?? 60);
+const DEFAULT_SCHEDULE = "@daily";
+const MAX_NAME_LENGTH = 80;
+
+export class WatchlistError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "WatchlistError";
+  }
+}
+
+function parseJson(raw) {
+  try {
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function runsKey(id) {
+  return `${WATCH_RUNS_PREFIX}:${id}:runs`;
+}
+
+function watchesKey(workspace) {
+  return workspaceKey(workspace, WATCHES_KEY);
+}
+
+/**
+ * The schedule is shared by every workspace so one worker poll finds all due watches. Members of
+ * the default workspace are bare ids; the others are prefixed with their workspace.
+ */
+function scheduleMember(workspace, id) {
+  return workspace === DEFAULT_WORKSPACE ? id : `${workspace}:${id}`;
+}
+
+function normalizeName(name, fallback) {
+  const value = typeof name === "string" ? name.trim() : "";
+  if (!value) {
+    return fallback;
+  }
+  if (value.length > MAX_NAME_LENGTH) {
+    throw new WatchlistError(`Watch names are at most ${MAX_NAME_LENGTH} characters.`);
+  }
+  return value;
+}
+
+function normalizeSchedule(schedule) {
+  const value = typeof schedule === "string" && schedule.trim() ? schedule.trim().toLowerCase() : DEFAULT_SCHEDULE;
+  try {
+    if (shortestInterval(value) < MIN_INTERVAL_MINUTES * 60 * 1000) {
+      throw new WatchlistError(`Watches can run at most once every ${MIN_INTERVAL_MINUTES} minutes.`);
+    }
+  } catch (error) {
+    if (error instanceof InvalidScheduleError) {
+      throw new WatchlistError(error.message);
+    }
+    throw error;
+  }
+  return value;
+}
+
+/**
+ * The watch keeps only the ids of its scoring profile and policy (in its filters); each run resolves
+ * them when it is queued, so edits apply to the next run. They are resolved here as well so a watch
+ * naming an unknown profile or policy is refused when it is saved.
+ */
+async function normalizeWatchFilters(filters, workspace) {
+  const normalized = normalizeSearchFilters(filters);
+  await resolveJobSettings(normalized, workspace);
+  return normalized;
+}
+
+async function withRunState(watch) {
+  const [score, latest] = await Promise.all([
+    redis.zscore(WATCH_SCHEDULE_KEY, scheduleMember(watch.workspace ?? DEFAULT_WORKSPACE, watch.id)),
+    redis.lindex(runsKey(watch.id), 0),
+  ]);
+  const lastRun = parseJson(latest);
+  return {
+    ...watch,
+    nextRunAt: score != null ? new Date(Number(score)).toISOString() : null,
+    lastRun: lastRun ? { jobId: lastRun.jobId, runAt: lastRun.runAt, projects: lastRun.projects, diff: lastRun.diff } : null,
+  };
+}
+
+export async function listWatches(workspace = DEFAULT_WORKSPACE) {
+  const stored = Object.values((await redis.hgetall(watchesKey(workspace))) ?? {})
+    .map(parseJson)
+    .filter(Boolean)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return Promise.all(stored.map(withRunState));
+}
+
+export async function getWatch(id, workspace = DEFAULT_WORKSPACE) {
+  const watch = parseJson(await redis.hget(watchesKey(workspace), id));
+  return watch ? withRunState(watch) : null;
+}
+
+/**
+ * Past runs, newest first, each with its ranked snapshot and the diff against the run before it.
+ * Callers look the watch up in their workspace first.
+ */
+export async function listWatchRuns(id, limit = 10) {
+  return (await redis.lrange(runsKey(id), 0, Math.max(0, limit - 1))).map(parseJson).filter(Boolean);
+}
+
+/**
+ * Saves a new watch and schedules its first run right away, so it has a baseline snapshot to diff
+ * later runs against.
+ */
+export async function createWatch({ name, filters, schedule } = {}, workspace = DEFAULT_WORKSPACE) {
+  const normalized = await normalizeWatchFilters(filters, workspace);
+  const now = new Date().toISOString();
+  const watch = {
+    id: randomUUID(),
+    workspace,
+    name: normalizeName(name, normalized.topic),
+    schedule: normalizeSchedule(schedule),
+    filters: normalized,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await redis
+    .multi()
+    .hset(watchesKey(workspace), watch.id, JSON.stringify(watch))
+    .zadd(WATCH_SCHEDULE_KEY, Date.now(), scheduleMember(workspace, watch.id))
+    .exec();
+  return withRunState(watch);
+}
+
+/**
+ * Updates a watch's name, schedule or filters. A schedule change takes effect from now; run
+ * history is kept even when the filters change.
+ */
+export async function updateWatch(id, { name, filters, schedule } = {}, workspace = DEFAULT_WORKSPACE) {
+  const stored = parseJson(await redis.hget(watchesKey(workspace), id));
+  if (!stored) {
+    return null;
+  }
+  // Watches saved before runs resolved their settings at queue time still carry resolved copies.
+  const { scoring, policy, ...current } = stored;
+  const watch = {
+    ...current,
+    workspace,
+    name: normalizeName(name, current.name),
+    schedule: schedule != null ? normalizeSchedule(schedule) : current.schedule,
+    filters: await normalizeWatchFilters(filters ?? current.filters, workspace),
+    updatedAt: new Date().toISOString(),
+  };
+  const transaction = redis.multi().hset(watchesKey(workspace), id, JSON.stringify(watch));
+  if (watch.schedule !== current.schedule) {
+    transaction.zadd(WATCH_SCHEDULE_KEY, nextRunAt(watch.schedule), scheduleMember(workspace, id));
+  }
+  await transaction.exec();
+  return withRunState(watch);
+}
+
+export async function deleteWatch(id, workspace = DEFAULT_WORKSPACE) {
+  if (!(await redis.hexists(watchesKey(workspace), id))) {
+    return false;
+  }
+  await redis
+    .multi()
+    .hdel(watchesKey(workspace), id)
+    .zrem(WATCH_SCHEDULE_KEY, scheduleMember(workspace, id))
+    .del(runsKey(id))
+    .exec();
+  return true;
+}
+
+/**
+ * Makes a watch due immediately; the worker's scheduler queues it on its next poll.
+ */
+export async function runWatchNow(id, workspace = DEFAULT_WORKSPACE) {
+  if (!(await redis.hexists(watchesKey(workspace), id))) {
+    return false;
+  }
+  await redis.zadd(WATCH_SCHEDULE_KEY, Date.now(), scheduleMember(workspace, id));
+  return true;
+}
@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { DEFAULT_WORKSPACE, SESSION_COOKIE, SESSIONS_ENABLED, parseApiTokens, verifySession, workspaceKey } from "./sessions.mjs";
+
+export { DEFAULT_WORKSPACE, SESSIONS_ENABLED, workspaceKey };
+
+const API_TOKENS = parseApiTokens(process.env.HUNTER_API_TOKENS, (workspace) => {
+  console.warn(`[backend] Ignoring API token with invalid workspace "${workspace}"`);
+});
+
+/**
+ * Without configured tokens the deployment is single-tenant and every request belongs to the
+ * default workspace.
+ */
+export const AUTH_REQUIRED = API_TOKENS.size > 0;
+
+function readCookie(header, name) {
+  for (const part of (header ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+}
+
+/**
+ * Workspace of an incoming request, from an `Authorization: Bearer <token>` header or the session
+ * cookie. Returns `null` when authentication is required and neither is valid.
+ */
+export function resolveWorkspace(req) {
+  if (!AUTH_REQUIRED) {
+    return DEFAULT_WORKSPACE;
+  }
+  const bearer = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "")?.[1]?.trim();
+  if (bearer) {
+    return API_TOKENS.get(bearer) ?? null;
+  }
+  return verifySession(readCookie(req.headers.cookie, SESSION_COOKIE));
+}
+
+const workspaceContext = new AsyncLocalStorage();
+
+/**
+ * Rejects unauthenticated requests and records the caller's workspace on `req.workspace`. The
+ * rest of the request, including Copilot action handlers, can read it with `currentWorkspace()`.
+ */
+export function requireWorkspace(req, res, next) {
+  const workspace = resolveWorkspace(req);
+  if (!workspace) {
+    res.status(401).json({ error: "Sign in with an API token to use this workspace." });
+    return;
+  }
+  req.workspace = workspace;
+  workspaceContext.run(workspace, next);
+}
+
+export function currentWorkspace() {
+  return workspaceContext.getStore() ?? DEFAULT_WORKSPACE;
+}
@@ -0,0 +1,43 @@
+import { ExportError, isExportFormat, parseExportResults, renderExport } from "@/lib/export";
+import { resolveWorkspace, unauthorized } from "@/lib/workspace";
+import { NextRequest, NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Renders searches as a download: `{ format: "csv" | "markdown" | "json", results: SearchResult[] }`.
+ */
+export async function POST(request: NextRequest) {
+  if (!resolveWorkspace(request)) {
+    return unauthorized();
+  }
+
+  let body: { format?: unknown; results?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  if (!isExportFormat(body?.format)) {
+    return NextResponse.json({ error: "format must be csv, markdown or json." }, { status: 400 });
+  }
+
+  try {
+    const { body: content, contentType, filename } = renderExport(parseExportResults(body.results), body.format);
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ExportError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[export] Failed to render export", error);
+    return NextResponse.json({ error: "Failed to render export." }, { status: 500 });
+  }
+}
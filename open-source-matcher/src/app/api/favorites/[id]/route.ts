@@ -0,0 +1,81 @@
+import { FavoritesError, deleteFavorite, getFavorite, sanitizeChanges, updateFavorite } from "@/lib/favorites";
+import { resolveWorkspace, unauthorized } from "@/lib/workspace";
+import { NextRequest, NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Favorite ids are `source:id`; clients may or may not percent-encode the colon.
+async function favoriteId(context: RouteContext) {
+  const { id } = await context.params;
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return id;
+  }
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  try {
+    const favorite = await getFavorite(workspace, await favoriteId(context));
+    if (!favorite) {
+      return NextResponse.json({ error: "Favorite not found." }, { status: 404 });
+    }
+    return NextResponse.json({ favorite });
+  } catch (error) {
+    console.error("[favorites] Failed to load favorite", error);
+    return NextResponse.json({ error: "Failed to load favorite." }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  try {
+    const favorite = await updateFavorite(workspace, await favoriteId(context), sanitizeChanges(body));
+    if (!favorite) {
+      return NextResponse.json({ error: "Favorite not found." }, { status: 404 });
+    }
+    return NextResponse.json({ favorite });
+  } catch (error) {
+    if (error instanceof FavoritesError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[favorites] Failed to update favorite", error);
+    return NextResponse.json({ error: "Failed to update favorite." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  try {
+    if (!(await deleteFavorite(workspace, await favoriteId(context)))) {
+      return NextResponse.json({ error: "Favorite not found." }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("[favorites] Failed to delete favorite", error);
+    return NextResponse.json({ error: "Failed to delete favorite." }, { status: 500 });
+  }
+}
@@ -1,106 +1,68 @@
-import { getRedisClient } from "@/lib/redis";
+import { FavoritesError, listFavorites, parseStatus, sanitizeChanges, sanitizeProject, saveFavorite } from "@/lib/favorites";
+import { resolveWorkspace, unauthorized } from "@/lib/workspace";
 import { NextRequest, NextResponse } from "next/server";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const FAVORITES_KEY = process.env.HUNTER_FAVORITES_KEY ?? "hunter:favorites";
-const FAVORITES_LIMIT = Number(process.env.HUNTER_FAVORITES_LIMIT ?? 8);
-
-type FavoriteProject = {
-  id: number;
-  name: string;
-  url: string;
-  description?: string | null;
-  summary?: string | null;
-  tags?: string[];
-  language?: string | null;
-  stars?: number;
-};
-
-function sanitizeProject(data: unknown): FavoriteProject | null {
-  if (!data || typeof data !== "object") {
-    return null;
-  }
-
-  const record = data as Record<string, unknown>;
-  const id = Number(record.id ?? Math.random() * 1_000_000);
-  const name = typeof record.name === "string" ? record.name.trim() : "";
-  const urlRaw = record.url ?? record.html_url ?? "#";
-  const url = typeof urlRaw === "string" ? urlRaw : "#";
-
-  if (!name || !url) {
-    return null;
-  }
-
-  const description =
-    (typeof record.description === "string" && record.description.trim().length > 0
-      ? record.description.trim()
-      : Array.isArray(record.reasons)
-        ? record.reasons.find((reason) => typeof reason === "string" && reason.trim())?.trim()
-        : undefined) ?? undefined;
-
-  const summary =
-    (typeof record.summary === "string" && record.summary.trim().length > 0 ? record.summary.trim() : description) ??
-    undefined;
-
-  return {
-    id,
-    name,
-    url,
-    description,
-    summary,
-    tags: Array.isArray(record.tags) ? record.tags.map(String) : undefined,
-    language: typeof record.language === "string" ? record.language : undefined,
-    stars: typeof record.stars === "number" ? record.stars : Number(record.stargazers_count ?? 0),
-  };
-}
+const FAVORITES_PAGE_SIZE = Number(process.env.HUNTER_FAVORITES_PAGE_SIZE ?? 20);
+const MAX_FAVORITES_PAGE_SIZE = 100;
 
 export async function GET(request: NextRequest) {
-  const limitParam = request.nextUrl.searchParams.get("limit");
-  const limit = Math.min(Number(limitParam ?? FAVORITES_LIMIT) || FAVORITES_LIMIT, 12);
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+  const params = request.nextUrl.searchParams;
+  const limit = Math.min(Number(params.get("limit") ?? FAVORITES_PAGE_SIZE) || FAVORITES_PAGE_SIZE, MAX_FAVORITES_PAGE_SIZE);
+  const offset = Math.max(Math.floor(Number(params.get("offset") ?? 0)) || 0, 0);
 
   try {
-    const redis = getRedisClient();
-    const raw = await redis.lrange(FAVORITES_KEY, 0, limit - 1);
-    const favorites: FavoriteProject[] = raw
-      .map((entry) => {
-        try {
-          return JSON.parse(entry) as FavoriteProject;
-        } catch {
-          return null;
-        }
-      })
-      .filter((entry): entry is FavoriteProject => Boolean(entry));
-
-    return NextResponse.json({ favorites });
+    const page = await listFavorites(workspace, {
+      offset,
+      limit,
+      status: parseStatus(params.get("status")),
+      tag: params.get("tag")?.trim() || undefined,
+    });
+    return NextResponse.json(page);
   } catch (error) {
+    if (error instanceof FavoritesError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
     console.error("[favorites] Failed to load favorites from Redis", error);
-    return NextResponse.json({ favorites: [] }, { status: 500 });
+    return NextResponse.json({ favorites: [], total: 0, nextOffset: null }, { status: 500 });
   }
 }
 
 export async function POST(request: NextRequest) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  let body: Record<string, unknown>;
   try {
-    const body = (await request.json()) as { project?: unknown };
-    const project = sanitizeProject(body.project);
-    if (!project) {
-      return NextResponse.json({ error: "Invalid project payload." }, { status: 422 });
-    }
+    body = (await request.json()) as Record<string, unknown>;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
 
-    const redis = getRedisClient();
-    const serialized = JSON.stringify(project);
-    await redis
-      .multi()
-      .lrem(FAVORITES_KEY, 0, serialized)
-      .lpush(FAVORITES_KEY, serialized)
-      .ltrim(FAVORITES_KEY, 0, FAVORITES_LIMIT - 1)
-      .exec();
+  const project = sanitizeProject(body?.project);
+  if (!project) {
+    return NextResponse.json(
+      { error: "Invalid project payload: id, name and url are required." },
+      { status: 422 },
+    );
+  }
 
-    return NextResponse.json({ ok: true });
+  try {
+    const { favorite, created } = await saveFavorite(workspace, project, sanitizeChanges(body));
+    return NextResponse.json({ favorite }, { status: created ? 201 : 200 });
   } catch (error) {
+    if (error instanceof FavoritesError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
     console.error("[favorites] Failed to store favorite project", error);
     return NextResponse.json({ error: "Failed to store favorite project." }, { status: 500 });
   }
 }
-
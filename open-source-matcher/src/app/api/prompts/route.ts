@@ -1,4 +1,5 @@
 import { getRedisClient } from "@/lib/redis";
+import { resolveWorkspace, unauthorized, workspaceKey } from "@/lib/workspace";
 import { NextRequest, NextResponse } from "next/server";
 
 export const runtime = "nodejs";
@@ -8,12 +9,16 @@ const PROMPT_HISTORY_KEY = process.env.HUNTER_PROMPT_HISTORY_KEY ?? "hunter:prom
 const PROMPT_HISTORY_LIMIT = Number(process.env.HUNTER_PROMPT_HISTORY_LIMIT ?? 6);
 
 export async function GET(request: NextRequest) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
   const limitParam = request.nextUrl.searchParams.get("limit");
   const limit = Math.min(Number(limitParam ?? PROMPT_HISTORY_LIMIT) || PROMPT_HISTORY_LIMIT, 15);
 
   try {
     const redis = getRedisClient();
-    const prompts = await redis.lrange(PROMPT_HISTORY_KEY, 0, limit - 1);
+    const prompts = await redis.lrange(workspaceKey(workspace, PROMPT_HISTORY_KEY), 0, limit - 1);
     return NextResponse.json({ prompts });
   } catch (error) {
     console.error("[prompts] Failed to load prompts from Redis", error);
@@ -22,6 +27,11 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
   let body: unknown = {};
 
   try {
@@ -38,11 +48,12 @@ export async function POST(request: NextRequest) {
 
   try {
     const redis = getRedisClient();
+    const key = workspaceKey(workspace, PROMPT_HISTORY_KEY);
     await redis
       .multi()
-      .lrem(PROMPT_HISTORY_KEY, 0, prompt)
-      .lpush(PROMPT_HISTORY_KEY, prompt)
-      .ltrim(PROMPT_HISTORY_KEY, 0, PROMPT_HISTORY_LIMIT - 1)
+      .lrem(key, 0, prompt)
+      .lpush(key, prompt)
+      .ltrim(key, 0, PROMPT_HISTORY_LIMIT - 1)
       .exec();
     return NextResponse.json({ ok: true });
   } catch (error) {
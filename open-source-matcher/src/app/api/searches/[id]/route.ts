@@ -0,0 +1,45 @@
+import { deleteSearch, getSearch } from "@/lib/searches";
+import { resolveWorkspace, unauthorized } from "@/lib/workspace";
+import { NextRequest, NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  try {
+    const { id } = await context.params;
+    const search = await getSearch(workspace, id);
+    if (!search) {
+      return NextResponse.json({ error: "Search not found." }, { status: 404 });
+    }
+    return NextResponse.json({ search });
+  } catch (error) {
+    console.error("[searches] Failed to load search", error);
+    return NextResponse.json({ error: "Failed to load search." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  try {
+    const { id } = await context.params;
+    if (!(await deleteSearch(workspace, id))) {
+      return NextResponse.json({ error: "Search not found." }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("[searches] Failed to delete search", error);
+    return NextResponse.json({ error: "Failed to delete search." }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { SearchHistoryError, listSearches, parseSearchQuery } from "@/lib/searches";
+import { resolveWorkspace, unauthorized } from "@/lib/workspace";
+import { NextRequest, NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const SEARCHES_PAGE_SIZE = Number(process.env.HUNTER_SEARCHES_PAGE_SIZE ?? 10);
+const MAX_SEARCHES_PAGE_SIZE = 50;
+
+/**
+ * Browses the stored search history: `offset`/`limit` paging, `topic` and `language` filters, a
+ * `from`/`to` date range and `q` for words in the prompt, summary or project names.
+ */
+export async function GET(request: NextRequest) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+  const params = request.nextUrl.searchParams;
+  const limit = Math.min(Number(params.get("limit") ?? SEARCHES_PAGE_SIZE) || SEARCHES_PAGE_SIZE, MAX_SEARCHES_PAGE_SIZE);
+  const offset = Math.max(Math.floor(Number(params.get("offset") ?? 0)) || 0, 0);
+
+  try {
+    const page = await listSearches(workspace, parseSearchQuery(params, { offset, limit }));
+    return NextResponse.json(page);
+  } catch (error) {
+    if (error instanceof SearchHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[searches] Failed to load search history from Redis", error);
+    return NextResponse.json({ searches: [], total: 0, nextOffset: null }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  AUTH_REQUIRED,
+  DEFAULT_WORKSPACE,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  SESSIONS_ENABLED,
+  createSession,
+  resolveWorkspace,
+  workspaceForToken,
+} from "@/lib/workspace";
+import { NextRequest, NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ workspace: resolveWorkspace(request), authRequired: AUTH_REQUIRED });
+}
+
+/**
+ * Exchanges an API token for a signed session cookie. The cookie is readable by the Express backend
+ * too, which is why it is SameSite=Lax rather than Strict: the backend usually runs on another port.
+ */
+export async function POST(request: NextRequest) {
+  if (!AUTH_REQUIRED) {
+    return NextResponse.json({ workspace: DEFAULT_WORKSPACE, authRequired: false });
+  }
+  if (!SESSIONS_ENABLED) {
+    return NextResponse.json(
+      { error: "Session sign-in is disabled. Set HUNTER_SESSION_SECRET or send the token as a Bearer header." },
+      { status: 503 },
+    );
+  }
+
+  let token = "";
+  try {
+    const body = (await request.json()) as { token?: unknown };
+    token = typeof body.token === "string" ? body.token : "";
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const workspace = token ? workspaceForToken(token) : null;
+  if (!workspace) {
+    return NextResponse.json({ error: "Unknown API token." }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ workspace, authRequired: true });
+  response.cookies.set(SESSION_COOKIE, createSession(workspace), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return response;
+}
+
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
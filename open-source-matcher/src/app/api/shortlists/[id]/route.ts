@@ -0,0 +1,71 @@
+import { ShortlistError, deleteShortlist, getShortlist, updateShortlist } from "@/lib/shortlists";
+import { resolveWorkspace, unauthorized } from "@/lib/workspace";
+import { NextRequest, NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  try {
+    const shortlist = await getShortlist(workspace, (await context.params).id);
+    if (!shortlist) {
+      return NextResponse.json({ error: "Shortlist not found." }, { status: 404 });
+    }
+    return NextResponse.json({ shortlist });
+  } catch (error) {
+    console.error("[shortlists] Failed to load shortlist", error);
+    return NextResponse.json({ error: "Failed to load shortlist." }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  try {
+    const shortlist = await updateShortlist(workspace, (await context.params).id, body);
+    if (!shortlist) {
+      return NextResponse.json({ error: "Shortlist not found." }, { status: 404 });
+    }
+    return NextResponse.json({ shortlist });
+  } catch (error) {
+    if (error instanceof ShortlistError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[shortlists] Failed to update shortlist", error);
+    return NextResponse.json({ error: "Failed to update shortlist." }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  try {
+    if (!(await deleteShortlist(workspace, (await context.params).id))) {
+      return NextResponse.json({ error: "Shortlist not found." }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("[shortlists] Failed to delete shortlist", error);
+    return NextResponse.json({ error: "Failed to delete shortlist." }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { ShortlistError, createShortlist, listShortlists } from "@/lib/shortlists";
+import { resolveWorkspace, unauthorized } from "@/lib/workspace";
+import { NextRequest, NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  try {
+    return NextResponse.json({ shortlists: await listShortlists(workspace) });
+  } catch (error) {
+    console.error("[shortlists] Failed to load shortlists", error);
+    return NextResponse.json({ shortlists: [] }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const workspace = resolveWorkspace(request);
+  if (!workspace) {
+    return unauthorized();
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ shortlist: await createShortlist(workspace, body) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ShortlistError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[shortlists] Failed to create shortlist", error);
+    return NextResponse.json({ error: "Failed to create shortlist." }, { status: 500 });
+  }
+}
@@ -19,7 +19,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className="antialiased">
-        <CopilotKit runtimeUrl={runtimeUrl}>
+        <CopilotKit runtimeUrl={runtimeUrl} credentials="include">
           {children}
         </CopilotKit>
       </body>
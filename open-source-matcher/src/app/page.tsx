@@ -3,26 +3,185 @@
 import React, { type DragEvent, useCallback, useEffect, useMemo, useState } from "react";
 import { CopilotKitCSSProperties, CopilotSidebar } from "@copilotkit/react-ui";
 import { useCopilotAction } from "@copilotkit/react-core";
-import { AgentState, ProjectSummary, SearchFilters, SearchResult } from "@/lib/types";
+import {
+  AgentState,
+  ComplianceStatus,
+  ContributionFeed,
+  ContributionIssue,
+  ContributionProject,
+  DependencyAudit,
+  DependencyFinding,
+  DependencyStatus,
+  DocsBadgeKind,
+  ManifestDependency,
+  PackageRegistry,
+  PackageSignal,
+  PolicyViolation,
+  ProjectCompliance,
+  ProjectComparison,
+  ProjectDocs,
+  ProjectHealth,
+  ProjectSummary,
+  ScoreBreakdown,
+  SearchCacheInfo,
+  SearchFilters,
+  SearchResult,
+  SearchHistoryPage,
+  SearchSourceInfo,
+  StoredSearch,
+} from "@/lib/types";
 import { SearchResults } from "@/components/search-results";
+import { JobProgressPanel } from "@/components/job-progress";
+import { ComparisonPanel, MAX_COMPARED_PROJECTS } from "@/components/project-comparison";
+import { WatchlistPanel, useWatchlists } from "@/components/watchlists";
+import { FavoritesPanel, useFavorites } from "@/components/favorites";
+import { WorkspaceSignIn, useWorkspace } from "@/components/workspace";
+import { ShortlistPanel, ShortlistSource, useShortlists } from "@/components/shortlists";
+import { ExportMenu } from "@/components/export-menu";
+import { DependencyAuditPanel, DependencyAuditReport } from "@/components/dependency-audit";
+import { ImportPanel } from "@/components/import-panel";
+import { SearchHistoryPanel, useSearchHistory } from "@/components/search-history";
+import { derivedProjectId, isProjectSource, projectKey } from "@/lib/forges";
+
+function normalizeStringList(value: unknown): string[] | undefined {
+  const list = Array.isArray(value) ? value.map((entry) => String(entry).trim()).filter(Boolean) : [];
+  return list.length ? list : undefined;
+}
 
 function normalizeFilters(filters: unknown): SearchFilters {
   const record = typeof filters === "object" && filters !== null ? (filters as Record<string, unknown>) : {};
   return {
     topic: String(record.topic ?? "").trim(),
     language: record.language ? String(record.language).trim() : undefined,
+    languages: normalizeStringList(record.languages),
     minStars: record.minStars != null ? Number(record.minStars) : undefined,
+    minForks: record.minForks != null ? Number(record.minForks) : undefined,
     onlyMaintained: Boolean(record.onlyMaintained),
     limit: record.limit != null ? Number(record.limit) : undefined,
+    providers: Array.isArray(record.providers) ? record.providers.filter(isProjectSource) : undefined,
+    profile: record.profile ? String(record.profile) : undefined,
+    policy: record.policy ? String(record.policy) : undefined,
+    licenses: normalizeStringList(record.licenses),
+    excludeLicenses: normalizeStringList(record.excludeLicenses),
+    topics: normalizeStringList(record.topics),
+    excludeTopics: normalizeStringList(record.excludeTopics),
+    excludeArchived: record.excludeArchived === true ? true : undefined,
+    excludeForks: record.excludeForks === true ? true : undefined,
+    excludeTemplates: record.excludeTemplates === true ? true : undefined,
+    createdAfter: record.createdAfter ? String(record.createdAfter) : undefined,
+    createdBefore: record.createdBefore ? String(record.createdBefore) : undefined,
+    ownerType: record.ownerType === "organization" || record.ownerType === "user" ? record.ownerType : undefined,
+    repositories: normalizeStringList(record.repositories),
+    dependencies: Array.isArray(record.dependencies) ? normalizeDependencies(record.dependencies) : undefined,
+    manifest: record.manifest ? String(record.manifest) : undefined,
+    contributions: record.contributions === true ? true : undefined,
+    maxIssueAgeDays: record.maxIssueAgeDays != null ? Number(record.maxIssueAgeDays) : undefined,
+  };
+}
+
+function isDependencyRecord(entry: unknown): entry is Record<string, unknown> {
+  if (typeof entry !== "object" || entry === null) {
+    return false;
+  }
+  const record = entry as Record<string, unknown>;
+  return PACKAGE_REGISTRIES.includes(record.ecosystem as PackageRegistry) && typeof record.name === "string";
+}
+
+function normalizeDependency(entry: Record<string, unknown>): ManifestDependency {
+  return {
+    ecosystem: entry.ecosystem as PackageRegistry,
+    name: String(entry.name),
+    version: entry.version != null ? String(entry.version) : undefined,
+    dev: entry.dev === true ? true : undefined,
+  };
+}
+
+function normalizeDependencies(entries: unknown[]): ManifestDependency[] {
+  return entries.filter(isDependencyRecord).map(normalizeDependency);
+}
+
+const DEPENDENCY_STATUSES: DependencyStatus[] = ["healthy", "archived", "stale", "low-score", "unresolved"];
+
+function normalizeAudit(audit: unknown): DependencyAudit | undefined {
+  if (typeof audit !== "object" || audit === null) {
+    return undefined;
+  }
+  const record = audit as Record<string, unknown>;
+  const findings = Array.isArray(record.findings) ? record.findings : [];
+  return {
+    manifest: record.manifest ? String(record.manifest) : undefined,
+    findings: findings.filter(isDependencyRecord).map(
+      (entry): DependencyFinding => ({
+        ...normalizeDependency(entry),
+        status: DEPENDENCY_STATUSES.includes(entry.status as DependencyStatus) ? (entry.status as DependencyStatus) : "unresolved",
+        reasons: Array.isArray(entry.reasons) ? entry.reasons.map(String) : [],
+        url: entry.url ? String(entry.url) : undefined,
+        score: entry.score != null && Number.isFinite(Number(entry.score)) ? Number(entry.score) : undefined,
+        alternatives: Array.isArray(entry.alternatives) ? entry.alternatives.map(normalizeProject) : [],
+        alternativesQuery: entry.alternativesQuery ? String(entry.alternativesQuery) : undefined,
+        alternativesNote: entry.alternativesNote ? String(entry.alternativesNote) : undefined,
+      }),
+    ),
+  };
+}
+
+function normalizeContributionIssue(entry: Record<string, unknown>): ContributionIssue {
+  return {
+    number: Number(entry.number ?? 0),
+    title: String(entry.title ?? ""),
+    url: String(entry.url ?? "#"),
+    labels: Array.isArray(entry.labels) ? entry.labels.map(String) : [],
+    createdAt: String(entry.createdAt ?? ""),
+    ageDays: Number(entry.ageDays ?? 0),
+    comments: Number(entry.comments ?? 0),
+    assigned: Boolean(entry.assigned),
+    score: Number(entry.score ?? 0),
+    reasons: Array.isArray(entry.reasons) ? entry.reasons.map(String) : [],
+  };
+}
+
+function normalizeContributions(feed: unknown): ContributionFeed | undefined {
+  if (typeof feed !== "object" || feed === null) {
+    return undefined;
+  }
+  const record = feed as Record<string, unknown>;
+  const projects = Array.isArray(record.projects) ? record.projects : [];
+  return {
+    labels: Array.isArray(record.labels) ? record.labels.map(String) : [],
+    maxIssueAgeDays: Number(record.maxIssueAgeDays ?? 0),
+    projects: projects
+      .filter((entry): entry is Record<string, unknown> => typeof entry === "object" && entry !== null)
+      .map(
+        (entry): ContributionProject => ({
+          name: String(entry.name ?? "Unknown project"),
+          url: String(entry.url ?? "#"),
+          source: isProjectSource(entry.source) ? entry.source : undefined,
+          responseRate:
+            entry.responseRate != null && Number.isFinite(Number(entry.responseRate)) ? Number(entry.responseRate) : null,
+          issues: Array.isArray(entry.issues)
+            ? entry.issues
+                .filter((issue): issue is Record<string, unknown> => typeof issue === "object" && issue !== null)
+                .map(normalizeContributionIssue)
+            : [],
+          note: entry.note ? String(entry.note) : undefined,
+        }),
+      ),
   };
 }
 
 function normalizeProject(project: unknown): ProjectSummary {
   const data = typeof project === "object" && project !== null ? (project as Record<string, unknown>) : {};
+  const source = isProjectSource(data.source) ? data.source : undefined;
+  const name = String(data.name ?? data.full_name ?? "Unknown project");
+  const url = String(data.url ?? data.html_url ?? "#");
   return {
-    id: Number(data.id ?? Math.random() * 1_000_000),
-    name: String(data.name ?? "Unknown project"),
-    url: String(data.url ?? data.html_url ?? "#"),
+    id:
+      data.id != null && Number.isFinite(Number(data.id))
+        ? Number(data.id)
+        : derivedProjectId(source, data.name != null || data.full_name != null ? name : url),
+    source,
+    name,
+    url,
     description: (data.description as string | undefined) ?? undefined,
     homepage: (data.homepage as string | undefined) ?? undefined,
     stars: Number(data.stars ?? data.stargazers_count ?? 0),
@@ -32,6 +191,7 @@ function normalizeProject(project: unknown): ProjectSummary {
     language: (data.language as string | undefined) ?? undefined,
     topics: Array.isArray(data.topics) ? data.topics.map(String) : [],
     license: (data.license as string | undefined) ?? undefined,
+    licenseUnknown: data.licenseUnknown === true ? true : undefined,
     lastPushedAt:
       (data.lastPushedAt as string | undefined) ??
       (data.pushed_at as string | undefined) ??
@@ -39,11 +199,152 @@ function normalizeProject(project: unknown): ProjectSummary {
       undefined,
     daysSinceUpdate: data.daysSinceUpdate != null ? Number(data.daysSinceUpdate) : undefined,
     defaultBranch: (data.defaultBranch as string | undefined) ?? (data.default_branch as string | undefined) ?? undefined,
+    owner: normalizeOwner(data.owner),
+    archived: data.archived != null ? Boolean(data.archived) : undefined,
+    fork: data.fork != null ? Boolean(data.fork) : undefined,
+    isTemplate: data.isTemplate != null ? Boolean(data.isTemplate) : undefined,
+    createdAt: (data.createdAt as string | undefined) ?? (data.created_at as string | undefined) ?? undefined,
     reasons: Array.isArray(data.reasons) ? data.reasons.map(String) : undefined,
     score: data.score != null ? Number(data.score) : undefined,
+    scoreBreakdown: normalizeScoreBreakdown(data.scoreBreakdown),
+    packages: normalizePackages(data.packages),
+    health: normalizeHealth(data.health),
+    docs: normalizeDocs(data.docs),
+    compliance: normalizeCompliance(data.compliance),
+  };
+}
+
+function normalizeHealth(health: unknown): ProjectHealth | undefined {
+  if (typeof health !== "object" || health === null) {
+    return undefined;
+  }
+  const record = health as Record<string, unknown>;
+  const nullableNumber = (value: unknown) => (value != null && Number.isFinite(Number(value)) ? Number(value) : null);
+  return {
+    commits90d: Number(record.commits90d ?? 0),
+    commitsPerWeek: nullableNumber(record.commitsPerWeek),
+    activeContributors90d: Number(record.activeContributors90d ?? 0),
+    busFactor: Number(record.busFactor ?? 0),
+    lastReleaseAt: (record.lastReleaseAt as string | undefined) ?? null,
+    releasesLastYear: Number(record.releasesLastYear ?? 0),
+    releaseCadenceDays: nullableNumber(record.releaseCadenceDays),
+    medianFirstResponseHours: nullableNumber(record.medianFirstResponseHours),
+    issuesSampled: Number(record.issuesSampled ?? 0),
+    unansweredIssues: Number(record.unansweredIssues ?? 0),
+    prMergeRate: nullableNumber(record.prMergeRate),
+    prsSampled: Number(record.prsSampled ?? 0),
+    risks: Array.isArray(record.risks) ? record.risks.map(String) : [],
+    analyzedAt: String(record.analyzedAt ?? ""),
+  };
+}
+
+const DOCS_BADGE_KINDS: DocsBadgeKind[] = ["coverage", "ci", "downloads", "version", "license", "docs", "other"];
+
+function normalizeDocs(docs: unknown): ProjectDocs | undefined {
+  if (typeof docs !== "object" || docs === null) {
+    return undefined;
+  }
+  const record = docs as Record<string, unknown>;
+  const snippets = (value: unknown) => (Array.isArray(value) ? value.map(String) : []);
+  return {
+    summary: (record.summary as string | undefined) ?? null,
+    install: snippets(record.install),
+    quickStart: snippets(record.quickStart),
+    badges: Array.isArray(record.badges)
+      ? record.badges
+          .filter((entry): entry is Record<string, unknown> => typeof entry === "object" && entry !== null)
+          .map((entry) => ({
+            kind: DOCS_BADGE_KINDS.includes(entry.kind as DocsBadgeKind) ? (entry.kind as DocsBadgeKind) : "other",
+            label: String(entry.label ?? ""),
+            image: String(entry.image ?? ""),
+          }))
+      : [],
+    docsUrl: (record.docsUrl as string | undefined) ?? null,
+    hasDocsFolder: Boolean(record.hasDocsFolder),
+    hasExamples: Boolean(record.hasExamples),
+    hasChangelog: Boolean(record.hasChangelog),
+    readmeLength: Number(record.readmeLength ?? 0),
+    quality: Number.isFinite(Number(record.quality)) ? Number(record.quality) : 0,
+    analyzedAt: String(record.analyzedAt ?? ""),
+  };
+}
+
+const COMPLIANCE_STATUSES: ComplianceStatus[] = ["compliant", "review", "violation"];
+
+function normalizeCompliance(compliance: unknown): ProjectCompliance | undefined {
+  if (typeof compliance !== "object" || compliance === null) {
+    return undefined;
+  }
+  const record = compliance as Record<string, unknown>;
+  if (!COMPLIANCE_STATUSES.includes(record.status as ComplianceStatus)) {
+    return undefined;
+  }
+  return {
+    policy: String(record.policy ?? ""),
+    status: record.status as ComplianceStatus,
+    violations: Array.isArray(record.violations)
+      ? record.violations
+          .filter((entry): entry is Record<string, unknown> => typeof entry === "object" && entry !== null)
+          .map((entry) => ({
+            rule: String(entry.rule ?? "") as PolicyViolation["rule"],
+            severity: entry.severity === "warning" ? "warning" : "error",
+            message: String(entry.message ?? ""),
+          }))
+      : [],
+  };
+}
+
+function normalizeOwner(owner: unknown): ProjectSummary["owner"] {
+  if (typeof owner !== "object" || owner === null) {
+    return undefined;
+  }
+  const record = owner as Record<string, unknown>;
+  return {
+    login: record.login ? String(record.login) : undefined,
+    url: record.url ? String(record.url) : undefined,
+    type: record.type ? String(record.type) : undefined,
+  };
+}
+
+function normalizeScoreBreakdown(breakdown: unknown): ScoreBreakdown | undefined {
+  if (typeof breakdown !== "object" || breakdown === null) {
+    return undefined;
+  }
+  const record = breakdown as Record<string, unknown>;
+  const components = typeof record.components === "object" && record.components !== null ? record.components : {};
+  return {
+    profile: String(record.profile ?? "balanced"),
+    components: Object.fromEntries(
+      Object.entries(components)
+        .filter(([, value]) => Number.isFinite(Number(value)))
+        .map(([component, value]) => [component, Number(value)]),
+    ) as ScoreBreakdown["components"],
   };
 }
 
+const PACKAGE_REGISTRIES: PackageRegistry[] = ["npm", "pypi", "crates", "go"];
+
+function normalizePackages(packages: unknown): PackageSignal[] | undefined {
+  if (!Array.isArray(packages)) {
+    return undefined;
+  }
+  const optionalNumber = (value: unknown) => (value != null && Number.isFinite(Number(value)) ? Number(value) : undefined);
+  return packages
+    .filter((entry): entry is Record<string, unknown> => typeof entry === "object" && entry !== null)
+    .filter((entry) => PACKAGE_REGISTRIES.includes(entry.registry as PackageRegistry) && typeof entry.name === "string")
+    .map((entry) => ({
+      registry: entry.registry as PackageRegistry,
+      name: String(entry.name),
+      url: String(entry.url ?? "#"),
+      latestVersion: (entry.latestVersion as string | undefined) ?? undefined,
+      releasedAt: (entry.releasedAt as string | undefined) ?? undefined,
+      weeklyDownloads: optionalNumber(entry.weeklyDownloads),
+      monthlyDownloads: optionalNumber(entry.monthlyDownloads),
+      dependents: optionalNumber(entry.dependents),
+      directDependents: optionalNumber(entry.directDependents),
+    }));
+}
+
 function normalizeResult(result: unknown): SearchResult {
   const data = typeof result === "object" && result !== null ? (result as Record<string, unknown>) : {};
   const filters = normalizeFilters(data.filters);
@@ -57,15 +358,83 @@ function normalizeResult(result: unknown): SearchResult {
     generatedAt: (data.generatedAt as string | undefined) ?? new Date().toISOString(),
     totalFetched: Number(data.totalFetched ?? projects.length),
     projects,
+    sources: normalizeSourceInfo(data.sources),
+    cache: normalizeCacheInfo(data.cache),
+    skipped: normalizeSkipped(data.skipped),
+    audit: normalizeAudit(data.audit),
+    contributions: normalizeContributions(data.contributions),
+  };
+}
+
+function normalizeSkipped(skipped: unknown): SearchResult["skipped"] {
+  if (!Array.isArray(skipped)) {
+    return undefined;
+  }
+  return skipped
+    .filter((entry): entry is Record<string, unknown> => typeof entry === "object" && entry !== null)
+    .map((entry) => ({ url: String(entry.url ?? ""), reason: String(entry.reason ?? "") }));
+}
+
+function normalizeSourceInfo(sources: unknown): SearchSourceInfo[] | undefined {
+  if (!Array.isArray(sources)) {
+    return undefined;
+  }
+  return sources
+    .filter((entry): entry is Record<string, unknown> => typeof entry === "object" && entry !== null)
+    .filter((entry) => isProjectSource(entry.id))
+    .map((entry) => ({
+      id: entry.id as SearchSourceInfo["id"],
+      label: String(entry.label ?? entry.id),
+      totalFetched: Number(entry.totalFetched ?? 0),
+      cache: normalizeCacheInfo(entry.cache),
+      error: typeof entry.error === "string" ? entry.error : undefined,
+    }));
+}
+
+function normalizeCacheInfo(cache: unknown): SearchCacheInfo | undefined {
+  if (typeof cache !== "object" || cache === null) {
+    return undefined;
+  }
+  const record = cache as Record<string, unknown>;
+  const search = record.search === "hit" || record.search === "revalidated" ? record.search : "miss";
+  return {
+    search,
+    fetchedAt: String(record.fetchedAt ?? ""),
+    enrichmentHits: record.enrichmentHits != null ? Number(record.enrichmentHits) : undefined,
   };
 }
 
 export default function OpenSourceHunterPage() {
+  const { session, signOut } = useWorkspace();
+  if (!session) {
+    return null;
+  }
+  if (session.authRequired && !session.workspace) {
+    return <WorkspaceSignIn />;
+  }
+  return <HunterWorkspace workspace={session.authRequired ? session.workspace : null} onSignOut={signOut} />;
+}
+
+/**
+ * Everything below is scoped to one workspace: favorites, prompt history and jobs all come from it.
+ * `workspace` is `null` on single-tenant deployments, where there is nothing to sign out of.
+ */
+function HunterWorkspace({ workspace, onSignOut }: { workspace: string | null; onSignOut: () => void }) {
   const [themeColor, setThemeColor] = useState("#0f172a");
   const [state, setState] = useState<AgentState>({ searches: [] });
   const [suggestions, setSuggestions] = useState<SidebarSuggestion[]>(FALLBACK_SUGGESTIONS);
-  const [favoriteProjects, setFavoriteProjects] = useState<ProjectSummary[]>([]);
+  const favorites = useFavorites();
+  const { favorites: savedFavorites, saveFavorite } = favorites;
+  const favoriteProjects = useMemo(
+    () =>
+      savedFavorites
+        .filter((favorite) => favorite.status !== "rejected")
+        .slice(0, FAVORITES_LIMIT)
+        .map((favorite) => normalizeProject(favorite.project)),
+    [savedFavorites],
+  );
   const [copilotResult, setCopilotResult] = useState<SearchResult | null>(null);
+  const [comparison, setComparison] = useState<ProjectComparison>({ projects: [] });
   const favoritesFeed = useMemo(() => {
     if (!favoriteProjects.length) {
       return null;
@@ -87,44 +456,19 @@ export default function OpenSourceHunterPage() {
     });
   }, []);
 
-  useEffect(() => {
-    let cancelled = false;
-    async function loadFavorites() {
-      try {
-        const response = await fetch(`/api/favorites?limit=${FAVORITES_LIMIT}`, { cache: "no-store" });
-        if (!response.ok) {
-          return;
-        }
-        const data = (await response.json()) as { favorites?: unknown[] };
-        if (!cancelled && Array.isArray(data.favorites)) {
-          const normalized = data.favorites.map((entry) => normalizeProject(entry)).slice(0, FAVORITES_LIMIT);
-          setFavoriteProjects(normalized);
-        }
-      } catch (error) {
-        console.warn("[favorites] Failed to load favorites", error);
-      }
-    }
-    loadFavorites();
-    return () => {
-      cancelled = true;
-    };
-  }, []);
-
-  const handleDropResult = useCallback((payload: string) => {
-    try {
-      const parsed = JSON.parse(payload);
-      const normalized = normalizeResult(parsed);
-      setState((prev) => {
-        const filtered = prev.searches.filter((entry) => entry.jobId !== normalized.jobId);
-        const nextSearches = [normalized, ...filtered];
-        return {
-          searches: nextSearches.slice(0, 6),
-          activeJobId: normalized.jobId,
-        };
-      });
-    } catch (error) {
-      console.error("Failed to import dropped result", error);
+  // Imports arrive already validated by `parseSearchResults` or as a finished repository-list job.
+  const handleImportResults = useCallback((results: SearchResult[]) => {
+    if (!results.length) {
+      return;
     }
+    setState((prev) => {
+      const imported = new Set(results.map((entry) => entry.jobId));
+      const nextSearches = [...results, ...prev.searches.filter((entry) => !imported.has(entry.jobId))];
+      return {
+        searches: nextSearches.slice(0, 6),
+        activeJobId: results[0].jobId,
+      };
+    });
   }, []);
 
   const rememberPrompt = useCallback(
@@ -163,19 +507,30 @@ export default function OpenSourceHunterPage() {
       description: fallbackDescription,
     };
 
-    setFavoriteProjects((prev) => {
-      const filtered = prev.filter((entry) => entry.id !== sanitized.id);
-      const next = [sanitized, ...filtered].slice(0, FAVORITES_LIMIT);
-      return next;
-    });
+    saveFavorite(sanitized);
+  }, [saveFavorite]);
 
-    fetch("/api/favorites", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ project: sanitized }),
-    }).catch((error) => {
-      console.warn("[favorites] Failed to persist project", error);
-    });
+  const handleDropProject = useCallback((payload: string) => {
+    try {
+      const project = normalizeProject(JSON.parse(payload));
+      setComparison((prev) => {
+        if (prev.projects.some((entry) => projectKey(entry) === projectKey(project))) {
+          return prev;
+        }
+        // The assistant's trade-off summary no longer matches once the set of projects changes.
+        return { projects: [...prev.projects, project].slice(0, MAX_COMPARED_PROJECTS) };
+      });
+    } catch (error) {
+      console.error("Failed to add dropped project to the comparison", error);
+    }
+  }, []);
+
+  const handleRemoveCompared = useCallback((project: ProjectSummary) => {
+    setComparison((prev) => ({ projects: prev.projects.filter((entry) => projectKey(entry) !== projectKey(project)) }));
+  }, []);
+
+  const handleClearComparison = useCallback(() => {
+    setComparison({ projects: [] });
   }, []);
 
   const handleProjectSelect = useCallback(
@@ -263,6 +618,21 @@ export default function OpenSourceHunterPage() {
               { name: "minStars", type: "number", required: false },
               { name: "onlyMaintained", type: "boolean", required: false },
               { name: "limit", type: "number", required: false },
+              { name: "providers", type: "string[]", required: false },
+              { name: "profile", type: "string", required: false },
+              { name: "policy", type: "string", required: false },
+              { name: "languages", type: "string[]", required: false },
+              { name: "minForks", type: "number", required: false },
+              { name: "licenses", type: "string[]", required: false },
+              { name: "excludeLicenses", type: "string[]", required: false },
+              { name: "topics", type: "string[]", required: false },
+              { name: "excludeTopics", type: "string[]", required: false },
+              { name: "excludeArchived", type: "boolean", required: false },
+              { name: "excludeForks", type: "boolean", required: false },
+              { name: "excludeTemplates", type: "boolean", required: false },
+              { name: "createdAfter", type: "string", required: false },
+              { name: "createdBefore", type: "string", required: false },
+              { name: "ownerType", type: "string", required: false },
             ],
           },
           {
@@ -271,6 +641,7 @@ export default function OpenSourceHunterPage() {
             required: true,
             attributes: [
               { name: "id", type: "number", required: false },
+              { name: "source", type: "string", required: false },
               { name: "name", type: "string", required: true },
               { name: "url", type: "string", required: true },
               { name: "description", type: "string", required: false },
@@ -295,9 +666,63 @@ export default function OpenSourceHunterPage() {
     },
   });
 
+  useCopilotAction({
+    name: "compareProjects",
+    description: `Open a side-by-side comparison of 2–${MAX_COMPARED_PROJECTS} projects from the stored search results (stars, forks, freshness, license, open issues, score components and topics) and show a trade-off summary next to it.`,
+    parameters: [
+      {
+        name: "projects",
+        type: "object[]",
+        description: "Projects to compare, identified by the name (owner/repo) and url from the search results.",
+        required: true,
+        attributes: [
+          { name: "name", type: "string", required: true },
+          { name: "url", type: "string", required: false },
+          { name: "source", type: "string", required: false },
+        ],
+      },
+      {
+        name: "summary",
+        type: "string",
+        description: "Short trade-off summary: where each project wins, what it costs, and which one you would pick for what.",
+        required: true,
+      },
+    ],
+    handler: ({ projects, summary }) => {
+      const requested = Array.isArray(projects) ? projects : [];
+      if (requested.length < 2 || requested.length > MAX_COMPARED_PROJECTS) {
+        throw new Error(`Pick between 2 and ${MAX_COMPARED_PROJECTS} projects to compare.`);
+      }
+      const known = [...state.searches, ...(copilotResult ? [copilotResult] : [])]
+        .flatMap((entry) => entry.projects)
+        .concat(favoriteProjects);
+      const missing: string[] = [];
+      const resolved = requested.flatMap((entry) => {
+        const name = String(entry.name ?? "").trim().toLowerCase();
+        const url = String(entry.url ?? "").trim().toLowerCase();
+        const match = known.find(
+          (project) => (url && project.url.toLowerCase() === url) || project.name.toLowerCase() === name,
+        );
+        if (!match) {
+          missing.push(String(entry.name ?? entry.url));
+          return [];
+        }
+        return [match];
+      });
+      if (missing.length) {
+        throw new Error(`Unable to compare ${missing.join(", ")} because they are not in the stored search results.`);
+      }
+      const unique = resolved.filter(
+        (project, index) => resolved.findIndex((entry) => projectKey(entry) === projectKey(project)) === index,
+      );
+      setComparison({ projects: unique, summary: typeof summary === "string" ? summary.trim() || undefined : undefined });
+    },
+  });
+
   useCopilotAction({
     name: "focusStoredSearch",
-    description: "Swap the dashboard to display a previously stored search result.",
+    description:
+      "Swap the dashboard to display a previously stored search result. Searches that are not on screen are loaded from the search history.",
     parameters: [
       {
         name: "jobId",
@@ -306,17 +731,93 @@ export default function OpenSourceHunterPage() {
         required: true,
       },
     ],
-    handler: ({ jobId }) => {
+    handler: async ({ jobId }) => {
       const trimmed = typeof jobId === "string" ? jobId.trim() : "";
       if (!trimmed) {
         throw new Error("A non-empty jobId is required to focus a stored search result.");
       }
       const exists = state.searches.some((entry) => entry.jobId === trimmed);
-      if (!exists) {
+      if (exists) {
+        setActiveSearch(trimmed);
+        return;
+      }
+
+      const response = await fetch(`/api/searches/${encodeURIComponent(trimmed)}`, { cache: "no-store" });
+      if (!response.ok) {
         throw new Error(`Unable to focus job "${trimmed}" because it is not in the stored search history.`);
       }
+      const { search } = (await response.json()) as { search: StoredSearch };
+      handleImportResults([search]);
+    },
+  });
 
-      setActiveSearch(trimmed);
+  useCopilotAction({
+    name: "showDependencyAudit",
+    description:
+      "Show a finished dependency audit (from the auditDependencies action) in the dashboard: flagged dependencies, their reasons and suggested alternatives.",
+    parameters: [
+      {
+        name: "jobId",
+        type: "string",
+        description: "Job id returned by auditDependencies.",
+        required: true,
+      },
+    ],
+    handler: async ({ jobId }) => {
+      const trimmed = typeof jobId === "string" ? jobId.trim() : "";
+      if (!trimmed) {
+        throw new Error("A non-empty jobId is required to show a dependency audit.");
+      }
+      const response = await fetch(`/api/searches/${encodeURIComponent(trimmed)}`, { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error(`Unable to show audit "${trimmed}" because it is not in the stored search history.`);
+      }
+      const { search } = (await response.json()) as { search: StoredSearch };
+      if (!search.audit) {
+        throw new Error(`Job "${trimmed}" is a search, not a dependency audit; use focusStoredSearch instead.`);
+      }
+      handleImportResults([search]);
+    },
+  });
+
+  useCopilotAction({
+    name: "findStoredSearches",
+    description:
+      "Look up earlier searches in the stored search history, newest first, e.g. \"the hunt for queue libraries last month\". Returns job ids that focusStoredSearch can display.",
+    parameters: [
+      {
+        name: "query",
+        type: "string",
+        description: "Words to find in the topic, original prompt, summary or project names.",
+        required: false,
+      },
+      { name: "language", type: "string", description: "Only searches involving this language.", required: false },
+      { name: "from", type: "string", description: "Earliest completion date (YYYY-MM-DD).", required: false },
+      { name: "to", type: "string", description: "Latest completion date (YYYY-MM-DD).", required: false },
+    ],
+    handler: async ({ query, language, from, to }) => {
+      const params = new URLSearchParams({ limit: "10" });
+      Object.entries({ q: query, language, from, to }).forEach(([key, value]) => {
+        if (typeof value === "string" && value.trim()) {
+          params.set(key, value.trim());
+        }
+      });
+      const response = await fetch(`/api/searches?${params}`, { cache: "no-store" });
+      const page = (await response.json()) as SearchHistoryPage & { error?: string };
+      if (!response.ok) {
+        throw new Error(page.error ?? `Search history lookup failed with ${response.status}`);
+      }
+      return {
+        total: page.total,
+        searches: page.searches.map((search) => ({
+          jobId: search.jobId,
+          topic: search.filters.topic,
+          prompt: search.prompt,
+          generatedAt: search.generatedAt,
+          summary: search.summary,
+          projects: search.projects.slice(0, 5).map((project) => project.name),
+        })),
+      };
     },
   });
 
@@ -343,6 +844,21 @@ export default function OpenSourceHunterPage() {
                 { name: "minStars", type: "number", required: false },
                 { name: "onlyMaintained", type: "boolean", required: false },
                 { name: "limit", type: "number", required: false },
+                { name: "providers", type: "string[]", required: false },
+                { name: "profile", type: "string", required: false },
+                { name: "policy", type: "string", required: false },
+                { name: "languages", type: "string[]", required: false },
+                { name: "minForks", type: "number", required: false },
+                { name: "licenses", type: "string[]", required: false },
+                { name: "excludeLicenses", type: "string[]", required: false },
+                { name: "topics", type: "string[]", required: false },
+                { name: "excludeTopics", type: "string[]", required: false },
+                { name: "excludeArchived", type: "boolean", required: false },
+                { name: "excludeForks", type: "boolean", required: false },
+                { name: "excludeTemplates", type: "boolean", required: false },
+                { name: "createdAfter", type: "string", required: false },
+                { name: "createdBefore", type: "string", required: false },
+                { name: "ownerType", type: "string", required: false },
               ],
             },
             {
@@ -351,6 +867,7 @@ export default function OpenSourceHunterPage() {
               required: true,
               attributes: [
                 { name: "id", type: "number", required: false },
+                { name: "source", type: "string", required: false },
                 { name: "name", type: "string", required: true },
                 { name: "url", type: "string", required: true },
               ],
@@ -387,15 +904,6 @@ export default function OpenSourceHunterPage() {
     return state.searches[0];
   }, [state.searches, state.activeJobId]);
 
-  const activeId = activeResult?.jobId;
-
-  const previousSearches = useMemo(() => {
-    if (!state.searches.length) {
-      return [];
-    }
-    return state.searches.filter((entry) => entry.jobId !== activeId).slice(0, 6);
-  }, [state.searches, activeId]);
-
   useEffect(() => {
     if (state.searches.length) {
       const latest = state.searches[0];
@@ -405,14 +913,10 @@ export default function OpenSourceHunterPage() {
     }
   }, [state.searches, copilotResult]);
 
-  const handleSelectSearch = useCallback((jobId: string) => {
-    setActiveSearch(jobId);
-  }, [setActiveSearch]);
-
   return (
     <main style={{ "--copilot-kit-primary-color": themeColor } as CopilotKitCSSProperties}>
       <CopilotSidebar
-        instructions={buildInstructionsWithFavorites(favoriteProjects)}
+        instructions={`${buildInstructionsWithFavorites(favoriteProjects)}${describeComparison(comparison)}`}
         labels={{
           title: "Open Source Hunter",
           initial: "👋 Ready to hunt for standout open-source projects!",
@@ -422,12 +926,19 @@ export default function OpenSourceHunterPage() {
       >
         <Dashboard
           active={activeResult}
-          history={previousSearches}
+          latestJobId={state.searches[0]?.jobId}
           themeColor={themeColor}
-          onSelectSearch={handleSelectSearch}
-          onDropResult={handleDropResult}
+          onImportResults={handleImportResults}
           copilotResult={copilotResult}
           onProjectSelect={handleProjectSelect}
+          comparison={comparison}
+          onDropProject={handleDropProject}
+          onRemoveCompared={handleRemoveCompared}
+          onClearComparison={handleClearComparison}
+          favorites={favorites}
+          favoritesFeed={favoritesFeed}
+          workspace={workspace}
+          onSignOut={onSignOut}
         />
       </CopilotSidebar>
     </main>
@@ -443,7 +954,7 @@ const PROMPT_SUGGESTION_LIMIT = Number(process.env.NEXT_PUBLIC_PROMPT_HISTORY_LI
 const FAVORITES_LIMIT = Number(process.env.NEXT_PUBLIC_FAVORITES_LIMIT ?? 6);
 const FAVORITES_FEED_ID = "favorites-feed";
 const BASE_INSTRUCTIONS =
-  "You are Open Source Hunter, an AI analyst that scouts, compares, and summarizes open-source projects for the user. Personalize suggestions using any stored preferences.";
+  "You are Open Source Hunter, an AI analyst that scouts, compares, and summarizes open-source projects for the user. Personalize suggestions using any stored preferences. Each result is checked against the team policy: point out projects whose compliance status is violation or review and explain why.";
 
 const FALLBACK_SUGGESTIONS: SidebarSuggestion[] = [
   {
@@ -472,8 +983,6 @@ function promptToSuggestion(prompt: string): SidebarSuggestion {
   };
 }
 
-const HISTORY_BUTTON_TYPE: React.ButtonHTMLAttributes<HTMLButtonElement>["type"] = "button";
-
 function buildInstructionsWithFavorites(favorites: ProjectSummary[]): string {
   if (!favorites.length) {
     return BASE_INSTRUCTIONS;
@@ -493,7 +1002,15 @@ function buildInstructionsWithFavorites(favorites: ProjectSummary[]): string {
     })
     .join("\n");
 
-  return `${BASE_INSTRUCTIONS}\n\nUser recently clicked and saved these standout projects:\n${highlights}\n\nUse them as retrieval context when ranking and describing future recommendations.`;
+  return `${BASE_INSTRUCTIONS}\n\nUser saved these standout projects to their favorites:\n${highlights}\n\nUse them as retrieval context when ranking and describing future recommendations.`;
+}
+
+function describeComparison(comparison: ProjectComparison): string {
+  if (!comparison.projects.length) {
+    return "";
+  }
+  const names = comparison.projects.map((project) => project.name).join(", ");
+  return `\n\nThe comparison panel currently shows: ${names}. Call compareProjects to add a trade-off summary or change the selection.`;
 }
 
 function buildFavoritesFeed(projects: ProjectSummary[]): SearchResult {
@@ -517,26 +1034,61 @@ function buildFavoritesFeed(projects: ProjectSummary[]): SearchResult {
 
 function Dashboard({
   active,
-  history,
+  latestJobId,
   themeColor,
-  onSelectSearch,
-  onDropResult,
+  onImportResults,
   copilotResult,
   onProjectSelect,
+  comparison,
+  onDropProject,
+  onRemoveCompared,
+  onClearComparison,
+  favorites,
+  favoritesFeed,
+  workspace,
+  onSignOut,
 }: {
   active: SearchResult | null;
-  history: SearchResult[];
+  latestJobId?: string;
   themeColor: string;
-  onSelectSearch: (jobId: string) => void;
-  onDropResult: (payload: string) => void;
+  onImportResults: (results: SearchResult[]) => void;
   copilotResult: SearchResult | null;
   onProjectSelect: (project: ProjectSummary) => void;
+  comparison: ProjectComparison;
+  onDropProject: (payload: string) => void;
+  onRemoveCompared: (project: ProjectSummary) => void;
+  onClearComparison: () => void;
+  favorites: ReturnType<typeof useFavorites>;
+  favoritesFeed: SearchResult | null;
+  workspace: string | null;
+  onSignOut: () => void;
 }) {
   const copilotTopicLabel = copilotResult?.filters.topic ?? "";
   const showCopilotFeed = Boolean(copilotResult && copilotResult.jobId !== active?.jobId);
   const showCopilotPlaceholder = !copilotResult && !active;
-  const totalStored = history.length + (active ? 1 : 0);
-  const showSummaryCard = Boolean(active || totalStored);
+  const searchHistory = useSearchHistory(latestJobId);
+  const totalStored = searchHistory.total;
+  const showSummaryCard = Boolean(active || totalStored || workspace);
+  const { watches, error: watchError, watchSearch, runNow, removeWatch } = useWatchlists();
+  const isWatched = Boolean(active && watches.some((watch) => watch.filters.topic === active.filters.topic));
+  const { shortlists, error: shortlistError, createShortlist, revokeShortlist, rotateShortlistLink, removeShortlist } =
+    useShortlists();
+  const shortlistSources = useMemo(() => {
+    const sources: ShortlistSource[] = [];
+    if (comparison.projects.length) {
+      sources.push({
+        id: "comparison",
+        label: "Compared projects",
+        projects: comparison.projects,
+        filters: active && active.jobId !== FAVORITES_FEED_ID ? active.filters : { topic: "Comparison" },
+        rationale: comparison.summary,
+      });
+    }
+    if (active && active.jobId !== FAVORITES_FEED_ID && active.projects.length) {
+      sources.push({ id: active.jobId, label: active.filters.topic, projects: active.projects, filters: active.filters });
+    }
+    return sources;
+  }, [active, comparison]);
 
   return (
     <div
@@ -561,6 +1113,17 @@ function Dashboard({
             {showSummaryCard && (
               <div className="rounded-2xl bg-slate-800/70 px-6 py-4 text-sm text-slate-300/80 shadow-inner">
                 <dl className="space-y-2">
+                  {workspace && (
+                    <div className="flex items-center justify-between gap-8">
+                      <dt className="uppercase tracking-wide text-slate-500">Workspace</dt>
+                      <dd className="flex items-center gap-3 text-slate-100">
+                        {workspace}
+                        <button type="button" onClick={onSignOut} className="text-xs text-slate-400 hover:text-rose-300">
+                          Sign out
+                        </button>
+                      </dd>
+                    </div>
+                  )}
                   {active && (
                     <div className="flex items-center justify-between gap-8">
                       <dt className="uppercase tracking-wide text-slate-500">Selected search</dt>
@@ -579,6 +1142,16 @@ function Dashboard({
           </div>
         </header>
 
+        <JobProgressPanel />
+
+        <ComparisonPanel
+          projects={comparison.projects}
+          summary={comparison.summary}
+          onDropProject={onDropProject}
+          onRemove={onRemoveCompared}
+          onClear={onClearComparison}
+        />
+
         {(showCopilotFeed || showCopilotPlaceholder) && (
           <section className="space-y-4">
             <header className="flex items-center justify-between">
@@ -586,7 +1159,10 @@ function Dashboard({
                 <p className="text-xs uppercase tracking-[0.3em] text-slate-500/80">Copilot feed</p>
                 <h2 className="text-xl font-semibold text-slate-100">Latest AI-picked projects</h2>
               </div>
-              {copilotTopicLabel ? <span className="text-xs text-slate-400">{copilotTopicLabel}</span> : null}
+              <div className="flex items-center gap-4">
+                {copilotTopicLabel ? <span className="text-xs text-slate-400">{copilotTopicLabel}</span> : null}
+                {showCopilotFeed && copilotResult && <ExportMenu results={[copilotResult]} />}
+              </div>
             </header>
             {showCopilotFeed ? (
               <SearchResults result={copilotResult} onProjectSelect={onProjectSelect} enableDrag />
@@ -605,78 +1181,61 @@ function Dashboard({
                 <p className="text-xs uppercase tracking-[0.3em] text-slate-500/80">Dashboard focus</p>
                 <h2 className="text-xl font-semibold text-slate-100">{active.filters.topic}</h2>
               </div>
-              <span className="text-xs text-slate-400">
-                {active.generatedAt ? new Date(active.generatedAt).toLocaleString() : ""}
-              </span>
+              <div className="flex items-center gap-4">
+                <span className="text-xs text-slate-400">
+                  {active.generatedAt ? new Date(active.generatedAt).toLocaleString() : ""}
+                </span>
+                <ExportMenu results={[active]} />
+                {active.jobId !== FAVORITES_FEED_ID && (
+                  <button
+                    type="button"
+                    disabled={isWatched}
+                    onClick={() => watchSearch(active.filters)}
+                    className="rounded-full bg-sky-500/10 px-3 py-1 text-xs font-medium text-sky-200 hover:bg-sky-500/20 disabled:cursor-default disabled:opacity-60"
+                  >
+                    {isWatched ? "Watching" : "Watch daily"}
+                  </button>
+                )}
+              </div>
             </header>
+            {active.audit && <DependencyAuditReport result={active} />}
             <SearchResults result={active} onProjectSelect={onProjectSelect} />
           </section>
         )}
 
-        <HistoryPanel history={history} onSelect={onSelectSearch} />
-      </div>
-    </div>
-  );
-}
+        <ShortlistPanel
+          shortlists={shortlists}
+          error={shortlistError}
+          sources={shortlistSources}
+          onCreate={createShortlist}
+          onRevoke={revokeShortlist}
+          onRotate={rotateShortlistLink}
+          onRemove={removeShortlist}
+        />
 
-function HistoryPanel({ history, onSelect }: { history: SearchResult[]; onSelect: (jobId: string) => void }) {
-  if (!history.length) {
-    return null;
-  }
+        <FavoritesPanel
+          favorites={favorites.favorites}
+          total={favorites.total}
+          hasMore={favorites.hasMore}
+          error={favorites.error}
+          onLoadMore={favorites.loadMore}
+          onUpdate={favorites.updateFavorite}
+          onRemove={favorites.removeFavorite}
+          exportFeed={favoritesFeed}
+        />
 
-  return (
-    <section className="space-y-4">
-      <div className="flex items-center justify-between">
-        <h3 className="text-lg font-semibold text-slate-100">Recent Hunts</h3>
-        <span className="text-sm text-slate-300/80">Last {history.length} searches</span>
-      </div>
-      <div className="grid gap-3 md:grid-cols-2">
-        {history.map((entry) => (
-          <button
-            key={entry.jobId}
-            type={HISTORY_BUTTON_TYPE}
-            onClick={() => onSelect(entry.jobId)}
-            draggable
-            onDragStart={(event: React.DragEvent<HTMLButtonElement>) => {
-              const payload = JSON.stringify(entry);
-              event.dataTransfer.setData("application/x-open-source-hunt-result", payload);
-              event.dataTransfer.setData("text/plain", payload);
-              event.dataTransfer.effectAllowed = "copyMove";
-            }}
-            className="rounded-xl bg-slate-900/60 p-5 text-left ring-1 ring-slate-800/60 transition hover:-translate-y-0.5 hover:ring-sky-500/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70"
-          >
-            <header className="space-y-2">
-              <p className="text-xs uppercase tracking-wide text-slate-500">{entry.generatedAt ? new Date(entry.generatedAt).toLocaleString() : "Time unknown"}</p>
-              <h4 className="text-lg font-semibold text-slate-100">{entry.filters.topic}</h4>
-            </header>
-            <p className="mt-2 text-sm text-slate-300/85">{entry.summary}</p>
-            <dl className="mt-4 grid grid-cols-2 gap-y-2 text-xs text-slate-400/90">
-              <div>
-                <dt className="uppercase tracking-wide">Language</dt>
-                <dd className="text-slate-200">{entry.filters.language ?? "Any"}</dd>
-              </div>
-              <div>
-                <dt className="uppercase tracking-wide">Min stars</dt>
-                <dd className="text-slate-200">{entry.filters.minStars ?? "Any"}</dd>
-              </div>
-              <div>
-                <dt className="uppercase tracking-wide">Maintained</dt>
-                <dd className="text-slate-200">{entry.filters.onlyMaintained ? "Yes" : "No"}</dd>
-              </div>
-              <div>
-                <dt className="uppercase tracking-wide">Projects shown</dt>
-                <dd className="text-slate-200">{entry.projects.length}</dd>
-              </div>
-            </dl>
-            <span className="mt-4 inline-flex items-center gap-2 text-sm font-medium text-sky-300/80">
-              View in main panel
-              <span aria-hidden={true} className="text-base leading-none">
-                ↗
-              </span>
-            </span>
-          </button>
-        ))}
+        <WatchlistPanel watches={watches} error={watchError} onRunNow={runNow} onRemove={removeWatch} />
+
+        <ImportPanel onImport={onImportResults} />
+
+        <DependencyAuditPanel onAudited={onImportResults} />
+
+        <SearchHistoryPanel
+          history={searchHistory}
+          activeJobId={active?.jobId}
+          onOpen={(search) => onImportResults([search])}
+        />
       </div>
-    </section>
+    </div>
   );
 }
@@ -0,0 +1,58 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { SearchResults } from "@/components/search-results";
+import { readSharedShortlist } from "@/lib/shortlists";
+import { SearchResult } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+type PageProps = { params: Promise<{ token: string }> };
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const shortlist = await readSharedShortlist((await params).token);
+  return {
+    title: shortlist ? `${shortlist.title} · Open Source Hunter` : "Shortlist not found",
+    // Links are unguessable but not secret from crawlers that stumble on them.
+    robots: { index: false, follow: false },
+    referrer: "no-referrer",
+  };
+}
+
+/**
+ * Read-only view of a shared shortlist. It needs no session: the token in the URL is the only key.
+ */
+export default async function SharedShortlistPage({ params }: PageProps) {
+  const shortlist = await readSharedShortlist((await params).token);
+  if (!shortlist) {
+    notFound();
+  }
+
+  const result: SearchResult = {
+    jobId: `shortlist-${shortlist.id}`,
+    summary:
+      shortlist.projects.length === 1 ? "1 shortlisted project" : `${shortlist.projects.length} shortlisted projects`,
+    filters: shortlist.filters,
+    generatedAt: shortlist.createdAt,
+    totalFetched: shortlist.projects.length,
+    projects: shortlist.projects,
+  };
+
+  return (
+    <main className="min-h-screen w-full bg-slate-950">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-10 px-6 py-12">
+        <header className="space-y-4 rounded-2xl bg-slate-900/70 p-8 shadow-xl ring-1 ring-slate-800/60">
+          <p className="text-sm uppercase tracking-[0.3em] text-sky-300/80">Shared shortlist</p>
+          <h1 className="text-3xl font-semibold text-slate-100">{shortlist.title}</h1>
+          {shortlist.rationale && (
+            <p className="max-w-3xl whitespace-pre-line text-slate-300/85">{shortlist.rationale}</p>
+          )}
+          <p className="text-xs text-slate-500">
+            Last updated {new Date(shortlist.updatedAt).toUTCString()}
+            {shortlist.expiresAt ? ` · link expires ${new Date(shortlist.expiresAt).toUTCString()}` : ""}
+          </p>
+        </header>
+        <SearchResults result={result} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import React from "react";
+import { sourceLabel } from "@/lib/forges";
+import { ContributionFeed, ContributionIssue } from "@/lib/types";
+
+function scoreTone(score: number) {
+  if (score >= 7) {
+    return "bg-emerald-500/15 text-emerald-200";
+  }
+  return score >= 4 ? "bg-amber-500/10 text-amber-100" : "bg-slate-700/60 text-slate-300";
+}
+
+function IssueRow({ issue }: { issue: ContributionIssue }) {
+  return (
+    <li className="flex gap-3 rounded-lg bg-slate-950/40 p-3">
+      <span className={`h-fit rounded-full px-2 py-0.5 text-xs font-semibold ${scoreTone(issue.score)}`}>
+        {issue.score.toFixed(1)}
+      </span>
+      <div className="min-w-0 space-y-1">
+        <a
+          href={issue.url}
+          target="_blank"
+          rel="noreferrer"
+          className="block truncate text-sm font-medium text-slate-100 hover:text-sky-200"
+        >
+          #{issue.number} {issue.title}
+        </a>
+        <div className="flex flex-wrap gap-1.5">
+          {issue.labels.map((label) => (
+            <span key={label} className="rounded-full bg-slate-800/80 px-2 py-0.5 text-[11px] text-slate-300">
+              {label}
+            </span>
+          ))}
+        </div>
+        <p className={`text-xs ${issue.assigned ? "text-amber-200/80" : "text-slate-400"}`}>{issue.reasons.join(" · ")}</p>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * The contribution-mode issue feed: open good-first-issue / help-wanted issues grouped by project,
+ * best-rated first within each project.
+ */
+export function ContributionIssueFeed({ feed }: { feed: ContributionFeed }) {
+  const total = feed.projects.reduce((sum, project) => sum + project.issues.length, 0);
+
+  return (
+    <section className="space-y-4">
+      <header>
+        <h3 className="text-lg font-semibold text-slate-100">Contribution opportunities</h3>
+        <p className="text-sm text-slate-400">
+          {total} open issue{total === 1 ? "" : "s"} labelled {feed.labels.join(" or ")}, opened within the last{" "}
+          {feed.maxIssueAgeDays} days.
+        </p>
+      </header>
+      <div className="grid gap-4 md:grid-cols-2">
+        {feed.projects.map((project) => (
+          <article key={project.url} className="space-y-3 rounded-xl bg-slate-900/60 p-4 ring-1 ring-slate-800/60">
+            <header className="flex flex-wrap items-baseline justify-between gap-2">
+              <a href={project.url} target="_blank" rel="noreferrer" className="font-semibold text-slate-100 hover:text-sky-200">
+                {project.name}
+              </a>
+              <span className="text-xs text-slate-400">
+                {project.source && project.source !== "github" ? `${sourceLabel(project.source)} · ` : ""}
+                {project.responseRate != null
+                  ? `Maintainers answer ${Math.round(project.responseRate * 100)}% of issues`
+                  : "Response rate unknown"}
+              </span>
+            </header>
+            {project.issues.length > 0 ? (
+              <ul className="space-y-2">
+                {project.issues.map((issue) => (
+                  <IssueRow key={issue.number} issue={issue} />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs italic text-slate-500">{project.note ?? "No matching issues."}</p>
+            )}
+          </article>
+        ))}
+      </div>
+    </section>
+  );
+}
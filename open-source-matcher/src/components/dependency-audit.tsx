@@ -0,0 +1,235 @@
+"use client";
+
+import React, { ChangeEvent, DragEvent, useEffect, useRef, useState } from "react";
+import { runHunterJob } from "@/lib/hunter-api";
+import { parseSearchResult } from "@/lib/import";
+import { DependencyFinding, DependencyStatus, SearchResult } from "@/lib/types";
+
+const MANIFEST_FORMATS = ["package.json", "requirements.txt", "Cargo.toml", "go.mod"];
+
+const STATUS_STYLES: Record<DependencyStatus, { label: string; className: string }> = {
+  archived: { label: "Archived", className: "bg-rose-500/15 text-rose-200" },
+  stale: { label: "Stale", className: "bg-amber-500/15 text-amber-200" },
+  "low-score": { label: "Low score", className: "bg-amber-500/10 text-amber-100" },
+  unresolved: { label: "Not traced", className: "bg-slate-700/60 text-slate-300" },
+  healthy: { label: "Healthy", className: "bg-emerald-500/15 text-emerald-200" },
+};
+
+type Manifest = { filename: string; content: string };
+
+/**
+ * Queues a dependency audit for a package.json, requirements.txt, Cargo.toml or go.mod. The
+ * backend parses the manifest; the finished audit is handed to `onAudited` like any imported search.
+ */
+export function DependencyAuditPanel({ onAudited }: { onAudited: (results: SearchResult[]) => void }) {
+  const [manifest, setManifest] = useState<Manifest | null>(null);
+  const [pasted, setPasted] = useState("");
+  const [format, setFormat] = useState("");
+  const [auditing, setAuditing] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const audit = async (next: Manifest) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setManifest(next);
+    setAuditing(true);
+    setError(null);
+    try {
+      const result = parseSearchResult(await runHunterJob({ manifestFile: next }, controller.signal));
+      onAudited([result]);
+      setManifest(null);
+      setPasted("");
+    } catch (auditError) {
+      if (!controller.signal.aborted) {
+        setError(auditError instanceof Error ? auditError.message : String(auditError));
+      }
+    } finally {
+      setAuditing(false);
+    }
+  };
+
+  const readFile = async (file: File) => {
+    audit({ filename: file.name, content: await file.text() });
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const file = event.dataTransfer.files?.[0];
+    if (file && !auditing) {
+      readFile(file);
+    }
+  };
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      readFile(file);
+    }
+    event.target.value = "";
+  };
+
+  const fieldClass =
+    "rounded-lg bg-slate-950/60 px-3 py-2 text-sm text-slate-200 ring-1 ring-slate-800 placeholder:text-slate-500 focus:outline-none focus:ring-sky-500/60";
+
+  return (
+    <section
+      onDragOver={(event) => {
+        event.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={`space-y-4 rounded-2xl border border-dashed p-6 transition ${
+        dragging ? "border-sky-500/70 bg-sky-500/5" : "border-slate-800/80 bg-slate-900/40"
+      }`}
+    >
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-500/80">Dependency audit</p>
+          <h2 className="text-xl font-semibold text-slate-100">Check what you already depend on</h2>
+          <p className="text-sm text-slate-400">
+            Drop a package.json, requirements.txt, Cargo.toml or go.mod to flag archived, stale or low-scoring dependencies
+            and find maintained alternatives.
+          </p>
+        </div>
+        <label
+          className={`cursor-pointer rounded-full bg-sky-500/10 px-4 py-1.5 text-xs font-medium text-sky-200 hover:bg-sky-500/20 ${
+            auditing ? "pointer-events-none opacity-60" : ""
+          }`}
+        >
+          Choose manifest
+          <input type="file" accept=".json,.txt,.toml,.mod" onChange={handleFile} disabled={auditing} className="hidden" />
+        </label>
+      </header>
+
+      {auditing && manifest ? (
+        <div className="flex items-center justify-between rounded-xl bg-slate-900/60 p-4 text-sm text-slate-300 ring-1 ring-slate-800/60">
+          <span>Auditing {manifest.filename || "the pasted manifest"}… progress is shown above.</span>
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="text-xs text-slate-400 hover:text-slate-200"
+          >
+            Stop waiting
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2 md:flex-row">
+          <textarea
+            value={pasted}
+            onChange={(event) => setPasted(event.target.value)}
+            rows={3}
+            placeholder="…or paste a manifest"
+            className={`w-full font-mono ${fieldClass}`}
+          />
+          <div className="flex gap-2 md:flex-col">
+            <select value={format} onChange={(event) => setFormat(event.target.value)} className={fieldClass}>
+              <option value="">Detect format</option>
+              {MANIFEST_FORMATS.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              disabled={!pasted.trim()}
+              onClick={() => audit({ filename: format, content: pasted })}
+              className="rounded-lg bg-sky-500/20 px-4 py-2 text-xs font-medium text-sky-100 hover:bg-sky-500/30 disabled:opacity-60"
+            >
+              Audit
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+    </section>
+  );
+}
+
+function FindingRow({ finding }: { finding: DependencyFinding }) {
+  const status = STATUS_STYLES[finding.status] ?? STATUS_STYLES.unresolved;
+  return (
+    <li className="space-y-2 rounded-xl bg-slate-900/60 p-4 ring-1 ring-slate-800/60">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}>{status.label}</span>
+        <span className="font-medium text-slate-100">{finding.name}</span>
+        {finding.version && <span className="text-xs text-slate-500">{finding.version}</span>}
+        {finding.dev && <span className="text-xs uppercase tracking-wide text-slate-500">dev</span>}
+        {finding.url && (
+          <a href={finding.url} target="_blank" rel="noreferrer" className="text-xs text-sky-300/80 hover:text-sky-200">
+            Repository ↗
+          </a>
+        )}
+        {typeof finding.score === "number" && (
+          <span className="ml-auto text-xs text-slate-400">Score {finding.score.toFixed(1)}</span>
+        )}
+      </div>
+      {finding.reasons.length > 0 && (
+        <ul className="list-disc pl-5 text-xs text-slate-400">
+          {finding.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+      {finding.alternatives.length > 0 && (
+        <div className="text-xs text-slate-300">
+          <span className="text-slate-500">Alternatives{finding.alternativesQuery ? ` for “${finding.alternativesQuery}”` : ""}: </span>
+          {finding.alternatives.map((project, index) => (
+            <React.Fragment key={project.url}>
+              {index > 0 && ", "}
+              <a href={project.url} target="_blank" rel="noreferrer" className="text-sky-300 hover:text-sky-200">
+                {project.name}
+              </a>
+              {typeof project.score === "number" && <span className="text-slate-500"> ({project.score.toFixed(1)})</span>}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+      {finding.alternativesNote && <p className="text-xs italic text-slate-500">{finding.alternativesNote}</p>}
+    </li>
+  );
+}
+
+/** Flagged dependencies first with their alternatives; healthy ones are folded away. */
+export function DependencyAuditReport({ result }: { result: SearchResult }) {
+  const findings = result.audit?.findings ?? [];
+  if (!findings.length) {
+    return null;
+  }
+  const flagged = findings.filter((finding) => finding.status !== "healthy");
+  const healthy = findings.filter((finding) => finding.status === "healthy");
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-300">
+        {flagged.length
+          ? `${flagged.length} of ${findings.length} dependencies in ${result.audit?.manifest ?? "the manifest"} need attention.`
+          : `All ${findings.length} dependencies in ${result.audit?.manifest ?? "the manifest"} look healthy.`}
+      </p>
+      {flagged.length > 0 && (
+        <ul className="space-y-2">
+          {flagged.map((finding) => (
+            <FindingRow key={`${finding.ecosystem}:${finding.name}`} finding={finding} />
+          ))}
+        </ul>
+      )}
+      {healthy.length > 0 && (
+        <details className="text-sm text-slate-400">
+          <summary className="cursor-pointer">{healthy.length} healthy dependencies</summary>
+          <ul className="mt-2 space-y-2">
+            {healthy.map((finding) => (
+              <FindingRow key={`${finding.ecosystem}:${finding.name}`} finding={finding} />
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
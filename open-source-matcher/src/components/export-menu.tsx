@@ -0,0 +1,70 @@
+"use client";
+
+import React, { useState } from "react";
+import type { ExportFormat } from "@/lib/export";
+import { SearchResult } from "@/lib/types";
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "markdown", label: "Report" },
+  { value: "json", label: "JSON" },
+];
+
+async function downloadExport(results: SearchResult[], format: ExportFormat) {
+  const response = await fetch("/api/export", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ format, results }),
+  });
+  if (!response.ok) {
+    const data = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(data.error ?? `Export failed with ${response.status}`);
+  }
+  const filename =
+    /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") ?? "")?.[1] ?? `open-source-hunt.${format}`;
+  const url = URL.createObjectURL(await response.blob());
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download buttons for one or more searches: a CSV sheet, a Markdown evaluation report and canonical JSON.
+ */
+export function ExportMenu({ results, label = "Export" }: { results: SearchResult[]; label?: string }) {
+  const [pending, setPending] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setPending(format);
+    try {
+      await downloadExport(results, format);
+      setError(null);
+    } catch (exportError) {
+      console.warn("[export] Failed to export searches", exportError);
+      setError(exportError instanceof Error ? exportError.message : "Export failed");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="text-slate-500">{label}</span>
+      {FORMATS.map((format) => (
+        <button
+          key={format.value}
+          type="button"
+          disabled={!results.length || pending !== null}
+          onClick={() => handleExport(format.value)}
+          className="rounded-full bg-slate-800/80 px-2.5 py-1 font-medium text-slate-200 hover:bg-slate-700/80 disabled:opacity-60"
+        >
+          {pending === format.value ? "…" : format.label}
+        </button>
+      ))}
+      {error && <span className="text-rose-300">{error}</span>}
+    </div>
+  );
+}
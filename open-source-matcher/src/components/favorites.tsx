@@ -0,0 +1,299 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { ExportMenu } from "@/components/export-menu";
+import { Favorite, FavoritesPage, FavoriteStatus, ProjectSummary, SearchResult } from "@/lib/types";
+
+const PAGE_SIZE = Number(process.env.NEXT_PUBLIC_FAVORITES_PAGE_SIZE ?? 12);
+const STATUSES: { value: FavoriteStatus; label: string; className: string }[] = [
+  { value: "evaluating", label: "Evaluating", className: "bg-sky-500/15 text-sky-200" },
+  { value: "adopted", label: "Adopted", className: "bg-emerald-500/15 text-emerald-200" },
+  { value: "rejected", label: "Rejected", className: "bg-rose-500/15 text-rose-200" },
+];
+
+type FavoriteChanges = Partial<Pick<Favorite, "notes" | "tags" | "status">>;
+
+async function readError(response: Response) {
+  try {
+    const data = (await response.json()) as { error?: string };
+    return data.error ?? `Request failed with ${response.status}`;
+  } catch {
+    return `Request failed with ${response.status}`;
+  }
+}
+
+/**
+ * Pages through the saved favorites and keeps the loaded list in step with saves, edits and deletes.
+ */
+export function useFavorites() {
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (offset: number) => {
+    try {
+      const response = await fetch(`/api/favorites?limit=${PAGE_SIZE}&offset=${offset}`, { cache: "no-store" });
+      if (!response.ok) {
+        setError(await readError(response));
+        return;
+      }
+      const page = (await response.json()) as FavoritesPage;
+      const loaded = Array.isArray(page.favorites) ? page.favorites : [];
+      setFavorites((prev) => {
+        if (offset === 0) {
+          return loaded;
+        }
+        const known = new Set(prev.map((favorite) => favorite.id));
+        return [...prev, ...loaded.filter((favorite) => !known.has(favorite.id))];
+      });
+      setTotal(page.total ?? loaded.length);
+      setNextOffset(page.nextOffset ?? null);
+      setError(null);
+    } catch (loadError) {
+      console.warn("[favorites] Failed to load favorites", loadError);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (nextOffset != null) {
+      loadPage(nextOffset);
+    }
+  }, [loadPage, nextOffset]);
+
+  const request = useCallback(async (path: string, init: RequestInit) => {
+    try {
+      const response = await fetch(path, { ...init, headers: { "Content-Type": "application/json" } });
+      if (!response.ok) {
+        setError(await readError(response));
+        return null;
+      }
+      setError(null);
+      return response;
+    } catch (requestError) {
+      console.warn("[favorites] Request failed", requestError);
+      return null;
+    }
+  }, []);
+
+  const saveFavorite = useCallback(
+    async (project: ProjectSummary) => {
+      const response = await request("/api/favorites", { method: "POST", body: JSON.stringify({ project }) });
+      if (!response) {
+        return;
+      }
+      const { favorite } = (await response.json()) as { favorite: Favorite };
+      if (response.status === 201) {
+        setTotal((count) => count + 1);
+        setNextOffset((offset) => (offset != null ? offset + 1 : offset));
+      }
+      setFavorites((prev) => {
+        const index = prev.findIndex((entry) => entry.id === favorite.id);
+        return index === -1 ? [favorite, ...prev] : prev.map((entry, position) => (position === index ? favorite : entry));
+      });
+    },
+    [request],
+  );
+
+  const updateFavorite = useCallback(
+    async (favorite: Favorite, changes: FavoriteChanges) => {
+      const response = await request(`/api/favorites/${favorite.id}`, { method: "PATCH", body: JSON.stringify(changes) });
+      if (!response) {
+        return;
+      }
+      const { favorite: updated } = (await response.json()) as { favorite: Favorite };
+      setFavorites((prev) => prev.map((entry) => (entry.id === updated.id ? updated : entry)));
+    },
+    [request],
+  );
+
+  const removeFavorite = useCallback(
+    async (favorite: Favorite) => {
+      if (!(await request(`/api/favorites/${favorite.id}`, { method: "DELETE" }))) {
+        return;
+      }
+      setFavorites((prev) => prev.filter((entry) => entry.id !== favorite.id));
+      setTotal((count) => Math.max(count - 1, 0));
+      setNextOffset((offset) => (offset != null ? offset - 1 : offset));
+    },
+    [request],
+  );
+
+  return {
+    favorites,
+    total,
+    hasMore: nextOffset != null,
+    error,
+    loadMore,
+    saveFavorite,
+    updateFavorite,
+    removeFavorite,
+  };
+}
+
+function parseTags(value: string) {
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+function FavoriteCard({
+  favorite,
+  onUpdate,
+  onRemove,
+}: {
+  favorite: Favorite;
+  onUpdate: (favorite: Favorite, changes: FavoriteChanges) => void;
+  onRemove: (favorite: Favorite) => void;
+}) {
+  const [notes, setNotes] = useState(favorite.notes);
+  const [tags, setTags] = useState(favorite.tags.join(", "));
+
+  useEffect(() => {
+    setNotes(favorite.notes);
+    setTags(favorite.tags.join(", "));
+  }, [favorite.notes, favorite.tags]);
+
+  const commitNotes = () => {
+    if (notes.trim() !== favorite.notes) {
+      onUpdate(favorite, { notes });
+    }
+  };
+  const commitTags = () => {
+    const next = parseTags(tags);
+    if (next.join(",") !== favorite.tags.join(",")) {
+      onUpdate(favorite, { tags: next });
+    }
+  };
+
+  const { project } = favorite;
+  const status = STATUSES.find((entry) => entry.value === favorite.status) ?? STATUSES[0];
+
+  return (
+    <article className="space-y-3 rounded-xl bg-slate-900/60 p-5 ring-1 ring-slate-800/60">
+      <header className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <Link
+            href={project.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block truncate text-base font-semibold text-slate-100 hover:text-sky-200"
+          >
+            {project.name}
+          </Link>
+          <p className="text-xs text-slate-500">
+            {[project.language, project.stars != null ? `${project.stars.toLocaleString()} stars` : null, project.license]
+              .filter(Boolean)
+              .join(" · ")}
+            {" · "}saved {new Date(favorite.savedAt).toLocaleDateString()}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-3">
+          <select
+            value={favorite.status}
+            onChange={(event) => onUpdate(favorite, { status: event.target.value as FavoriteStatus })}
+            className={`rounded-full border-0 px-3 py-1 text-xs font-medium ${status.className}`}
+            aria-label={`Status of ${project.name}`}
+          >
+            {STATUSES.map((entry) => (
+              <option key={entry.value} value={entry.value}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onRemove(favorite)}
+            className="text-xs font-medium text-slate-400 hover:text-rose-300"
+          >
+            Remove
+          </button>
+        </div>
+      </header>
+      {project.description && <p className="text-sm text-slate-300/85">{project.description}</p>}
+      <input
+        value={tags}
+        onChange={(event) => setTags(event.target.value)}
+        onBlur={commitTags}
+        placeholder="Tags, comma separated"
+        className="w-full rounded-lg bg-slate-950/60 px-3 py-2 text-sm text-slate-200 ring-1 ring-slate-800 placeholder:text-slate-500 focus:outline-none focus:ring-sky-500/60"
+      />
+      <textarea
+        value={notes}
+        onChange={(event) => setNotes(event.target.value)}
+        onBlur={commitNotes}
+        rows={2}
+        placeholder="Notes"
+        className="w-full rounded-lg bg-slate-950/60 px-3 py-2 text-sm text-slate-200 ring-1 ring-slate-800 placeholder:text-slate-500 focus:outline-none focus:ring-sky-500/60"
+      />
+    </article>
+  );
+}
+
+type FavoritesPanelProps = {
+  favorites: Favorite[];
+  total: number;
+  hasMore: boolean;
+  error: string | null;
+  onLoadMore: () => void;
+  onUpdate: (favorite: Favorite, changes: FavoriteChanges) => void;
+  onRemove: (favorite: Favorite) => void;
+  /** The `buildFavoritesFeed` view of these favorites, offered as an export. */
+  exportFeed?: SearchResult | null;
+};
+
+export function FavoritesPanel({
+  favorites,
+  total,
+  hasMore,
+  error,
+  onLoadMore,
+  onUpdate,
+  onRemove,
+  exportFeed,
+}: FavoritesPanelProps) {
+  if (!favorites.length && !error) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4">
+      <header className="flex items-center justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-500/80">Favorites</p>
+          <h2 className="text-xl font-semibold text-slate-100">Saved projects</h2>
+        </div>
+        <div className="flex items-center gap-4">
+          {error ? (
+            <span className="text-xs text-rose-300">{error}</span>
+          ) : (
+            <span className="text-xs text-slate-400">
+              {favorites.length} of {total}
+            </span>
+          )}
+          {exportFeed && <ExportMenu results={[exportFeed]} />}
+        </div>
+      </header>
+      <div className="grid gap-4 md:grid-cols-2">
+        {favorites.map((favorite) => (
+          <FavoriteCard key={favorite.id} favorite={favorite} onUpdate={onUpdate} onRemove={onRemove} />
+        ))}
+      </div>
+      {hasMore && (
+        <button
+          type="button"
+          onClick={onLoadMore}
+          className="w-full rounded-xl border border-dashed border-slate-800/80 py-3 text-sm text-slate-300 hover:border-sky-500/60 hover:text-sky-200"
+        >
+          Load more
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import React, { ChangeEvent, DragEvent, useEffect, useRef, useState } from "react";
+import { runHunterJob } from "@/lib/hunter-api";
+import { ImportError, MAX_LISTED_REPOSITORIES, extractRepositoryUrls, parseResultFile, parseSearchResult } from "@/lib/import";
+import { SearchResult } from "@/lib/types";
+
+const RESULT_DRAG_TYPE = "application/x-open-source-hunt-result";
+
+type RepositoryList = { label: string; kind: "package.json" | "list"; urls: string[] };
+
+/** Queues a job that scores exactly `repositories` and waits for its result. */
+async function scoreRepositories(topic: string, repositories: string[], signal: AbortSignal): Promise<SearchResult> {
+  return parseSearchResult(await runHunterJob({ topic, repositories }, signal));
+}
+
+function baseName(filename: string) {
+  return filename.replace(/^.*[\\/]/, "").replace(/\.(md|markdown|txt|json)$/i, "");
+}
+
+/**
+ * Brings results into the dashboard: exported or dragged result files are validated and added as
+ * they are; awesome-lists, URL lists and `package.json` files are scored by the worker as a new search.
+ */
+export function ImportPanel({ onImport }: { onImport: (results: SearchResult[]) => void }) {
+  const [error, setError] = useState<string | null>(null);
+  const [list, setList] = useState<RepositoryList | null>(null);
+  const [topic, setTopic] = useState("");
+  const [pasted, setPasted] = useState("");
+  const [scoring, setScoring] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const readText = (text: string, source: string) => {
+    setError(null);
+    setList(null);
+    const { kind, urls } = extractRepositoryUrls(text, source);
+    if (kind !== "package.json" && /^\s*[[{]/.test(text)) {
+      try {
+        onImport(parseResultFile(text));
+      } catch (importError) {
+        setError(importError instanceof ImportError ? importError.message : String(importError));
+      }
+      return;
+    }
+    if (!urls.length) {
+      setError(
+        kind === "package.json"
+          ? "No repository URLs in this package.json. Only repository, homepage, bugs and git dependency specs are read."
+          : `No GitHub, GitLab, Codeberg or Bitbucket repository links found in ${source || "the text"}.`,
+      );
+      return;
+    }
+    const label = kind === "package.json" ? "package.json" : source ? baseName(source) : "Pasted list";
+    setList({ label, kind, urls });
+    setTopic(label);
+  };
+
+  const readFile = async (file: File) => {
+    readText(await file.text(), file.name);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    const file = event.dataTransfer.files?.[0];
+    if (file) {
+      readFile(file);
+      return;
+    }
+    const text = event.dataTransfer.getData(RESULT_DRAG_TYPE) || event.dataTransfer.getData("text/plain");
+    if (text) {
+      readText(text, "");
+    }
+  };
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      readFile(file);
+    }
+    event.target.value = "";
+  };
+
+  const handleScore = async () => {
+    if (!list) {
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setScoring(true);
+    setError(null);
+    try {
+      const result = await scoreRepositories(topic.trim() || list.label, list.urls.slice(0, MAX_LISTED_REPOSITORIES), controller.signal);
+      onImport([result]);
+      setList(null);
+    } catch (scoreError) {
+      if (!controller.signal.aborted) {
+        setError(scoreError instanceof Error ? scoreError.message : String(scoreError));
+      }
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  const fieldClass =
+    "w-full rounded-lg bg-slate-950/60 px-3 py-2 text-sm text-slate-200 ring-1 ring-slate-800 placeholder:text-slate-500 focus:outline-none focus:ring-sky-500/60";
+
+  return (
+    <section
+      onDragOver={(event) => {
+        event.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={`space-y-4 rounded-2xl border border-dashed p-6 transition ${
+        dragging ? "border-sky-500/70 bg-sky-500/5" : "border-slate-800/80 bg-slate-900/40"
+      }`}
+    >
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-500/80">Import</p>
+          <h2 className="text-xl font-semibold text-slate-100">Bring your own results or candidates</h2>
+          <p className="text-sm text-slate-400">
+            Drop an exported JSON file or a Search History card, or an awesome-list, URL list or package.json to have those
+            repositories scored.
+          </p>
+        </div>
+        <label className="cursor-pointer rounded-full bg-sky-500/10 px-4 py-1.5 text-xs font-medium text-sky-200 hover:bg-sky-500/20">
+          Choose file
+          <input type="file" accept=".json,.md,.markdown,.txt" onChange={handleFile} className="hidden" />
+        </label>
+      </header>
+
+      {!list && (
+        <div className="flex flex-col gap-2 md:flex-row">
+          <textarea
+            value={pasted}
+            onChange={(event) => setPasted(event.target.value)}
+            rows={2}
+            placeholder="…or paste repository URLs, one per line"
+            className={fieldClass}
+          />
+          <button
+            type="button"
+            disabled={!pasted.trim()}
+            onClick={() => readText(pasted, "")}
+            className="rounded-lg bg-slate-800/80 px-4 py-2 text-xs font-medium text-slate-200 hover:bg-slate-700/80 disabled:opacity-60"
+          >
+            Read list
+          </button>
+        </div>
+      )}
+
+      {list && (
+        <div className="space-y-3 rounded-xl bg-slate-900/60 p-5 ring-1 ring-slate-800/60">
+          <p className="text-sm text-slate-300">
+            Found {list.urls.length} repositor{list.urls.length === 1 ? "y" : "ies"} in {list.label}
+            {list.urls.length > MAX_LISTED_REPOSITORIES ? `; the first ${MAX_LISTED_REPOSITORIES} will be scored.` : "."}
+          </p>
+          <ul className="max-h-32 overflow-y-auto text-xs text-slate-400">
+            {list.urls.slice(0, MAX_LISTED_REPOSITORIES).map((url) => (
+              <li key={url} className="truncate">
+                {url}
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-col gap-2 md:flex-row">
+            <input value={topic} onChange={(event) => setTopic(event.target.value)} placeholder="Label for this search" className={fieldClass} />
+            <button
+              type="button"
+              disabled={scoring}
+              onClick={handleScore}
+              className="whitespace-nowrap rounded-lg bg-sky-500/20 px-4 py-2 text-xs font-medium text-sky-100 hover:bg-sky-500/30 disabled:opacity-60"
+            >
+              {scoring ? "Scoring…" : "Score these repositories"}
+            </button>
+            <button
+              type="button"
+              disabled={scoring}
+              onClick={() => setList(null)}
+              className="rounded-lg px-3 py-2 text-xs text-slate-400 hover:text-slate-200 disabled:opacity-60"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { JobProgressEvent, JobProgressStep } from "@/lib/types";
+import { hunterApiUrl } from "@/lib/hunter-api";
+
+const STEP_ORDER: JobProgressStep[] = [
+  "queued",
+  "started",
+  "query_sent",
+  "repos_fetched",
+  "registries",
+  "ranked",
+  "alternatives",
+  "health",
+  "docs",
+  "issues",
+  "enriching",
+  "completed",
+];
+const COUNTED_STEPS: JobProgressStep[] = ["alternatives", "health", "docs", "issues", "enriching"];
+const STEP_LABELS: Record<JobProgressStep, string> = {
+  queued: "Queued",
+  started: "Started",
+  query_sent: "Query sent",
+  repos_fetched: "Repositories fetched",
+  registries: "Checking registries",
+  ranked: "Ranking done",
+  alternatives: "Finding alternatives",
+  health: "Analyzing health",
+  docs: "Reading docs",
+  issues: "Collecting issues",
+  enriching: "Enriching projects",
+  retrying: "Retrying",
+  scheduled: "Waiting for rate limit",
+  completed: "Completed",
+  error: "Failed",
+};
+const FINISHED_VISIBLE_MS = 8000;
+const MAX_TRACKED_JOBS = 6;
+
+type JobProgress = {
+  jobId: string;
+  topic?: string;
+  events: JobProgressEvent[];
+  finishedAt?: number;
+};
+
+function isTerminal(step: JobProgressStep) {
+  return step === "completed" || step === "error";
+}
+
+function progressPercent(latest: JobProgressEvent) {
+  if (latest.step === "completed" || latest.step === "error") {
+    return 100;
+  }
+  const index = STEP_ORDER.indexOf(latest.step);
+  const base = Math.max(0, index) / (STEP_ORDER.length - 1);
+  if (COUNTED_STEPS.includes(latest.step) && latest.current && latest.total) {
+    const span = 1 / (STEP_ORDER.length - 1);
+    return Math.round((base + span * (latest.current / latest.total)) * 100);
+  }
+  return Math.round(base * 100);
+}
+
+export function JobProgressPanel() {
+  const [jobs, setJobs] = useState<Record<string, JobProgress>>({});
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const source = new EventSource(hunterApiUrl("/api/jobs/events"), { withCredentials: true });
+    source.addEventListener("progress", (message) => {
+      let event: JobProgressEvent;
+      try {
+        event = JSON.parse((message as MessageEvent<string>).data) as JobProgressEvent;
+      } catch {
+        return;
+      }
+      setJobs((prev) => {
+        const current = prev[event.jobId] ?? { jobId: event.jobId, topic: event.topic, events: [] };
+        const next: JobProgress = {
+          ...current,
+          topic: current.topic ?? event.topic,
+          events: [...current.events, event],
+          finishedAt: isTerminal(event.step) ? Date.now() : current.finishedAt,
+        };
+        const entries = Object.values({ ...prev, [event.jobId]: next })
+          .sort((a, b) => (b.events.at(-1)?.at ?? "").localeCompare(a.events.at(-1)?.at ?? ""))
+          .slice(0, MAX_TRACKED_JOBS);
+        return Object.fromEntries(entries.map((entry) => [entry.jobId, entry]));
+      });
+    });
+    source.onerror = () => {
+      console.warn("[progress] Progress stream interrupted, retrying…");
+    };
+    return () => {
+      source.close();
+    };
+  }, []);
+
+  const hasFinishedJobs = Object.values(jobs).some((job) => job.finishedAt);
+  useEffect(() => {
+    if (!hasFinishedJobs) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasFinishedJobs]);
+
+  const visible = useMemo(
+    () => Object.values(jobs).filter((job) => !job.finishedAt || now - job.finishedAt < FINISHED_VISIBLE_MS),
+    [jobs, now],
+  );
+
+  if (!visible.length) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4">
+      <header>
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-500/80">Live progress</p>
+        <h2 className="text-xl font-semibold text-slate-100">Hunts in flight</h2>
+      </header>
+      <div className="grid gap-3 md:grid-cols-2">
+        {visible.map((job) => (
+          <JobProgressCard key={job.jobId} job={job} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function JobProgressCard({ job }: { job: JobProgress }) {
+  const latest = job.events[job.events.length - 1];
+  const percent = progressPercent(latest);
+  const failed = latest.step === "error";
+
+  return (
+    <div className="rounded-xl bg-slate-900/60 p-5 ring-1 ring-slate-800/60">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-semibold text-slate-100">{job.topic ?? "Search job"}</h3>
+          <p className="text-xs text-slate-500">{job.jobId}</p>
+        </div>
+        <span className={`text-xs font-medium ${failed ? "text-rose-300" : "text-sky-300/90"}`}>
+          {STEP_LABELS[latest.step] ?? latest.step}
+        </span>
+      </div>
+      <div className="mt-4 h-1.5 w-full overflow-hidden rounded-full bg-slate-800">
+        <div
+          className={`h-full rounded-full transition-all ${failed ? "bg-rose-400" : "bg-sky-400"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="mt-3 text-sm text-slate-300/85">{latest.message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import React, { type DragEvent, useState } from "react";
+import Link from "next/link";
+import { ProjectSummary, ScoreComponent } from "@/lib/types";
+import { forgeLabel, projectKey } from "@/lib/forges";
+import { PROJECT_DRAG_TYPE, SCORE_COMPONENTS, formatDate, formatNumber } from "@/components/search-results";
+
+export const MAX_COMPARED_PROJECTS = 4;
+
+type MetricRow = {
+  label: string;
+  render: (project: ProjectSummary) => React.ReactNode;
+  // Comparable value for highlighting; rows without one (topics) are never highlighted.
+  value?: (project: ProjectSummary) => number | null;
+  better?: "higher" | "lower";
+};
+
+function finite(value: number | null | undefined) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function licenseStanding(project: ProjectSummary) {
+  if (!project.compliance) {
+    return null;
+  }
+  const license = project.compliance.violations.find((violation) => violation.rule === "license");
+  return license ? (license.severity === "error" ? 0 : 1) : 2;
+}
+
+function componentRows(projects: ProjectSummary[]): MetricRow[] {
+  const components = new Set(
+    projects.flatMap((project) => Object.keys(project.scoreBreakdown?.components ?? {}) as ScoreComponent[]),
+  );
+  return (Object.keys(SCORE_COMPONENTS) as ScoreComponent[])
+    .filter((component) => components.has(component))
+    .map((component) => ({
+      label: `Score · ${SCORE_COMPONENTS[component].label}`,
+      value: (project) => finite(project.scoreBreakdown?.components[component]),
+      render: (project) => {
+        const points = finite(project.scoreBreakdown?.components[component]);
+        return points == null ? "—" : `${points > 0 ? "+" : ""}${points.toFixed(1)}`;
+      },
+      better: "higher",
+    }));
+}
+
+function metricRows(projects: ProjectSummary[]): MetricRow[] {
+  return [
+    {
+      label: "Score",
+      value: (project) => finite(project.score),
+      render: (project) => (finite(project.score) != null ? project.score!.toFixed(1) : "—"),
+      better: "higher",
+    },
+    {
+      label: "Stars",
+      value: (project) => project.stars,
+      render: (project) => formatNumber(project.stars),
+      better: "higher",
+    },
+    {
+      label: "Forks",
+      value: (project) => project.forks,
+      render: (project) => formatNumber(project.forks),
+      better: "higher",
+    },
+    {
+      label: "Last push",
+      value: (project) => finite(project.daysSinceUpdate),
+      render: (project) =>
+        finite(project.daysSinceUpdate) != null
+          ? `${formatDate(project.lastPushedAt)} (${project.daysSinceUpdate}d)`
+          : formatDate(project.lastPushedAt),
+      better: "lower",
+    },
+    {
+      label: "Open issues",
+      value: (project) => project.openIssues,
+      render: (project) => formatNumber(project.openIssues),
+      better: "lower",
+    },
+    {
+      label: "License",
+      value: licenseStanding,
+      render: (project) => project.license ?? (project.licenseUnknown ? "Not reported" : "None detected"),
+      better: "higher",
+    },
+    ...componentRows(projects),
+    {
+      label: "Topics",
+      render: (project) =>
+        project.topics.length ? (
+          <div className="flex flex-wrap gap-1">
+            {project.topics.slice(0, 6).map((topic) => (
+              <span key={topic} className="rounded-full bg-sky-500/10 px-2 py-0.5 text-[11px] text-sky-200">
+                #{topic}
+              </span>
+            ))}
+          </div>
+        ) : (
+          "—"
+        ),
+    },
+  ];
+}
+
+/**
+ * Indices of the projects holding the best value in a row. Nothing is highlighted when every
+ * project ties, or when fewer than two projects report a value.
+ */
+function bestIndices(row: MetricRow, projects: ProjectSummary[]) {
+  if (!row.value || !row.better) {
+    return new Set<number>();
+  }
+  const values = projects.map((project) => row.value!(project));
+  const known = values.filter((value): value is number => value != null);
+  if (known.length < 2 || known.every((value) => value === known[0])) {
+    return new Set<number>();
+  }
+  const best = row.better === "higher" ? Math.max(...known) : Math.min(...known);
+  return new Set(values.flatMap((value, index) => (value === best ? [index] : [])));
+}
+
+type ComparisonPanelProps = {
+  projects: ProjectSummary[];
+  summary?: string;
+  onDropProject: (payload: string) => void;
+  onRemove: (project: ProjectSummary) => void;
+  onClear: () => void;
+};
+
+export function ComparisonPanel({ projects, summary, onDropProject, onRemove, onClear }: ComparisonPanelProps) {
+  const [dragOver, setDragOver] = useState(false);
+  const full = projects.length >= MAX_COMPARED_PROJECTS;
+
+  const handleDragOver = (event: DragEvent<HTMLElement>) => {
+    if (!event.dataTransfer.types.includes(PROJECT_DRAG_TYPE)) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = full ? "none" : "copy";
+    setDragOver(true);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setDragOver(false);
+    const payload = event.dataTransfer.getData(PROJECT_DRAG_TYPE);
+    if (payload && !full) {
+      onDropProject(payload);
+    }
+  };
+
+  const rows = metricRows(projects);
+
+  return (
+    <section
+      className={`space-y-4 rounded-2xl p-6 ring-1 transition ${
+        dragOver ? "bg-sky-500/10 ring-sky-400/70" : "bg-slate-900/50 ring-slate-800/60"
+      }`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <header className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-500/80">Compare</p>
+          <h2 className="text-xl font-semibold text-slate-100">Side-by-side comparison</h2>
+        </div>
+        {projects.length > 0 && (
+          <button type="button" onClick={onClear} className="text-xs font-medium text-slate-400 hover:text-slate-200">
+            Clear
+          </button>
+        )}
+      </header>
+
+      {projects.length === 0 ? (
+        <p className="rounded-xl border border-dashed border-slate-700/80 px-6 py-8 text-center text-sm text-slate-400">
+          Drag up to {MAX_COMPARED_PROJECTS} project cards here, or ask the assistant to compare candidates.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-6 lg:flex-row">
+          <div className="flex-1 overflow-x-auto">
+            <table className="w-full border-separate border-spacing-0 text-left text-sm">
+              <thead>
+                <tr>
+                  <th className="w-40 pb-3 text-xs font-medium uppercase tracking-wide text-slate-500">Metric</th>
+                  {projects.map((project) => (
+                    <th key={projectKey(project)} className="pb-3 pr-4 align-top">
+                      <Link
+                        href={project.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-semibold text-sky-300 hover:text-sky-200"
+                      >
+                        {project.name}
+                      </Link>
+                      <div className="mt-1 flex items-center gap-2 text-xs font-normal text-slate-400">
+                        <span>{forgeLabel(project)}</span>
+                        <button type="button" onClick={() => onRemove(project)} className="hover:text-rose-300">
+                          Remove
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const best = bestIndices(row, projects);
+                  return (
+                    <tr key={row.label}>
+                      <th className="border-t border-slate-800/60 py-2 pr-4 text-xs font-medium uppercase tracking-wide text-slate-500">
+                        {row.label}
+                      </th>
+                      {projects.map((project, index) => (
+                        <td
+                          key={projectKey(project)}
+                          className={`border-t border-slate-800/60 py-2 pr-4 ${
+                            best.has(index) ? "font-semibold text-emerald-300" : "text-slate-200"
+                          }`}
+                        >
+                          {row.render(project)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {!full && (
+              <p className="mt-3 text-xs text-slate-500">
+                Drop another card to add it ({projects.length} of {MAX_COMPARED_PROJECTS}).
+              </p>
+            )}
+          </div>
+          {summary && (
+            <aside className="rounded-xl bg-slate-950/50 p-4 text-sm text-slate-300/90 lg:w-72">
+              <p className="mb-2 text-xs uppercase tracking-wide text-slate-500">Trade-offs</p>
+              <p className="whitespace-pre-line">{summary}</p>
+            </aside>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import React, { FormEvent, useCallback, useEffect, useState } from "react";
+import { ExportMenu } from "@/components/export-menu";
+import { SearchHistoryPage, StoredSearch } from "@/lib/types";
+
+const PAGE_SIZE = Number(process.env.NEXT_PUBLIC_SEARCH_HISTORY_PAGE_SIZE ?? 10);
+const RESULT_DRAG_TYPE = "application/x-open-source-hunt-result";
+
+export type SearchHistoryFilters = {
+  q: string;
+  topic: string;
+  language: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: SearchHistoryFilters = { q: "", topic: "", language: "", from: "", to: "" };
+
+async function readError(response: Response) {
+  try {
+    const data = (await response.json()) as { error?: string };
+    return data.error ?? `Request failed with ${response.status}`;
+  } catch {
+    return `Request failed with ${response.status}`;
+  }
+}
+
+function historyPath(filters: SearchHistoryFilters, offset: number) {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value.trim()) {
+      params.set(key, value.trim());
+    }
+  });
+  return `/api/searches?${params}`;
+}
+
+/**
+ * Pages through the stored search history with the current filters. A change of `refreshKey` (the
+ * newest job id) reloads the first page so finished searches show up without a refresh.
+ */
+export function useSearchHistory(refreshKey?: string) {
+  const [searches, setSearches] = useState<StoredSearch[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [filters, setFilters] = useState<SearchHistoryFilters>(EMPTY_FILTERS);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      try {
+        const response = await fetch(historyPath(filters, offset), { cache: "no-store" });
+        if (!response.ok) {
+          setError(await readError(response));
+          return;
+        }
+        const page = (await response.json()) as SearchHistoryPage;
+        const loaded = Array.isArray(page.searches) ? page.searches : [];
+        setSearches((prev) => {
+          if (offset === 0) {
+            return loaded;
+          }
+          const known = new Set(prev.map((search) => search.jobId));
+          return [...prev, ...loaded.filter((search) => !known.has(search.jobId))];
+        });
+        setTotal(page.total ?? loaded.length);
+        setNextOffset(page.nextOffset ?? null);
+        setError(null);
+      } catch (loadError) {
+        console.warn("[searches] Failed to load search history", loadError);
+      }
+    },
+    [filters],
+  );
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage, refreshKey]);
+
+  const loadMore = useCallback(() => {
+    if (nextOffset != null) {
+      loadPage(nextOffset);
+    }
+  }, [loadPage, nextOffset]);
+
+  const removeSearch = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/searches/${encodeURIComponent(jobId)}`, { method: "DELETE" });
+      if (!response.ok) {
+        setError(await readError(response));
+        return;
+      }
+      setSearches((prev) => prev.filter((search) => search.jobId !== jobId));
+      setTotal((count) => Math.max(count - 1, 0));
+      setNextOffset((offset) => (offset != null ? offset - 1 : offset));
+      setError(null);
+    } catch (removeError) {
+      console.warn("[searches] Failed to delete search", removeError);
+    }
+  }, []);
+
+  return { searches, total, hasMore: nextOffset != null, filters, setFilters, error, loadMore, removeSearch };
+}
+
+function HistoryFilters({
+  filters,
+  onChange,
+}: {
+  filters: SearchHistoryFilters;
+  onChange: (filters: SearchHistoryFilters) => void;
+}) {
+  const [draft, setDraft] = useState(filters);
+  const filtered = Object.values(filters).some((value) => value.trim());
+
+  useEffect(() => setDraft(filters), [filters]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    onChange(draft);
+  };
+
+  const field = (key: keyof SearchHistoryFilters) => ({
+    value: draft[key],
+    onChange: (event: React.ChangeEvent<HTMLInputElement>) => setDraft((prev) => ({ ...prev, [key]: event.target.value })),
+  });
+
+  const fieldClass =
+    "rounded-lg bg-slate-950/60 px-3 py-2 text-sm text-slate-200 ring-1 ring-slate-800 placeholder:text-slate-500 focus:outline-none focus:ring-sky-500/60";
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-2 md:grid-cols-[2fr_1fr_1fr_auto_auto_auto]">
+      <input {...field("q")} placeholder="Search summaries, prompts and project names" className={fieldClass} />
+      <input {...field("topic")} placeholder="Topic" className={fieldClass} />
+      <input {...field("language")} placeholder="Language" className={fieldClass} />
+      <input {...field("from")} type="date" aria-label="From" className={fieldClass} />
+      <input {...field("to")} type="date" aria-label="To" className={fieldClass} />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="rounded-lg bg-sky-500/20 px-4 py-2 text-xs font-medium text-sky-100 hover:bg-sky-500/30"
+        >
+          Search
+        </button>
+        {filtered && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_FILTERS)}
+            className="rounded-lg px-3 py-2 text-xs text-slate-400 hover:text-slate-200"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Every completed search, newest first, searchable by topic, language, date and text. Opening an
+ * entry shows it in the main panel; cards can also be dragged into the Copilot or the import panel.
+ */
+export function SearchHistoryPanel({
+  history,
+  activeJobId,
+  onOpen,
+}: {
+  history: ReturnType<typeof useSearchHistory>;
+  activeJobId?: string;
+  onOpen: (search: StoredSearch) => void;
+}) {
+  const { searches, total, hasMore, filters, setFilters, error, loadMore, removeSearch } = history;
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selected = searches.filter((entry) => selectedIds.includes(entry.jobId));
+  const filtered = Object.values(filters).some((value) => value.trim());
+
+  const toggleSelected = (jobId: string) => {
+    setSelectedIds((prev) => (prev.includes(jobId) ? prev.filter((id) => id !== jobId) : [...prev, jobId]));
+  };
+
+  if (!total && !filtered && !error) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-slate-100">Search History</h3>
+        {selected.length ? (
+          <ExportMenu results={selected} label={`Export ${selected.length} selected`} />
+        ) : (
+          <span className="text-sm text-slate-300/80">
+            {filtered ? `${total} matching search${total === 1 ? "" : "es"}` : `${total} stored search${total === 1 ? "" : "es"}`}
+          </span>
+        )}
+      </div>
+      <HistoryFilters filters={filters} onChange={setFilters} />
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+      {filtered && !searches.length && <p className="text-sm text-slate-400">No stored searches match these filters.</p>}
+      <div className="grid gap-3 md:grid-cols-2">
+        {searches.map((entry) => (
+          <div key={entry.jobId} className="relative">
+            <button
+              type="button"
+              onClick={() => onOpen(entry)}
+              draggable
+              onDragStart={(event: React.DragEvent<HTMLButtonElement>) => {
+                const payload = JSON.stringify(entry);
+                event.dataTransfer.setData(RESULT_DRAG_TYPE, payload);
+                event.dataTransfer.setData("text/plain", payload);
+                event.dataTransfer.effectAllowed = "copyMove";
+              }}
+              className={`h-full w-full rounded-xl bg-slate-900/60 p-5 text-left ring-1 transition hover:-translate-y-0.5 hover:ring-sky-500/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/70 ${
+                entry.jobId === activeJobId ? "ring-sky-500/60" : "ring-slate-800/60"
+              }`}
+            >
+              <header className="space-y-2">
+                <p className="text-xs uppercase tracking-wide text-slate-500">
+                  {entry.generatedAt ? new Date(entry.generatedAt).toLocaleString() : "Time unknown"}
+                </p>
+                <h4 className="pr-16 text-lg font-semibold text-slate-100">{entry.filters.topic}</h4>
+                {entry.prompt && <p className="text-xs italic text-slate-400">“{entry.prompt}”</p>}
+              </header>
+              <p className="mt-2 text-sm text-slate-300/85">{entry.summary}</p>
+              <dl className="mt-4 grid grid-cols-2 gap-y-2 text-xs text-slate-400/90">
+                <div>
+                  <dt className="uppercase tracking-wide">Language</dt>
+                  <dd className="text-slate-200">{entry.filters.language ?? entry.filters.languages?.join(", ") ?? "Any"}</dd>
+                </div>
+                <div>
+                  <dt className="uppercase tracking-wide">Min stars</dt>
+                  <dd className="text-slate-200">{entry.filters.minStars ?? "Any"}</dd>
+                </div>
+                <div>
+                  <dt className="uppercase tracking-wide">Maintained</dt>
+                  <dd className="text-slate-200">{entry.filters.onlyMaintained ? "Yes" : "No"}</dd>
+                </div>
+                <div>
+                  <dt className="uppercase tracking-wide">Projects shown</dt>
+                  <dd className="text-slate-200">{entry.projects.length}</dd>
+                </div>
+              </dl>
+              <span className="mt-4 inline-flex items-center gap-2 text-sm font-medium text-sky-300/80">
+                View in main panel
+                <span aria-hidden={true} className="text-base leading-none">
+                  ↗
+                </span>
+              </span>
+            </button>
+            <div className="absolute right-4 top-4 flex items-center gap-3 text-xs text-slate-400">
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(entry.jobId)}
+                  onChange={() => toggleSelected(entry.jobId)}
+                  className="accent-sky-500"
+                />
+                Export
+              </label>
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedIds((prev) => prev.filter((id) => id !== entry.jobId));
+                  removeSearch(entry.jobId);
+                }}
+                className="hover:text-rose-300"
+                aria-label={`Delete ${entry.filters.topic} from the history`}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {hasMore && (
+        <button
+          type="button"
+          onClick={loadMore}
+          className="w-full rounded-lg bg-slate-800/60 py-2 text-xs font-medium text-slate-300 hover:bg-slate-700/60"
+        >
+          Load more ({searches.length} of {total})
+        </button>
+      )}
+    </section>
+  );
+}
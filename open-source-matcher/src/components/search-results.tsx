@@ -1,10 +1,24 @@
  "use client";
 
 import React, { type DragEvent } from "react";
-import { ProjectSummary, SearchResult } from "@/lib/types";
+import {
+  ComplianceStatus,
+  PackageSignal,
+  ProjectCompliance,
+  ProjectDocs,
+  ProjectHealth,
+  ProjectSummary,
+  ScoreBreakdown,
+  ScoreComponent,
+  SearchResult,
+} from "@/lib/types";
 import Link from "next/link";
+import { forgeLabel, projectKey, sourceLabel } from "@/lib/forges";
+import { ContributionIssueFeed } from "@/components/contribution-feed";
 
-function formatDate(dateString?: string | null) {
+export const PROJECT_DRAG_TYPE = "application/x-open-source-hunt-project";
+
+export function formatDate(dateString?: string | null) {
   if (!dateString) return "Unknown";
   const date = new Date(dateString);
   if (Number.isNaN(date.getTime())) return "Unknown";
@@ -15,10 +29,38 @@ function formatDate(dateString?: string | null) {
   });
 }
 
-function formatNumber(value: number) {
+export function formatNumber(value: number) {
   return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
 }
 
+function formatCompact(value: number) {
+  return value.toLocaleString(undefined, { notation: "compact", maximumFractionDigits: 1 });
+}
+
+const REGISTRY_LABELS: Record<PackageSignal["registry"], string> = {
+  npm: "npm",
+  pypi: "PyPI",
+  crates: "crates.io",
+  go: "Go",
+};
+
+function packageStats(pkg: PackageSignal) {
+  const registry = REGISTRY_LABELS[pkg.registry];
+  return [
+    pkg.latestVersion
+      ? {
+          label: `${registry} ${pkg.name}`,
+          value: pkg.releasedAt ? `${pkg.latestVersion} · ${formatDate(pkg.releasedAt)}` : pkg.latestVersion,
+        }
+      : null,
+    pkg.weeklyDownloads != null ? { label: "Weekly downloads", value: formatCompact(pkg.weeklyDownloads) } : null,
+    pkg.weeklyDownloads == null && pkg.monthlyDownloads != null
+      ? { label: "Monthly downloads", value: formatCompact(pkg.monthlyDownloads) }
+      : null,
+    pkg.dependents ? { label: "Dependents", value: formatCompact(pkg.dependents) } : null,
+  ].filter((stat): stat is { label: string; value: string } => Boolean(stat));
+}
+
 function ProjectCard({ project, onProjectSelect }: { project: ProjectSummary; onProjectSelect?: (project: ProjectSummary) => void }) {
   const description =
     (typeof project.description === "string" && project.description.trim().length > 0
@@ -39,11 +81,22 @@ function ProjectCard({ project, onProjectSelect }: { project: ProjectSummary; on
     { label: "Watchers", value: project.watchers },
     { label: "Open issues", value: project.openIssues },
   ].filter((item) => Number(item.value) > 0);
+  const adoptionStats = (project.packages ?? []).flatMap(packageStats);
+
+  const handleDragStart = (event: DragEvent<HTMLElement>) => {
+    // Cards sit inside a draggable result block; only the project should be carried.
+    event.stopPropagation();
+    event.dataTransfer.setData(PROJECT_DRAG_TYPE, JSON.stringify(project));
+    event.dataTransfer.setData("text/plain", project.url);
+    event.dataTransfer.effectAllowed = "copy";
+  };
 
   return (
     <div
-      className="rounded-xl bg-slate-900/60 p-5 shadow-lg ring-1 ring-slate-800/60 backdrop-blur"
+      className="cursor-grab rounded-xl bg-slate-900/60 p-5 shadow-lg ring-1 ring-slate-800/60 backdrop-blur"
       onClick={() => onProjectSelect?.(project)}
+      draggable
+      onDragStart={handleDragStart}
     >
       <div className="flex items-start justify-between gap-4">
         <div className="space-y-1">
@@ -55,6 +108,10 @@ function ProjectCard({ project, onProjectSelect }: { project: ProjectSummary; on
           >
             {project.name}
           </Link>
+          <span className="ml-2 rounded-full bg-slate-800/80 px-2 py-0.5 align-middle text-xs text-slate-300">
+            {forgeLabel(project)}
+          </span>
+          {project.compliance && <ComplianceBadge compliance={project.compliance} />}
           <p className="text-sm text-slate-300/80">{description}</p>
         </div>
         {metaItems.length > 0 && (
@@ -68,16 +125,29 @@ function ProjectCard({ project, onProjectSelect }: { project: ProjectSummary; on
         )}
       </div>
 
-      {(numericStats.length > 0 || project.license || project.defaultBranch) && (
+      {project.scoreBreakdown && <ScoreBreakdownBar breakdown={project.scoreBreakdown} />}
+
+      {(numericStats.length > 0 || adoptionStats.length > 0 || project.license || project.defaultBranch) && (
         <div className="mt-4 flex flex-wrap gap-3 text-xs text-slate-300/90">
           {numericStats.map((stat) => (
             <StatPill key={stat.label} label={stat.label} value={formatNumber(Number(stat.value))} />
           ))}
+          {adoptionStats.map((stat, index) => (
+            <StatPill key={`${stat.label}-${index}`} label={stat.label} value={stat.value} />
+          ))}
           {project.license && <StatPill label="License" value={project.license} />}
           {project.defaultBranch && <StatPill label="Default branch" value={project.defaultBranch} />}
         </div>
       )}
 
+      {project.compliance && project.compliance.violations.length > 0 && (
+        <ComplianceViolations compliance={project.compliance} />
+      )}
+
+      {project.health && <HealthSummary health={project.health} />}
+
+      {project.docs && <DocsSummary docs={project.docs} />}
+
       {(project.topics?.length ?? 0) > 0 && (
         <div className="mt-4 flex flex-wrap gap-2">
           {project.topics!.map((topic) => (
@@ -99,6 +169,166 @@ function ProjectCard({ project, onProjectSelect }: { project: ProjectSummary; on
   );
 }
 
+function formatHours(hours: number) {
+  return hours < 48 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`;
+}
+
+function healthStats(health: ProjectHealth) {
+  return [
+    { label: "Active contributors (90d)", value: formatNumber(health.activeContributors90d) },
+    { label: "Bus factor", value: String(health.busFactor) },
+    health.commitsPerWeek != null ? { label: "Commits / week", value: String(health.commitsPerWeek) } : null,
+    health.releaseCadenceDays != null
+      ? { label: "Release every", value: `${Math.round(health.releaseCadenceDays)}d` }
+      : health.lastReleaseAt
+        ? { label: "Last release", value: formatDate(health.lastReleaseAt) }
+        : null,
+    health.medianFirstResponseHours != null
+      ? { label: "First issue response", value: formatHours(health.medianFirstResponseHours) }
+      : null,
+    health.prMergeRate != null ? { label: "PR merge rate", value: `${Math.round(health.prMergeRate * 100)}%` } : null,
+  ].filter((stat): stat is { label: string; value: string } => Boolean(stat));
+}
+
+const COMPLIANCE_BADGES: Record<ComplianceStatus, { label: string; className: string }> = {
+  compliant: { label: "Policy OK", className: "bg-emerald-500/15 text-emerald-200" },
+  review: { label: "Needs review", className: "bg-amber-500/15 text-amber-200" },
+  violation: { label: "Violates policy", className: "bg-rose-500/15 text-rose-200" },
+};
+
+function ComplianceBadge({ compliance }: { compliance: ProjectCompliance }) {
+  const badge = COMPLIANCE_BADGES[compliance.status];
+  return (
+    <span
+      className={`ml-2 rounded-full px-2 py-0.5 align-middle text-xs font-medium ${badge.className}`}
+      title={`Checked against the ${compliance.policy} policy`}
+    >
+      {badge.label}
+    </span>
+  );
+}
+
+function ComplianceViolations({ compliance }: { compliance: ProjectCompliance }) {
+  return (
+    <ul className="mt-3 space-y-1 text-xs">
+      {compliance.violations.map((violation) => (
+        <li key={`${violation.rule}-${violation.message}`} className={violation.severity === "error" ? "text-rose-300" : "text-amber-200"}>
+          {violation.severity === "error" ? "✕" : "⚠"} {violation.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function HealthSummary({ health }: { health: ProjectHealth }) {
+  return (
+    <div className="mt-4 space-y-2 rounded-lg bg-slate-950/40 p-3">
+      <p className="text-xs uppercase tracking-wide text-slate-500">Community health</p>
+      <div className="flex flex-wrap gap-2 text-xs text-slate-300/90">
+        {healthStats(health).map((stat) => (
+          <StatPill key={stat.label} label={stat.label} value={stat.value} />
+        ))}
+      </div>
+      {health.risks.length > 0 && (
+        <ul className="space-y-1 text-xs text-rose-300">
+          {health.risks.map((risk) => (
+            <li key={risk}>⚠ {risk}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function DocsSummary({ docs }: { docs: ProjectDocs }) {
+  const flags = [
+    docs.docsUrl || docs.hasDocsFolder ? "Docs" : null,
+    docs.hasExamples ? "Examples" : null,
+    docs.hasChangelog ? "Changelog" : null,
+  ].filter(Boolean);
+  return (
+    <div className="mt-4 space-y-2 rounded-lg bg-slate-950/40 p-3">
+      <p className="text-xs uppercase tracking-wide text-slate-500">
+        Documentation · {Math.round(docs.quality * 100)}%
+        {docs.docsUrl && (
+          <a href={docs.docsUrl} target="_blank" rel="noreferrer" className="ml-2 normal-case tracking-normal text-sky-300/80 hover:text-sky-200">
+            Docs site ↗
+          </a>
+        )}
+      </p>
+      {(docs.badges.length > 0 || flags.length > 0) && (
+        <div className="flex flex-wrap gap-2 text-xs text-slate-300/90">
+          {docs.badges.map((badge) => (
+            <span key={`${badge.kind}-${badge.label}`} className="rounded-full bg-slate-800/80 px-2 py-0.5" title={badge.image}>
+              {badge.label}
+            </span>
+          ))}
+          {flags.map((flag) => (
+            <span key={flag} className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-emerald-200">
+              ✓ {flag}
+            </span>
+          ))}
+        </div>
+      )}
+      {docs.install[0] && (
+        <pre className="overflow-x-auto rounded bg-slate-950/80 p-2 text-xs text-slate-200">{docs.install[0]}</pre>
+      )}
+    </div>
+  );
+}
+
+export const SCORE_COMPONENTS: Record<ScoreComponent, { label: string; color: string }> = {
+  stars: { label: "Stars", color: "bg-sky-400" },
+  forks: { label: "Forks", color: "bg-indigo-400" },
+  watchers: { label: "Watchers", color: "bg-violet-400" },
+  freshness: { label: "Freshness", color: "bg-emerald-400" },
+  downloads: { label: "Downloads", color: "bg-amber-400" },
+  dependents: { label: "Dependents", color: "bg-orange-400" },
+  contributors: { label: "Contributors", color: "bg-teal-400" },
+  issues: { label: "Open issues", color: "bg-rose-400" },
+  inactivity: { label: "Inactivity", color: "bg-rose-500" },
+  docs: { label: "Docs", color: "bg-lime-400" },
+};
+
+function ScoreBreakdownBar({ breakdown }: { breakdown: ScoreBreakdown }) {
+  const entries = (Object.entries(breakdown.components) as [ScoreComponent, number][]).filter(
+    ([component]) => component in SCORE_COMPONENTS,
+  );
+  const gains = entries.filter(([, points]) => points > 0).sort((a, b) => b[1] - a[1]);
+  const penalties = entries.filter(([, points]) => points < 0);
+  const total = gains.reduce((sum, [, points]) => sum + points, 0);
+  const tooltip = entries
+    .map(([component, points]) => `${SCORE_COMPONENTS[component].label}: ${points > 0 ? "+" : ""}${points.toFixed(2)}`)
+    .join("\n");
+
+  if (!total) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 space-y-1" title={`Profile: ${breakdown.profile}\n${tooltip}`}>
+      <div className="flex h-1.5 w-full overflow-hidden rounded-full bg-slate-800">
+        {gains.map(([component, points]) => (
+          <div
+            key={component}
+            className={SCORE_COMPONENTS[component].color}
+            style={{ width: `${(points / total) * 100}%` }}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">
+        {breakdown.profile} profile · top:{" "}
+        {gains
+          .slice(0, 3)
+          .map(([component]) => SCORE_COMPONENTS[component].label.toLowerCase())
+          .join(", ")}
+        {penalties.length > 0 &&
+          ` · penalties: ${penalties.map(([component, points]) => `${SCORE_COMPONENTS[component].label.toLowerCase()} ${points.toFixed(1)}`).join(", ")}`}
+      </p>
+    </div>
+  );
+}
+
 function StatPill({ label, value }: { label: string; value: string }) {
   return (
     <span className="inline-flex items-center gap-1 rounded-full bg-slate-800/80 px-3 py-1">
@@ -136,7 +366,12 @@ export function SearchResults({ result, enableDrag = false, onProjectSelect }: S
           <div>
             <h2 className="text-xl font-semibold text-slate-100">{result.summary}</h2>
             <p className="text-sm text-slate-300/80">
-              Generated {new Date(result.generatedAt).toLocaleString()} · Source: GitHub Search API
+              Generated {new Date(result.generatedAt).toLocaleString()} · Source: {describeSources(result)}
+              {result.cache && result.cache.search !== "miss" ? (
+                <span className="ml-2 rounded-full bg-amber-500/10 px-2 py-0.5 text-xs text-amber-200">
+                  {result.cache.search === "hit" ? "Cached" : "Revalidated"} · fetched {formatDate(result.cache.fetchedAt)}
+                </span>
+              ) : null}
             </p>
           </div>
           <FilterSummary filters={result.filters} />
@@ -150,14 +385,50 @@ export function SearchResults({ result, enableDrag = false, onProjectSelect }: S
 
       <div className="grid gap-4 md:grid-cols-2">
         {result.projects.map((project) => (
-          <ProjectCard key={project.id} project={project} onProjectSelect={onProjectSelect} />
+          <ProjectCard key={projectKey(project)} project={project} onProjectSelect={onProjectSelect} />
         ))}
       </div>
+
+      {result.contributions && <ContributionIssueFeed feed={result.contributions} />}
     </section>
   );
 }
 
+function describeSources(result: SearchResult) {
+  if (!result.sources?.length) {
+    return "GitHub Search API";
+  }
+  return result.sources
+    .map((source) => (source.error ? `${source.label} (unavailable)` : source.label))
+    .join(", ");
+}
+
+function describeRefinements(filters: SearchResult["filters"]) {
+  const excluded = [
+    filters.excludeArchived ? "archived" : null,
+    filters.excludeForks ? "forks" : null,
+    filters.excludeTemplates ? "templates" : null,
+  ].filter(Boolean);
+  const created = [
+    filters.createdAfter ? `after ${filters.createdAfter}` : null,
+    filters.createdBefore ? `before ${filters.createdBefore}` : null,
+  ].filter(Boolean);
+  return [
+    filters.languages?.length ? ["Languages", filters.languages.join(", ")] : null,
+    filters.minForks ? ["Min forks", String(filters.minForks)] : null,
+    filters.licenses?.length ? ["Licenses", filters.licenses.join(", ")] : null,
+    filters.excludeLicenses?.length ? ["Excluded licenses", filters.excludeLicenses.join(", ")] : null,
+    filters.topics?.length ? ["Required topics", filters.topics.join(", ")] : null,
+    filters.excludeTopics?.length ? ["Excluded topics", filters.excludeTopics.join(", ")] : null,
+    excluded.length ? ["Excluding", excluded.join(", ")] : null,
+    created.length ? ["Created", created.join(", ")] : null,
+    filters.ownerType ? ["Owner", filters.ownerType === "organization" ? "Organizations" : "Individuals"] : null,
+    filters.maxIssueAgeDays ? ["Max issue age", `${filters.maxIssueAgeDays} days`] : null,
+  ].filter((entry): entry is [string, string] => entry !== null);
+}
+
 function FilterSummary({ filters }: { filters: SearchResult["filters"] }) {
+  const refinements = describeRefinements(filters);
   return (
     <dl className="grid grid-cols-2 gap-y-1 gap-x-4 rounded-xl bg-slate-900/80 px-4 py-3 text-xs text-slate-300/80 md:grid-cols-4">
       <div>
@@ -176,6 +447,30 @@ function FilterSummary({ filters }: { filters: SearchResult["filters"] }) {
         <dt className="uppercase tracking-wide text-slate-500">Maintained</dt>
         <dd className="text-slate-100">{filters.onlyMaintained ? "Yes" : "No"}</dd>
       </div>
+      {filters.profile ? (
+        <div className="col-span-2 md:col-span-4">
+          <dt className="uppercase tracking-wide text-slate-500">Scoring profile</dt>
+          <dd className="text-slate-100">{filters.profile}</dd>
+        </div>
+      ) : null}
+      {filters.policy ? (
+        <div className="col-span-2 md:col-span-4">
+          <dt className="uppercase tracking-wide text-slate-500">Policy</dt>
+          <dd className="text-slate-100">{filters.policy}</dd>
+        </div>
+      ) : null}
+      {filters.providers?.length ? (
+        <div className="col-span-2 md:col-span-4">
+          <dt className="uppercase tracking-wide text-slate-500">Forges</dt>
+          <dd className="text-slate-100">{filters.providers.map(sourceLabel).join(", ")}</dd>
+        </div>
+      ) : null}
+      {refinements.map(([label, value]) => (
+        <div key={label} className="col-span-2">
+          <dt className="uppercase tracking-wide text-slate-500">{label}</dt>
+          <dd className="text-slate-100">{value}</dd>
+        </div>
+      ))}
     </dl>
   );
 }
@@ -0,0 +1,271 @@
+"use client";
+
+import React, { FormEvent, useCallback, useEffect, useState } from "react";
+import { ProjectSummary, SearchFilters, Shortlist } from "@/lib/types";
+
+const EXPIRY_OPTIONS = [
+  { label: "Never", days: 0 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+];
+
+export type ShortlistSource = {
+  id: string;
+  label: string;
+  projects: ProjectSummary[];
+  filters: SearchFilters;
+  rationale?: string;
+};
+
+type ShortlistInput = {
+  title: string;
+  rationale: string;
+  projects: ProjectSummary[];
+  filters: SearchFilters;
+  expiresAt: string | null;
+};
+
+async function readError(response: Response) {
+  try {
+    const data = (await response.json()) as { error?: string };
+    return data.error ?? `Request failed with ${response.status}`;
+  } catch {
+    return `Request failed with ${response.status}`;
+  }
+}
+
+export function useShortlists() {
+  const [shortlists, setShortlists] = useState<Shortlist[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/shortlists", { cache: "no-store" });
+      if (!response.ok) {
+        setError(await readError(response));
+        return;
+      }
+      const data = (await response.json()) as { shortlists?: Shortlist[] };
+      setShortlists(Array.isArray(data.shortlists) ? data.shortlists : []);
+      setError(null);
+    } catch (loadError) {
+      console.warn("[shortlists] Failed to load shortlists", loadError);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const mutate = useCallback(
+    async (path: string, init: RequestInit) => {
+      const response = await fetch(path, { ...init, headers: { "Content-Type": "application/json" } });
+      if (!response.ok) {
+        setError(await readError(response));
+        return false;
+      }
+      setError(null);
+      await refresh();
+      return true;
+    },
+    [refresh],
+  );
+
+  const createShortlist = useCallback(
+    (input: ShortlistInput) => mutate("/api/shortlists", { method: "POST", body: JSON.stringify(input) }),
+    [mutate],
+  );
+  const revokeShortlist = useCallback(
+    (shortlist: Shortlist) =>
+      mutate(`/api/shortlists/${shortlist.id}`, { method: "PATCH", body: JSON.stringify({ revoked: true }) }),
+    [mutate],
+  );
+  const rotateShortlistLink = useCallback(
+    (shortlist: Shortlist) =>
+      mutate(`/api/shortlists/${shortlist.id}`, { method: "PATCH", body: JSON.stringify({ rotateLink: true }) }),
+    [mutate],
+  );
+  const removeShortlist = useCallback(
+    (shortlist: Shortlist) => mutate(`/api/shortlists/${shortlist.id}`, { method: "DELETE" }),
+    [mutate],
+  );
+
+  return { shortlists, error, createShortlist, revokeShortlist, rotateShortlistLink, removeShortlist };
+}
+
+function linkState(shortlist: Shortlist) {
+  if (shortlist.revokedAt) {
+    return { label: "Revoked", className: "bg-rose-500/15 text-rose-200", live: false };
+  }
+  if (shortlist.expiresAt && new Date(shortlist.expiresAt).getTime() <= Date.now()) {
+    return { label: "Expired", className: "bg-slate-500/20 text-slate-300", live: false };
+  }
+  return { label: "Shared", className: "bg-emerald-500/15 text-emerald-200", live: true };
+}
+
+function ShortlistForm({
+  sources,
+  onCreate,
+}: {
+  sources: ShortlistSource[];
+  onCreate: (input: ShortlistInput) => Promise<boolean>;
+}) {
+  const [sourceId, setSourceId] = useState(sources[0]?.id ?? "");
+  const source = sources.find((entry) => entry.id === sourceId) ?? sources[0];
+  const [title, setTitle] = useState("");
+  const [rationale, setRationale] = useState("");
+  const [expiryDays, setExpiryDays] = useState(0);
+
+  useEffect(() => {
+    setTitle(source?.label ?? "");
+    setRationale(source?.rationale ?? "");
+  }, [source?.id, source?.label, source?.rationale]);
+
+  if (!source) {
+    return null;
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const created = await onCreate({
+      title,
+      rationale,
+      projects: source.projects,
+      filters: source.filters,
+      expiresAt: expiryDays ? new Date(Date.now() + expiryDays * 24 * 3600 * 1000).toISOString() : null,
+    });
+    if (created) {
+      setTitle(source.label);
+      setRationale(source.rationale ?? "");
+    }
+  };
+
+  const fieldClass =
+    "w-full rounded-lg bg-slate-950/60 px-3 py-2 text-sm text-slate-200 ring-1 ring-slate-800 placeholder:text-slate-500 focus:outline-none focus:ring-sky-500/60";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-xl bg-slate-900/60 p-5 ring-1 ring-slate-800/60">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+        <label className="flex items-center gap-2">
+          From
+          <select value={source.id} onChange={(event) => setSourceId(event.target.value)} className={`${fieldClass} w-auto`}>
+            {sources.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.label} ({entry.projects.length})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Link expires
+          <select
+            value={expiryDays}
+            onChange={(event) => setExpiryDays(Number(event.target.value))}
+            className={`${fieldClass} w-auto`}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <input value={title} onChange={(event) => setTitle(event.target.value)} placeholder="Title" className={fieldClass} />
+      <textarea
+        value={rationale}
+        onChange={(event) => setRationale(event.target.value)}
+        rows={3}
+        placeholder="Why these projects made the cut"
+        className={fieldClass}
+      />
+      <button
+        type="submit"
+        disabled={!title.trim()}
+        className="rounded-full bg-sky-500/10 px-4 py-1.5 text-xs font-medium text-sky-200 hover:bg-sky-500/20 disabled:opacity-60"
+      >
+        Create read-only link
+      </button>
+    </form>
+  );
+}
+
+type ShortlistPanelProps = {
+  shortlists: Shortlist[];
+  error: string | null;
+  sources: ShortlistSource[];
+  onCreate: (input: ShortlistInput) => Promise<boolean>;
+  onRevoke: (shortlist: Shortlist) => void;
+  onRotate: (shortlist: Shortlist) => void;
+  onRemove: (shortlist: Shortlist) => void;
+};
+
+export function ShortlistPanel({ shortlists, error, sources, onCreate, onRevoke, onRotate, onRemove }: ShortlistPanelProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  if (!shortlists.length && !sources.length && !error) {
+    return null;
+  }
+
+  const copyLink = async (shortlist: Shortlist) => {
+    await navigator.clipboard.writeText(`${window.location.origin}${shortlist.sharePath}`);
+    setCopied(shortlist.id);
+  };
+
+  return (
+    <section className="space-y-4">
+      <header className="flex items-center justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-500/80">Shortlists</p>
+          <h2 className="text-xl font-semibold text-slate-100">Share what you compared</h2>
+        </div>
+        {error && <span className="text-xs text-rose-300">{error}</span>}
+      </header>
+      <ShortlistForm sources={sources} onCreate={onCreate} />
+      {shortlists.length > 0 && (
+        <ul className="space-y-2">
+          {shortlists.map((shortlist) => {
+            const state = linkState(shortlist);
+            return (
+              <li
+                key={shortlist.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-xl bg-slate-900/60 px-5 py-3 ring-1 ring-slate-800/60"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-semibold text-slate-100">{shortlist.title}</p>
+                  <p className="text-xs text-slate-500">
+                    {shortlist.projects.length} project(s) · {new Date(shortlist.createdAt).toLocaleDateString()}
+                    {shortlist.expiresAt ? ` · expires ${new Date(shortlist.expiresAt).toLocaleDateString()}` : ""}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 text-xs font-medium">
+                  <span className={`rounded-full px-2 py-0.5 ${state.className}`}>{state.label}</span>
+                  {state.live && (
+                    <>
+                      <a href={shortlist.sharePath} target="_blank" rel="noopener noreferrer" className="text-sky-300 hover:text-sky-200">
+                        Open
+                      </a>
+                      <button type="button" onClick={() => copyLink(shortlist)} className="text-sky-300 hover:text-sky-200">
+                        {copied === shortlist.id ? "Copied" : "Copy link"}
+                      </button>
+                      <button type="button" onClick={() => onRevoke(shortlist)} className="text-slate-400 hover:text-rose-300">
+                        Revoke
+                      </button>
+                    </>
+                  )}
+                  <button type="button" onClick={() => onRotate(shortlist)} className="text-slate-400 hover:text-slate-200">
+                    New link
+                  </button>
+                  <button type="button" onClick={() => onRemove(shortlist)} className="text-slate-400 hover:text-rose-300">
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { SearchFilters, Watch, WatchDiff } from "@/lib/types";
+import { hunterApiUrl } from "@/lib/hunter-api";
+
+const REFRESH_INTERVAL_MS = 60000;
+const DEFAULT_SCHEDULE = "@daily";
+
+async function readError(response: Response) {
+  try {
+    const data = (await response.json()) as { error?: string };
+    return data.error ?? `Request failed with ${response.status}`;
+  } catch {
+    return `Request failed with ${response.status}`;
+  }
+}
+
+/**
+ * Loads the saved watches from the backend and keeps them fresh while the dashboard is open.
+ */
+export function useWatchlists() {
+  const [watches, setWatches] = useState<Watch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(hunterApiUrl("/api/watchlists"), { cache: "no-store", credentials: "include" });
+      if (!response.ok) {
+        setError(await readError(response));
+        return;
+      }
+      const data = (await response.json()) as { watches?: Watch[] };
+      setWatches(Array.isArray(data.watches) ? data.watches : []);
+      setError(null);
+    } catch (loadError) {
+      console.warn("[watchlists] Failed to load watches", loadError);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const mutate = useCallback(
+    async (path: string, init: RequestInit) => {
+      const response = await fetch(hunterApiUrl(path), {
+        ...init,
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!response.ok) {
+        setError(await readError(response));
+        return false;
+      }
+      setError(null);
+      await refresh();
+      return true;
+    },
+    [refresh],
+  );
+
+  const watchSearch = useCallback(
+    (filters: SearchFilters, schedule = DEFAULT_SCHEDULE) =>
+      mutate("/api/watchlists", { method: "POST", body: JSON.stringify({ name: filters.topic, filters, schedule }) }),
+    [mutate],
+  );
+  const runNow = useCallback((watch: Watch) => mutate(`/api/watchlists/${watch.id}/run`, { method: "POST" }), [mutate]);
+  const removeWatch = useCallback((watch: Watch) => mutate(`/api/watchlists/${watch.id}`, { method: "DELETE" }), [mutate]);
+
+  return { watches, error, watchSearch, runNow, removeWatch };
+}
+
+function formatTime(value?: string | null) {
+  if (!value) {
+    return "—";
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "—" : date.toLocaleString();
+}
+
+function DiffList({ diff }: { diff: WatchDiff }) {
+  const groups = [
+    {
+      label: "New entrants",
+      className: "text-emerald-300",
+      items: diff.entered.map((entry) => ({ key: entry.key, url: entry.url, name: entry.name, detail: `#${entry.rank}` })),
+    },
+    {
+      label: "Dropped",
+      className: "text-rose-300",
+      items: diff.dropped.map((entry) => ({ key: entry.key, url: entry.url, name: entry.name, detail: `was #${entry.rank}` })),
+    },
+    {
+      label: "Rank moves",
+      className: "text-sky-300",
+      items: diff.moved.map((entry) => ({
+        key: entry.key,
+        url: entry.url,
+        name: entry.name,
+        detail: `#${entry.previousRank} → #${entry.rank}`,
+      })),
+    },
+    {
+      label: "License changes",
+      className: "text-amber-200",
+      items: diff.licenseChanged.map((entry) => ({
+        key: entry.key,
+        url: entry.url,
+        name: entry.name,
+        detail: `${entry.previousLicense ?? "none"} → ${entry.license ?? "none"}`,
+      })),
+    },
+    {
+      label: "Archive status",
+      className: "text-amber-200",
+      items: diff.archivedChanged.map((entry) => ({
+        key: entry.key,
+        url: entry.url,
+        name: entry.name,
+        detail: entry.archived ? "archived" : "unarchived",
+      })),
+    },
+  ].filter((group) => group.items.length > 0);
+
+  if (!groups.length) {
+    return <p className="text-sm text-slate-400">{diff.summary}</p>;
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {groups.map((group) => (
+        <div key={group.label}>
+          <p className={`text-xs uppercase tracking-wide ${group.className}`}>{group.label}</p>
+          <ul className="mt-1 space-y-0.5 text-sm text-slate-200">
+            {group.items.map((item) => (
+              <li key={item.key}>
+                <Link href={item.url} target="_blank" rel="noopener noreferrer" className="hover:text-sky-200">
+                  {item.name}
+                </Link>{" "}
+                <span className="text-xs text-slate-400">{item.detail}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type WatchlistPanelProps = {
+  watches: Watch[];
+  error: string | null;
+  onRunNow: (watch: Watch) => void;
+  onRemove: (watch: Watch) => void;
+};
+
+export function WatchlistPanel({ watches, error, onRunNow, onRemove }: WatchlistPanelProps) {
+  if (!watches.length && !error) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4">
+      <header className="flex items-center justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-500/80">Watchlists</p>
+          <h2 className="text-xl font-semibold text-slate-100">What changed</h2>
+        </div>
+        {error && <span className="text-xs text-rose-300">{error}</span>}
+      </header>
+      <div className="grid gap-4 md:grid-cols-2">
+        {watches.map((watch) => (
+          <article key={watch.id} className="space-y-3 rounded-xl bg-slate-900/60 p-5 ring-1 ring-slate-800/60">
+            <header className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-base font-semibold text-slate-100">{watch.name}</h3>
+                <p className="text-xs text-slate-500">
+                  <code>{watch.schedule}</code> (UTC) · next run {formatTime(watch.nextRunAt)}
+                </p>
+              </div>
+              <div className="flex gap-3 text-xs font-medium">
+                <button type="button" onClick={() => onRunNow(watch)} className="text-sky-300 hover:text-sky-200">
+                  Run now
+                </button>
+                <button type="button" onClick={() => onRemove(watch)} className="text-slate-400 hover:text-rose-300">
+                  Delete
+                </button>
+              </div>
+            </header>
+            {!watch.lastRun ? (
+              <p className="text-sm text-slate-400">Waiting for the first run.</p>
+            ) : (
+              <>
+                <p className="text-xs text-slate-500">Last run {formatTime(watch.lastRun.runAt)}</p>
+                {watch.lastRun.diff ? (
+                  <DiffList diff={watch.lastRun.diff} />
+                ) : (
+                  <p className="text-sm text-slate-400">
+                    Baseline captured with {watch.lastRun.projects.length} project(s); the next run will show what changed.
+                  </p>
+                )}
+              </>
+            )}
+          </article>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import React, { FormEvent, useCallback, useEffect, useState } from "react";
+
+type WorkspaceSession = {
+  workspace: string | null;
+  authRequired: boolean;
+};
+
+/**
+ * Reads the caller's workspace from `/api/session`. `session` stays `null` until the first
+ * response arrives so the dashboard does not flash a sign-in form on single-tenant deployments.
+ */
+export function useWorkspace() {
+  const [session, setSession] = useState<WorkspaceSession | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/session", { cache: "no-store" })
+      .then((response) => response.json() as Promise<WorkspaceSession>)
+      .then((data) => {
+        if (!cancelled) {
+          setSession({ workspace: data.workspace ?? null, authRequired: Boolean(data.authRequired) });
+        }
+      })
+      .catch((error) => {
+        console.warn("[workspace] Failed to load session", error);
+        if (!cancelled) {
+          setSession({ workspace: null, authRequired: true });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Favorites, prompts and jobs are all scoped to the workspace, so reload rather than reset each piece.
+  const signOut = useCallback(async () => {
+    await fetch("/api/session", { method: "DELETE" });
+    window.location.reload();
+  }, []);
+
+  return { session, signOut };
+}
+
+export function WorkspaceSignIn() {
+  const [token, setToken] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setPending(true);
+    try {
+      const response = await fetch("/api/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as { error?: string };
+        setError(data.error ?? `Sign-in failed with ${response.status}`);
+        return;
+      }
+      window.location.reload();
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-slate-950 px-6">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 rounded-2xl bg-slate-900/70 p-8 shadow-xl ring-1 ring-slate-800/60"
+      >
+        <div className="space-y-1">
+          <p className="text-sm uppercase tracking-[0.3em] text-sky-300/80">Open Source Hunter</p>
+          <h1 className="text-xl font-semibold text-slate-100">Sign in to your workspace</h1>
+          <p className="text-sm text-slate-400">Paste the API token your team was given.</p>
+        </div>
+        <input
+          type="password"
+          value={token}
+          onChange={(event) => setToken(event.target.value)}
+          placeholder="API token"
+          autoFocus
+          className="w-full rounded-lg bg-slate-950/60 px-3 py-2 text-sm text-slate-200 ring-1 ring-slate-800 placeholder:text-slate-500 focus:outline-none focus:ring-sky-500/60"
+        />
+        {error && <p className="text-xs text-rose-300">{error}</p>}
+        <button
+          type="submit"
+          disabled={!token.trim() || pending}
+          className="w-full rounded-lg bg-sky-500/20 py-2 text-sm font-medium text-sky-100 hover:bg-sky-500/30 disabled:opacity-60"
+        >
+          Sign in
+        </button>
+      </form>
+    </main>
+  );
+}
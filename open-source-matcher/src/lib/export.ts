@@ -0,0 +1,338 @@
+import { forgeLabel } from "@/lib/forges";
+import { ProjectSummary, SearchFilters, SearchResult } from "@/lib/types";
+
+export type ExportFormat = "csv" | "markdown" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "markdown", "json"];
+
+const MAX_EXPORT_SEARCHES = Number(process.env.HUNTER_EXPORT_MAX_SEARCHES ?? 20);
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = { csv: "csv", markdown: "md", json: "json" };
+
+const CSV_COLUMNS = [
+  "search",
+  "job_id",
+  "rank",
+  "name",
+  "forge",
+  "url",
+  "description",
+  "language",
+  "license",
+  "stars",
+  "forks",
+  "watchers",
+  "open_issues",
+  "score",
+  "last_pushed_at",
+  "archived",
+  "compliance",
+  "topics",
+  "reasons",
+] as const;
+
+const FILTER_LABELS: Partial<Record<keyof SearchFilters, string>> = {
+  topic: "Topic",
+  language: "Language",
+  languages: "Languages",
+  minStars: "Minimum stars",
+  minForks: "Minimum forks",
+  onlyMaintained: "Only maintained",
+  limit: "Result limit",
+  providers: "Forges",
+  profile: "Scoring profile",
+  policy: "Policy",
+  licenses: "Licenses",
+  excludeLicenses: "Excluded licenses",
+  topics: "Required topics",
+  excludeTopics: "Excluded topics",
+  excludeArchived: "Exclude archived",
+  excludeForks: "Exclude forks",
+  excludeTemplates: "Exclude templates",
+  createdAfter: "Created after",
+  createdBefore: "Created before",
+  ownerType: "Owner type",
+  repositories: "Listed repositories",
+  dependencies: "Audited dependencies",
+  manifest: "Manifest",
+  contributions: "Contribution mode",
+  maxIssueAgeDays: "Max issue age (days)",
+};
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Checks the searches a client asks to export. Results only live in the dashboard's state, so the
+ * export is built from what the browser sends; anything without a topic and projects is refused.
+ */
+export function parseExportResults(value: unknown): SearchResult[] {
+  const entries = Array.isArray(value) ? value : value ? [value] : [];
+  if (!entries.length) {
+    throw new ExportError("Select at least one search to export.");
+  }
+  if (entries.length > MAX_EXPORT_SEARCHES) {
+    throw new ExportError(`At most ${MAX_EXPORT_SEARCHES} searches can be exported at once.`);
+  }
+  return entries.map((entry, index) => {
+    const result = entry && typeof entry === "object" ? (entry as Partial<SearchResult>) : {};
+    if (typeof result.filters?.topic !== "string" || !Array.isArray(result.projects)) {
+      throw new ExportError(`Search ${index + 1} needs filters with a topic and a list of projects.`);
+    }
+    const projects = result.projects.filter(
+      (project): project is ProjectSummary =>
+        Boolean(project) && typeof project.name === "string" && typeof project.url === "string",
+    );
+    return {
+      ...(result as SearchResult),
+      jobId: typeof result.jobId === "string" ? result.jobId : `export-${index + 1}`,
+      summary: typeof result.summary === "string" ? result.summary : "",
+      generatedAt: typeof result.generatedAt === "string" ? result.generatedAt : "",
+      totalFetched: Number(result.totalFetched) || projects.length,
+      projects,
+    };
+  });
+}
+
+function csvCell(value: unknown) {
+  let text = value == null ? "" : String(value);
+  // Spreadsheets evaluate cells starting with these characters as formulas.
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatScore(score: number | undefined) {
+  return typeof score === "number" && Number.isFinite(score) ? score.toFixed(1) : "";
+}
+
+/** One row per project; several searches share a sheet and are told apart by the first two columns. */
+export function toCsv(results: SearchResult[]) {
+  const rows = results.flatMap((result) =>
+    result.projects.map((project, index) => [
+      result.filters.topic,
+      result.jobId,
+      index + 1,
+      project.name,
+      forgeLabel(project),
+      project.url,
+      project.description ?? "",
+      project.language ?? "",
+      project.license ?? "",
+      project.stars,
+      project.forks,
+      project.watchers,
+      project.openIssues,
+      formatScore(project.score),
+      project.lastPushedAt ?? "",
+      project.archived ? "yes" : "no",
+      project.compliance?.status ?? "",
+      (project.topics ?? []).join("; "),
+      (project.reasons ?? []).join(" | "),
+    ]),
+  );
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function markdownText(value: string) {
+  return value.replace(/([\\`*_[\]<>|])/g, "\\$1").replace(/\s*\n\s*/g, " ");
+}
+
+function markdownLink(project: ProjectSummary) {
+  const name = markdownText(project.name);
+  if (!/^https?:\/\//.test(project.url)) {
+    return name;
+  }
+  // Spaces and parentheses would end the link target early.
+  const target = project.url.replace(/ /g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29");
+  return `[${name}](${target})`;
+}
+
+function describeFilter(value: unknown) {
+  if (Array.isArray(value)) {
+    // Audited dependencies are objects; their names are what a reader needs.
+    return value.map((entry) => (entry && typeof entry === "object" && "name" in entry ? entry.name : entry)).join(", ");
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  return String(value);
+}
+
+function filterRows(filters: SearchFilters) {
+  return Object.entries(filters)
+    .filter(([, value]) => value != null && value !== "" && !(Array.isArray(value) && !value.length))
+    .map(([key, value]) => `| ${FILTER_LABELS[key as keyof SearchFilters] ?? key} | ${markdownText(describeFilter(value))} |`);
+}
+
+function auditSection(result: SearchResult, heading: string) {
+  const findings = result.audit?.findings ?? [];
+  if (!findings.length) {
+    return [];
+  }
+  return [
+    `${heading}# Dependency audit`,
+    "",
+    "| Dependency | Ecosystem | Status | Reasons | Alternatives |",
+    "| --- | --- | --- | --- | --- |",
+    ...findings.map(
+      (finding) =>
+        `| ${[
+          markdownText(finding.version ? `${finding.name} ${finding.version}` : finding.name),
+          finding.ecosystem,
+          finding.status,
+          markdownText(finding.reasons.join("; ")) || "–",
+          finding.alternatives.map(markdownLink).join(", ") || markdownText(finding.alternativesNote ?? "–"),
+        ].join(" | ")} |`,
+    ),
+    "",
+  ];
+}
+
+function contributionSection(result: SearchResult, heading: string) {
+  const projects = result.contributions?.projects ?? [];
+  if (!projects.length) {
+    return [];
+  }
+  const lines = [`${heading}# Contribution opportunities`, ""];
+  for (const project of projects) {
+    lines.push(`${heading}## ${markdownText(project.name)}`, "");
+    if (!project.issues.length) {
+      lines.push(markdownText(project.note ?? "No matching issues."), "");
+      continue;
+    }
+    lines.push(
+      ...project.issues.map(
+        (issue) =>
+          `- [#${issue.number} ${markdownText(issue.title)}](${issue.url}) – ${issue.score.toFixed(1)}: ${markdownText(issue.reasons.join("; "))}`,
+      ),
+      "",
+    );
+  }
+  return lines;
+}
+
+function markdownSection(result: SearchResult, heading: string) {
+  const lines = [`${heading} ${markdownText(result.filters.topic)}`, ""];
+  if (result.summary) {
+    lines.push(markdownText(result.summary), "");
+  }
+  lines.push(
+    `- Generated: ${result.generatedAt || "unknown"}`,
+    `- Job: \`${result.jobId}\``,
+    `- Projects: ${result.projects.length} shown of ${result.totalFetched} fetched`,
+    "",
+    `${heading}# Filters`,
+    "",
+    "| Filter | Value |",
+    "| --- | --- |",
+    ...filterRows(result.filters),
+    "",
+    ...auditSection(result, heading),
+    `${heading}# Ranked projects`,
+    "",
+  );
+  if (!result.projects.length) {
+    lines.push("No projects matched.", "");
+    return lines;
+  }
+  lines.push(
+    "| # | Project | Forge | Score | Stars | Language | License | Last push | Compliance |",
+    "| ---: | --- | --- | ---: | ---: | --- | --- | --- | --- |",
+    ...result.projects.map((project, index) =>
+      [
+        index + 1,
+        markdownLink(project),
+        forgeLabel(project),
+        formatScore(project.score) || "–",
+        project.stars ?? 0,
+        markdownText(project.language ?? "–"),
+        markdownText(project.license ?? "–"),
+        project.lastPushedAt ? project.lastPushedAt.slice(0, 10) : "–",
+        project.compliance?.status ?? "–",
+      ].join(" | "),
+    ).map((row) => `| ${row} |`),
+    "",
+    `${heading}# Reasons`,
+    "",
+  );
+  result.projects.forEach((project, index) => {
+    lines.push(`${heading}## ${index + 1}. ${markdownText(project.name)}`, "");
+    const reasons = project.reasons?.length ? project.reasons : ["No reasons recorded."];
+    lines.push(...reasons.map((reason) => `- ${markdownText(reason)}`));
+    for (const violation of project.compliance?.violations ?? []) {
+      lines.push(`- Policy ${violation.severity}: ${markdownText(violation.message)}`);
+    }
+    lines.push("");
+  });
+  lines.push(...contributionSection(result, heading));
+  return lines;
+}
+
+/**
+ * Evaluation report meant to be pasted into an architecture decision record: filters, summary,
+ * the ranked table and each project's reasons, per search.
+ */
+export function toMarkdown(results: SearchResult[], exportedAt: string) {
+  const title =
+    results.length === 1 ? `Evaluation: ${markdownText(results[0].filters.topic)}` : `Evaluation of ${results.length} searches`;
+  const lines = [`# ${title}`, "", `_Exported from Open Source Hunter on ${exportedAt}._`, ""];
+  if (results.length === 1) {
+    lines.push(...markdownSection(results[0], "#").slice(2));
+  } else {
+    results.forEach((result) => lines.push(...markdownSection(result, "##")));
+  }
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/** Sorted keys and fixed indentation so two exports of the same searches diff cleanly. */
+export function toJson(results: SearchResult[], exportedAt: string) {
+  return `${JSON.stringify(canonicalize({ version: 1, exportedAt, searches: results }), null, 2)}\n`;
+}
+
+export function exportFilename(results: SearchResult[], format: ExportFormat, exportedAt: string) {
+  const label = results.length === 1 ? results[0].filters.topic : `${results.length}-searches`;
+  const slug =
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "search";
+  return `open-source-hunt-${slug}-${exportedAt.slice(0, 10)}.${EXTENSIONS[format]}`;
+}
+
+export function renderExport(results: SearchResult[], format: ExportFormat, exportedAt = new Date().toISOString()) {
+  const body =
+    format === "csv" ? toCsv(results) : format === "markdown" ? toMarkdown(results, exportedAt) : toJson(results, exportedAt);
+  return { body, contentType: CONTENT_TYPES[format], filename: exportFilename(results, format, exportedAt) };
+}
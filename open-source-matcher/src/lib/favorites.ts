@@ -0,0 +1,287 @@
+import { getRedisClient } from "@/lib/redis";
+import { isProjectSource, projectKey } from "@/lib/forges";
+import { Favorite, FavoriteProject, FavoriteStatus, FavoritesPage } from "@/lib/types";
+import { DEFAULT_WORKSPACE, workspaceKey } from "@/lib/workspace";
+
+const FAVORITES_KEY = process.env.HUNTER_FAVORITES_KEY ?? "hunter:favorites";
+const MAX_NOTES_LENGTH = 2000;
+const MAX_TAGS = 12;
+const MAX_TAG_LENGTH = 32;
+
+export const FAVORITE_STATUSES: FavoriteStatus[] = ["evaluating", "adopted", "rejected"];
+
+export class FavoritesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FavoritesError";
+  }
+}
+
+export type FavoriteChanges = {
+  notes?: string;
+  tags?: string[];
+  status?: FavoriteStatus;
+};
+
+export type FavoriteQuery = {
+  offset?: number;
+  limit: number;
+  status?: FavoriteStatus;
+  tag?: string;
+};
+
+function favoritesKeys(workspace: string) {
+  const base = workspaceKey(workspace, FAVORITES_KEY);
+  return { items: `${base}:items`, index: `${base}:saved` };
+}
+
+function parseFavorite(raw: string | null): Favorite | null {
+  try {
+    return raw ? (JSON.parse(raw) as Favorite) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isFavorite(entry: Favorite | null): entry is Favorite {
+  return Boolean(entry);
+}
+
+function optionalString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Keeps the fields the dashboard needs to render a saved project. Projects without their forge id
+ * are rejected: the id is what keeps a re-saved project from becoming a second favorite.
+ */
+export function sanitizeProject(data: unknown): FavoriteProject | null {
+  if (!data || typeof data !== "object") {
+    return null;
+  }
+
+  const record = data as Record<string, unknown>;
+  const id = Number(record.id);
+  const name = optionalString(record.name);
+  const url = optionalString(record.url ?? record.html_url);
+  if (!Number.isSafeInteger(id) || !name || !url) {
+    return null;
+  }
+
+  const description =
+    optionalString(record.description) ??
+    (Array.isArray(record.reasons) ? record.reasons.map(optionalString).find(Boolean) : undefined);
+  const stars = typeof record.stars === "number" ? record.stars : Number(record.stargazers_count);
+
+  return {
+    id,
+    source: isProjectSource(record.source) ? record.source : "github",
+    name,
+    url,
+    description,
+    summary: optionalString(record.summary) ?? description,
+    topics: Array.isArray(record.topics) ? record.topics.map(String) : undefined,
+    language: optionalString(record.language),
+    stars: Number.isFinite(stars) ? stars : undefined,
+    license: optionalString(record.license),
+  };
+}
+
+/**
+ * Validates the user-editable part of a favorite. Missing fields are left out so callers can merge
+ * the result over what is stored.
+ */
+export function sanitizeChanges(data: unknown): FavoriteChanges {
+  const record = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const changes: FavoriteChanges = {};
+
+  if (record.notes != null) {
+    if (typeof record.notes !== "string") {
+      throw new FavoritesError("Notes must be a string.");
+    }
+    if (record.notes.length > MAX_NOTES_LENGTH) {
+      throw new FavoritesError(`Notes are at most ${MAX_NOTES_LENGTH} characters.`);
+    }
+    changes.notes = record.notes.trim();
+  }
+
+  if (record.tags != null) {
+    if (!Array.isArray(record.tags) || record.tags.some((tag) => typeof tag !== "string")) {
+      throw new FavoritesError("Tags must be a list of strings.");
+    }
+    const tags = new Map<string, string>();
+    record.tags.forEach((tag: string) => {
+      const value = tag.trim();
+      if (value.length > MAX_TAG_LENGTH) {
+        throw new FavoritesError(`Tags are at most ${MAX_TAG_LENGTH} characters.`);
+      }
+      if (value && !tags.has(value.toLowerCase())) {
+        tags.set(value.toLowerCase(), value);
+      }
+    });
+    if (tags.size > MAX_TAGS) {
+      throw new FavoritesError(`A favorite can have at most ${MAX_TAGS} tags.`);
+    }
+    changes.tags = [...tags.values()];
+  }
+
+  if (record.status != null) {
+    if (!FAVORITE_STATUSES.includes(record.status as FavoriteStatus)) {
+      throw new FavoritesError(`Status must be one of ${FAVORITE_STATUSES.join(", ")}.`);
+    }
+    changes.status = record.status as FavoriteStatus;
+  }
+
+  return changes;
+}
+
+export function parseStatus(value: string | null): FavoriteStatus | undefined {
+  if (value == null || value === "") {
+    return undefined;
+  }
+  if (!FAVORITE_STATUSES.includes(value as FavoriteStatus)) {
+    throw new FavoritesError(`Status must be one of ${FAVORITE_STATUSES.join(", ")}.`);
+  }
+  return value as FavoriteStatus;
+}
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Favorites used to live in a capped list of project JSON under `HUNTER_FAVORITES_KEY`. The first
+ * request after an upgrade moves those entries into the default workspace's keyed store, keeping
+ * the newest copy of each project and skipping the ones saved with a made-up id.
+ */
+function migrateLegacyList(workspace: string) {
+  if (workspace !== DEFAULT_WORKSPACE) {
+    return Promise.resolve();
+  }
+  migration ??= (async () => {
+    const redis = getRedisClient();
+    const keys = favoritesKeys(DEFAULT_WORKSPACE);
+    if ((await redis.type(FAVORITES_KEY)) !== "list") {
+      return;
+    }
+    const entries = await redis.lrange(FAVORITES_KEY, 0, -1);
+    const now = Date.now();
+    const transaction = redis.multi();
+    const seen = new Set<string>();
+    entries.forEach((entry, index) => {
+      let project: FavoriteProject | null = null;
+      try {
+        project = sanitizeProject(JSON.parse(entry));
+      } catch {
+        project = null;
+      }
+      if (!project || seen.has(projectKey(project))) {
+        return;
+      }
+      const id = projectKey(project);
+      // The list kept no timestamps; space the entries a second apart to preserve their order.
+      const savedAt = now - index * 1000;
+      const favorite: Favorite = {
+        id,
+        project,
+        notes: "",
+        tags: [],
+        status: "evaluating",
+        savedAt: new Date(savedAt).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+      };
+      seen.add(id);
+      transaction.hsetnx(keys.items, id, JSON.stringify(favorite)).zadd(keys.index, "NX", savedAt, id);
+    });
+    await transaction.del(FAVORITES_KEY).exec();
+    console.log(`[favorites] Migrated ${seen.size} favorite(s) from the legacy list`);
+  })().catch((error) => {
+    migration = null;
+    throw error;
+  });
+  return migration;
+}
+
+/**
+ * Favorites newest first. Status and tag filters are applied over the whole collection before
+ * paging, so `total` is the number of matching favorites.
+ */
+export async function listFavorites(
+  workspace: string,
+  { offset = 0, limit, status, tag }: FavoriteQuery,
+): Promise<FavoritesPage> {
+  await migrateLegacyList(workspace);
+  const redis = getRedisClient();
+  const keys = favoritesKeys(workspace);
+
+  let favorites: Favorite[];
+  let total: number;
+  if (!status && !tag) {
+    const [count, ids] = await Promise.all([
+      redis.zcard(keys.index),
+      redis.zrevrange(keys.index, offset, offset + limit - 1),
+    ]);
+    total = count;
+    favorites = ids.length ? (await redis.hmget(keys.items, ...ids)).map(parseFavorite).filter(isFavorite) : [];
+  } else {
+    const ids = await redis.zrevrange(keys.index, 0, -1);
+    const wantedTag = tag?.toLowerCase();
+    const matching = (ids.length ? await redis.hmget(keys.items, ...ids) : [])
+      .map(parseFavorite)
+      .filter(isFavorite)
+      .filter((favorite) => !status || favorite.status === status)
+      .filter((favorite) => !wantedTag || favorite.tags.some((entry) => entry.toLowerCase() === wantedTag));
+    total = matching.length;
+    favorites = matching.slice(offset, offset + limit);
+  }
+
+  const nextOffset = offset + limit < total ? offset + limit : null;
+  return { favorites, total, nextOffset };
+}
+
+export async function getFavorite(workspace: string, id: string) {
+  await migrateLegacyList(workspace);
+  return parseFavorite(await getRedisClient().hget(favoritesKeys(workspace).items, id));
+}
+
+/**
+ * Saves a project, or refreshes the stored snapshot when it is already a favorite. Notes, tags,
+ * status and the original saved-at time survive a re-save unless `changes` overrides them.
+ */
+export async function saveFavorite(workspace: string, project: FavoriteProject, changes: FavoriteChanges = {}) {
+  const id = projectKey(project);
+  const current = await getFavorite(workspace, id);
+  const keys = favoritesKeys(workspace);
+  const now = new Date().toISOString();
+  const favorite: Favorite = {
+    id,
+    project,
+    notes: changes.notes ?? current?.notes ?? "",
+    tags: changes.tags ?? current?.tags ?? [],
+    status: changes.status ?? current?.status ?? "evaluating",
+    savedAt: current?.savedAt ?? now,
+    updatedAt: now,
+  };
+
+  await getRedisClient()
+    .multi()
+    .hset(keys.items, id, JSON.stringify(favorite))
+    .zadd(keys.index, "NX", Date.parse(favorite.savedAt), id)
+    .exec();
+  return { favorite, created: !current };
+}
+
+export async function updateFavorite(workspace: string, id: string, changes: FavoriteChanges) {
+  const current = await getFavorite(workspace, id);
+  if (!current) {
+    return null;
+  }
+  const favorite: Favorite = { ...current, ...changes, updatedAt: new Date().toISOString() };
+  await getRedisClient().hset(favoritesKeys(workspace).items, id, JSON.stringify(favorite));
+  return favorite;
+}
+
+export async function deleteFavorite(workspace: string, id: string) {
+  await migrateLegacyList(workspace);
+  const keys = favoritesKeys(workspace);
+  const results = await getRedisClient().multi().hdel(keys.items, id).zrem(keys.index, id).exec();
+  return Number(results?.[0]?.[1] ?? 0) > 0;
+}
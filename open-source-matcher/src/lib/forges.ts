@@ -0,0 +1,61 @@
+import { ProjectSource, ProjectSummary } from "@/lib/types";
+
+export const PROJECT_SOURCES: ProjectSource[] = ["github", "gitlab", "gitea", "bitbucket", "stub"];
+
+const FORGE_LABELS: Record<ProjectSource, string> = {
+  github: "GitHub",
+  gitlab: "GitLab",
+  gitea: "Gitea",
+  bitbucket: "Bitbucket",
+  stub: "Fixtures",
+};
+
+const KNOWN_GITEA_HOSTS: Record<string, string> = {
+  "codeberg.org": "Codeberg",
+  "gitea.com": "Gitea",
+};
+
+export function isProjectSource(value: unknown): value is ProjectSource {
+  return typeof value === "string" && (PROJECT_SOURCES as string[]).includes(value);
+}
+
+export function sourceLabel(source: ProjectSource) {
+  return FORGE_LABELS[source];
+}
+
+/**
+ * Human-readable forge name for a project. Gitea/Forgejo instances are named after their host
+ * (e.g. Codeberg) since the provider can point at any of them.
+ */
+export function forgeLabel(project: Pick<ProjectSummary, "source" | "url">) {
+  const source = project.source ?? "github";
+  if (source === "gitea") {
+    try {
+      const host = new URL(project.url).hostname;
+      return KNOWN_GITEA_HOSTS[host] ?? host;
+    } catch {
+      return FORGE_LABELS.gitea;
+    }
+  }
+  return FORGE_LABELS[source];
+}
+
+/**
+ * A numeric id for a project that arrived without one, derived from its forge and full name (or URL)
+ * with 32-bit FNV-1a, so the same repository always gets the same id and dedupes with itself.
+ */
+export function derivedProjectId(source: ProjectSource | undefined, nameOrUrl: string) {
+  let hash = 0x811c9dc5;
+  for (const char of `${source ?? "github"}:${nameOrUrl.toLowerCase()}`) {
+    hash ^= char.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Ids are only unique within a forge, so lists mixing providers key projects by source and id.
+ */
+export function projectKey(project: Pick<ProjectSummary, "source" | "id">) {
+  return `${project.source ?? "github"}:${project.id}`;
+}
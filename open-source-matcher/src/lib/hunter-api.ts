@@ -0,0 +1,72 @@
+const COPILOT_RUNTIME_URL = process.env.NEXT_PUBLIC_COPILOTKIT_URL ?? "http://localhost:4000/copilotkit";
+
+/**
+ * Base URL of the Express backend. Defaults to the origin serving the Copilot runtime so a single
+ * `NEXT_PUBLIC_COPILOTKIT_URL` is enough for local development.
+ */
+export const HUNTER_API_URL = (
+  process.env.NEXT_PUBLIC_HUNTER_API_URL ?? COPILOT_RUNTIME_URL.replace(/\/copilotkit\/?$/, "")
+).replace(/\/$/, "");
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+export function hunterApiUrl(path: string): string {
+  return `${HUNTER_API_URL}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+async function readError(response: Response) {
+  try {
+    const data = (await response.json()) as { error?: string };
+    return data.error ?? `Request failed with ${response.status}`;
+  } catch {
+    return `Request failed with ${response.status}`;
+  }
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+/**
+ * Queues a job through `POST /api/jobs` and polls until the worker stores its result, which is
+ * returned unvalidated. Progress shows up in the job progress panel like any other search.
+ */
+export async function runHunterJob(body: Record<string, unknown>, signal: AbortSignal): Promise<unknown> {
+  const response = await fetch(hunterApiUrl("/api/jobs"), {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const { jobId } = (await response.json()) as { jobId: string };
+
+  for (;;) {
+    await wait(JOB_POLL_INTERVAL_MS, signal);
+    const result = await fetch(hunterApiUrl(`/api/jobs/${jobId}/result`), {
+      cache: "no-store",
+      credentials: "include",
+      signal,
+    });
+    if (result.status === 202) {
+      continue;
+    }
+    if (!result.ok) {
+      throw new Error(await readError(result));
+    }
+    const data = (await result.json()) as { status?: string; error?: string };
+    if (data.status === "error") {
+      throw new Error(data.error ?? "The job failed.");
+    }
+    return data;
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { ImportError, extractRepositoryUrls, parseResultFile, parseSearchResults, repositoryUrl } from "@/lib/import";
+
+const result = {
+  jobId: "job-1",
+  summary: "Two queues.",
+  filters: { topic: "queue", minStars: null },
+  generatedAt: "2026-10-19T10:00:00.000Z",
+  projects: [
+    { id: 1, name: "acme/queue", url: "https://github.com/acme/queue", stars: 10, daysSinceUpdate: null, license: null },
+    { id: 2, source: "gitlab", name: "acme/jobs", url: "https://gitlab.com/acme/jobs", extra: "dropped" },
+  ],
+};
+
+describe("parseSearchResults", () => {
+  it("accepts a single result, a list and an export file", () => {
+    const [parsed] = parseSearchResults(result);
+
+    expect(parsed.totalFetched).toBe(2);
+    expect(parsed.filters).toEqual({ topic: "queue", minStars: undefined });
+    expect(parsed.projects[0]).toMatchObject({ forks: 0, topics: [], daysSinceUpdate: undefined });
+    expect(parsed.projects[1]).not.toHaveProperty("extra");
+    expect(parseSearchResults([result, { ...result, jobId: "job-2" }])).toHaveLength(2);
+    expect(parseSearchResults({ version: 1, exportedAt: "2026-10-19", searches: [result] })).toHaveLength(1);
+  });
+
+  it("keeps audits, contribution feeds and skipped repositories", () => {
+    const [parsed] = parseSearchResults({
+      ...result,
+      skipped: [{ url: "https://github.com/acme/gone", reason: "not found" }],
+      audit: { findings: [{ ecosystem: "npm", name: "left-pad", status: "stale", alternatives: [] }] },
+      contributions: {
+        labels: ["good first issue"],
+        maxIssueAgeDays: 90,
+        projects: [{ name: "acme/queue", url: "https://github.com/acme/queue", issues: [] }],
+      },
+    });
+
+    expect(parsed.skipped).toHaveLength(1);
+    expect(parsed.audit?.findings[0]).toMatchObject({ name: "left-pad", status: "stale", reasons: [] });
+    expect(parsed.contributions?.labels).toEqual(["good first issue"]);
+  });
+
+  it("names the fields that make a result invalid", () => {
+    const invalid = { ...result, jobId: "", projects: [{ ...result.projects[0], url: "javascript:alert(1)" }] };
+
+    expect(() => parseSearchResults(invalid)).toThrow(ImportError);
+    expect(() => parseSearchResults(invalid)).toThrow(/jobId: .*; projects\[0\]\.url: must be an http\(s\) URL/);
+    expect(() => parseSearchResults([])).toThrow(ImportError);
+  });
+});
+
+describe("parseResultFile", () => {
+  it("refuses files that are not JSON", () => {
+    expect(() => parseResultFile("# not json")).toThrow(/^Not a JSON file: /);
+    expect(parseResultFile(JSON.stringify(result))[0].jobId).toBe("job-1");
+  });
+});
+
+describe("repositoryUrl", () => {
+  it("reduces repository links to https://host/owner/repo", () => {
+    expect(repositoryUrl("git+https://github.com/acme/queue.git")).toBe("https://github.com/acme/queue");
+    expect(repositoryUrl("git@github.com:acme/queue.git")).toBe("https://github.com/acme/queue");
+    expect(repositoryUrl("https://www.github.com/acme/queue/issues/4")).toBe("https://github.com/acme/queue");
+    expect(repositoryUrl("https://gitlab.com/group/sub/project/-/tree/main")).toBe("https://gitlab.com/group/sub/project");
+  });
+
+  it("ignores pages that are not repositories", () => {
+    expect(repositoryUrl("https://github.com/topics/queue")).toBeNull();
+    expect(repositoryUrl("https://github.com/acme")).toBeNull();
+    expect(repositoryUrl("https://docs.acme.dev/acme/queue")).toBeNull();
+    expect(repositoryUrl("not a url")).toBeNull();
+  });
+});
+
+describe("extractRepositoryUrls", () => {
+  it("reads awesome-lists and plain owner/repo lines, dropping duplicates", () => {
+    const list = [
+      "# Awesome queues",
+      "- [Queue](https://github.com/acme/queue) - jobs.",
+      "- [Docs](https://acme.dev/queue)",
+      "- acme/jobs",
+      "- https://github.com/ACME/queue",
+    ].join("\n");
+
+    expect(extractRepositoryUrls(list)).toEqual({
+      kind: "list",
+      urls: ["https://github.com/acme/queue", "https://github.com/acme/jobs"],
+    });
+  });
+
+  it("reads the repository, links and git dependencies of a package.json", () => {
+    const manifest = {
+      name: "app",
+      repository: "github:acme/app",
+      bugs: { url: "https://github.com/acme/app/issues" },
+      dependencies: { queue: "acme/queue#v2", react: "^19.0.0" },
+      devDependencies: { tool: "git+https://gitlab.com/acme/tool.git" },
+    };
+
+    expect(extractRepositoryUrls(JSON.stringify(manifest), "package.json")).toEqual({
+      kind: "package.json",
+      urls: ["https://github.com/acme/app", "https://github.com/acme/queue", "https://gitlab.com/acme/tool"],
+    });
+  });
+});
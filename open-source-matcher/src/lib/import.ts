@@ -0,0 +1,438 @@
+import { z } from "zod";
+import { PROJECT_SOURCES } from "@/lib/forges";
+import { ProjectSource, ProjectSummary, SearchFilters, SearchResult } from "@/lib/types";
+
+export const MAX_LISTED_REPOSITORIES = Number(process.env.NEXT_PUBLIC_MAX_LISTED_REPOSITORIES ?? 30);
+const MAX_REPORTED_ISSUES = 4;
+
+/** Public forges recognized in pasted lists; self-hosted instances need full `repositories` job requests. */
+const FORGE_HOSTS = ["github.com", "gitlab.com", "codeberg.org", "bitbucket.org"];
+
+/** First path segments on github.com that are site pages rather than owners. */
+const GITHUB_RESERVED_OWNERS = new Set([
+  "about",
+  "apps",
+  "collections",
+  "customer-stories",
+  "enterprise",
+  "events",
+  "explore",
+  "features",
+  "login",
+  "marketplace",
+  "notifications",
+  "orgs",
+  "pricing",
+  "security",
+  "settings",
+  "site",
+  "sponsors",
+  "topics",
+  "trending",
+]);
+
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+/** Accepts `null` as well as a missing field and reads both as `undefined`. */
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+}
+
+const count = z.number().finite().nonnegative();
+const httpUrl = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//i.test(value), "must be an http(s) URL");
+const date = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "must be a date");
+const sourceSchema = z.enum(PROJECT_SOURCES as [ProjectSource, ...ProjectSource[]]);
+
+const healthSchema = z.object({
+  commits90d: count,
+  commitsPerWeek: z.number().nullable(),
+  activeContributors90d: count,
+  busFactor: count,
+  lastReleaseAt: z.string().nullish(),
+  releasesLastYear: count,
+  releaseCadenceDays: z.number().nullish(),
+  medianFirstResponseHours: z.number().nullish(),
+  issuesSampled: count,
+  unansweredIssues: count,
+  prMergeRate: z.number().nullish(),
+  prsSampled: count,
+  risks: z.array(z.string()),
+  analyzedAt: z.string(),
+});
+
+const docsSchema = z.object({
+  summary: z.string().nullish(),
+  install: z.array(z.string()).default([]),
+  quickStart: z.array(z.string()).default([]),
+  badges: z
+    .array(
+      z.object({
+        kind: z.enum(["coverage", "ci", "downloads", "version", "license", "docs", "other"]).catch("other"),
+        label: z.string(),
+        image: z.string(),
+      }),
+    )
+    .default([]),
+  docsUrl: z.string().nullish(),
+  hasDocsFolder: z.boolean().default(false),
+  hasExamples: z.boolean().default(false),
+  hasChangelog: z.boolean().default(false),
+  readmeLength: count.default(0),
+  quality: z.number().min(0).max(1),
+  analyzedAt: z.string(),
+});
+
+const complianceSchema = z.object({
+  policy: z.string(),
+  status: z.enum(["compliant", "review", "violation"]),
+  violations: z.array(
+    z.object({
+      rule: z.enum(["license", "archived", "freshness", "stars", "openIssues"]),
+      severity: z.enum(["error", "warning"]),
+      message: z.string(),
+    }),
+  ),
+});
+
+const registrySchema = z.enum(["npm", "pypi", "crates", "go"]);
+
+const packageSchema = z.object({
+  registry: registrySchema,
+  name: z.string(),
+  url: z.string(),
+  latestVersion: z.string().nullish(),
+  releasedAt: z.string().nullish(),
+  weeklyDownloads: optional(count),
+  monthlyDownloads: optional(count),
+  dependents: optional(count),
+  directDependents: optional(count),
+});
+
+const scoreComponentSchema = z.enum([
+  "stars",
+  "forks",
+  "watchers",
+  "freshness",
+  "issues",
+  "downloads",
+  "dependents",
+  "contributors",
+  "inactivity",
+  "docs",
+]);
+
+const projectSchema: z.ZodType<ProjectSummary, z.ZodTypeDef, unknown> = z.object({
+  id: z.number().int(),
+  source: optional(sourceSchema),
+  name: z.string().trim().min(1),
+  url: httpUrl,
+  description: z.string().nullish(),
+  homepage: z.string().nullish(),
+  stars: count.default(0),
+  forks: count.default(0),
+  watchers: count.default(0),
+  openIssues: count.default(0),
+  language: z.string().nullish(),
+  topics: z.array(z.string()).default([]),
+  license: z.string().nullish(),
+  lastPushedAt: z.string().nullish(),
+  // The worker reports an unknown age as Infinity, which JSON turns into null.
+  daysSinceUpdate: optional(z.number()),
+  defaultBranch: optional(z.string()),
+  owner: optional(
+    z.object({ login: optional(z.string()), url: optional(z.string()), type: optional(z.string()) }),
+  ),
+  archived: optional(z.boolean()),
+  fork: optional(z.boolean()),
+  isTemplate: optional(z.boolean()),
+  createdAt: z.string().nullish(),
+  reasons: optional(z.array(z.string())),
+  score: optional(z.number().finite()),
+  scoreBreakdown: optional(z.object({ profile: z.string(), components: z.record(scoreComponentSchema, z.number()) })),
+  packages: optional(z.array(packageSchema)),
+  health: optional(healthSchema),
+  docs: optional(docsSchema),
+  compliance: optional(complianceSchema),
+});
+
+const dependencySchema = z.object({
+  ecosystem: registrySchema,
+  name: z.string().trim().min(1),
+  version: optional(z.string()),
+  dev: optional(z.boolean()),
+});
+
+const auditSchema = z.object({
+  manifest: optional(z.string()),
+  findings: z.array(
+    dependencySchema.extend({
+      status: z.enum(["healthy", "archived", "stale", "low-score", "unresolved"]),
+      reasons: z.array(z.string()).default([]),
+      url: optional(z.string()),
+      score: optional(z.number().finite()),
+      alternatives: z.array(projectSchema).default([]),
+      alternativesQuery: optional(z.string()),
+      alternativesNote: optional(z.string()),
+    }),
+  ),
+});
+
+const contributionsSchema = z.object({
+  labels: z.array(z.string()),
+  maxIssueAgeDays: count,
+  projects: z.array(
+    z.object({
+      name: z.string(),
+      url: z.string(),
+      source: optional(sourceSchema),
+      responseRate: z.number().nullish(),
+      issues: z.array(
+        z.object({
+          number: z.number().int(),
+          title: z.string(),
+          url: httpUrl,
+          labels: z.array(z.string()).default([]),
+          createdAt: date,
+          ageDays: count,
+          comments: count,
+          assigned: z.boolean(),
+          score: z.number().finite(),
+          reasons: z.array(z.string()).default([]),
+        }),
+      ),
+      note: optional(z.string()),
+    }),
+  ),
+});
+
+const filtersSchema: z.ZodType<SearchFilters, z.ZodTypeDef, unknown> = z.object({
+  topic: z.string().trim().min(1, "a topic is required"),
+  language: optional(z.string()),
+  languages: optional(z.array(z.string())),
+  minStars: optional(count),
+  minForks: optional(count),
+  onlyMaintained: optional(z.boolean()),
+  limit: optional(count),
+  providers: optional(z.array(sourceSchema)),
+  profile: optional(z.string()),
+  policy: optional(z.string()),
+  licenses: optional(z.array(z.string())),
+  excludeLicenses: optional(z.array(z.string())),
+  topics: optional(z.array(z.string())),
+  excludeTopics: optional(z.array(z.string())),
+  excludeArchived: optional(z.boolean()),
+  excludeForks: optional(z.boolean()),
+  excludeTemplates: optional(z.boolean()),
+  createdAfter: optional(z.string()),
+  createdBefore: optional(z.string()),
+  ownerType: optional(z.enum(["organization", "user"])),
+  repositories: optional(z.array(z.string())),
+  dependencies: optional(z.array(dependencySchema)),
+  manifest: optional(z.string()),
+  contributions: optional(z.boolean()),
+  maxIssueAgeDays: optional(count),
+});
+
+const cacheSchema = z.object({
+  search: z.enum(["hit", "revalidated", "miss"]),
+  fetchedAt: z.string(),
+  enrichmentHits: optional(count),
+});
+
+/**
+ * A `SearchResult` as the worker produces it, the dashboard drags it and `/api/export` writes it.
+ * Unknown fields are dropped; ids and timestamps are required rather than invented.
+ */
+const searchResultSchema: z.ZodType<SearchResult, z.ZodTypeDef, unknown> = z
+  .object({
+    jobId: z.string().trim().min(1),
+    summary: z.string().default(""),
+    filters: filtersSchema,
+    generatedAt: date,
+    totalFetched: optional(count),
+    projects: z.array(projectSchema),
+    sources: optional(
+      z.array(
+        z.object({
+          id: sourceSchema,
+          label: z.string(),
+          totalFetched: count,
+          cache: optional(cacheSchema.omit({ enrichmentHits: true })),
+          error: optional(z.string()),
+        }),
+      ),
+    ),
+    cache: optional(cacheSchema),
+    skipped: optional(z.array(z.object({ url: z.string(), reason: z.string() }))),
+    audit: optional(auditSchema),
+    contributions: optional(contributionsSchema),
+  })
+  .transform((result) => ({ ...result, totalFetched: result.totalFetched ?? result.projects.length }));
+
+function describeIssues(error: z.ZodError) {
+  const issues = error.issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => {
+    const path = issue.path.reduce<string>(
+      (label, segment) => (typeof segment === "number" ? `${label}[${segment}]` : label ? `${label}.${segment}` : segment),
+      "",
+    );
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+  const more = error.issues.length - issues.length;
+  return `${issues.join("; ")}${more > 0 ? ` (and ${more} more)` : ""}`;
+}
+
+export function parseSearchResult(data: unknown): SearchResult {
+  const parsed = searchResultSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new ImportError(`Not a valid search result: ${describeIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Validates imported results: a single `SearchResult` (what a Search History card puts on the clipboard),
+ * an array of them, or a JSON export (`{ version, exportedAt, searches }`).
+ */
+export function parseSearchResults(data: unknown): SearchResult[] {
+  const searches =
+    data && typeof data === "object" && !Array.isArray(data) && "searches" in data ? (data as { searches: unknown }).searches : data;
+  const parsed = (Array.isArray(searches) ? z.array(searchResultSchema).min(1) : searchResultSchema).safeParse(searches);
+  if (!parsed.success) {
+    throw new ImportError(`Not a valid search result file: ${describeIssues(parsed.error)}`);
+  }
+  return Array.isArray(parsed.data) ? parsed.data : [parsed.data];
+}
+
+export function parseResultFile(text: string): SearchResult[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ImportError(`Not a JSON file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseSearchResults(data);
+}
+
+/**
+ * Reduces a repository link to `https://host/owner/repo` for the public forges, or `null` for
+ * anything else (docs sites, user profiles, GitHub's own pages).
+ */
+export function repositoryUrl(raw: string): string | null {
+  const value = raw
+    .trim()
+    .replace(/^git\+/, "")
+    .replace(/^git@([^:/]+):/, "https://$1/")
+    .replace(/^(git|ssh):\/\/(git@)?/, "https://");
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase().replace(/^www\./, "");
+  if (!FORGE_HOSTS.includes(host)) {
+    return null;
+  }
+  const segments = url.pathname
+    .split("/-/")[0]
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => segment.replace(/\.git$/, ""));
+  if (segments.length < 2 || (host === "github.com" && GITHUB_RESERVED_OWNERS.has(segments[0].toLowerCase()))) {
+    return null;
+  }
+  // GitLab projects can sit in nested groups; elsewhere anything past owner/repo is a sub-page.
+  return `https://${host}/${(host === "gitlab.com" ? segments : segments.slice(0, 2)).join("/")}`;
+}
+
+/** npm's repository shorthands: `github:owner/repo`, `gitlab:…`, `bitbucket:…` and bare `owner/repo`. */
+function shorthandUrl(spec: string) {
+  const match = /^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+?)(?:\.git)?(?:#.*)?$/.exec(spec.trim());
+  if (!match) {
+    return null;
+  }
+  const host = { github: "github.com", gitlab: "gitlab.com", bitbucket: "bitbucket.org" }[match[1] ?? "github"];
+  return `https://${host}/${match[2]}`;
+}
+
+function urlField(value: unknown) {
+  const raw = typeof value === "string" ? value : value && typeof value === "object" ? (value as { url?: unknown }).url : null;
+  return typeof raw === "string" ? raw : null;
+}
+
+function packageJsonCandidates(manifest: Record<string, unknown>) {
+  const repository = urlField(manifest.repository);
+  const candidates = [
+    repository && !repository.includes("://") && !repository.startsWith("git@") ? shorthandUrl(repository) : repository,
+    urlField(manifest.homepage),
+    urlField(manifest.bugs),
+  ];
+  for (const field of DEPENDENCY_FIELDS) {
+    const dependencies = manifest[field];
+    if (dependencies && typeof dependencies === "object") {
+      for (const spec of Object.values(dependencies as Record<string, unknown>)) {
+        if (typeof spec === "string") {
+          candidates.push(/^(git\+|git:|git@|https?:)/.test(spec) ? spec : shorthandUrl(spec));
+        }
+      }
+    }
+  }
+  return candidates.filter((candidate): candidate is string => Boolean(candidate));
+}
+
+function isPackageJson(data: unknown, filename: string): data is Record<string, unknown> {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return false;
+  }
+  return /(^|\/)package\.json$/i.test(filename) || DEPENDENCY_FIELDS.some((field) => field in data) || "repository" in data;
+}
+
+/**
+ * Pulls repository URLs out of an awesome-list (Markdown), a plain list of URLs or `owner/repo`
+ * lines, or a `package.json` (`repository`, `homepage`, `bugs` and git dependency specs).
+ * Duplicates are dropped and the file order is kept.
+ */
+export function extractRepositoryUrls(text: string, filename = "") {
+  let candidates: string[];
+  let kind: "package.json" | "list";
+  let data: unknown = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Not JSON: read it as Markdown or plain text.
+  }
+
+  if (isPackageJson(data, filename)) {
+    kind = "package.json";
+    candidates = packageJsonCandidates(data);
+  } else {
+    kind = "list";
+    const links = text.match(/(?:git\+)?https?:\/\/[^\s<>"'`)\]]+|git@[\w.-]+:[\w./-]+/g) ?? [];
+    const bare = text
+      .split(/\r?\n/)
+      .map((line) => line.trim().replace(/^[-*]\s+/, ""))
+      .filter((line) => /^[\w.-]+\/[\w.-]+$/.test(line))
+      .map(shorthandUrl);
+    candidates = [...links, ...bare].filter((candidate): candidate is string => Boolean(candidate));
+  }
+
+  const seen = new Set<string>();
+  const urls: string[] = [];
+  for (const url of candidates.map(repositoryUrl)) {
+    if (url && !seen.has(url.toLowerCase())) {
+      seen.add(url.toLowerCase());
+      urls.push(url);
+    }
+  }
+  return { kind, urls };
+}
@@ -1,19 +1,74 @@
 import Redis from "ioredis";
+import { connectMemoryStore } from "../../worker/memory-store.mjs";
 
 const REDIS_URL = process.env.REDIS_URL ?? "redis://127.0.0.1:6379";
+const HUNTER_STORE = (process.env.HUNTER_STORE ?? "redis").trim().toLowerCase();
+const STANDALONE = process.env.HUNTER_STANDALONE === "true";
+
+type StoreValue = string | number;
+
+/**
+ * The commands the dashboard queues in a transaction. Each returns the transaction so calls chain.
+ */
+export interface StoreTransaction {
+  set(key: string, value: StoreValue): StoreTransaction;
+  del(...keys: string[]): StoreTransaction;
+  pexpireat(key: string, at: number): StoreTransaction;
+  hset(key: string, field: string, value: StoreValue): StoreTransaction;
+  hsetnx(key: string, field: string, value: StoreValue): StoreTransaction;
+  hdel(key: string, ...fields: string[]): StoreTransaction;
+  lpush(key: string, ...values: StoreValue[]): StoreTransaction;
+  lrem(key: string, count: number, value: StoreValue): StoreTransaction;
+  ltrim(key: string, start: number, stop: number): StoreTransaction;
+  zadd(key: string, ...args: StoreValue[]): StoreTransaction;
+  zrem(key: string, ...members: string[]): StoreTransaction;
+  exec(): Promise<[Error | null, unknown][] | null>;
+}
+
+/**
+ * The part of the Redis API the dashboard uses. Both the ioredis client and the in-process store
+ * (`worker/memory-store.mjs`) implement it.
+ */
+export interface StoreClient {
+  get(key: string): Promise<string | null>;
+  type(key: string): Promise<string>;
+  hget(key: string, field: string): Promise<string | null>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  hmget(key: string, ...fields: string[]): Promise<(string | null)[]>;
+  hset(key: string, field: string, value: StoreValue): Promise<number>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+  zcard(key: string): Promise<number>;
+  zrevrange(key: string, start: number, stop: number): Promise<string[]>;
+  zrevrangebyscore(key: string, max: StoreValue, min: StoreValue): Promise<string[]>;
+  multi(): StoreTransaction;
+}
 
 declare global {
   // eslint-disable-next-line no-var
-  var __redisClient: Redis | undefined;
+  var __redisClient: StoreClient | undefined;
 }
 
-export function getRedisClient(): Redis {
-  if (!globalThis.__redisClient) {
-    globalThis.__redisClient = new Redis(REDIS_URL, {
+function connectStore(): StoreClient {
+  if (HUNTER_STORE !== "memory") {
+    return new Redis(REDIS_URL, {
       maxRetriesPerRequest: null,
       enableAutoPipelining: true,
     });
   }
-  return globalThis.__redisClient;
+  // Separate processes would each get an empty store of their own, so jobs would never reach the worker.
+  if (!STANDALONE) {
+    throw new Error("HUNTER_STORE=memory only works with `npm run standalone`, which runs every service in one process.");
+  }
+  return connectMemoryStore();
 }
 
+/**
+ * The dashboard's store client. With `HUNTER_STORE=memory` it is the in-process store shared with
+ * the backend and worker started alongside it by `npm run standalone`.
+ */
+export function getRedisClient(): StoreClient {
+  if (!globalThis.__redisClient) {
+    globalThis.__redisClient = connectStore();
+  }
+  return globalThis.__redisClient;
+}
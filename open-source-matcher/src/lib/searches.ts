@@ -0,0 +1,131 @@
+import { getRedisClient } from "@/lib/redis";
+import { SearchHistoryPage, StoredSearch } from "@/lib/types";
+import { workspaceKey } from "@/lib/workspace";
+
+// Written by the worker (`worker/searches.mjs`) when a job completes; the dashboard only reads and deletes.
+const SEARCHES_KEY = process.env.HUNTER_SEARCHES_KEY ?? "hunter:searches";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SearchHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchHistoryError";
+  }
+}
+
+export type SearchQuery = {
+  offset?: number;
+  limit: number;
+  topic?: string;
+  language?: string;
+  /** Inclusive bounds on when the search completed, in milliseconds. */
+  from?: number;
+  to?: number;
+  /** Words that must all appear in the topic, prompt, summary or project names. */
+  text?: string;
+};
+
+/** What the worker stores next to each search for filtering. */
+type SearchMeta = {
+  topic: string;
+  languages: string[];
+  text: string;
+  generatedAt: string;
+};
+
+function searchKeys(workspace: string) {
+  const base = workspaceKey(workspace, SEARCHES_KEY);
+  return { items: `${base}:items`, meta: `${base}:meta`, index: `${base}:index` };
+}
+
+function parseJson<T>(raw: string | null): T | null {
+  try {
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isStoredSearch(entry: StoredSearch | null): entry is StoredSearch {
+  return Boolean(entry);
+}
+
+/**
+ * Reads a date bound. A bare `YYYY-MM-DD` upper bound covers that whole day, so `to=2024-05-31`
+ * includes searches from the evening of the 31st.
+ */
+function parseDate(value: string | null, field: "from" | "to") {
+  if (!value?.trim()) {
+    return undefined;
+  }
+  const time = Date.parse(value.trim());
+  if (Number.isNaN(time)) {
+    throw new SearchHistoryError(`${field} must be a date.`);
+  }
+  return field === "to" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? time + DAY_MS - 1 : time;
+}
+
+export function parseSearchQuery(params: URLSearchParams, { offset, limit }: { offset: number; limit: number }): SearchQuery {
+  const query: SearchQuery = {
+    offset,
+    limit,
+    topic: params.get("topic")?.trim() || undefined,
+    language: params.get("language")?.trim() || undefined,
+    from: parseDate(params.get("from"), "from"),
+    to: parseDate(params.get("to"), "to"),
+    text: params.get("q")?.trim() || undefined,
+  };
+  if (query.from !== undefined && query.to !== undefined && query.from > query.to) {
+    throw new SearchHistoryError("from must not be after to.");
+  }
+  return query;
+}
+
+function matches(meta: SearchMeta | null, { topic, language, text }: SearchQuery) {
+  if (!meta) {
+    return false;
+  }
+  if (topic && !meta.topic.toLowerCase().includes(topic.toLowerCase())) {
+    return false;
+  }
+  if (language && !meta.languages.includes(language.toLowerCase())) {
+    return false;
+  }
+  return !text || text.toLowerCase().split(/\s+/).every((word) => meta.text.includes(word));
+}
+
+/**
+ * Searches newest first. The date range is read off the index; topic, language and text filters
+ * run over the lightweight metadata, and only the page that is returned is loaded in full.
+ */
+export async function listSearches(workspace: string, query: SearchQuery): Promise<SearchHistoryPage> {
+  const { offset = 0, limit } = query;
+  const redis = getRedisClient();
+  const keys = searchKeys(workspace);
+  const max = query.to ?? "+inf";
+  const min = query.from ?? "-inf";
+
+  let ids = await redis.zrevrangebyscore(keys.index, max, min);
+  if (query.topic || query.language || query.text) {
+    const metas = ids.length ? await redis.hmget(keys.meta, ...ids) : [];
+    ids = ids.filter((_, index) => matches(parseJson<SearchMeta>(metas[index]), query));
+  }
+
+  const total = ids.length;
+  const pageIds = ids.slice(offset, offset + limit);
+  const searches = pageIds.length
+    ? (await redis.hmget(keys.items, ...pageIds)).map((raw) => parseJson<StoredSearch>(raw)).filter(isStoredSearch)
+    : [];
+  const nextOffset = offset + limit < total ? offset + limit : null;
+  return { searches, total, nextOffset };
+}
+
+export async function getSearch(workspace: string, jobId: string) {
+  return parseJson<StoredSearch>(await getRedisClient().hget(searchKeys(workspace).items, jobId));
+}
+
+export async function deleteSearch(workspace: string, jobId: string) {
+  const keys = searchKeys(workspace);
+  const results = await getRedisClient().multi().hdel(keys.items, jobId).hdel(keys.meta, jobId).zrem(keys.index, jobId).exec();
+  return Number(results?.[0]?.[1] ?? 0) > 0;
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+Object.assign(process.env, {
+  HUNTER_SHORTLISTS_KEY: `test:shortlists:${process.pid}`,
+  HUNTER_SHORTLIST_LINK_PREFIX: `test:shortlist:link:${process.pid}`,
+  HUNTER_SHORTLIST_MAX_PROJECTS: "2",
+});
+
+// Imported after the environment is set, since the module reads it when it loads.
+const { ShortlistError, createShortlist, deleteShortlist, getShortlist, listShortlists, readSharedShortlist, updateShortlist } =
+  await import("@/lib/shortlists");
+
+const project = { id: 1, name: "acme/lib", url: "https://github.com/acme/lib", stars: 10 };
+
+function tokenOf(sharePath: string | undefined) {
+  return (sharePath ?? "").replace("/s/", "");
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createShortlist", () => {
+  it("stores the shortlist and shares it without the link token", async () => {
+    const shortlist = await createShortlist("alpha", { title: " Queues ", rationale: " Fast. ", projects: [project] });
+
+    expect(shortlist).toMatchObject({ title: "Queues", rationale: "Fast.", filters: { topic: "Queues" }, revokedAt: null });
+    expect(shortlist.sharePath).toMatch(/^\/s\/[A-Za-z0-9_-]{32}$/);
+    expect(await getShortlist("alpha", shortlist.id)).toEqual(shortlist);
+
+    const shared = await readSharedShortlist(tokenOf(shortlist.sharePath));
+    expect(shared).toMatchObject({ id: shortlist.id, title: "Queues" });
+    expect(shared).not.toHaveProperty("token");
+    expect(shared).not.toHaveProperty("sharePath");
+  });
+
+  it("checks what a reviewer's browser would act on", async () => {
+    const [stored] = (
+      await createShortlist("alpha", {
+        title: "Links",
+        projects: [{ ...project, source: "nowhere", homepage: "javascript:alert(1)", topics: ["queue", 3] }],
+      })
+    ).projects;
+
+    expect(stored).toMatchObject({ source: "github", homepage: null, topics: ["queue", "3"] });
+  });
+
+  it("rejects missing titles, bad projects, too many projects and past expiries", async () => {
+    await expect(createShortlist("alpha", { title: " ", projects: [project] })).rejects.toThrow("A shortlist needs a title.");
+    await expect(createShortlist("alpha", { title: "x", projects: [] })).rejects.toThrow("at least one project");
+    await expect(createShortlist("alpha", { title: "x", projects: [{ ...project, url: "ftp://acme" }] })).rejects.toThrow(
+      "Project 1 needs an id, a name and an http(s) url.",
+    );
+    await expect(createShortlist("alpha", { title: "x", projects: [project, project, project] })).rejects.toThrow(ShortlistError);
+    await expect(createShortlist("alpha", { title: "x", projects: [project], expiresAt: "2000-01-01" })).rejects.toThrow(
+      "expiresAt must be in the future.",
+    );
+  });
+});
+
+describe("share links", () => {
+  it("stop working once revoked, and rotating issues a new one", async () => {
+    const shortlist = await createShortlist("alpha", { title: "Revocable", projects: [project] });
+    const revoked = await updateShortlist("alpha", shortlist.id, { revoked: true });
+
+    expect(revoked?.revokedAt).not.toBeNull();
+    expect(await readSharedShortlist(tokenOf(shortlist.sharePath))).toBeNull();
+
+    const rotated = await updateShortlist("alpha", shortlist.id, { rotateLink: true });
+    expect(rotated?.revokedAt).toBeNull();
+    expect(rotated?.sharePath).not.toBe(shortlist.sharePath);
+    expect(await readSharedShortlist(tokenOf(rotated?.sharePath))).toMatchObject({ id: shortlist.id });
+    expect(await readSharedShortlist(tokenOf(shortlist.sharePath))).toBeNull();
+  });
+
+  it("stop working once expired", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const shortlist = await createShortlist("alpha", {
+      title: "Expiring",
+      projects: [project],
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+    expect(await readSharedShortlist(tokenOf(shortlist.sharePath))).not.toBeNull();
+
+    vi.setSystemTime(Date.now() + 61_000);
+    expect(await readSharedShortlist(tokenOf(shortlist.sharePath))).toBeNull();
+  });
+
+  it("ignore tokens that are not link tokens", async () => {
+    expect(await readSharedShortlist("../../etc/passwd")).toBeNull();
+  });
+});
+
+describe("workspaces", () => {
+  it("only see and change their own shortlists", async () => {
+    const shortlist = await createShortlist("beta", { title: "Beta only", projects: [project] });
+
+    expect((await listShortlists("beta")).map((entry) => entry.id)).toEqual([shortlist.id]);
+    expect(await getShortlist("gamma", shortlist.id)).toBeNull();
+    expect(await updateShortlist("gamma", shortlist.id, { title: "Taken" })).toBeNull();
+    expect(await deleteShortlist("gamma", shortlist.id)).toBe(false);
+
+    expect(await deleteShortlist("beta", shortlist.id)).toBe(true);
+    expect(await readSharedShortlist(tokenOf(shortlist.sharePath))).toBeNull();
+  });
+});
@@ -0,0 +1,248 @@
+import { randomBytes, randomUUID } from "crypto";
+import { getRedisClient } from "@/lib/redis";
+import { isProjectSource } from "@/lib/forges";
+import { ProjectSummary, SearchFilters, Shortlist } from "@/lib/types";
+import { workspaceKey } from "@/lib/workspace";
+
+const SHORTLISTS_KEY = process.env.HUNTER_SHORTLISTS_KEY ?? "hunter:shortlists";
+const SHORTLIST_LINK_PREFIX = process.env.HUNTER_SHORTLIST_LINK_PREFIX ?? "hunter:shortlist:link";
+const MAX_SHORTLIST_PROJECTS = Number(process.env.HUNTER_SHORTLIST_MAX_PROJECTS ?? 25);
+const MAX_TITLE_LENGTH = 120;
+const MAX_RATIONALE_LENGTH = 4000;
+
+export class ShortlistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShortlistError";
+  }
+}
+
+/** The stored record; the link token never leaves the server except as `sharePath`. */
+type StoredShortlist = Omit<Shortlist, "sharePath"> & { token: string };
+
+type ShortlistLink = { workspace: string; id: string };
+
+export type ShortlistChanges = {
+  title?: string;
+  rationale?: string;
+  expiresAt?: string | null;
+  revoked?: boolean;
+  rotateLink?: boolean;
+};
+
+function parseJson<T>(raw: string | null): T | null {
+  try {
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function linkKey(token: string) {
+  return `${SHORTLIST_LINK_PREFIX}:${token}`;
+}
+
+function newToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+function toShortlist({ token, ...shortlist }: StoredShortlist): Shortlist {
+  return { ...shortlist, sharePath: `/s/${token}` };
+}
+
+function normalizeTitle(value: unknown) {
+  const title = typeof value === "string" ? value.trim() : "";
+  if (!title) {
+    throw new ShortlistError("A shortlist needs a title.");
+  }
+  if (title.length > MAX_TITLE_LENGTH) {
+    throw new ShortlistError(`Titles are at most ${MAX_TITLE_LENGTH} characters.`);
+  }
+  return title;
+}
+
+function normalizeRationale(value: unknown) {
+  if (value == null) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    throw new ShortlistError("The rationale must be text.");
+  }
+  if (value.length > MAX_RATIONALE_LENGTH) {
+    throw new ShortlistError(`The rationale is at most ${MAX_RATIONALE_LENGTH} characters.`);
+  }
+  return value.trim();
+}
+
+function normalizeExpiry(value: unknown) {
+  if (value == null || value === "") {
+    return null;
+  }
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new ShortlistError("expiresAt must be a date.");
+  }
+  if (date.getTime() <= Date.now()) {
+    throw new ShortlistError("expiresAt must be in the future.");
+  }
+  return date.toISOString();
+}
+
+function isHttpUrl(value: unknown) {
+  try {
+    return typeof value === "string" && ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Projects are stored as the dashboard sent them so the public page renders exactly the cards the
+ * team saw. Only what a reviewer's browser would act on is checked: ids, names and link targets.
+ */
+function normalizeProjects(value: unknown): ProjectSummary[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ShortlistError("A shortlist needs at least one project.");
+  }
+  if (value.length > MAX_SHORTLIST_PROJECTS) {
+    throw new ShortlistError(`A shortlist holds at most ${MAX_SHORTLIST_PROJECTS} projects.`);
+  }
+  return value.map((entry, index) => {
+    const project = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+    if (!Number.isSafeInteger(Number(project.id)) || typeof project.name !== "string" || !isHttpUrl(project.url)) {
+      throw new ShortlistError(`Project ${index + 1} needs an id, a name and an http(s) url.`);
+    }
+    return {
+      ...(project as unknown as ProjectSummary),
+      id: Number(project.id),
+      source: isProjectSource(project.source) ? project.source : "github",
+      homepage: isHttpUrl(project.homepage) ? (project.homepage as string) : null,
+      topics: Array.isArray(project.topics) ? project.topics.map(String) : [],
+    };
+  });
+}
+
+function normalizeFilters(value: unknown, title: string): SearchFilters {
+  const filters = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const topic = typeof filters.topic === "string" && filters.topic.trim() ? filters.topic.trim() : title;
+  return { ...(filters as Partial<SearchFilters>), topic };
+}
+
+function shortlistsKey(workspace: string) {
+  return workspaceKey(workspace, SHORTLISTS_KEY);
+}
+
+async function writeShortlist(workspace: string, shortlist: StoredShortlist, previousToken?: string) {
+  const transaction = getRedisClient().multi().hset(shortlistsKey(workspace), shortlist.id, JSON.stringify(shortlist));
+  if (previousToken && previousToken !== shortlist.token) {
+    transaction.del(linkKey(previousToken));
+  }
+  if (shortlist.revokedAt) {
+    transaction.del(linkKey(shortlist.token));
+  } else {
+    const link: ShortlistLink = { workspace, id: shortlist.id };
+    transaction.set(linkKey(shortlist.token), JSON.stringify(link));
+    // Expired links clean themselves up; the public page also checks `expiresAt` itself.
+    if (shortlist.expiresAt) {
+      transaction.pexpireat(linkKey(shortlist.token), Date.parse(shortlist.expiresAt));
+    }
+  }
+  await transaction.exec();
+}
+
+export async function listShortlists(workspace: string) {
+  const stored = Object.values((await getRedisClient().hgetall(shortlistsKey(workspace))) ?? {})
+    .map((raw) => parseJson<StoredShortlist>(raw))
+    .filter((entry): entry is StoredShortlist => Boolean(entry))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return stored.map(toShortlist);
+}
+
+async function readStored(workspace: string, id: string) {
+  return parseJson<StoredShortlist>(await getRedisClient().hget(shortlistsKey(workspace), id));
+}
+
+export async function getShortlist(workspace: string, id: string) {
+  const stored = await readStored(workspace, id);
+  return stored ? toShortlist(stored) : null;
+}
+
+export async function createShortlist(workspace: string, data: unknown) {
+  const input = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const title = normalizeTitle(input.title);
+  const now = new Date().toISOString();
+  const shortlist: StoredShortlist = {
+    id: randomUUID(),
+    title,
+    rationale: normalizeRationale(input.rationale),
+    filters: normalizeFilters(input.filters, title),
+    projects: normalizeProjects(input.projects),
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: normalizeExpiry(input.expiresAt),
+    revokedAt: null,
+    token: newToken(),
+  };
+  await writeShortlist(workspace, shortlist);
+  return toShortlist(shortlist);
+}
+
+/**
+ * Edits the title, rationale or expiry. `revoked: true` kills the current link for good;
+ * `rotateLink: true` issues a new one, which also brings a revoked or expired shortlist back.
+ */
+export async function updateShortlist(workspace: string, id: string, data: unknown) {
+  const current = await readStored(workspace, id);
+  if (!current) {
+    return null;
+  }
+  const changes = (data && typeof data === "object" ? data : {}) as ShortlistChanges;
+  const now = new Date().toISOString();
+  const shortlist: StoredShortlist = {
+    ...current,
+    title: changes.title !== undefined ? normalizeTitle(changes.title) : current.title,
+    rationale: changes.rationale !== undefined ? normalizeRationale(changes.rationale) : current.rationale,
+    expiresAt: changes.expiresAt !== undefined ? normalizeExpiry(changes.expiresAt) : current.expiresAt,
+    updatedAt: now,
+  };
+  if (changes.rotateLink === true) {
+    shortlist.token = newToken();
+    shortlist.revokedAt = null;
+    if (changes.expiresAt === undefined && shortlist.expiresAt && Date.parse(shortlist.expiresAt) <= Date.now()) {
+      shortlist.expiresAt = null;
+    }
+  } else if (changes.revoked === true && !current.revokedAt) {
+    shortlist.revokedAt = now;
+  }
+  await writeShortlist(workspace, shortlist, current.token);
+  return toShortlist(shortlist);
+}
+
+export async function deleteShortlist(workspace: string, id: string) {
+  const current = await readStored(workspace, id);
+  if (!current) {
+    return false;
+  }
+  await getRedisClient().multi().hdel(shortlistsKey(workspace), id).del(linkKey(current.token)).exec();
+  return true;
+}
+
+/**
+ * Resolves a public link. Returns `null` for unknown, revoked and expired links alike so the page
+ * does not reveal which shortlists exist.
+ */
+export async function readSharedShortlist(token: string): Promise<Omit<Shortlist, "sharePath"> | null> {
+  if (!/^[A-Za-z0-9_-]{32}$/.test(token)) {
+    return null;
+  }
+  const link = parseJson<ShortlistLink>(await getRedisClient().get(linkKey(token)));
+  const stored = link ? await readStored(link.workspace, link.id) : null;
+  if (!stored || stored.token !== token || stored.revokedAt) {
+    return null;
+  }
+  if (stored.expiresAt && Date.parse(stored.expiresAt) <= Date.now()) {
+    return null;
+  }
+  const { id, title, rationale, filters, projects, createdAt, updatedAt, expiresAt, revokedAt } = stored;
+  return { id, title, rationale, filters, projects, createdAt, updatedAt, expiresAt, revokedAt };
+}
@@ -1,5 +1,87 @@
+export type ProjectSource = "github" | "gitlab" | "gitea" | "bitbucket" | "stub";
+
+export type PackageRegistry = "npm" | "pypi" | "crates" | "go";
+
+export type PackageSignal = {
+  registry: PackageRegistry;
+  name: string;
+  url: string;
+  latestVersion?: string | null;
+  releasedAt?: string | null;
+  weeklyDownloads?: number;
+  monthlyDownloads?: number;
+  dependents?: number;
+  directDependents?: number;
+};
+
+export type ProjectHealth = {
+  commits90d: number;
+  commitsPerWeek: number | null;
+  activeContributors90d: number;
+  busFactor: number;
+  lastReleaseAt?: string | null;
+  releasesLastYear: number;
+  releaseCadenceDays?: number | null;
+  medianFirstResponseHours?: number | null;
+  issuesSampled: number;
+  unansweredIssues: number;
+  prMergeRate?: number | null;
+  prsSampled: number;
+  risks: string[];
+  analyzedAt: string;
+};
+
+export type DocsBadgeKind = "coverage" | "ci" | "downloads" | "version" | "license" | "docs" | "other";
+
+/** What the worker read from a repository's README and file listing. */
+export type ProjectDocs = {
+  summary?: string | null;
+  install: string[];
+  quickStart: string[];
+  badges: { kind: DocsBadgeKind; label: string; image: string }[];
+  docsUrl?: string | null;
+  hasDocsFolder: boolean;
+  hasExamples: boolean;
+  hasChangelog: boolean;
+  readmeLength: number;
+  quality: number;
+  analyzedAt: string;
+};
+
+export type ScoreComponent =
+  | "stars"
+  | "forks"
+  | "watchers"
+  | "freshness"
+  | "issues"
+  | "downloads"
+  | "dependents"
+  | "contributors"
+  | "inactivity"
+  | "docs";
+
+export type ScoreBreakdown = {
+  profile: string;
+  components: Partial<Record<ScoreComponent, number>>;
+};
+
+export type ComplianceStatus = "compliant" | "review" | "violation";
+
+export type PolicyViolation = {
+  rule: "license" | "archived" | "freshness" | "stars" | "openIssues";
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type ProjectCompliance = {
+  policy: string;
+  status: ComplianceStatus;
+  violations: PolicyViolation[];
+};
+
 export type ProjectSummary = {
   id: number;
+  source?: ProjectSource;
   name: string;
   url: string;
   description?: string | null;
@@ -11,19 +93,131 @@ export type ProjectSummary = {
   language?: string | null;
   topics: string[];
   license?: string | null;
+  /** Set when the forge did not report a license, so a missing `license` does not mean there is none. */
+  licenseUnknown?: boolean;
   lastPushedAt?: string | null;
   daysSinceUpdate?: number;
   defaultBranch?: string;
+  owner?: { login?: string; url?: string; type?: string };
+  archived?: boolean;
+  fork?: boolean;
+  isTemplate?: boolean;
+  createdAt?: string | null;
   reasons?: string[];
   score?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  packages?: PackageSignal[];
+  health?: ProjectHealth;
+  docs?: ProjectDocs;
+  compliance?: ProjectCompliance;
 };
 
 export type SearchFilters = {
   topic: string;
   language?: string;
+  languages?: string[];
   minStars?: number;
+  minForks?: number;
   onlyMaintained?: boolean;
   limit?: number;
+  providers?: ProjectSource[];
+  profile?: string;
+  policy?: string;
+  licenses?: string[];
+  excludeLicenses?: string[];
+  topics?: string[];
+  excludeTopics?: string[];
+  excludeArchived?: boolean;
+  excludeForks?: boolean;
+  excludeTemplates?: boolean;
+  createdAfter?: string;
+  createdBefore?: string;
+  ownerType?: "organization" | "user";
+  /** Repository URLs to score instead of searching; every listed repository is returned. */
+  repositories?: string[];
+  /** Dependencies to audit instead of searching; the other filters only shape the suggested alternatives. */
+  dependencies?: ManifestDependency[];
+  /** File name of the audited manifest, e.g. `package.json`. */
+  manifest?: string;
+  /** Also collect good-first-issue / help-wanted issues of the top results. */
+  contributions?: boolean;
+  /** Contribution mode only: issues opened longer ago than this are left out. */
+  maxIssueAgeDays?: number;
+};
+
+/** One dependency read from a package.json, requirements.txt, Cargo.toml or go.mod. */
+export type ManifestDependency = {
+  ecosystem: PackageRegistry;
+  name: string;
+  /** Version or range as written in the manifest. */
+  version?: string;
+  dev?: boolean;
+};
+
+export type DependencyStatus = "healthy" | "archived" | "stale" | "low-score" | "unresolved";
+
+export type DependencyFinding = ManifestDependency & {
+  status: DependencyStatus;
+  reasons: string[];
+  /** Repository the dependency was traced to; matches a project of the audit result. */
+  url?: string;
+  score?: number;
+  /** Better-scoring, maintained projects found by searching `alternativesQuery`. */
+  alternatives: ProjectSummary[];
+  alternativesQuery?: string;
+  /** Why no alternatives were searched for, or why the search failed. */
+  alternativesNote?: string;
+};
+
+export type DependencyAudit = {
+  manifest?: string;
+  findings: DependencyFinding[];
+};
+
+/** An open issue labelled for newcomers, rated on how good a first contribution it makes. */
+export type ContributionIssue = {
+  number: number;
+  title: string;
+  url: string;
+  labels: string[];
+  createdAt: string;
+  ageDays: number;
+  comments: number;
+  assigned: boolean;
+  /** 0–10; fresh, unassigned issues with some discussion in responsive projects rate highest. */
+  score: number;
+  reasons: string[];
+};
+
+export type ContributionProject = {
+  name: string;
+  url: string;
+  source?: ProjectSource;
+  /** Share of recent issues that got a reply from someone other than their author. */
+  responseRate?: number | null;
+  issues: ContributionIssue[];
+  /** Why no issues were collected, e.g. a forge without issue support. */
+  note?: string;
+};
+
+export type ContributionFeed = {
+  labels: string[];
+  maxIssueAgeDays: number;
+  projects: ContributionProject[];
+};
+
+export type SearchCacheInfo = {
+  search: "hit" | "revalidated" | "miss";
+  fetchedAt: string;
+  enrichmentHits?: number;
+};
+
+export type SearchSourceInfo = {
+  id: ProjectSource;
+  label: string;
+  totalFetched: number;
+  cache?: Omit<SearchCacheInfo, "enrichmentHits">;
+  error?: string;
 };
 
 export type SearchResult = {
@@ -33,9 +227,152 @@ export type SearchResult = {
   generatedAt: string;
   totalFetched: number;
   projects: ProjectSummary[];
+  sources?: SearchSourceInfo[];
+  cache?: SearchCacheInfo;
+  /** Listed repositories that could not be scored, with the reason. */
+  skipped?: { url: string; reason: string }[];
+  /** Present on dependency audits: the verdict and alternatives for every audited dependency. */
+  audit?: DependencyAudit;
+  /** Present in contribution mode: open beginner-friendly issues of the top projects. */
+  contributions?: ContributionFeed;
+};
+
+/** A completed search as the worker keeps it in the durable history. */
+export type StoredSearch = SearchResult & {
+  /** What the user asked for, when the search came from the assistant or a client that sent it. */
+  prompt?: string;
+  requestedAt?: string;
+  completedAt: string;
+};
+
+export type SearchHistoryPage = {
+  searches: StoredSearch[];
+  total: number;
+  nextOffset: number | null;
+};
+
+export type WatchEntry = {
+  key: string;
+  name: string;
+  url: string;
+  source?: ProjectSource;
+  rank: number;
+  score?: number;
+  stars?: number;
+  license?: string | null;
+  archived: boolean;
+};
+
+export type WatchDiff = {
+  entered: WatchEntry[];
+  dropped: WatchEntry[];
+  moved: (WatchEntry & { previousRank: number })[];
+  licenseChanged: (WatchEntry & { previousLicense: string | null })[];
+  archivedChanged: WatchEntry[];
+  summary: string;
+};
+
+export type WatchRun = {
+  jobId: string;
+  runAt: string;
+  projects: WatchEntry[];
+  diff: WatchDiff | null;
+};
+
+export type Watch = {
+  id: string;
+  name: string;
+  schedule: string;
+  filters: SearchFilters;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt: string | null;
+  lastRun: WatchRun | null;
+};
+
+export type FavoriteStatus = "evaluating" | "adopted" | "rejected";
+
+export type FavoriteProject = {
+  id: number;
+  source: ProjectSource;
+  name: string;
+  url: string;
+  description?: string;
+  summary?: string;
+  topics?: string[];
+  language?: string;
+  stars?: number;
+  license?: string;
+};
+
+export type Favorite = {
+  /** `source:id`, the same key `projectKey` builds. */
+  id: string;
+  project: FavoriteProject;
+  notes: string;
+  tags: string[];
+  status: FavoriteStatus;
+  savedAt: string;
+  updatedAt: string;
+};
+
+export type FavoritesPage = {
+  favorites: Favorite[];
+  total: number;
+  nextOffset: number | null;
+};
+
+export type Shortlist = {
+  id: string;
+  title: string;
+  rationale: string;
+  filters: SearchFilters;
+  projects: ProjectSummary[];
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  /** Path of the read-only page, e.g. `/s/<token>`. Only returned to the owning workspace. */
+  sharePath?: string;
 };
 
 export type AgentState = {
   searches: SearchResult[];
   activeJobId?: string;
-};
\ No newline at end of file
+};
+
+export type ProjectComparison = {
+  projects: ProjectSummary[];
+  summary?: string;
+};
+export type JobProgressStep =
+  | "queued"
+  | "started"
+  | "query_sent"
+  | "repos_fetched"
+  | "registries"
+  | "ranked"
+  | "alternatives"
+  | "health"
+  | "docs"
+  | "issues"
+  | "enriching"
+  | "retrying"
+  | "scheduled"
+  | "completed"
+  | "error";
+
+export type JobProgressEvent = {
+  jobId: string;
+  step: JobProgressStep;
+  message: string;
+  topic?: string;
+  source?: ProjectSource;
+  project?: string;
+  current?: number;
+  total?: number;
+  attempt?: number;
+  nextAttemptAt?: string;
+  expectedStartAt?: string;
+  at: string;
+};
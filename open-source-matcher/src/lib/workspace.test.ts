@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+
+Object.assign(process.env, {
+  HUNTER_API_TOKENS: "alpha-token=alpha, beta-token=beta, broken-token=Not Valid",
+  HUNTER_SESSION_SECRET: "test-secret",
+  HUNTER_SESSION_TTL_SECONDS: "60",
+});
+
+// Imported after the environment is set, since both sides read it when they load.
+const dashboard = await import("@/lib/workspace");
+const backend = await import("../../backend/workspaces.mjs");
+
+function dashboardRequest(headers: Record<string, string>) {
+  return new NextRequest("http://localhost:3000/api/favorites", { headers });
+}
+
+function backendRequest(headers: Record<string, string>) {
+  return { headers };
+}
+
+describe("sessions", () => {
+  it("issued by the dashboard are accepted by the backend", () => {
+    const cookie = `${dashboard.SESSION_COOKIE}=${encodeURIComponent(dashboard.createSession("alpha"))}`;
+
+    expect(backend.resolveWorkspace(backendRequest({ cookie: `theme=dark; ${cookie}` }))).toBe("alpha");
+    expect(dashboard.resolveWorkspace(dashboardRequest({ cookie }))).toBe("alpha");
+  });
+
+  it("are refused on both sides once tampered with or expired", () => {
+    const [, issuedAt, signature] = dashboard.createSession("alpha").split(".");
+    const expired = dashboard.createSession("alpha", Date.now() - 61_000);
+
+    for (const value of [`beta.${issuedAt}.${signature}`, expired]) {
+      const cookie = `${dashboard.SESSION_COOKIE}=${encodeURIComponent(value)}`;
+      expect(backend.resolveWorkspace(backendRequest({ cookie }))).toBeNull();
+      expect(dashboard.resolveWorkspace(dashboardRequest({ cookie }))).toBeNull();
+    }
+  });
+});
+
+describe("API tokens", () => {
+  it("map to the same workspaces on both sides", () => {
+    for (const [token, workspace] of [
+      ["alpha-token", "alpha"],
+      ["beta-token", "beta"],
+      ["broken-token", null],
+      ["unknown", null],
+    ]) {
+      const authorization = `Bearer ${token}`;
+      expect(backend.resolveWorkspace(backendRequest({ authorization }))).toBe(workspace);
+      expect(dashboard.resolveWorkspace(dashboardRequest({ authorization }))).toBe(workspace);
+    }
+    expect(backend.AUTH_REQUIRED).toBe(true);
+    expect(dashboard.AUTH_REQUIRED).toBe(true);
+  });
+});
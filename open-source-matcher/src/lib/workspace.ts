@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_WORKSPACE,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  SESSIONS_ENABLED,
+  createSession,
+  parseApiTokens,
+  verifySession,
+  workspaceKey,
+} from "../../backend/sessions.mjs";
+
+// Token parsing and session signing live in the backend's `sessions.mjs` so both sides agree on the format.
+export { DEFAULT_WORKSPACE, SESSION_COOKIE, SESSION_TTL_SECONDS, SESSIONS_ENABLED, createSession, workspaceKey };
+
+const API_TOKENS = parseApiTokens(process.env.HUNTER_API_TOKENS);
+
+/** Without configured tokens the deployment is single-tenant and everyone shares the default workspace. */
+export const AUTH_REQUIRED = API_TOKENS.size > 0;
+
+export function workspaceForToken(token: string) {
+  return API_TOKENS.get(token.trim()) ?? null;
+}
+
+/**
+ * Workspace of a request, from an `Authorization: Bearer <token>` header or the session cookie.
+ * Returns `null` when authentication is required and neither is valid.
+ */
+export function resolveWorkspace(request: NextRequest) {
+  if (!AUTH_REQUIRED) {
+    return DEFAULT_WORKSPACE;
+  }
+  const bearer = /^Bearer\s+(.+)$/i.exec(request.headers.get("authorization") ?? "")?.[1];
+  if (bearer) {
+    return workspaceForToken(bearer);
+  }
+  return verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+export function unauthorized() {
+  return NextResponse.json({ error: "Sign in with an API token to use this workspace." }, { status: 401 });
+}
@@ -0,0 +1,19 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    // Tests run against the in-process store unless HUNTER_STORE=redis points them at REDIS_URL,
+    // which also exercises the Lua scripts behind each `inProcess` twin.
+    env: {
+      HUNTER_STORE: process.env.HUNTER_STORE ?? "memory",
+      HUNTER_STANDALONE: "true",
+    },
+  },
+});
@@ -0,0 +1,97 @@
+import { packageSource } from "./registries/index.mjs";
+import { repositoryKey } from "./registries/http.mjs";
+import { resolveRepository } from "./providers/index.mjs";
+
+const AUDIT_STALE_MONTHS = Number(process.env.HUNTER_AUDIT_STALE_MONTHS ?? 12);
+const AUDIT_MIN_SCORE = Number(process.env.HUNTER_AUDIT_MIN_SCORE ?? 6);
+const RESOLVE_CONCURRENCY = Number(process.env.HUNTER_REGISTRY_CONCURRENCY ?? 4);
+// Most severe first: the order findings are reported in and alternatives are searched for.
+export const FLAGGED_STATUSES = ["archived", "stale", "low-score"];
+// Topics that describe the ecosystem rather than what a package does make useless search terms.
+const GENERIC_TOPICS = new Set([
+  "javascript",
+  "typescript",
+  "nodejs",
+  "node",
+  "npm",
+  "python",
+  "python3",
+  "rust",
+  "rust-lang",
+  "crate",
+  "go",
+  "golang",
+  "library",
+  "hacktoberfest",
+]);
+
+function toRepositoryUrl(raw) {
+  const key = repositoryKey(raw);
+  return key ? `https://${key}` : null;
+}
+
+async function traceDependency(dependency) {
+  try {
+    const source = await packageSource(dependency.ecosystem, dependency.name, dependency.version);
+    if (!source) {
+      return { dependency, keywords: [], reason: `not found on ${dependency.ecosystem}` };
+    }
+    const url = source.urls.map(toRepositoryUrl).find((candidate) => candidate && resolveRepository(candidate));
+    return url
+      ? { dependency, url, keywords: source.keywords }
+      : { dependency, keywords: source.keywords, reason: "no repository on a supported forge" };
+  } catch (error) {
+    return { dependency, keywords: [], reason: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Follows each dependency to the repository its registry links to. Every entry comes back, in
+ * manifest order, as `{ dependency, url?, keywords, reason? }`; `reason` says why there is no `url`.
+ */
+export async function traceDependencies(dependencies) {
+  const traced = [];
+  for (let index = 0; index < dependencies.length; index += RESOLVE_CONCURRENCY) {
+    traced.push(...(await Promise.all(dependencies.slice(index, index + RESOLVE_CONCURRENCY).map(traceDependency))));
+  }
+  return traced;
+}
+
+export function sameRepositoryUrl(a, b) {
+  const key = repositoryKey(a);
+  return Boolean(key) && key === repositoryKey(b);
+}
+
+/**
+ * Judges a scored dependency. The status is its most severe problem; `reasons` lists all of them.
+ */
+export function assessDependency(project) {
+  const problems = [];
+  if (project.archived) {
+    problems.push(["archived", "Archived by its maintainers"]);
+  }
+  if (project.daysSinceUpdate > AUDIT_STALE_MONTHS * 30) {
+    const months = Number.isFinite(project.daysSinceUpdate) ? Math.floor(project.daysSinceUpdate / 30) : null;
+    problems.push(["stale", months ? `No commits in ${months} months` : "No commit activity on record"]);
+  }
+  if (project.score < AUDIT_MIN_SCORE) {
+    problems.push(["low-score", `Scores ${project.score}, below the audit threshold of ${AUDIT_MIN_SCORE}`]);
+  }
+  if (!problems.length) {
+    return { status: "healthy", reasons: project.reasons?.slice(0, 2) ?? [] };
+  }
+  problems.sort(([a], [b]) => FLAGGED_STATUSES.indexOf(a) - FLAGGED_STATUSES.indexOf(b));
+  return { status: problems[0][0], reasons: problems.map(([, reason]) => reason) };
+}
+
+/**
+ * Search terms for alternatives: the repository's two most specific topics, or the package's
+ * registry keywords when it has none. `null` when neither says what the dependency does.
+ */
+export function alternativeQuery(project, keywords = []) {
+  const repoName = project.name.split("/").pop().toLowerCase();
+  const usable = (terms) =>
+    terms.map((term) => String(term).trim().toLowerCase()).filter((term) => term && term !== repoName && !GENERIC_TOPICS.has(term));
+  const terms = usable(project.topics ?? []).length ? usable(project.topics) : usable(keywords);
+  return terms.length ? [...new Set(terms)].slice(0, 2).join(" ") : null;
+}
@@ -0,0 +1,127 @@
+import { createHash } from "crypto";
+import { redis } from "./redis.mjs";
+
+const SEARCH_CACHE_PREFIX = process.env.HUNTER_SEARCH_CACHE_PREFIX ?? "hunter:cache:search";
+const ENRICHMENT_CACHE_PREFIX = process.env.HUNTER_ENRICHMENT_CACHE_PREFIX ?? "hunter:cache:enrichment";
+const SEARCH_CACHE_TTL_SECONDS = Number(process.env.HUNTER_SEARCH_CACHE_TTL_SECONDS ?? 600);
+const SEARCH_CACHE_RETENTION_SECONDS = Number(process.env.HUNTER_SEARCH_CACHE_RETENTION_SECONDS ?? 86400);
+const ENRICHMENT_CACHE_TTL_SECONDS = Number(process.env.HUNTER_ENRICHMENT_CACHE_TTL_SECONDS ?? 604800);
+const PACKAGE_CACHE_PREFIX = process.env.HUNTER_PACKAGE_CACHE_PREFIX ?? "hunter:cache:packages";
+const PACKAGE_CACHE_TTL_SECONDS = Number(process.env.HUNTER_PACKAGE_CACHE_TTL_SECONDS ?? 86400);
+const HEALTH_CACHE_PREFIX = process.env.HUNTER_HEALTH_CACHE_PREFIX ?? "hunter:cache:health";
+const HEALTH_CACHE_TTL_SECONDS = Number(process.env.HUNTER_HEALTH_CACHE_TTL_SECONDS ?? 21600);
+const DOCS_CACHE_PREFIX = process.env.HUNTER_DOCS_CACHE_PREFIX ?? "hunter:cache:docs";
+const DOCS_CACHE_TTL_SECONDS = Number(process.env.HUNTER_DOCS_CACHE_TTL_SECONDS ?? 86400);
+
+/**
+ * Reduces a search URL to a stable cache key: query parameters are sorted and the `q` expression is
+ * lower-cased with collapsed whitespace, so equivalent `SearchFilters` share one entry.
+ */
+export function searchCacheKey(url) {
+  const parsed = new URL(url);
+  const params = [...parsed.searchParams.entries()]
+    .map(([key, value]) => [key, key === "q" ? value.toLowerCase().replace(/\s+/g, " ").trim() : value])
+    .sort(([a], [b]) => a.localeCompare(b));
+  const normalized = `${parsed.origin}${parsed.pathname}?${new URLSearchParams(params).toString()}`;
+  const digest = createHash("sha1").update(normalized).digest("hex");
+  return `${SEARCH_CACHE_PREFIX}:${digest}`;
+}
+
+async function readJson(key) {
+  const raw = await redis.get(key);
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Entries outlive their freshness window (`HUNTER_SEARCH_CACHE_TTL_SECONDS`) by
+ * `HUNTER_SEARCH_CACHE_RETENTION_SECONDS` so stale ones can still be revalidated with their ETag.
+ */
+export async function readSearchCache(key) {
+  const entry = await readJson(key);
+  if (!entry) {
+    return null;
+  }
+  const age = (Date.now() - new Date(entry.validatedAt ?? entry.fetchedAt).getTime()) / 1000;
+  return { ...entry, fresh: age < SEARCH_CACHE_TTL_SECONDS };
+}
+
+export async function writeSearchCache(key, { body, etag, lastModified, fetchedAt }) {
+  const now = new Date().toISOString();
+  const entry = {
+    body,
+    etag: etag ?? null,
+    lastModified: lastModified ?? null,
+    fetchedAt: fetchedAt ?? now,
+    validatedAt: now,
+  };
+  await redis.set(key, JSON.stringify(entry), "EX", SEARCH_CACHE_TTL_SECONDS + SEARCH_CACHE_RETENTION_SECONDS);
+  return entry;
+}
+
+// Ids are only unique per forge, so enrichment entries are keyed by source and id.
+function enrichmentKey(project) {
+  return `${ENRICHMENT_CACHE_PREFIX}:${project.source ?? "github"}:${project.id}`;
+}
+
+export async function readEnrichmentCache(project) {
+  return readJson(enrichmentKey(project));
+}
+
+export async function writeEnrichmentCache(project, description) {
+  await redis.set(
+    enrichmentKey(project),
+    JSON.stringify({ description, fetchedAt: new Date().toISOString() }),
+    "EX",
+    ENRICHMENT_CACHE_TTL_SECONDS,
+  );
+}
+
+/**
+ * Registry lookups are cached per project, including empty results, so repositories without a
+ * published package are not searched for again on every hunt.
+ */
+export async function readPackageCache(project) {
+  return readJson(`${PACKAGE_CACHE_PREFIX}:${project.source ?? "github"}:${project.id}`);
+}
+
+export async function writePackageCache(project, packages) {
+  await redis.set(
+    `${PACKAGE_CACHE_PREFIX}:${project.source ?? "github"}:${project.id}`,
+    JSON.stringify({ packages, fetchedAt: new Date().toISOString() }),
+    "EX",
+    PACKAGE_CACHE_TTL_SECONDS,
+  );
+}
+
+export async function readHealthCache(project) {
+  return readJson(`${HEALTH_CACHE_PREFIX}:${project.source ?? "github"}:${project.id}`);
+}
+
+export async function writeHealthCache(project, health) {
+  await redis.set(
+    `${HEALTH_CACHE_PREFIX}:${project.source ?? "github"}:${project.id}`,
+    JSON.stringify(health),
+    "EX",
+    HEALTH_CACHE_TTL_SECONDS,
+  );
+}
+
+export async function readDocsCache(project) {
+  return readJson(`${DOCS_CACHE_PREFIX}:${project.source ?? "github"}:${project.id}`);
+}
+
+export async function writeDocsCache(project, docs) {
+  await redis.set(
+    `${DOCS_CACHE_PREFIX}:${project.source ?? "github"}:${project.id}`,
+    JSON.stringify(docs),
+    "EX",
+    DOCS_CACHE_TTL_SECONDS,
+  );
+}
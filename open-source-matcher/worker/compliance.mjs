@@ -0,0 +1,112 @@
+/**
+ * Checks projects against the team policy a job was queued with (see backend/policy-profiles.mjs).
+ * Verdicts are informational: violating projects stay in the results, flagged, so the user can
+ * see what they would be giving up.
+ */
+
+const LICENSE_MESSAGES = {
+  review: (license) => `${license} license needs a legal review`,
+  forbidden: (license) => `${license} license is not allowed`,
+};
+
+// GitHub reports legacy SPDX ids (GPL-3.0) while other forges and policies may use GPL-3.0-only or
+// -or-later, so both sides are also compared without those suffixes.
+function spdxBase(license) {
+  return license.toLowerCase().replace(/-(only|or-later)$/, "").replace(/\+$/, "");
+}
+
+// A forge that does not report licenses says nothing about whether the repository has one, so the
+// project is reviewed rather than held to `missingLicense` (unless missing licenses are allowed anyway).
+function licenseVerdict(project, policy) {
+  const license = project.license;
+  if (!license && project.licenseUnknown) {
+    return { verdict: policy.missingLicense === "allowed" ? "allowed" : "review", label: "Unreported" };
+  }
+  if (!license || license === "NOASSERTION") {
+    return { verdict: policy.missingLicense, label: "Unknown" };
+  }
+  const entries = Object.entries(policy.licenses ?? {});
+  const exact = entries.find(([id]) => id.toLowerCase() === license.toLowerCase());
+  const match = exact ?? entries.find(([id]) => spdxBase(id) === spdxBase(license));
+  return { verdict: match ? match[1] : policy.unlistedLicenses, label: license };
+}
+
+function licenseViolation(project, policy) {
+  const { verdict, label } = licenseVerdict(project, policy);
+  if (verdict !== "review" && verdict !== "forbidden") {
+    return null;
+  }
+  const message =
+    label === "Unreported"
+      ? `license not reported by ${project.source}, needs a legal review`
+      : label === "Unknown"
+        ? `no license detected${verdict === "forbidden" ? " (not allowed)" : ", needs a legal review"}`
+        : LICENSE_MESSAGES[verdict](label);
+  return { rule: "license", severity: verdict === "forbidden" ? "error" : "warning", message };
+}
+
+export function evaluateCompliance(project, policy) {
+  const violations = [licenseViolation(project, policy)];
+
+  if (!policy.allowArchived && project.archived) {
+    violations.push({ rule: "archived", severity: "error", message: "repository is archived" });
+  }
+  if (policy.maxDaysSinceUpdate != null && !(project.daysSinceUpdate <= policy.maxDaysSinceUpdate)) {
+    violations.push({
+      rule: "freshness",
+      severity: "error",
+      message: Number.isFinite(project.daysSinceUpdate)
+        ? `last commit ${project.daysSinceUpdate} days ago (limit ${policy.maxDaysSinceUpdate})`
+        : "no known commit activity",
+    });
+  }
+  if (policy.minStars != null && (project.stars ?? 0) < policy.minStars) {
+    violations.push({ rule: "stars", severity: "error", message: `${project.stars ?? 0} stars (minimum ${policy.minStars})` });
+  }
+  if (policy.maxOpenIssues != null && (project.openIssues ?? 0) > policy.maxOpenIssues) {
+    violations.push({
+      rule: "openIssues",
+      severity: "error",
+      message: `${project.openIssues} open issues (limit ${policy.maxOpenIssues})`,
+    });
+  }
+
+  const found = violations.filter(Boolean);
+  const status = found.some((violation) => violation.severity === "error")
+    ? "violation"
+    : found.length
+      ? "review"
+      : "compliant";
+  return { policy: policy.id, status, violations: found };
+}
+
+export function attachCompliance(projects, policy) {
+  if (!policy) {
+    return projects;
+  }
+  return projects.map((project) => ({ ...project, compliance: evaluateCompliance(project, policy) }));
+}
+
+/**
+ * One sentence per non-compliant status for the job summary, so the assistant can relay which
+ * results break the policy without reading every project.
+ */
+export function describeCompliance(projects, policy) {
+  if (!policy) {
+    return "";
+  }
+  const list = (status) =>
+    projects
+      .filter((project) => project.compliance?.status === status)
+      .map((project) => `${project.name} (${project.compliance.violations.map((violation) => violation.message).join("; ")})`);
+  const violating = list("violation");
+  const review = list("review");
+
+  if (!violating.length && !review.length) {
+    return ` All results comply with the ${policy.label} policy.`;
+  }
+  return [
+    violating.length ? ` ${violating.length} result(s) break the ${policy.label} policy: ${violating.join(", ")}.` : "",
+    review.length ? ` ${review.length} need(s) a review: ${review.join(", ")}.` : "",
+  ].join("");
+}
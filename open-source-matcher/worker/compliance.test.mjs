@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { attachCompliance, describeCompliance, evaluateCompliance } from "./compliance.mjs";
+
+const policy = {
+  id: "team",
+  label: "Team",
+  licenses: { MIT: "allowed", "LGPL-3.0": "review", "GPL-3.0": "forbidden" },
+  unlistedLicenses: "review",
+  missingLicense: "forbidden",
+  maxDaysSinceUpdate: 180,
+  minStars: 10,
+  maxOpenIssues: 50,
+  allowArchived: false,
+};
+
+const project = { name: "acme/lib", source: "github", license: "MIT", daysSinceUpdate: 3, stars: 100, openIssues: 2, archived: false };
+
+describe("evaluateCompliance", () => {
+  it("passes a project that meets every rule", () => {
+    expect(evaluateCompliance(project, policy)).toEqual({ policy: "team", status: "compliant", violations: [] });
+  });
+
+  it("applies the license matrix, matching SPDX ids with and without -only/-or-later", () => {
+    expect(evaluateCompliance({ ...project, license: "GPL-3.0-only" }, policy)).toMatchObject({
+      status: "violation",
+      violations: [{ rule: "license", severity: "error", message: "GPL-3.0-only license is not allowed" }],
+    });
+    expect(evaluateCompliance({ ...project, license: "lgpl-3.0-or-later" }, policy)).toMatchObject({
+      status: "review",
+      violations: [{ rule: "license", severity: "warning" }],
+    });
+    expect(evaluateCompliance({ ...project, license: "Apache-2.0" }, policy).status).toBe("review");
+  });
+
+  it("holds a project without a detected license to missingLicense", () => {
+    expect(evaluateCompliance({ ...project, license: "NOASSERTION" }, policy).violations).toEqual([
+      { rule: "license", severity: "error", message: "no license detected (not allowed)" },
+    ]);
+  });
+
+  it("reviews a project whose forge does not report licenses", () => {
+    const unreported = { ...project, source: "bitbucket", license: null, licenseUnknown: true };
+
+    expect(evaluateCompliance(unreported, policy)).toMatchObject({
+      status: "review",
+      violations: [{ rule: "license", severity: "warning", message: "license not reported by bitbucket, needs a legal review" }],
+    });
+    expect(evaluateCompliance(unreported, { ...policy, missingLicense: "allowed" }).status).toBe("compliant");
+  });
+
+  it("flags archived, stale, unpopular and overloaded projects", () => {
+    const result = evaluateCompliance({ ...project, archived: true, daysSinceUpdate: 400, stars: 3, openIssues: 90 }, policy);
+
+    expect(result.status).toBe("violation");
+    expect(result.violations.map((violation) => violation.rule)).toEqual(["archived", "freshness", "stars", "openIssues"]);
+    expect(result.violations[1].message).toBe("last commit 400 days ago (limit 180)");
+  });
+
+  it("treats an unknown commit age as stale and skips disabled thresholds", () => {
+    expect(evaluateCompliance({ ...project, daysSinceUpdate: Infinity }, policy).violations).toEqual([
+      { rule: "freshness", severity: "error", message: "no known commit activity" },
+    ]);
+    const lenient = { ...policy, maxDaysSinceUpdate: null, minStars: null, maxOpenIssues: null, allowArchived: true };
+    expect(evaluateCompliance({ ...project, archived: true, daysSinceUpdate: 999, stars: 0, openIssues: 999 }, lenient).status).toBe(
+      "compliant",
+    );
+  });
+});
+
+describe("describeCompliance", () => {
+  it("lists violating and review results for the job summary", () => {
+    const projects = attachCompliance(
+      [project, { ...project, name: "acme/gpl", license: "GPL-3.0" }, { ...project, name: "acme/other", license: "Zlib" }],
+      policy,
+    );
+
+    expect(describeCompliance(projects, policy)).toBe(
+      " 1 result(s) break the Team policy: acme/gpl (GPL-3.0 license is not allowed)." +
+        " 1 need(s) a review: acme/other (Zlib license needs a legal review).",
+    );
+  });
+
+  it("says so when every result complies, and stays silent without a policy", () => {
+    expect(describeCompliance(attachCompliance([project], policy), policy)).toBe(" All results comply with the Team policy.");
+    expect(attachCompliance([project], null)).toEqual([project]);
+    expect(describeCompliance([project], null)).toBe("");
+  });
+});
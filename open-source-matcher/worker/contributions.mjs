@@ -0,0 +1,132 @@
+import { withStepTimeout } from "./errors.mjs";
+import { RateLimitedError } from "./github-client.mjs";
+import { requestedLanguages } from "./filters.mjs";
+import { getProvider } from "./providers/index.mjs";
+
+const CONTRIBUTION_TOP_N = Number(process.env.HUNTER_CONTRIBUTION_TOP_N ?? 5);
+const CONTRIBUTION_ISSUES_PER_PROJECT = Number(process.env.HUNTER_CONTRIBUTION_ISSUES ?? 8);
+const DEFAULT_MAX_ISSUE_AGE_DAYS = Number(process.env.HUNTER_CONTRIBUTION_MAX_ISSUE_AGE_DAYS ?? 365);
+const CONTRIBUTION_LABELS = (process.env.HUNTER_CONTRIBUTION_LABELS ?? "good first issue,help wanted")
+  .split(",")
+  .map((label) => label.trim())
+  .filter(Boolean);
+const STEP_TIMEOUT_MS = Number(process.env.HUNTER_STEP_TIMEOUT_MS ?? 45000);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How much each signal counts towards an issue's 0–10 rating.
+const ISSUE_WEIGHTS = { age: 0.25, comments: 0.2, unassigned: 0.3, response: 0.25 };
+
+function ageSignal(ageDays, maxAgeDays) {
+  if (ageDays <= 30) {
+    return [1, `Opened ${ageDays === 0 ? "today" : `${ageDays} day${ageDays === 1 ? "" : "s"} ago`}`];
+  }
+  const remaining = Math.max(0, 1 - (ageDays - 30) / Math.max(maxAgeDays - 30, 1));
+  return [0.2 + 0.8 * remaining, `Opened ${Math.round(ageDays / 30)} months ago`];
+}
+
+// Some discussion means the issue is understood; a long thread usually means it is contested or hard.
+function commentSignal(comments) {
+  if (comments === 0) {
+    return [0.6, "No discussion yet"];
+  }
+  if (comments <= 5) {
+    return [1, `${comments} comment${comments === 1 ? "" : "s"}`];
+  }
+  return comments <= 15 ? [0.6, `${comments} comments`] : [0.3, `Long discussion (${comments} comments)`];
+}
+
+function responseSignal(responseRate) {
+  if (responseRate == null) {
+    return [0.5, "Maintainer response rate unknown"];
+  }
+  return [responseRate, `Maintainers answered ${Math.round(responseRate * 100)}% of recent issues`];
+}
+
+/**
+ * Rates an issue as a first contribution from its age, comment activity, whether someone already
+ * took it and how reliably the project's maintainers answer issues.
+ */
+export function rateIssue(issue, { responseRate, maxAgeDays }) {
+  const ageDays = Math.max(0, Math.floor((Date.now() - new Date(issue.createdAt).getTime()) / DAY_MS));
+  const [age, ageReason] = ageSignal(ageDays, maxAgeDays);
+  const [comments, commentReason] = commentSignal(issue.comments);
+  const [response, responseReason] = responseSignal(responseRate);
+  const unassigned = issue.assigned ? 0 : 1;
+  const score =
+    10 *
+    (ISSUE_WEIGHTS.age * age +
+      ISSUE_WEIGHTS.comments * comments +
+      ISSUE_WEIGHTS.unassigned * unassigned +
+      ISSUE_WEIGHTS.response * response);
+  return {
+    ...issue,
+    ageDays,
+    score: Number(score.toFixed(1)),
+    reasons: [...(issue.assigned ? ["Already assigned"] : []), ageReason, commentReason, responseReason],
+  };
+}
+
+function languageMatches(project, languages) {
+  return !languages.length || languages.some((language) => language.toLowerCase() === project.language?.toLowerCase());
+}
+
+/**
+ * Collects the open good-first-issue / help-wanted issues of the first `HUNTER_CONTRIBUTION_TOP_N`
+ * projects in the job's languages and rates them. Like the health pass this is best-effort: a
+ * project whose issues cannot be read gets a `note`, and a rate limit ends the pass early.
+ */
+export async function collectContributionOpportunities(projects, filters, report = async () => {}) {
+  const maxAgeDays = filters.maxIssueAgeDays ?? DEFAULT_MAX_ISSUE_AGE_DAYS;
+  const languages = requestedLanguages(filters);
+  const candidates = projects.filter((project) => languageMatches(project, languages)).slice(0, CONTRIBUTION_TOP_N);
+  const feed = [];
+
+  for (const [index, project] of candidates.entries()) {
+    const entry = { name: project.name, url: project.url, source: project.source, issues: [] };
+    feed.push(entry);
+    const provider = getProvider(project.source ?? "github");
+    if (!provider?.findContributionIssues) {
+      entry.note = `Issues are not collected from ${provider?.label ?? project.source}.`;
+      continue;
+    }
+    await report("issues", `Collecting open issues of ${project.name} (${index + 1} of ${candidates.length})`, {
+      current: index + 1,
+      total: candidates.length,
+      project: project.name,
+    });
+    try {
+      const { issues, responseRate } = await withStepTimeout(
+        () => provider.findContributionIssues(project, { labels: CONTRIBUTION_LABELS, maxAgeDays }),
+        STEP_TIMEOUT_MS,
+        `Collecting issues of ${project.name}`,
+      );
+      entry.responseRate = responseRate == null ? null : Number(responseRate.toFixed(2));
+      entry.issues = issues
+        .map((issue) => rateIssue(issue, { responseRate, maxAgeDays }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CONTRIBUTION_ISSUES_PER_PROJECT);
+      if (!entry.issues.length) {
+        entry.note = `No open issues labelled ${CONTRIBUTION_LABELS.join(" or ")} from the last ${maxAgeDays} days.`;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[worker] Collecting issues failed for ${project.name}:`, message);
+      entry.note = `Issues could not be read: ${message}`;
+      if (error instanceof RateLimitedError) {
+        break;
+      }
+    }
+  }
+
+  return { labels: CONTRIBUTION_LABELS, maxIssueAgeDays: maxAgeDays, projects: feed };
+}
+
+/** One sentence for the job summary. */
+export function describeContributions(feed) {
+  const issues = feed.projects.reduce((sum, project) => sum + project.issues.length, 0);
+  const withIssues = feed.projects.filter((project) => project.issues.length).length;
+  if (!issues) {
+    return ` No open ${feed.labels.join(" / ")} issues found in the top ${feed.projects.length} project(s).`;
+  }
+  return ` ${issues} open ${feed.labels.join(" / ")} issue(s) across ${withIssues} project(s) are ready for contributors.`;
+}
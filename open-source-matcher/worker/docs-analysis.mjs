@@ -0,0 +1,195 @@
+const MAX_SUMMARY_LENGTH = 500;
+const MAX_SNIPPETS = 2;
+const MAX_SNIPPET_LINES = 15;
+const MAX_BADGES = 8;
+
+const INSTALL_HEADING = /install|setup|set up|requirements|download/i;
+const QUICK_START_HEADING = /quick ?start|getting started|usage|example|tutorial|how to use|basic use/i;
+const INSTALL_COMMAND =
+  /^\s*(?:\$\s*)?(?:npm (?:i|install)|yarn add|pnpm (?:add|install)|bun add|npx |pip3? install|pipx install|poetry add|uv (?:add|pip install)|conda install|cargo (?:add|install)|go (?:get|install)|brew install|gem install|composer require|dotnet add|apt(?:-get)? install|docker (?:pull|run)|helm install|curl .*\|\s*(?:ba)?sh)/m;
+export const DOCS_DIRECTORIES = ["docs", "doc", "documentation", "website", "book", "guide"];
+const EXAMPLE_DIRECTORIES = ["examples", "example", "samples", "sample", "demo", "demos", "cookbook"];
+const CHANGELOG_FILE = /^(changelog|changes|history|news|releases?)(\.[a-z]+)?$/i;
+const DOCS_SITE = /readthedocs\.(io|org)|docs\.rs\/|\.github\.io\b|\/\/docs\.|\/docs\/?$|gitbook\.io|pkg\.go\.dev\//i;
+const FORGE_HOSTS = /^https?:\/\/(www\.)?(github\.com|gitlab\.com|codeberg\.org|bitbucket\.org)\//i;
+
+// Badge services and the kind of fact each image reports, checked in order.
+const BADGE_HOSTS = /shields\.io|badgen\.net|badge\.fury\.io|codecov\.io|coveralls\.io|travis-ci\.|circleci\.com|\/workflows\/.+\/badge\.svg|\/actions\/workflows\/|readthedocs\.org\/projects\/.+\/badge|docs\.rs\/.+\/badge|goreportcard\.com\/badge|pkg\.go\.dev\/badge|badge\.svg/i;
+const BADGE_KINDS = [
+  ["coverage", /codecov|coveralls|coverage/i],
+  ["ci", /workflow|actions|travis|circleci|build|\bci\b|pipeline|tests?\b/i],
+  ["downloads", /downloads|\/d[mwt]\/|\/dm\b|installs/i],
+  ["version", /\/v\/|version|release|badge\.fury|\/crates\/v|\/pypi\/v|\/npm\/v|\/gem\/v|tag/i],
+  ["license", /license/i],
+  ["docs", /docs|documentation|readthedocs|pkg\.go\.dev/i],
+];
+
+function stripInline(text) {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/[*_`~]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Splits a README into headings, fenced code blocks and text blocks, in order. Each code block
+ * remembers the heading it sits under.
+ */
+function readmeBlocks(markdown) {
+  const blocks = [];
+  let heading = "";
+  let paragraph = [];
+  let fence = null;
+
+  const flush = () => {
+    if (paragraph.length) {
+      blocks.push({ type: "text", heading, text: paragraph.join("\n") });
+      paragraph = [];
+    }
+  };
+
+  for (const line of markdown.replace(/<!--[\s\S]*?-->/g, "").split(/\r?\n/)) {
+    if (fence) {
+      if (/^\s*(```|~~~)\s*$/.test(line)) {
+        blocks.push({ type: "code", heading, language: fence.language, text: fence.lines.join("\n") });
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+    const opening = /^\s*(```|~~~)\s*([\w+-]*)/.exec(line);
+    if (opening) {
+      flush();
+      fence = { language: opening[2].toLowerCase(), lines: [] };
+      continue;
+    }
+    const title = /^\s*#{1,6}\s+(.*)$/.exec(line) ?? /^\s*<h[1-6][^>]*>(.*?)<\/h[1-6]>/i.exec(line);
+    if (title) {
+      flush();
+      heading = stripInline(title[1]);
+      blocks.push({ type: "heading", heading });
+      continue;
+    }
+    if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/** The first block of real prose: not badges, HTML layout, lists, tables or quotes. */
+function findSummary(blocks) {
+  for (const block of blocks) {
+    if (block.type !== "text" || /^\s*([-*+>|]|\d+\.)\s/.test(block.text) || /^\s*</.test(block.text)) {
+      continue;
+    }
+    const text = stripInline(block.text);
+    if (text.length >= 40 && /[a-z]{3,}/.test(text) && !/^(table of contents|contents)\b/i.test(text)) {
+      return text.length > MAX_SUMMARY_LENGTH ? `${text.slice(0, MAX_SUMMARY_LENGTH - 1).trimEnd()}…` : text;
+    }
+  }
+  return null;
+}
+
+function trimSnippet(text) {
+  const lines = text.replace(/^\n+|\s+$/g, "").split("\n");
+  return lines.length > MAX_SNIPPET_LINES ? [...lines.slice(0, MAX_SNIPPET_LINES), "…"].join("\n") : lines.join("\n");
+}
+
+/**
+ * Install snippets are code blocks under an installation heading or that run a package manager;
+ * quick-start snippets are the other code blocks under a usage or getting-started heading.
+ */
+function findSnippets(blocks) {
+  const install = [];
+  const quickStart = [];
+  for (const block of blocks) {
+    if (block.type !== "code" || !block.text.trim()) {
+      continue;
+    }
+    if (INSTALL_COMMAND.test(block.text) || (INSTALL_HEADING.test(block.heading) && block.text.split("\n").length <= 5)) {
+      install.push(trimSnippet(block.text));
+    } else if (QUICK_START_HEADING.test(block.heading)) {
+      quickStart.push(trimSnippet(block.text));
+    }
+  }
+  return { install: install.slice(0, MAX_SNIPPETS), quickStart: quickStart.slice(0, MAX_SNIPPETS) };
+}
+
+function findBadges(markdown) {
+  const images = [
+    ...[...markdown.matchAll(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?[^)]*\)/g)].map(([, alt, src]) => ({ alt, src })),
+    ...[...markdown.matchAll(/<img\b[^>]*>/gi)].map(([tag]) => ({
+      alt: /\balt=["']([^"']*)["']/i.exec(tag)?.[1] ?? "",
+      src: /\bsrc=["']([^"']+)["']/i.exec(tag)?.[1] ?? "",
+    })),
+  ];
+  const badges = [];
+  for (const { alt, src } of images) {
+    if (!BADGE_HOSTS.test(src)) {
+      continue;
+    }
+    const kind = BADGE_KINDS.find(([, pattern]) => pattern.test(alt) || pattern.test(src))?.[0] ?? "other";
+    const label = alt.trim() || kind;
+    if (!badges.some((badge) => badge.kind === kind && badge.label === label)) {
+      badges.push({ kind, label, image: src });
+    }
+  }
+  return badges.slice(0, MAX_BADGES);
+}
+
+function findDocsUrl(markdown, homepage) {
+  if (homepage && /^https?:\/\//i.test(homepage) && !FORGE_HOSTS.test(homepage)) {
+    return homepage;
+  }
+  const links = [...markdown.matchAll(/https?:\/\/[^\s)<>"'\]]+/g)].map(([url]) => url.replace(/[.,;:]+$/, ""));
+  return links.find((url) => DOCS_SITE.test(url) && !FORGE_HOSTS.test(url) && !BADGE_HOSTS.test(url)) ?? null;
+}
+
+function hasDirectory(entries, names) {
+  return entries.some((entry) => entry.type === "dir" && names.includes(entry.name.toLowerCase()));
+}
+
+/**
+ * Reads a repository's README and file listing into what a reviewer looks for first: a summary
+ * paragraph, install and quick-start snippets, status badges and whether real docs exist. `quality`
+ * (0–1) grades all of it and feeds the `docs` score component.
+ */
+export function analyzeDocumentation({ readme = "", entries = [], docsEntries = [], homepage = null }) {
+  const blocks = readmeBlocks(readme);
+  const summary = findSummary(blocks);
+  const { install, quickStart } = findSnippets(blocks);
+  const docsUrl = findDocsUrl(readme, homepage);
+  const hasDocsFolder = hasDirectory(entries, DOCS_DIRECTORIES) && docsEntries.length > 0;
+  const hasExamples = hasDirectory(entries, EXAMPLE_DIRECTORIES);
+  const hasChangelog = [...entries, ...docsEntries].some((entry) => entry.type === "file" && CHANGELOG_FILE.test(entry.name));
+
+  const quality =
+    (readme.length >= 1500 ? 0.2 : readme.length >= 300 ? 0.1 : 0) +
+    (summary ? 0.1 : 0) +
+    (install.length ? 0.15 : 0) +
+    (quickStart.length ? 0.15 : 0) +
+    (docsUrl || hasDocsFolder ? 0.2 : 0) +
+    (hasExamples ? 0.1 : 0) +
+    (hasChangelog ? 0.1 : 0);
+
+  return {
+    summary,
+    install,
+    quickStart,
+    badges: findBadges(readme),
+    docsUrl,
+    hasDocsFolder,
+    hasExamples,
+    hasChangelog,
+    readmeLength: readme.length,
+    quality: Number(quality.toFixed(2)),
+  };
+}
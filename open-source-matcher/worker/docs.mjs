@@ -0,0 +1,68 @@
+import { readDocsCache, writeDocsCache } from "./cache.mjs";
+import { analyzeDocumentation } from "./docs-analysis.mjs";
+import { withStepTimeout } from "./errors.mjs";
+import { RateLimitedError } from "./github-client.mjs";
+import { mapConcurrently } from "./limits.mjs";
+import { finalizeProject } from "./projects.mjs";
+import { getProvider } from "./providers/index.mjs";
+import { DEFAULT_SCORING } from "./scoring.mjs";
+
+const DOCS_TOP_N = Number(process.env.HUNTER_DOCS_TOP_N ?? 5);
+const STEP_TIMEOUT_MS = Number(process.env.HUNTER_STEP_TIMEOUT_MS ?? 45000);
+const ANALYSIS_CONCURRENCY = Number(process.env.HUNTER_ANALYSIS_CONCURRENCY ?? 4);
+
+async function analyzeProject(project, provider) {
+  const cached = await readDocsCache(project);
+  if (cached) {
+    return cached;
+  }
+  const sources = await provider.fetchDocumentation(project);
+  const docs = { ...analyzeDocumentation({ ...sources, homepage: project.homepage }), analyzedAt: new Date().toISOString() };
+  await writeDocsCache(project, docs);
+  return docs;
+}
+
+/**
+ * Reads the README and docs listing of the first `HUNTER_DOCS_TOP_N` projects. The analysis is
+ * attached as `docs`, its summary stands in for a missing description, and its quality feeds the
+ * `docs` score component. Best-effort like the health pass: a rate limit ends it early.
+ */
+export async function attachDocumentation(projects, report = async () => {}, scoring = DEFAULT_SCORING) {
+  const candidates = projects.slice(0, DOCS_TOP_N).filter((project) => getProvider(project.source ?? "github")?.fetchDocumentation);
+  const analyzed = new Map();
+
+  let completed = 0;
+  let rateLimited = false;
+
+  await report("docs", `Reading the README and docs of ${candidates.length} projects`, { current: 0, total: candidates.length });
+  await mapConcurrently(candidates, ANALYSIS_CONCURRENCY, async (project) => {
+    if (rateLimited) {
+      return;
+    }
+    try {
+      const docs = await withStepTimeout(
+        () => analyzeProject(project, getProvider(project.source ?? "github")),
+        STEP_TIMEOUT_MS,
+        `Docs analysis of ${project.name}`,
+      );
+      const description = project.description?.trim() ? project.description : docs.summary ?? project.description;
+      analyzed.set(project, finalizeProject({ ...project, description, docs }, scoring));
+    } catch (error) {
+      console.warn(`[worker] Docs analysis failed for ${project.name}:`, error instanceof Error ? error.message : error);
+      if (error instanceof RateLimitedError) {
+        rateLimited = true;
+      }
+    }
+    completed += 1;
+    await report("docs", `Read the README and docs of ${project.name} (${completed} of ${candidates.length})`, {
+      current: completed,
+      total: candidates.length,
+      project: project.name,
+    });
+  });
+
+  // As with health, only the analyzed head is re-ranked.
+  const head = projects.slice(0, DOCS_TOP_N).map((project) => analyzed.get(project) ?? project);
+  head.sort((a, b) => b.score - a.score);
+  return [...head, ...projects.slice(DOCS_TOP_N)];
+}
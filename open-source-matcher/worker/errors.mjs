@@ -0,0 +1,93 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Marks a failure that is expected to clear up on its own (rate limits, 5xx responses, network blips).
+ * Jobs failing with a transient error are retried with backoff instead of being failed outright.
+ */
+export class TransientError extends Error {
+  constructor(message, { retryAfterMs, cause } = {}) {
+    super(message, cause ? { cause } : undefined);
+    this.name = "TransientError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export function isTransientError(error) {
+  if (error instanceof TransientError) {
+    return true;
+  }
+  // Undici surfaces DNS failures, resets and refused connections as `TypeError: fetch failed`.
+  if (error instanceof TypeError && /fetch failed/i.test(error.message)) {
+    return true;
+  }
+  return error?.name === "AbortError" || error?.name === "TimeoutError";
+}
+
+export function isTransientStatus(status) {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Runs `fn` and retries it with exponential backoff while it keeps failing with a transient error.
+ */
+export async function retryTransient(fn, { attempts = 3, baseDelayMs = 500 } = {}) {
+  let lastError;
+  for (let attempt = 1; attempt <= attempts; attempt += 1) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      lastError = error;
+      // A step that ran out of time is over; retrying inside it would only fail again.
+      if (!isTransientError(error) || error instanceof StepTimeoutError || attempt === attempts) {
+        throw error;
+      }
+      const delay = error.retryAfterMs ?? baseDelayMs * 2 ** (attempt - 1);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * A step of a job (enriching one project, say) that ran past its time budget. The step is given up
+ * on and the requests it still has in flight are aborted.
+ */
+export class StepTimeoutError extends TransientError {
+  constructor(step, timeoutMs) {
+    super(`${step} timed out after ${timeoutMs}ms`);
+    this.name = "StepTimeoutError";
+  }
+}
+
+const stepSignals = new AsyncLocalStorage();
+
+/**
+ * The abort signal of the step the caller runs in, if any. `limitedFetch` adds it to every request,
+ * so an abandoned step stops waiting for slots and releases the ones it holds.
+ */
+export function currentStepSignal() {
+  return stepSignals.getStore();
+}
+
+/**
+ * Runs `run` as the step named `step` and rejects with a `StepTimeoutError` once `timeoutMs` pass,
+ * aborting the step's signal at the same time.
+ */
+export async function withStepTimeout(run, timeoutMs, step) {
+  const controller = new AbortController();
+  let timer;
+  try {
+    return await Promise.race([
+      stepSignals.run(controller.signal, run),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new StepTimeoutError(step, timeoutMs);
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,84 @@
+import { maintainedSinceDate } from "./projects.mjs";
+
+/**
+ * `language` and `languages` combined, de-duplicated case-insensitively with the original spelling kept.
+ */
+export function requestedLanguages(filters) {
+  const languages = new Map();
+  [filters.language, ...(filters.languages ?? [])].filter(Boolean).forEach((language) => {
+    if (!languages.has(language.toLowerCase())) {
+      languages.set(language.toLowerCase(), language);
+    }
+  });
+  return [...languages.values()];
+}
+
+function lowerCaseSet(values) {
+  return new Set((values ?? []).map((value) => String(value).toLowerCase()));
+}
+
+function createdDay(project) {
+  return project.createdAt ? new Date(project.createdAt).toISOString().split("T")[0] : null;
+}
+
+/**
+ * Checks a mapped project against every `SearchFilters` field. Providers push what their search API
+ * supports into the query; this catches the rest so all forges honor the same filters. Fields a
+ * forge does not report (creation date, owner type) only exclude a project when they are known.
+ */
+export function matchesFilters(project, filters) {
+  const languages = requestedLanguages(filters).map((language) => language.toLowerCase());
+  if (languages.length && !languages.includes(project.language?.toLowerCase())) {
+    return false;
+  }
+  if (filters.minStars > 0 && project.stars < filters.minStars) {
+    return false;
+  }
+  if (filters.minForks > 0 && project.forks < filters.minForks) {
+    return false;
+  }
+  if (filters.onlyMaintained && !(new Date(project.lastPushedAt).getTime() >= new Date(maintainedSinceDate()).getTime())) {
+    return false;
+  }
+
+  const license = project.license?.toLowerCase();
+  if (filters.licenses?.length && !lowerCaseSet(filters.licenses).has(license)) {
+    return false;
+  }
+  if (license && lowerCaseSet(filters.excludeLicenses).has(license)) {
+    return false;
+  }
+
+  const topics = lowerCaseSet(project.topics);
+  if (filters.topics?.some((topic) => !topics.has(topic.toLowerCase()))) {
+    return false;
+  }
+  if (filters.excludeTopics?.some((topic) => topics.has(topic.toLowerCase()))) {
+    return false;
+  }
+
+  if ((filters.excludeArchived && project.archived) || (filters.excludeForks && project.fork)) {
+    return false;
+  }
+  if (filters.excludeTemplates && project.isTemplate) {
+    return false;
+  }
+
+  const created = createdDay(project);
+  if (created && filters.createdAfter && created < filters.createdAfter) {
+    return false;
+  }
+  if (created && filters.createdBefore && created > filters.createdBefore) {
+    return false;
+  }
+
+  const ownerType = project.owner?.type?.toLowerCase();
+  if (filters.ownerType && ownerType && ownerType !== filters.ownerType) {
+    return false;
+  }
+  return true;
+}
+
+export function applyFilters(projects, filters) {
+  return projects.filter((project) => matchesFilters(project, filters));
+}
@@ -0,0 +1,186 @@
+import { createHash } from "crypto";
+import { redis } from "./redis.mjs";
+import { TransientError } from "./errors.mjs";
+import { limitedFetch } from "./limits.mjs";
+
+export const GITHUB_API_URL = (process.env.HUNTER_GITHUB_API_URL ?? "https://api.github.com").replace(/\/$/, "");
+const USER_AGENT = process.env.HUNTER_USER_AGENT ?? "open-source-hunter/0.2.0";
+const RATE_LIMIT_KEY = process.env.HUNTER_GITHUB_RATE_LIMIT_KEY ?? "hunter:github:ratelimit";
+const SECONDARY_LIMIT_BACKOFF_MS = Number(process.env.HUNTER_GITHUB_SECONDARY_BACKOFF_MS ?? 60000);
+const RATE_LIMIT_STATE_TTL_SECONDS = 86400;
+
+const TOKENS = Array.from(
+  new Set(
+    [process.env.GITHUB_TOKEN, ...(process.env.GITHUB_TOKENS ?? "").split(",")]
+      .map((token) => token?.trim())
+      .filter(Boolean),
+  ),
+);
+const SLOTS = (TOKENS.length ? TOKENS : [null]).map((token) => ({
+  token,
+  id: token ? createHash("sha1").update(token).digest("hex").slice(0, 12) : "anonymous",
+}));
+let roundRobin = 0;
+
+export const hasGitHubToken = TOKENS.length > 0;
+
+/**
+ * Thrown when every configured token is out of quota for the requested resource.
+ * `retryAt` is the earliest time at which one of them becomes usable again.
+ */
+export class RateLimitedError extends TransientError {
+  constructor(message, { retryAt, resource }) {
+    super(message, { retryAfterMs: Math.max(0, retryAt - Date.now()) });
+    this.name = "RateLimitedError";
+    this.retryAt = retryAt;
+    this.resource = resource;
+  }
+}
+
+function resourceFor(url) {
+  return new URL(url).pathname.startsWith("/search/") ? "search" : "core";
+}
+
+/**
+ * Returns the epoch milliseconds at which a slot can serve `resource` again, or 0 when it can right now.
+ */
+function blockedUntil(state) {
+  if (!state) {
+    return 0;
+  }
+  const now = Date.now();
+  const secondary = state.blockedUntil && state.blockedUntil > now ? state.blockedUntil : 0;
+  const primary = state.remaining === 0 && state.resetAt > now ? state.resetAt : 0;
+  return Math.max(secondary, primary);
+}
+
+async function readStates(resource) {
+  const fields = SLOTS.map((slot) => `${slot.id}:${resource}`);
+  const raw = await redis.hmget(RATE_LIMIT_KEY, ...fields);
+  return raw.map((entry) => {
+    try {
+      return entry ? JSON.parse(entry) : null;
+    } catch {
+      return null;
+    }
+  });
+}
+
+async function writeState(slot, resource, state) {
+  await redis
+    .multi()
+    .hset(RATE_LIMIT_KEY, `${slot.id}:${resource}`, JSON.stringify({ ...state, updatedAt: new Date().toISOString() }))
+    .expire(RATE_LIMIT_KEY, RATE_LIMIT_STATE_TTL_SECONDS)
+    .exec();
+}
+
+function stateFromHeaders(headers, previous) {
+  const remaining = Number(headers.get("x-ratelimit-remaining"));
+  const reset = Number(headers.get("x-ratelimit-reset"));
+  const limit = Number(headers.get("x-ratelimit-limit"));
+  return {
+    ...previous,
+    limit: Number.isFinite(limit) && headers.has("x-ratelimit-limit") ? limit : previous?.limit,
+    remaining: Number.isFinite(remaining) && headers.has("x-ratelimit-remaining") ? remaining : previous?.remaining,
+    resetAt: Number.isFinite(reset) && reset > 0 ? reset * 1000 : previous?.resetAt,
+  };
+}
+
+/**
+ * Picks the usable slot with the most remaining quota, rotating between equally good ones so load
+ * is spread across tokens. Returns `{ slot, state }` or `{ retryAt }` when every slot is exhausted.
+ */
+async function pickSlot(resource, exclude) {
+  const states = await readStates(resource);
+  const candidates = SLOTS.map((slot, index) => ({ slot, state: states[index], index })).filter(
+    ({ slot }) => !exclude.has(slot.id),
+  );
+  const usable = candidates.filter(({ state }) => blockedUntil(state) === 0);
+
+  if (!usable.length) {
+    const retryAt = Math.min(...candidates.map(({ state }) => blockedUntil(state) || Date.now() + SECONDARY_LIMIT_BACKOFF_MS));
+    return { retryAt: Number.isFinite(retryAt) ? retryAt : Date.now() + SECONDARY_LIMIT_BACKOFF_MS };
+  }
+
+  roundRobin = (roundRobin + 1) % SLOTS.length;
+  usable.sort((a, b) => {
+    const byRemaining = (b.state?.remaining ?? Number.MAX_SAFE_INTEGER) - (a.state?.remaining ?? Number.MAX_SAFE_INTEGER);
+    if (byRemaining !== 0) {
+      return byRemaining;
+    }
+    return ((a.index - roundRobin + SLOTS.length) % SLOTS.length) - ((b.index - roundRobin + SLOTS.length) % SLOTS.length);
+  });
+  return usable[0];
+}
+
+async function detectRateLimit(response) {
+  if (response.status !== 403 && response.status !== 429) {
+    return null;
+  }
+  const retryAfter = Number(response.headers.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return { secondary: true, retryAt: Date.now() + retryAfter * 1000 };
+  }
+  if (response.headers.get("x-ratelimit-remaining") === "0") {
+    const reset = Number(response.headers.get("x-ratelimit-reset"));
+    return { secondary: false, retryAt: Number.isFinite(reset) && reset > 0 ? reset * 1000 : Date.now() + SECONDARY_LIMIT_BACKOFF_MS };
+  }
+  const body = await response.clone().text();
+  if (/rate limit/i.test(body)) {
+    return { secondary: true, retryAt: Date.now() + SECONDARY_LIMIT_BACKOFF_MS };
+  }
+  return null;
+}
+
+/**
+ * Performs a GitHub REST request with the best available token. Quota headers are recorded in
+ * Redis so every worker (and the backend's ETA estimate) shares the same view of the limits.
+ * A rate-limited token is parked and the request is retried with the next one; when none is left
+ * a `RateLimitedError` is thrown so the caller can reschedule instead of failing.
+ */
+export async function githubFetch(pathOrUrl, { headers = {}, ...init } = {}) {
+  const url = pathOrUrl.startsWith("http") ? pathOrUrl : `${GITHUB_API_URL}${pathOrUrl}`;
+  const resource = resourceFor(url);
+  const tried = new Set();
+
+  while (tried.size < SLOTS.length) {
+    const picked = await pickSlot(resource, tried);
+    if (!picked.slot) {
+      break;
+    }
+    const { slot, state } = picked;
+    tried.add(slot.id);
+
+    const response = await limitedFetch("github", url, {
+      ...init,
+      headers: {
+        Accept: "application/vnd.github+json",
+        "User-Agent": USER_AGENT,
+        "X-GitHub-Api-Version": "2022-11-28",
+        ...(slot.token ? { Authorization: `Bearer ${slot.token}` } : {}),
+        ...headers,
+      },
+    });
+
+    const nextState = stateFromHeaders(response.headers, state);
+    const limited = await detectRateLimit(response);
+    if (limited) {
+      await writeState(slot, resource, {
+        ...nextState,
+        ...(limited.secondary ? { blockedUntil: limited.retryAt } : { remaining: 0, resetAt: limited.retryAt }),
+      });
+      console.warn(`[worker] GitHub ${resource} limit hit for token ${slot.id}; parked until ${new Date(limited.retryAt).toISOString()}`);
+      continue;
+    }
+
+    await writeState(slot, resource, nextState);
+    return response;
+  }
+
+  const { retryAt } = await pickSlot(resource, new Set());
+  const effectiveRetryAt = retryAt ?? Date.now() + SECONDARY_LIMIT_BACKOFF_MS;
+  throw new RateLimitedError(
+    `GitHub ${resource} rate limit exhausted on every token. ${hasGitHubToken ? "" : "Set GITHUB_TOKEN for higher limits. "}Next slot frees up at ${new Date(effectiveRetryAt).toISOString()}.`,
+    { retryAt: effectiveRetryAt, resource },
+  );
+}
@@ -0,0 +1,98 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const HEALTH_WINDOW_DAYS = Number(process.env.HUNTER_HEALTH_WINDOW_DAYS ?? 90);
+
+export function median(values) {
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (!sorted.length) {
+    return null;
+  }
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value, digits = 1) {
+  return value == null ? null : Number(value.toFixed(digits));
+}
+
+/**
+ * Smallest number of authors that together account for at least half of the commits.
+ */
+export function busFactor(commitAuthors) {
+  const counts = new Map();
+  commitAuthors.forEach((author) => counts.set(author, (counts.get(author) ?? 0) + 1));
+  const sorted = [...counts.values()].sort((a, b) => b - a);
+  let covered = 0;
+  for (const [index, count] of sorted.entries()) {
+    covered += count;
+    if (covered * 2 >= commitAuthors.length) {
+      return index + 1;
+    }
+  }
+  return 0;
+}
+
+export function commitMetrics(commitAuthors) {
+  return {
+    commits90d: commitAuthors.length,
+    commitsPerWeek: round(commitAuthors.length / (HEALTH_WINDOW_DAYS / 7)),
+    activeContributors90d: new Set(commitAuthors).size,
+    busFactor: busFactor(commitAuthors),
+  };
+}
+
+export function releaseMetrics(publishedDates) {
+  const times = publishedDates
+    .map((date) => new Date(date).getTime())
+    .filter(Number.isFinite)
+    .sort((a, b) => b - a);
+  const intervals = times.slice(1).map((time, index) => (times[index] - time) / DAY_MS);
+  return {
+    lastReleaseAt: times.length ? new Date(times[0]).toISOString() : null,
+    releasesLastYear: times.filter((time) => Date.now() - time <= 365 * DAY_MS).length,
+    releaseCadenceDays: round(median(intervals)),
+  };
+}
+
+export function responseMetrics(responseHours, sampled) {
+  return {
+    medianFirstResponseHours: round(median(responseHours)),
+    issuesSampled: sampled,
+    unansweredIssues: sampled - responseHours.length,
+  };
+}
+
+export function mergeMetrics(closedPulls) {
+  const merged = closedPulls.filter((pull) => pull.merged).length;
+  return {
+    prMergeRate: closedPulls.length ? round(merged / closedPulls.length, 2) : null,
+    prsSampled: closedPulls.length,
+  };
+}
+
+/**
+ * Turns raw metrics into the warnings shown on a project card, e.g. a popular project whose only
+ * active maintainer went quiet.
+ */
+export function healthRisks(health) {
+  const risks = [];
+  if (health.commits90d === 0) {
+    risks.push(`No commits in the last ${HEALTH_WINDOW_DAYS} days`);
+  } else if (health.busFactor === 1) {
+    risks.push(
+      health.activeContributors90d === 1 ? "Single active contributor" : "Bus factor of 1: one person writes most commits",
+    );
+  }
+  if (health.lastReleaseAt && Date.now() - new Date(health.lastReleaseAt).getTime() > 365 * DAY_MS) {
+    risks.push("No release in over a year");
+  }
+  if (health.medianFirstResponseHours != null && health.medianFirstResponseHours > 24 * 14) {
+    risks.push(`Issues wait ~${Math.round(health.medianFirstResponseHours / 24)} days for a first response`);
+  }
+  if (health.issuesSampled >= 5 && health.unansweredIssues / health.issuesSampled > 0.5) {
+    risks.push("Most recent issues have no response");
+  }
+  if (health.prMergeRate != null && health.prsSampled >= 5 && health.prMergeRate < 0.3) {
+    risks.push(`Only ${Math.round(health.prMergeRate * 100)}% of closed pull requests were merged`);
+  }
+  return risks;
+}
@@ -0,0 +1,74 @@
+import { readHealthCache, writeHealthCache } from "./cache.mjs";
+import { withStepTimeout } from "./errors.mjs";
+import { RateLimitedError } from "./github-client.mjs";
+import { healthRisks } from "./health-metrics.mjs";
+import { mapConcurrently } from "./limits.mjs";
+import { finalizeProject } from "./projects.mjs";
+import { getProvider } from "./providers/index.mjs";
+import { DEFAULT_SCORING } from "./scoring.mjs";
+
+const HEALTH_TOP_N = Number(process.env.HUNTER_HEALTH_TOP_N ?? 5);
+const STEP_TIMEOUT_MS = Number(process.env.HUNTER_STEP_TIMEOUT_MS ?? 45000);
+const ANALYSIS_CONCURRENCY = Number(process.env.HUNTER_ANALYSIS_CONCURRENCY ?? 4);
+
+async function analyzeProject(project) {
+  const provider = getProvider(project.source ?? "github");
+  if (!provider?.analyzeHealth) {
+    return null;
+  }
+
+  const cached = await readHealthCache(project);
+  if (cached) {
+    return cached;
+  }
+
+  const metrics = await provider.analyzeHealth(project);
+  const health = { ...metrics, risks: healthRisks(metrics), analyzedAt: new Date().toISOString() };
+  await writeHealthCache(project, health);
+  return health;
+}
+
+/**
+ * Deeper analysis pass for the first `HUNTER_HEALTH_TOP_N` projects: contributor activity, bus
+ * factor, release cadence, issue responsiveness and PR merge rate. Up to `HUNTER_ANALYSIS_CONCURRENCY`
+ * projects are analyzed at once. Analysis is best-effort: a project that takes longer than
+ * `HUNTER_STEP_TIMEOUT_MS` is skipped, and once a rate limit is hit the remaining projects are
+ * returned without `health` rather than failing the job.
+ */
+export async function attachHealthMetrics(projects, report = async () => {}, scoring = DEFAULT_SCORING) {
+  const candidates = projects.slice(0, HEALTH_TOP_N).filter((project) => getProvider(project.source ?? "github")?.analyzeHealth);
+  const analyzed = new Map();
+
+  let completed = 0;
+  let rateLimited = false;
+
+  await report("health", `Analyzing community health of ${candidates.length} projects`, { current: 0, total: candidates.length });
+  // Requests still go through the per-host slots in limitedFetch, so this only bounds the work a job has in flight.
+  await mapConcurrently(candidates, ANALYSIS_CONCURRENCY, async (project) => {
+    if (rateLimited) {
+      return;
+    }
+    try {
+      const health = await withStepTimeout(() => analyzeProject(project), STEP_TIMEOUT_MS, `Health analysis of ${project.name}`);
+      if (health) {
+        analyzed.set(project, finalizeProject({ ...project, health }, scoring));
+      }
+    } catch (error) {
+      console.warn(`[worker] Health analysis failed for ${project.name}:`, error instanceof Error ? error.message : error);
+      if (error instanceof RateLimitedError) {
+        rateLimited = true;
+      }
+    }
+    completed += 1;
+    await report("health", `Analyzed community health of ${project.name} (${completed} of ${candidates.length})`, {
+      current: completed,
+      total: candidates.length,
+      project: project.name,
+    });
+  });
+
+  // Only the analyzed head is re-ranked so projects outside it are not ranked against metrics they lack.
+  const head = projects.slice(0, HEALTH_TOP_N).map((project) => analyzed.get(project) ?? project);
+  head.sort((a, b) => b.score - a.score);
+  return [...head, ...projects.slice(HEALTH_TOP_N)];
+}
@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const HTTP_MODE = (process.env.HUNTER_HTTP_MODE ?? "live").trim().toLowerCase();
+const FIXTURES_DIR = path.resolve(
+  process.env.HUNTER_FIXTURES_DIR ?? fileURLToPath(new URL("../fixtures/http", import.meta.url)),
+);
+const HTTP_MODES = ["live", "record", "replay"];
+// Request body fields that carry credentials; they are neither part of the fixture key nor stored.
+const SECRET_BODY_FIELDS = ["api_key", "apiKey", "token"];
+// Response headers that are only noise in a fixture file.
+const DROPPED_HEADERS = new Set(["set-cookie", "date", "connection", "keep-alive", "transfer-encoding", "content-encoding", "content-length"]);
+// Dates in queries (`pushed:>=2024-05-01`, `since=2024-05-01T10:00:00Z`) move with the clock; they
+// are masked so a recording keeps matching on later days.
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}(?:T\d{2}(?::|%3A)\d{2}(?:(?::|%3A)\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}(?::|%3A)?\d{2})?)?/gi;
+
+/**
+ * A replayed request that was never recorded. It is not transient, so the job fails right away with
+ * the URL in its error instead of retrying.
+ */
+export class FixtureMissError extends Error {
+  constructor(method, url, file) {
+    super(
+      `No recorded response for ${method} ${url} (looked for ${file}). ` +
+        "Record it by running the worker once with HUNTER_HTTP_MODE=record.",
+    );
+    this.name = "FixtureMissError";
+  }
+}
+
+const httpMode = HTTP_MODES.includes(HTTP_MODE) ? HTTP_MODE : "live";
+
+function requestBody(init) {
+  if (typeof init.body !== "string" || !init.body) {
+    return null;
+  }
+  try {
+    const json = JSON.parse(init.body);
+    if (json && typeof json === "object" && !Array.isArray(json)) {
+      SECRET_BODY_FIELDS.forEach((field) => delete json[field]);
+    }
+    return json;
+  } catch {
+    return init.body;
+  }
+}
+
+/**
+ * Where a request's fixture lives: one directory per host and one file per method, masked URL and
+ * body. The file name starts with the path so recordings stay browsable.
+ */
+function fixturePath(method, url, body = null) {
+  const parsed = new URL(url);
+  const masked = `${parsed.pathname}${parsed.search}`.replace(DATE_PATTERN, "{date}");
+  const hash = createHash("sha1")
+    .update(`${method} ${parsed.host}${masked} ${body == null ? "" : JSON.stringify(body)}`)
+    .digest("hex")
+    .slice(0, 12);
+  const slug = parsed.pathname.replace(/[^a-z0-9]+/gi, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "root";
+  return path.join(FIXTURES_DIR, parsed.host.replace(/[^a-z0-9.-]/gi, "_"), `${method.toLowerCase()}-${slug}-${hash}.json`);
+}
+
+function requestOf(input, init) {
+  const url = typeof input === "string" || input instanceof URL ? String(input) : input.url;
+  const method = (init.method ?? (typeof input === "object" && "method" in input ? input.method : "GET")).toUpperCase();
+  return { url, method, body: requestBody(init) };
+}
+
+// Recordings are always complete responses, so they must not be answered with a 304.
+function withoutConditionalHeaders(init) {
+  if (!init.headers) {
+    return init;
+  }
+  const headers = new Headers(init.headers);
+  headers.delete("if-none-match");
+  headers.delete("if-modified-since");
+  return { ...init, headers };
+}
+
+async function record(realFetch, input, init) {
+  const { url, method, body } = requestOf(input, init);
+  const response = await realFetch(input, withoutConditionalHeaders(init));
+  const text = await response.clone().text();
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  const file = fixturePath(method, url, body);
+  const fixture = {
+    request: { method, url, ...(body == null ? {} : { body }) },
+    response: {
+      status: response.status,
+      headers: Object.fromEntries([...response.headers].filter(([name]) => !DROPPED_HEADERS.has(name))),
+      ...(json === undefined ? { body: text } : { json }),
+    },
+    recordedAt: new Date().toISOString(),
+  };
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  return response;
+}
+
+async function replay(input, init) {
+  const { url, method, body } = requestOf(input, init);
+  const file = fixturePath(method, url, body);
+  let fixture;
+  try {
+    fixture = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    if (error?.code === "ENOENT") {
+      throw new FixtureMissError(method, url, file);
+    }
+    throw error;
+  }
+  const { status, headers, json, body: text } = fixture.response;
+  const payload = status === 204 || status === 304 ? null : json === undefined ? text ?? "" : JSON.stringify(json);
+  return new Response(payload, { status, headers });
+}
+
+/**
+ * Routes the worker's outbound HTTP through the fixture store according to `HUNTER_HTTP_MODE`:
+ * `record` saves every live response under `HUNTER_FIXTURES_DIR`, `replay` answers from those files
+ * and never touches the network, `live` (the default) leaves `fetch` alone.
+ */
+export function installHttpFixtures() {
+  if (HTTP_MODE && !HTTP_MODES.includes(HTTP_MODE)) {
+    console.warn(`[worker] Unknown HUNTER_HTTP_MODE "${HTTP_MODE}"; using live HTTP.`);
+  }
+  if (httpMode === "live") {
+    return;
+  }
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = httpMode === "record" ? (input, init = {}) => record(realFetch, input, init) : (input, init = {}) => replay(input, init);
+  console.log(`[worker] HTTP ${httpMode} mode: fixtures in ${FIXTURES_DIR}`);
+}
@@ -1,139 +1,162 @@
-import dotenv from "dotenv";
-import Redis from "ioredis";
-import fs from "fs";
-import path from "path";
-
-dotenv.config();
-const envLocalPath = path.resolve(process.cwd(), ".env.local");
-if (fs.existsSync(envLocalPath)) {
-  dotenv.config({ path: envLocalPath, override: false });
+import "./env.mjs";
+import { installHttpFixtures } from "./http-fixtures.mjs";
+import { HUNTER_STORE, REDIS_URL, redis, blockingRedis } from "./redis.mjs";
+import { publishProgress } from "./progress.mjs";
+import { TransientError, isTransientError, isTransientStatus, retryTransient, withStepTimeout } from "./errors.mjs";
+import { RateLimitedError } from "./github-client.mjs";
+import { readEnrichmentCache, writeEnrichmentCache } from "./cache.mjs";
+import { limitedFetch, mapConcurrently } from "./limits.mjs";
+import { getProvider, resolveProviders, resolveRepository } from "./providers/index.mjs";
+import { combineCacheInfo } from "./providers/cached-search.mjs";
+import { attachPackageSignals } from "./registries/index.mjs";
+import { attachHealthMetrics } from "./health.mjs";
+import { attachDocumentation } from "./docs.mjs";
+import { finalizeProject } from "./projects.mjs";
+import { applyFilters } from "./filters.mjs";
+import { attachCompliance, describeCompliance } from "./compliance.mjs";
+import { recordWatchRun, startWatchScheduler } from "./watchlists.mjs";
+import { recordSearch } from "./searches.mjs";
+import { collectContributionOpportunities, describeContributions } from "./contributions.mjs";
+import { FLAGGED_STATUSES, alternativeQuery, assessDependency, sameRepositoryUrl, traceDependencies } from "./audit.mjs";
+import { DEFAULT_SCORING } from "./scoring.mjs";
+import {
+  MAX_JOB_ATTEMPTS,
+  MAX_JOB_DEFERRALS,
+  PROCESSING_QUEUE,
+  REQUEST_QUEUE,
+  ackJob,
+  claimJob,
+  deadLetterJob,
+  keepLeaseAlive,
+  retryDelayMs,
+  scheduleRetry,
+  startQueueMaintenance,
+} from "./queue.mjs";
+
+// Counts read from the environment fall back to their default unless they are a number of at least 1.
+function countFromEnv(name, fallback) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
 }
 
-const REDIS_URL = process.env.REDIS_URL ?? "redis://127.0.0.1:6379";
-const REQUEST_QUEUE = process.env.HUNTER_REQUEST_QUEUE ?? "hunter:requests";
 const RESULT_PREFIX = process.env.HUNTER_RESULT_PREFIX ?? "hunter:results";
 const JOB_METADATA_PREFIX = process.env.HUNTER_JOB_META_PREFIX ?? "hunter:job";
 const RESULT_TTL_SECONDS = Number(process.env.HUNTER_RESULT_TTL_SECONDS ?? 300);
-const DEFAULT_ONLY_MAINTAINED_MONTHS = Number(process.env.HUNTER_MAINTAINED_MONTH_WINDOW ?? 12);
-const USER_AGENT = process.env.HUNTER_USER_AGENT ?? "open-source-hunter/0.2.0";
+const RESULT_STORE_TTL_SECONDS = Number(process.env.HUNTER_RESULT_STORE_TTL_SECONDS ?? 3600);
 const TAVILY_API_KEY = process.env.TAVILY_API_KEY ?? "";
 const TAVILY_SEARCH_ENDPOINT = "https://api.tavily.com/search";
+const TAVILY_MAX_ATTEMPTS = 3;
+const DRAIN_TIMEOUT_MS = Number(process.env.HUNTER_DRAIN_TIMEOUT_MS ?? 30000);
+// Set by backend/standalone.mjs, which owns shutdown when every service runs in one process.
+const STANDALONE = process.env.HUNTER_STANDALONE === "true";
+const JOB_CONCURRENCY = countFromEnv("HUNTER_JOB_CONCURRENCY", 2);
+const ENRICHMENT_CONCURRENCY = countFromEnv("HUNTER_ENRICHMENT_CONCURRENCY", 4);
+const STEP_TIMEOUT_MS = Number(process.env.HUNTER_STEP_TIMEOUT_MS ?? 45000);
+const LISTED_REPOSITORY_CONCURRENCY = countFromEnv("HUNTER_LISTED_REPOSITORY_CONCURRENCY", 4);
+const AUDIT_ALTERNATIVE_SEARCHES = Number(process.env.HUNTER_AUDIT_ALTERNATIVE_SEARCHES ?? 5);
+const AUDIT_ALTERNATIVES_PER_DEPENDENCY = Number(process.env.HUNTER_AUDIT_ALTERNATIVES ?? 3);
+// Jobs queued without a workspace (queued before workspaces existed) belong to the default one.
+const DEFAULT_WORKSPACE = "default";
+
+installHttpFixtures();
 
-const redis = new Redis(REDIS_URL, {
-  maxRetriesPerRequest: null,
-  enableReadyCheck: true,
-});
 const hasTavily = Boolean(TAVILY_API_KEY);
 if (!hasTavily) {
-  console.warn("[worker] TAVILY_API_KEY not set. Project descriptions will rely on GitHub metadata only.");
+  console.warn("[worker] TAVILY_API_KEY not set. Projects without a forge description fall back to their README summary only.");
+}
+
+async function readJobMeta(id) {
+  const raw = await redis.get(`${JOB_METADATA_PREFIX}:${id}`);
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
 }
 
 async function setJobStatus(id, status, extra = {}) {
   const metaKey = `${JOB_METADATA_PREFIX}:${id}`;
+  const current = await readJobMeta(id);
   await redis.set(
     metaKey,
-    JSON.stringify({ status, updatedAt: new Date().toISOString(), ...extra }),
+    JSON.stringify({ ...current, status, updatedAt: new Date().toISOString(), ...extra }),
     "EX",
-    RESULT_TTL_SECONDS,
+    RESULT_STORE_TTL_SECONDS,
   );
 }
 
-function buildGitHubQuery({ topic, language, minStars, onlyMaintained, limit }) {
-  const segments = [];
-  const quotedTopic = topic.includes(" ") ? `"${topic}"` : topic;
-  segments.push(`${quotedTopic} in:name,description,readme`);
-
-  if (language) {
-    segments.push(`language:${language}`);
-  }
-
-  if (typeof minStars === "number" && Number.isFinite(minStars) && minStars > 0) {
-    segments.push(`stars:>=${Math.floor(minStars)}`);
-  }
+/**
+ * Publishes a finished job: pushes the payload onto the per-job result queue that the Copilot action
+ * blocks on, keeps a non-consumable copy next to the job metadata for the REST API, and updates the status.
+ */
+async function publishResult(id, result, metaExtra = {}) {
+  const resultKey = `${RESULT_PREFIX}:${id}`;
+  const serialized = JSON.stringify(result);
+  const current = await readJobMeta(id);
+  await redis
+    .multi()
+    .rpush(resultKey, serialized)
+    .expire(resultKey, RESULT_TTL_SECONDS)
+    .set(`${JOB_METADATA_PREFIX}:${id}:result`, serialized, "EX", RESULT_STORE_TTL_SECONDS)
+    .set(
+      `${JOB_METADATA_PREFIX}:${id}`,
+      JSON.stringify({ ...current, status: result.status, completedAt: new Date().toISOString(), ...metaExtra }),
+      "EX",
+      RESULT_STORE_TTL_SECONDS,
+    )
+    .exec();
+}
 
-  if (onlyMaintained) {
-    const since = new Date();
-    since.setMonth(since.getMonth() - DEFAULT_ONLY_MAINTAINED_MONTHS);
-    const iso = since.toISOString().split("T")[0];
-    segments.push(`pushed:>=${iso}`);
+function describeSkipped(skipped) {
+  if (!skipped.length) {
+    return "";
   }
-
-  const query = segments.join(" ");
-  return `https://api.github.com/search/repositories?q=${encodeURIComponent(query)}&sort=stars&order=desc&per_page=${Math.min(limit * 2, 50)}`;
+  const names = skipped.slice(0, 3).map((entry) => `${entry.url} (${entry.reason})`).join(", ");
+  return ` ${skipped.length} listed repositor${skipped.length === 1 ? "y was" : "ies were"} skipped: ${names}${skipped.length > 3 ? ", …" : ""}.`;
 }
 
-function describeFreshness(daysSinceUpdate) {
-  if (!Number.isFinite(daysSinceUpdate)) {
-    return "unknown activity";
-  }
-  if (daysSinceUpdate <= 7) return "updated this week";
-  if (daysSinceUpdate <= 30) return "updated this month";
-  if (daysSinceUpdate <= 90) return "activity within the last quarter";
-  if (daysSinceUpdate <= 180) return "activity within the last six months";
-  if (daysSinceUpdate <= 365) return "activity within the last year";
-  return "no recent commits in the last year";
+function describeAudit({ manifest, findings }) {
+  const flagged = findings.filter((finding) => FLAGGED_STATUSES.includes(finding.status));
+  const healthy = findings.filter((finding) => finding.status === "healthy").length;
+  const unresolved = findings.length - flagged.length - healthy;
+  const problems = flagged
+    .slice(0, 4)
+    .map((finding) => `${finding.name} (${finding.reasons[0].toLowerCase()})`)
+    .join(", ");
+  const withAlternatives = flagged.filter((finding) => finding.alternatives.length).map((finding) => finding.name);
+  return (
+    `Audited ${findings.length} dependencies${manifest ? ` from ${manifest}` : ""}: ${healthy} ${healthy === 1 ? "looks" : "look"} healthy` +
+    (flagged.length ? `, ${flagged.length} ${flagged.length === 1 ? "needs" : "need"} attention: ${problems}${flagged.length > 4 ? ", …" : ""}` : "") +
+    "." +
+    (unresolved ? ` ${unresolved} could not be traced to a repository.` : "") +
+    (withAlternatives.length ? ` Alternatives suggested for ${withAlternatives.join(", ")}.` : "")
+  );
 }
 
-function cleanDescription(raw) {
-  const value = typeof raw === "string" ? raw.trim() : "";
-  if (!value) {
-    return "";
-  }
-  return value;
+function summarizeResult(details) {
+  const summary = summarizeProjects(details);
+  return details.contributions ? `${summary}${describeContributions(details.contributions)}` : summary;
 }
 
-function normalizeRepo(repo) {
-  const updatedAt = repo.pushed_at ?? repo.updated_at;
-  const daysSinceUpdate = updatedAt
-    ? Math.round((Date.now() - new Date(updatedAt).getTime()) / (1000 * 60 * 60 * 24))
-    : Number.POSITIVE_INFINITY;
-
-  const starScore = Math.log10(repo.stargazers_count + 1) * 2.5;
-  const forkScore = Math.log10(repo.forks_count + 1) * 1.5;
-  const watcherScore = Math.log10(repo.watchers_count + 1);
-  const freshnessScore = Number.isFinite(daysSinceUpdate)
-    ? Math.max(0, 3 - daysSinceUpdate / 120)
-    : 0;
-  const issuePenalty = Math.log10(repo.open_issues_count + 1);
-
-  const score = starScore + forkScore + watcherScore + freshnessScore - issuePenalty;
-
-  const reasons = [
-    repo.stargazers_count ? `${repo.stargazers_count.toLocaleString()} stars` : null,
-    repo.forks_count ? `${repo.forks_count.toLocaleString()} forks` : null,
-    describeFreshness(daysSinceUpdate),
-    repo.license?.spdx_id ? `License: ${repo.license.spdx_id}` : null,
-  ].filter(Boolean);
+function summarizeProjects({ payload, projects, sources = [], policy, skipped: skippedRepositories = [], audit }) {
+  const failed = sources.filter((source) => source.error).map((source) => source.label);
+  const skipped = failed.length ? ` ${failed.join(", ")} could not be searched this time.` : "";
 
-  return {
-    id: repo.id,
-    name: repo.full_name,
-    url: repo.html_url,
-    description: cleanDescription(repo.description),
-    homepage: repo.homepage,
-    stars: repo.stargazers_count,
-    forks: repo.forks_count,
-    watchers: repo.watchers_count,
-    openIssues: repo.open_issues_count,
-    language: repo.language,
-    topics: repo.topics ?? [],
-    license: repo.license?.spdx_id ?? repo.license?.name ?? null,
-    lastPushedAt: updatedAt,
-    daysSinceUpdate,
-    owner: {
-      login: repo.owner?.login,
-      url: repo.owner?.html_url,
-      type: repo.owner?.type,
-    },
-    defaultBranch: repo.default_branch,
-    score: Number(score.toFixed(2)),
-    reasons,
-  };
-}
+  if (audit) {
+    const complianceSummary = projects.length ? describeCompliance(projects, policy) : "";
+    return `${describeAudit(audit)}${complianceSummary}`;
+  }
+
+  if (payload.repositories?.length) {
+    const complianceSummary = projects.length ? describeCompliance(projects, policy) : "";
+    return `Scored ${projects.length} of ${projects.length + skippedRepositories.length} listed repositories for "${payload.topic}".${complianceSummary}${describeSkipped(skippedRepositories)}`;
+  }
 
-function summarizeResult({ payload, projects, totalFetched }) {
   if (projects.length === 0) {
-    return `No repositories matched "${payload.topic}" with the current filters.`;
+    return `No repositories matched "${payload.topic}" with the current filters.${skipped}`;
   }
 
   const languages = new Set(projects.map((project) => project.language).filter(Boolean));
@@ -146,7 +169,9 @@ function summarizeResult({ payload, projects, totalFetched }) {
   const reasonSummary = topReasons ? ` Highlights: ${topReasons}.` : "";
   const maintained = payload.onlyMaintained ? " that are actively maintained" : "";
 
-  return `Found ${projects.length} standout open-source project(s)${maintained} for "${payload.topic}".${languageSummary}${reasonSummary}`;
+  const complianceSummary = describeCompliance(projects, policy);
+
+  return `Found ${projects.length} standout open-source project(s)${maintained} for "${payload.topic}".${languageSummary}${reasonSummary}${complianceSummary}${skipped}`;
 }
 
 function needsDescription(project) {
@@ -165,28 +190,36 @@ async function fetchDescriptionFromTavily(project, topic) {
   }
 
   try {
-    const query = `${project.name} GitHub open-source project for ${topic ?? "software"} summary`;
-    const response = await fetch(TAVILY_SEARCH_ENDPOINT, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-      body: JSON.stringify({
-        api_key: TAVILY_API_KEY,
-        query,
-        max_results: 2,
-        include_answer: true,
-        include_images: false,
-      }),
-    });
+    const forge = getProvider(project.source)?.label ?? "GitHub";
+    const query = `${project.name} ${forge} open-source project for ${topic ?? "software"} summary`;
+    const payload = await retryTransient(
+      async () => {
+        const response = await limitedFetch("tavily", TAVILY_SEARCH_ENDPOINT, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify({
+            api_key: TAVILY_API_KEY,
+            query,
+            max_results: 2,
+            include_answer: true,
+            include_images: false,
+          }),
+        });
+
+        if (!response.ok) {
+          const text = await response.text();
+          const message = `Tavily error ${response.status}: ${text}`;
+          throw isTransientStatus(response.status) ? new TransientError(message) : new Error(message);
+        }
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Tavily error ${response.status}: ${text}`);
-    }
+        return response.json();
+      },
+      { attempts: TAVILY_MAX_ATTEMPTS },
+    );
 
-    const payload = await response.json();
     const answer = payload?.answer?.trim();
     if (answer) {
       return answer;
@@ -199,158 +232,532 @@ async function fetchDescriptionFromTavily(project, topic) {
   }
 }
 
-async function fetchRepositories(payload) {
-  const url = buildGitHubQuery(payload);
+async function enrichDescription(project, topic) {
+  const cachedEnrichment = await readEnrichmentCache(project);
+  if (cachedEnrichment?.description) {
+    return { text: cachedEnrichment.description, cached: true };
+  }
+  const description = await fetchDescriptionFromTavily(project, topic);
+  if (description) {
+    await writeEnrichmentCache(project, description);
+  }
+  return { text: description, cached: false };
+}
+
+/**
+ * Queries every requested provider in parallel and ranks their projects together. A provider that
+ * fails is recorded in `sources` and skipped; the job only fails when none of them returned results.
+ */
+async function fetchRepositories(payload, report = async () => {}, scoring = DEFAULT_SCORING) {
+  const providers = resolveProviders(payload.providers);
+  const outcomes = await Promise.allSettled(
+    providers.map(async (provider) => {
+      await report("query_sent", `Querying ${provider.label} for "${payload.topic}"`, { source: provider.id });
+      return provider.search(payload);
+    }),
+  );
 
-  const headers = {
-    Accept: "application/vnd.github+json",
-    "User-Agent": USER_AGENT,
-    "X-GitHub-Api-Version": "2022-11-28",
+  const sources = [];
+  const failures = [];
+  const collected = [];
+  outcomes.forEach((outcome, index) => {
+    const { id, label } = providers[index];
+    if (outcome.status === "fulfilled") {
+      const { projects, totalFetched, cache } = outcome.value;
+      // Providers score with the default weights; rescore with the job's profile before ranking.
+      collected.push(...applyFilters(projects, payload).map((project) => finalizeProject(project, scoring)));
+      sources.push({ id, label, totalFetched, cache });
+      return;
+    }
+    const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+    failures.push(outcome.reason);
+    sources.push({ id, label, totalFetched: 0, error: message });
+    console.warn(`[worker] ${label} search failed:`, message);
+  });
+
+  if (failures.length === providers.length) {
+    // Prefer a rate limit so the job is rescheduled, then a transient error so it is retried.
+    throw failures.find((error) => error instanceof RateLimitedError) ?? failures.find(isTransientError) ?? failures[0];
+  }
+
+  const succeeded = sources.filter((source) => !source.error);
+  const totalFetched = succeeded.reduce((sum, source) => sum + source.totalFetched, 0);
+  const cache = combineCacheInfo(succeeded.map((source) => source.cache));
+  await report(
+    "repos_fetched",
+    `Fetched ${totalFetched} repositories from ${succeeded.map((source) => source.label).join(", ")}${cache.search === "miss" ? "" : " (cached)"}` +
+      (collected.length < totalFetched ? `, ${collected.length} matched the filters` : ""),
+    { total: totalFetched },
+  );
+
+  collected.sort((a, b) => b.score - a.score);
+  // Registry lookups are too costly for every hit, so only a shortlist is rescored before the final cut.
+  const shortlist = collected.slice(0, payload.limit * 2);
+  await report("registries", `Checking package registries for ${shortlist.length} project(s)`, { total: shortlist.length });
+  const rescored = await attachPackageSignals(shortlist, scoring);
+  rescored.sort((a, b) => b.score - a.score);
+  const projects = rescored.slice(0, payload.limit);
+  await report("ranked", `Ranked ${projects.length} top project(s)`, { total: projects.length });
+
+  return {
+    filters: payload,
+    totalFetched,
+    projects,
+    sources,
+    cache,
   };
+}
 
-  if (process.env.GITHUB_TOKEN) {
-    headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+/**
+ * Fetches and scores exactly the repositories a job lists (an imported awesome-list, say) instead of
+ * searching. Unknown hosts and missing repositories are returned in `skipped`. A rate limit
+ * reschedules the whole job so the list is never scored half-way; the job only fails outright when
+ * none of the repositories could be fetched.
+ */
+async function fetchListedRepositories(payload, report = async () => {}, scoring = DEFAULT_SCORING) {
+  const { repositories } = payload;
+  await report("query_sent", `Fetching ${repositories.length} listed repositories`, { total: repositories.length });
+
+  const collected = [];
+  const skipped = [];
+  const failures = [];
+  const bySource = new Map();
+  // Sub-pages such as /tree/main resolve to the same repository, so duplicates are dropped here.
+  const targets = new Map();
+  for (const url of repositories) {
+    const resolved = resolveRepository(url);
+    const key = resolved && `${resolved.provider.id}:${resolved.path.toLowerCase()}`;
+    if (!resolved) {
+      skipped.push({ url, reason: "unsupported host" });
+    } else if (!targets.has(key)) {
+      targets.set(key, { url, ...resolved });
+    }
   }
 
-  const response = await fetch(url, { headers });
+  const queue = [...targets.values()];
+  // A rate limit rejects right away so the remaining repositories are not fetched; other failures
+  // only skip their repository.
+  const outcomes = await mapConcurrently(queue, LISTED_REPOSITORY_CONCURRENCY, ({ provider, path }) =>
+    provider.fetchRepository(path).then(
+      (value) => ({ status: "fulfilled", value }),
+      (reason) => {
+        if (reason instanceof RateLimitedError) {
+          throw reason;
+        }
+        return { status: "rejected", reason };
+      },
+    ),
+  );
 
-  if (!response.ok) {
-    const body = await response.text();
-    if (response.status === 403) {
-      throw new Error(
-        `GitHub rate limit exceeded. ${process.env.GITHUB_TOKEN ? "Consider waiting before retrying." : "Set GITHUB_TOKEN for higher limits."}`,
-      );
+  for (const [index, outcome] of outcomes.entries()) {
+    const { url, provider } = queue[index];
+    if (outcome.status === "rejected") {
+      const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      failures.push(outcome.reason);
+      skipped.push({ url, reason: message });
+      console.warn(`[worker] Failed to fetch listed repository ${url}:`, message);
+      continue;
     }
-    throw new Error(`GitHub search failed (${response.status}): ${body}`);
+    if (!outcome.value) {
+      skipped.push({ url, reason: "not found" });
+      continue;
+    }
+    const { project, cache } = outcome.value;
+    collected.push(finalizeProject(project, scoring));
+    const source = bySource.get(provider.id) ?? { id: provider.id, label: provider.label, totalFetched: 0, caches: [] };
+    source.totalFetched += 1;
+    source.caches.push(cache);
+    bySource.set(provider.id, source);
   }
 
-  const data = await response.json();
-  const items = Array.isArray(data.items) ? data.items : [];
+  if (!collected.length && failures.length) {
+    throw failures.find(isTransientError) ?? failures[0];
+  }
 
-  const normalized = items.map(normalizeRepo);
-  normalized.sort((a, b) => b.score - a.score);
-  const projects = normalized.slice(0, payload.limit);
+  const sources = [...bySource.values()].map(({ caches, ...source }) => ({ ...source, cache: combineCacheInfo(caches) }));
+  const cache = combineCacheInfo(sources.map((source) => source.cache));
+  await report(
+    "repos_fetched",
+    `Fetched ${collected.length} of ${repositories.length} listed repositories` + (skipped.length ? `, skipped ${skipped.length}` : ""),
+    { total: collected.length },
+  );
+
+  await report("registries", `Checking package registries for ${collected.length} project(s)`, { total: collected.length });
+  const projects = await attachPackageSignals(collected, scoring);
+  projects.sort((a, b) => b.score - a.score);
+  await report("ranked", `Ranked ${projects.length} listed project(s)`, { total: projects.length });
 
   return {
     filters: payload,
-    totalFetched: items.length,
+    totalFetched: collected.length,
     projects,
+    sources,
+    cache,
+    skipped,
+  };
+}
+
+/**
+ * Audits the dependencies of a manifest: each one is traced through its registry to a repository,
+ * fetched and scored like a listed repository, and judged by `assessDependency`. The worst ones get
+ * a search on their topics for better-scoring, maintained alternatives. The job's search filters
+ * (licenses, stars, forges …) apply to those searches only.
+ */
+async function fetchDependencyAudit(payload, report = async () => {}, scoring = DEFAULT_SCORING) {
+  const { dependencies, manifest } = payload;
+  await report("query_sent", `Looking up ${dependencies.length} dependencies in their registries`, { total: dependencies.length });
+  const traced = await traceDependencies(dependencies);
+  const repositories = [...new Set(traced.map((entry) => entry.url).filter(Boolean))];
+  if (!repositories.length) {
+    throw new Error(`None of the ${dependencies.length} dependencies could be traced to a repository on a supported forge.`);
+  }
+
+  const listed = await fetchListedRepositories({ ...payload, repositories }, report, scoring);
+  const findings = traced.map(({ dependency, url, keywords, reason }) => {
+    const project = url && listed.projects.find((candidate) => sameRepositoryUrl(candidate.url, url));
+    if (!project) {
+      const skipped = url && listed.skipped.find((entry) => entry.url === url);
+      return { ...dependency, url, status: "unresolved", reasons: [skipped?.reason ?? reason ?? "repository could not be scored"], alternatives: [] };
+    }
+    return { ...dependency, url: project.url, score: project.score, ...assessDependency(project), alternatives: [], project, keywords };
+  });
+
+  const flagged = findings
+    .filter((finding) => FLAGGED_STATUSES.includes(finding.status))
+    .sort((a, b) => FLAGGED_STATUSES.indexOf(a.status) - FLAGGED_STATUSES.indexOf(b.status))
+    .slice(0, AUDIT_ALTERNATIVE_SEARCHES);
+  const searchFilters = { ...payload, dependencies: undefined, manifest: undefined };
+  for (const [index, finding] of flagged.entries()) {
+    const query = alternativeQuery(finding.project, finding.keywords);
+    if (!query) {
+      finding.alternativesNote = "No topics or keywords to search for alternatives.";
+      continue;
+    }
+    await report("alternatives", `Searching alternatives to ${finding.name} (${index + 1} of ${flagged.length})`, {
+      current: index + 1,
+      total: flagged.length,
+      project: finding.name,
+    });
+    try {
+      const found = await fetchRepositories(
+        {
+          ...searchFilters,
+          topic: query,
+          language: finding.project.language ?? searchFilters.language,
+          onlyMaintained: true,
+          excludeArchived: true,
+          limit: AUDIT_ALTERNATIVES_PER_DEPENDENCY + 2,
+        },
+        // These searches are part of the "alternatives" step; their own steps would rewind the progress bar.
+        async () => {},
+        scoring,
+      );
+      finding.alternativesQuery = query;
+      finding.alternatives = found.projects
+        .filter((candidate) => candidate.score > finding.score && !repositories.some((url) => sameRepositoryUrl(candidate.url, url)))
+        .slice(0, AUDIT_ALTERNATIVES_PER_DEPENDENCY);
+      if (!finding.alternatives.length) {
+        finding.alternativesNote = `No maintained, better-scoring projects found for "${query}".`;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      finding.alternativesNote = `The search for alternatives failed: ${message}`;
+      console.warn(`[worker] Alternative search for ${finding.name} failed:`, message);
+    }
+  }
+
+  return {
+    ...listed,
+    filters: payload,
+    audit: { manifest, findings: findings.map(({ project, keywords, ...finding }) => finding) },
   };
 }
 
-async function handleJob(job) {
+async function handleJob(job, raw) {
   const { id, payload } = job;
-  await setJobStatus(id, "processing", { startedAt: new Date().toISOString(), topic: payload.topic });
+  const workspace = job.workspace ?? DEFAULT_WORKSPACE;
+  const attempt = (job.attempts ?? 0) + 1;
+  const report = (step, message, extra = {}) =>
+    publishProgress(id, step, message, { topic: payload.topic, workspace, ...extra });
+  await setJobStatus(id, "processing", {
+    startedAt: new Date().toISOString(),
+    topic: payload.topic,
+    attempt,
+    // Clear leftovers from a previous failed attempt; undefined fields are dropped when serialized.
+    error: undefined,
+    nextAttemptAt: undefined,
+    expectedStartAt: undefined,
+    reason: undefined,
+  });
+  await report(
+    "started",
+    attempt > 1 ? `Worker picked up the job (attempt ${attempt} of ${MAX_JOB_ATTEMPTS})` : "Worker picked up the job",
+    { attempt },
+  );
 
   try {
-    const { projects, totalFetched } = await fetchRepositories(payload);
+    const scoring = job.scoring ?? DEFAULT_SCORING;
+    const fetched = payload.dependencies?.length
+      ? await fetchDependencyAudit(payload, report, scoring)
+      : payload.repositories?.length
+        ? await fetchListedRepositories(payload, report, scoring)
+        : await fetchRepositories(payload, report, scoring);
+    const { totalFetched, sources, cache, skipped, audit } = fetched;
+    const analyzed = await attachDocumentation(await attachHealthMetrics(fetched.projects, report, scoring), report, scoring);
+    const projects = attachCompliance(analyzed, job.policy);
+    const contributions = payload.contributions ? await collectContributionOpportunities(projects, payload, report) : null;
+    let enrichmentHits = 0;
+    // Tavily only fills in descriptions that neither the forge nor the README analysis provided.
     if (hasTavily) {
-      for (const project of projects) {
-        if (!needsDescription(project)) {
-          continue;
+      const pending = projects.filter(needsDescription);
+      let started = 0;
+      await mapConcurrently(pending, ENRICHMENT_CONCURRENCY, async (project) => {
+        started += 1;
+        await report("enriching", `Enriching ${project.name} (${started} of ${pending.length})`, {
+          current: started,
+          total: pending.length,
+          project: project.name,
+        });
+        try {
+          const enrichment = await withStepTimeout(
+            () => enrichDescription(project, payload.topic),
+            STEP_TIMEOUT_MS,
+            `Enriching ${project.name}`,
+          );
+          if (enrichment.cached) {
+            enrichmentHits += 1;
+          }
+          if (enrichment.text) {
+            project.description = enrichment.text;
+          }
+        } catch (error) {
+          console.warn(`[worker] Enrichment skipped for ${project.name}:`, error instanceof Error ? error.message : error);
         }
-        const description = await fetchDescriptionFromTavily(project, payload.topic);
-        if (description) {
-          project.description = description;
-        }
-      }
+      });
     }
-    const summary = summarizeResult({ payload, projects, totalFetched });
+    const summary = summarizeResult({ payload, projects, sources, policy: job.policy, skipped, audit, contributions });
+    const watch = job.watchId ? await recordWatchRun(job, projects) : null;
 
     const result = {
       status: "completed",
       summary,
-      filters: payload,
+      filters: { ...payload, profile: scoring.id, policy: job.policy?.id },
       totalFetched,
       projects,
+      sources,
+      cache: { ...cache, enrichmentHits },
+      ...(skipped ? { skipped } : {}),
+      ...(audit ? { audit } : {}),
+      ...(contributions ? { contributions } : {}),
+      ...(watch ? { watch } : {}),
+      workspace,
       generatedAt: new Date().toISOString(),
     };
 
-    const resultKey = `${RESULT_PREFIX}:${id}`;
-    await redis
-      .multi()
-      .rpush(resultKey, JSON.stringify(result))
-      .expire(resultKey, RESULT_TTL_SECONDS)
-      .set(
-        `${JOB_METADATA_PREFIX}:${id}`,
-        JSON.stringify({ status: "completed", completedAt: new Date().toISOString(), totalFetched }),
-        "EX",
-        RESULT_TTL_SECONDS,
-      )
-      .exec();
+    // Stored before publishing so the dashboard finds the search in its history as soon as it sees the result.
+    await recordSearch(job, result).catch((error) => {
+      console.warn(`[worker] Failed to store job ${id} in the search history:`, error);
+    });
+    await publishResult(id, result, { totalFetched });
+    await ackJob(raw);
+    await report("completed", summary, { total: projects.length });
   } catch (error) {
-    const resultKey = `${RESULT_PREFIX}:${id}`;
     const message = error instanceof Error ? error.message : String(error);
-    await redis
-      .multi()
-      .rpush(
-        resultKey,
-        JSON.stringify({
-          status: "error",
-          error: message,
-          filters: payload,
-        }),
-      )
-      .expire(resultKey, RESULT_TTL_SECONDS)
-      .set(
-        `${JOB_METADATA_PREFIX}:${id}`,
-        JSON.stringify({ status: "error", error: message, completedAt: new Date().toISOString() }),
-        "EX",
-        RESULT_TTL_SECONDS,
-      )
-      .exec();
+    const transient = isTransientError(error);
+
+    const deferrals = job.deferrals ?? 0;
+    if (error instanceof RateLimitedError && deferrals < MAX_JOB_DEFERRALS) {
+      // Quota exhaustion is not the job's fault: park it until a token frees up without using an attempt.
+      const delayMs = Math.max(0, error.retryAt - Date.now());
+      const expectedStartAt = new Date(error.retryAt).toISOString();
+      await scheduleRetry(raw, { ...job, deferrals: deferrals + 1 }, delayMs);
+      await setJobStatus(id, "scheduled", { expectedStartAt, reason: message });
+      await report("scheduled", `Waiting for the GitHub ${error.resource} rate limit, starting in ~${Math.ceil(delayMs / 1000)}s`, {
+        expectedStartAt,
+      });
+      console.warn(`[worker] Job ${id} rescheduled for ${expectedStartAt}:`, message);
+      return;
+    }
+
+    if (error instanceof RateLimitedError) {
+      // A job that keeps hitting the limit would otherwise be parked forever.
+      const reason = `Still rate limited after ${deferrals} deferrals: ${message}`;
+      await failJob({ ...job, attempts: attempt }, reason);
+      await deadLetterJob(raw, { ...job, attempts: attempt }, reason);
+      console.error(`[worker] Job ${id} failed:`, reason);
+      return;
+    }
+
+    if (transient && attempt < MAX_JOB_ATTEMPTS) {
+      const delayMs = retryDelayMs(attempt, error?.retryAfterMs);
+      const nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      await scheduleRetry(raw, { ...job, attempts: attempt, lastError: message }, delayMs);
+      await setJobStatus(id, "retrying", { attempt, nextAttemptAt, error: message });
+      await report("retrying", `Attempt ${attempt} failed (${message}). Retrying in ${Math.ceil(delayMs / 1000)}s`, {
+        attempt,
+        nextAttemptAt,
+      });
+      console.warn(`[worker] Job ${id} attempt ${attempt} failed, retrying in ${Math.ceil(delayMs / 1000)}s:`, message);
+      return;
+    }
+
+    await failJob({ ...job, attempts: attempt }, message);
+    if (transient) {
+      await deadLetterJob(raw, { ...job, attempts: attempt }, message);
+    } else {
+      await ackJob(raw);
+    }
     console.error(`[worker] Job ${id} failed:`, message);
   }
 }
 
+async function failJob(job, message) {
+  await publishResult(
+    job.id,
+    {
+      status: "error",
+      error: message,
+      filters: job.payload,
+      workspace: job.workspace ?? DEFAULT_WORKSPACE,
+    },
+    { error: message, attempts: job.attempts },
+  );
+  await publishProgress(job.id, "error", message, { topic: job.payload?.topic, workspace: job.workspace ?? DEFAULT_WORKSPACE });
+}
+
+let shuttingDown = false;
+const activeJobs = new Set();
+// The first job slot claims on the shared blocking connection, every other slot on its own.
+const claimConnections = [blockingRedis, ...Array.from({ length: JOB_CONCURRENCY - 1 }, () => blockingRedis.duplicate())];
+
+async function processClaimedJob(raw) {
+  let job;
+  try {
+    job = JSON.parse(raw);
+  } catch (error) {
+    console.error("[worker] Failed to parse job payload", error, raw);
+    await deadLetterJob(raw, raw, "Malformed job payload");
+    return;
+  }
+
+  if (!job?.id || !job?.payload) {
+    console.warn("[worker] Ignoring malformed job", job);
+    await deadLetterJob(raw, job, "Malformed job payload");
+    return;
+  }
+
+  const stopLease = keepLeaseAlive(raw);
+  try {
+    await handleJob(job, raw);
+  } finally {
+    stopLease();
+  }
+}
+
 async function workForever() {
-  console.log(`[worker] Connected to Redis at ${REDIS_URL}`);
-  console.log(`[worker] Waiting for jobs on ${REQUEST_QUEUE}...`);
+  console.log(
+    HUNTER_STORE === "memory"
+      ? "[worker] Using the in-process store shared with the standalone backend and dashboard"
+      : `[worker] Connected to Redis at ${REDIS_URL}`,
+  );
+  console.log(
+    `[worker] Waiting for jobs on ${REQUEST_QUEUE} (in-flight list: ${PROCESSING_QUEUE}, ${JOB_CONCURRENCY} at a time)...`,
+  );
 
-  while (true) {
-    try {
-      const response = await redis.blpop(REQUEST_QUEUE, 0);
-      if (!response) {
-        continue;
-      }
+  const stopMaintenance = startQueueMaintenance(async (job) => {
+    console.error(`[worker] Job ${job.id} stalled ${job.attempts} time(s); moved to the dead-letter queue`);
+    await failJob(job, job.lastError);
+  });
+  const stopWatchScheduler = startWatchScheduler();
 
-      const [, raw] = response;
-      let job;
-      try {
-        job = JSON.parse(raw);
-      } catch (error) {
-        console.error("[worker] Failed to parse job payload", error, raw);
-        continue;
-      }
+  await Promise.all(claimConnections.map((connection) => workSlot(connection)));
+
+  stopMaintenance();
+  stopWatchScheduler();
+}
 
-      if (!job?.id || !job?.payload) {
-        console.warn("[worker] Ignoring malformed job", job);
+/**
+ * One job slot: claims and runs jobs one after another until shutdown. `HUNTER_JOB_CONCURRENCY`
+ * slots run side by side, so a slow hunt only holds up its own slot.
+ */
+async function workSlot(connection) {
+  while (!shuttingDown) {
+    let activeJob = null;
+    try {
+      const raw = await claimJob(connection);
+      if (!raw) {
         continue;
       }
 
-      await handleJob(job);
+      activeJob = processClaimedJob(raw);
+      activeJobs.add(activeJob);
+      await activeJob;
     } catch (error) {
+      if (shuttingDown) {
+        break;
+      }
       console.error("[worker] Unexpected loop error", error);
       await new Promise((resolve) => setTimeout(resolve, 1000));
+    } finally {
+      activeJobs.delete(activeJob);
     }
   }
 }
 
-const shutdownSignals = ["SIGINT", "SIGTERM", "SIGQUIT"];
-shutdownSignals.forEach((signal) => {
-  process.on(signal, async () => {
-    console.log(`\n[worker] Received ${signal}, shutting down...`);
-    try {
-      await redis.quit();
-    } catch (error) {
-      console.error("[worker] Error during Redis shutdown", error);
-    } finally {
-      process.exit(0);
-    }
+/**
+ * Stops claiming new jobs and waits for the in-flight ones to finish. Jobs still running when
+ * `HUNTER_DRAIN_TIMEOUT_MS` expires stay on the in-flight list and are redelivered once their leases lapse.
+ */
+async function drain() {
+  shuttingDown = true;
+  if (!activeJobs.size) {
+    return;
+  }
+  console.log(`[worker] Waiting for ${activeJobs.size} in-flight job(s) to finish...`);
+  let timer;
+  const timedOut = await Promise.race([
+    Promise.allSettled([...activeJobs]).then(() => false),
+    new Promise((resolve) => {
+      timer = setTimeout(() => resolve(true), DRAIN_TIMEOUT_MS);
+    }),
+  ]);
+  clearTimeout(timer);
+  if (timedOut) {
+    console.warn("[worker] Drain timeout reached; unfinished jobs will be redelivered after their leases expire.");
+  }
+}
+
+/**
+ * Drains the worker (see `drain`) and closes its store connections. Resolves once the job slots
+ * have stopped.
+ */
+export async function closeWorker() {
+  await drain();
+  claimConnections.forEach((connection) => connection.disconnect());
+  await working;
+  await redis.quit();
+}
+
+if (!STANDALONE) {
+  const shutdownSignals = ["SIGINT", "SIGTERM", "SIGQUIT"];
+  shutdownSignals.forEach((signal) => {
+    process.on(signal, async () => {
+      if (shuttingDown) {
+        return;
+      }
+      console.log(`\n[worker] Received ${signal}, draining before shutdown...`);
+      try {
+        await closeWorker();
+      } catch (error) {
+        console.error("[worker] Error during Redis shutdown", error);
+      } finally {
+        process.exit(0);
+      }
+    });
   });
-});
+}
 
-workForever().catch((error) => {
+const working = workForever().catch((error) => {
   console.error("[worker] Fatal startup error", error);
   process.exit(1);
 });
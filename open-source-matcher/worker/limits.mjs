@@ -0,0 +1,158 @@
+import { randomUUID } from "crypto";
+import { TransientError, currentStepSignal } from "./errors.mjs";
+import { redis } from "./redis.mjs";
+
+const LIMITS_PREFIX = process.env.HUNTER_LIMITS_PREFIX ?? "hunter:limits";
+const LIMIT_POLL_MS = Number(process.env.HUNTER_LIMIT_POLL_MS ?? 100);
+// A slot held by a worker that died is freed this long after its request would have timed out.
+const SLOT_LEASE_MARGIN_MS = 5000;
+const RATE_WINDOW_MS = 60000;
+
+/**
+ * Limits per kind of upstream, applied to every host separately: `concurrency` requests in flight
+ * and `perMinute` requests started in any rolling minute, across all workers (0 turns a limit off),
+ * and `timeoutMs` for a single request.
+ */
+const UPSTREAM_LIMITS = {
+  github: {
+    concurrency: Number(process.env.HUNTER_GITHUB_HOST_CONCURRENCY ?? 8),
+    perMinute: Number(process.env.HUNTER_GITHUB_REQUESTS_PER_MINUTE ?? 0),
+    timeoutMs: Number(process.env.HUNTER_GITHUB_TIMEOUT_MS ?? 15000),
+  },
+  tavily: {
+    concurrency: Number(process.env.HUNTER_TAVILY_HOST_CONCURRENCY ?? 4),
+    perMinute: Number(process.env.HUNTER_TAVILY_REQUESTS_PER_MINUTE ?? 0),
+    timeoutMs: Number(process.env.HUNTER_TAVILY_TIMEOUT_MS ?? 15000),
+  },
+  registries: {
+    concurrency: Number(process.env.HUNTER_REGISTRY_HOST_CONCURRENCY ?? 6),
+    perMinute: Number(process.env.HUNTER_REGISTRY_REQUESTS_PER_MINUTE ?? 0),
+    timeoutMs: Number(process.env.HUNTER_REGISTRY_TIMEOUT_MS ?? 8000),
+  },
+  forges: {
+    concurrency: Number(process.env.HUNTER_FORGE_HOST_CONCURRENCY ?? 4),
+    perMinute: Number(process.env.HUNTER_FORGE_REQUESTS_PER_MINUTE ?? 0),
+    timeoutMs: Number(process.env.HUNTER_FORGE_TIMEOUT_MS ?? 15000),
+  },
+};
+
+// Takes a slot for one request: KEYS[1] holds the slots in use (scored by lease expiry), KEYS[2] the
+// requests started in the last minute. Returns 0 when the slot was taken, -1 when every slot is in
+// use and otherwise how many milliseconds remain until the rolling minute has room again.
+redis.defineCommand("hunterAcquireSlot", {
+  numberOfKeys: 2,
+  lua: `
+    local now = tonumber(ARGV[1])
+    redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now)
+    if tonumber(ARGV[4]) > 0 and redis.call("ZCARD", KEYS[1]) >= tonumber(ARGV[4]) then
+      return -1
+    end
+    if tonumber(ARGV[5]) > 0 then
+      redis.call("ZREMRANGEBYSCORE", KEYS[2], "-inf", now - tonumber(ARGV[6]))
+      if redis.call("ZCARD", KEYS[2]) >= tonumber(ARGV[5]) then
+        local oldest = redis.call("ZRANGE", KEYS[2], 0, 0, "WITHSCORES")
+        return math.max(1, tonumber(oldest[2]) + tonumber(ARGV[6]) - now)
+      end
+      redis.call("ZADD", KEYS[2], now, ARGV[2])
+      redis.call("EXPIRE", KEYS[2], math.ceil(tonumber(ARGV[6]) / 1000))
+    end
+    if tonumber(ARGV[4]) > 0 then
+      redis.call("ZADD", KEYS[1], now + tonumber(ARGV[3]), ARGV[2])
+      redis.call("EXPIRE", KEYS[1], math.ceil(tonumber(ARGV[3]) / 1000))
+    end
+    return 0
+  `,
+  inProcess(call, [active, started], [now, permit, leaseMs, concurrency, perMinute, windowMs]) {
+    call("zremrangebyscore", active, "-inf", now);
+    if (Number(concurrency) > 0 && call("zcard", active) >= Number(concurrency)) {
+      return -1;
+    }
+    if (Number(perMinute) > 0) {
+      call("zremrangebyscore", started, "-inf", Number(now) - Number(windowMs));
+      if (call("zcard", started) >= Number(perMinute)) {
+        const [, oldest] = call("zrange", started, 0, 0, "WITHSCORES");
+        return Math.max(1, Number(oldest) + Number(windowMs) - Number(now));
+      }
+      call("zadd", started, now, permit);
+      call("expire", started, Math.ceil(Number(windowMs) / 1000));
+    }
+    if (Number(concurrency) > 0) {
+      call("zadd", active, Number(now) + Number(leaseMs), permit);
+      call("expire", active, Math.ceil(Number(leaseMs) / 1000));
+    }
+    return 0;
+  },
+});
+
+async function acquireSlot(host, limits, signal) {
+  const permit = randomUUID();
+  const leaseMs = limits.timeoutMs + SLOT_LEASE_MARGIN_MS;
+  for (;;) {
+    signal?.throwIfAborted();
+    const wait = await redis.hunterAcquireSlot(
+      `${LIMITS_PREFIX}:${host}:active`,
+      `${LIMITS_PREFIX}:${host}:started`,
+      Date.now(),
+      permit,
+      leaseMs,
+      limits.concurrency,
+      limits.perMinute,
+      RATE_WINDOW_MS,
+    );
+    if (Number(wait) === 0) {
+      return permit;
+    }
+    await new Promise((resolve) => setTimeout(resolve, Number(wait) > 0 ? Number(wait) : LIMIT_POLL_MS));
+  }
+}
+
+/**
+ * `fetch` under the limits of `upstream` (`github`, `tavily`, `registries` or `forges`). Waits for a
+ * free slot on the URL's host, then fails the request with a `TransientError` once the upstream's
+ * timeout passes, so a hung connection cannot hold a job or a slot. Inside a step run by
+ * `withStepTimeout`, the request is also aborted when the step times out.
+ */
+export async function limitedFetch(upstream, url, init = {}) {
+  const limits = UPSTREAM_LIMITS[upstream];
+  if (!limits) {
+    throw new Error(`Unknown upstream "${upstream}".`);
+  }
+  const host = new URL(url).host;
+  const limited = limits.concurrency > 0 || limits.perMinute > 0;
+  const step = currentStepSignal();
+  const permit = limited ? await acquireSlot(host, limits, step) : null;
+  const signals = [init.signal, step, AbortSignal.timeout(limits.timeoutMs)].filter(Boolean);
+  try {
+    return await fetch(url, { ...init, signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0] });
+  } catch (error) {
+    if (error?.name === "TimeoutError") {
+      throw new TransientError(`${host} did not respond within ${limits.timeoutMs}ms`, { cause: error });
+    }
+    throw error;
+  } finally {
+    if (permit && limits.concurrency > 0) {
+      await redis.zrem(`${LIMITS_PREFIX}:${host}:active`, permit).catch((error) => {
+        console.warn(`[worker] Failed to release a ${host} request slot`, error);
+      });
+    }
+  }
+}
+
+/**
+ * Runs `fn` over `items` with at most `concurrency` calls in flight and resolves to their results in
+ * input order. A `concurrency` that is not a number of at least 1 runs one call at a time.
+ */
+export async function mapConcurrently(items, concurrency, fn) {
+  const lanes = Number.isFinite(concurrency) && concurrency >= 1 ? Math.floor(concurrency) : 1;
+  const results = new Array(items.length);
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(lanes, Math.max(1, items.length)) }, lane));
+  return results;
+}
@@ -0,0 +1,511 @@
+import { EventEmitter } from "events";
+
+const SWEEP_INTERVAL_MS = 60000;
+const WRONG_TYPE = "WRONGTYPE Operation against a key holding the wrong kind of value";
+
+function toStringValue(value) {
+  return typeof value === "string" ? value : String(value);
+}
+
+function parseScore(raw) {
+  const value = String(raw).toLowerCase();
+  if (value === "-inf") return { value: Number.NEGATIVE_INFINITY, exclusive: false };
+  if (value === "+inf" || value === "inf") return { value: Number.POSITIVE_INFINITY, exclusive: false };
+  const exclusive = value.startsWith("(");
+  return { value: Number(exclusive ? value.slice(1) : value), exclusive };
+}
+
+function withinScore(score, min, max) {
+  return (min.exclusive ? score > min.value : score >= min.value) && (max.exclusive ? score < max.value : score <= max.value);
+}
+
+// Redis list and sorted-set ranges are inclusive and accept negative indexes from the end.
+function rangeBounds(length, start, stop) {
+  let from = Number(start);
+  let to = Number(stop);
+  from = from < 0 ? Math.max(length + from, 0) : from;
+  to = to < 0 ? length + to : Math.min(to, length - 1);
+  return [from, to];
+}
+
+function formatScore(score) {
+  return Number.isFinite(score) ? String(score) : score > 0 ? "inf" : "-inf";
+}
+
+/**
+ * The shared keyspace: every key maps to `{ type, value, expiresAt }`. Commands are synchronous so
+ * transactions and scripts run without interleaving, exactly like on a single Redis server.
+ */
+function createKeyspace() {
+  const keys = new Map();
+  const waiters = [];
+  const channels = new Map();
+
+  const entry = (key) => {
+    const found = keys.get(key);
+    if (found && found.expiresAt != null && found.expiresAt <= Date.now()) {
+      keys.delete(key);
+      return null;
+    }
+    return found ?? null;
+  };
+
+  const read = (key, type) => {
+    const found = entry(key);
+    if (found && found.type !== type) {
+      throw new Error(WRONG_TYPE);
+    }
+    return found?.value ?? null;
+  };
+
+  const write = (key, type, create) => {
+    const found = entry(key);
+    if (found) {
+      if (found.type !== type) {
+        throw new Error(WRONG_TYPE);
+      }
+      return found.value;
+    }
+    const value = create();
+    keys.set(key, { type, value, expiresAt: null });
+    return value;
+  };
+
+  // Empty lists, hashes and sorted sets disappear, as in Redis.
+  const dropIfEmpty = (key) => {
+    const found = keys.get(key);
+    if (found && (found.type === "list" ? found.value.length === 0 : found.type !== "string" && found.value.size === 0)) {
+      keys.delete(key);
+    }
+  };
+
+  const sortedMembers = (key) => {
+    const set = read(key, "zset");
+    if (!set) {
+      return [];
+    }
+    return [...set.entries()].sort(([a, scoreA], [b, scoreB]) => scoreA - scoreB || (a < b ? -1 : a > b ? 1 : 0));
+  };
+
+  const withScores = (members, flag) =>
+    String(flag ?? "").toUpperCase() === "WITHSCORES"
+      ? members.flatMap(([member, score]) => [member, formatScore(score)])
+      : members.map(([member]) => member);
+
+  const byScore = (members, min, max, options) => {
+    const matching = members.filter(([, score]) => withinScore(score, parseScore(min), parseScore(max)));
+    const upper = options.map((option) => String(option).toUpperCase());
+    const limitAt = upper.indexOf("LIMIT");
+    const limited =
+      limitAt >= 0
+        ? matching.slice(Number(options[limitAt + 1]), Number(options[limitAt + 2]) < 0 ? undefined : Number(options[limitAt + 1]) + Number(options[limitAt + 2]))
+        : matching;
+    return withScores(limited, upper.includes("WITHSCORES") ? "WITHSCORES" : null);
+  };
+
+  const pop = (key, side) => {
+    const list = read(key, "list");
+    if (!list?.length) {
+      return null;
+    }
+    const value = side === "LEFT" ? list.shift() : list.pop();
+    dropIfEmpty(key);
+    return value;
+  };
+
+  const push = (key, side, values) => {
+    const list = write(key, "list", () => []);
+    values.map(toStringValue).forEach((value) => (side === "LEFT" ? list.unshift(value) : list.push(value)));
+    return list.length;
+  };
+
+  const commands = {
+    ping: () => "PONG",
+    type: (key) => entry(key)?.type ?? "none",
+    del: (...names) => names.filter((key) => entry(key) && keys.delete(key)).length,
+    exists: (...names) => names.filter((key) => entry(key)).length,
+    expire: (key, seconds) => {
+      const found = entry(key);
+      if (!found) {
+        return 0;
+      }
+      found.expiresAt = Date.now() + Number(seconds) * 1000;
+      return 1;
+    },
+    pexpireat: (key, at) => {
+      const found = entry(key);
+      if (!found) {
+        return 0;
+      }
+      found.expiresAt = Number(at);
+      return 1;
+    },
+    ttl: (key) => {
+      const found = entry(key);
+      if (!found) {
+        return -2;
+      }
+      return found.expiresAt == null ? -1 : Math.round((found.expiresAt - Date.now()) / 1000);
+    },
+
+    get: (key) => read(key, "string"),
+    set: (key, value, ...options) => {
+      const upper = options.map((option) => String(option).toUpperCase());
+      const exists = Boolean(entry(key));
+      if ((upper.includes("NX") && exists) || (upper.includes("XX") && !exists)) {
+        return null;
+      }
+      const previous = keys.get(key);
+      let expiresAt = upper.includes("KEEPTTL") ? previous?.expiresAt ?? null : null;
+      const ex = upper.indexOf("EX");
+      const px = upper.indexOf("PX");
+      if (ex >= 0) expiresAt = Date.now() + Number(options[ex + 1]) * 1000;
+      if (px >= 0) expiresAt = Date.now() + Number(options[px + 1]);
+      keys.set(key, { type: "string", value: toStringValue(value), expiresAt });
+      return "OK";
+    },
+
+    rpush: (key, ...values) => push(key, "RIGHT", values),
+    lpush: (key, ...values) => push(key, "LEFT", values),
+    rpop: (key) => pop(key, "RIGHT"),
+    lpop: (key) => pop(key, "LEFT"),
+    llen: (key) => read(key, "list")?.length ?? 0,
+    lindex: (key, index) => {
+      const list = read(key, "list") ?? [];
+      const at = Number(index) < 0 ? list.length + Number(index) : Number(index);
+      return list[at] ?? null;
+    },
+    lrange: (key, start, stop) => {
+      const list = read(key, "list") ?? [];
+      const [from, to] = rangeBounds(list.length, start, stop);
+      return from > to ? [] : list.slice(from, to + 1);
+    },
+    ltrim: (key, start, stop) => {
+      const list = read(key, "list");
+      if (list) {
+        const [from, to] = rangeBounds(list.length, start, stop);
+        list.splice(0, list.length, ...(from > to ? [] : list.slice(from, to + 1)));
+        dropIfEmpty(key);
+      }
+      return "OK";
+    },
+    lrem: (key, count, value) => {
+      const list = read(key, "list");
+      if (!list) {
+        return 0;
+      }
+      const target = toStringValue(value);
+      const limit = Number(count) === 0 ? Number.POSITIVE_INFINITY : Math.abs(Number(count));
+      const indexes = list.map((item, index) => (item === target ? index : -1)).filter((index) => index >= 0);
+      const removed = (Number(count) < 0 ? indexes.reverse() : indexes).slice(0, limit).sort((a, b) => b - a);
+      removed.forEach((index) => list.splice(index, 1));
+      dropIfEmpty(key);
+      return removed.length;
+    },
+    lmove: (source, destination, from, to) => {
+      // Checked first so a wrong-typed destination leaves the source untouched.
+      read(destination, "list");
+      const value = pop(source, String(from).toUpperCase());
+      if (value != null) {
+        push(destination, String(to).toUpperCase(), [value]);
+      }
+      return value;
+    },
+
+    hget: (key, field) => read(key, "hash")?.get(String(field)) ?? null,
+    hmget: (key, ...fields) => {
+      const hash = read(key, "hash");
+      return fields.flat().map((field) => hash?.get(String(field)) ?? null);
+    },
+    hgetall: (key) => Object.fromEntries(read(key, "hash") ?? []),
+    hexists: (key, field) => (read(key, "hash")?.has(String(field)) ? 1 : 0),
+    hset: (key, ...args) => {
+      const pairs = args.length === 1 && typeof args[0] === "object" ? Object.entries(args[0]).flat() : args;
+      const hash = write(key, "hash", () => new Map());
+      let added = 0;
+      for (let index = 0; index < pairs.length; index += 2) {
+        added += hash.has(String(pairs[index])) ? 0 : 1;
+        hash.set(String(pairs[index]), toStringValue(pairs[index + 1]));
+      }
+      return added;
+    },
+    hsetnx: (key, field, value) => {
+      const hash = write(key, "hash", () => new Map());
+      if (hash.has(String(field))) {
+        return 0;
+      }
+      hash.set(String(field), toStringValue(value));
+      return 1;
+    },
+    hdel: (key, ...fields) => {
+      const hash = read(key, "hash");
+      const removed = hash ? fields.filter((field) => hash.delete(String(field))).length : 0;
+      dropIfEmpty(key);
+      return removed;
+    },
+
+    zadd: (key, ...args) => {
+      const flags = [];
+      while (args.length && ["NX", "XX", "GT", "LT", "CH"].includes(String(args[0]).toUpperCase())) {
+        flags.push(String(args.shift()).toUpperCase());
+      }
+      const set = write(key, "zset", () => new Map());
+      let added = 0;
+      for (let index = 0; index < args.length; index += 2) {
+        const member = toStringValue(args[index + 1]);
+        const score = parseScore(args[index]).value;
+        const current = set.get(member);
+        if ((flags.includes("NX") && current != null) || (flags.includes("XX") && current == null)) continue;
+        if (current != null && ((flags.includes("GT") && score <= current) || (flags.includes("LT") && score >= current))) continue;
+        added += current == null ? 1 : 0;
+        set.set(member, score);
+      }
+      dropIfEmpty(key);
+      return added;
+    },
+    zrem: (key, ...members) => {
+      const set = read(key, "zset");
+      const removed = set ? members.filter((member) => set.delete(toStringValue(member))).length : 0;
+      dropIfEmpty(key);
+      return removed;
+    },
+    zremrangebyscore: (key, min, max) => {
+      const set = read(key, "zset");
+      const removed = set
+        ? [...set.entries()].filter(([, score]) => withinScore(score, parseScore(min), parseScore(max))).filter(([member]) => set.delete(member)).length
+        : 0;
+      dropIfEmpty(key);
+      return removed;
+    },
+    zscore: (key, member) => {
+      const score = read(key, "zset")?.get(toStringValue(member));
+      return score == null ? null : formatScore(score);
+    },
+    zcard: (key) => read(key, "zset")?.size ?? 0,
+    zrange: (key, start, stop, flag) => {
+      const members = sortedMembers(key);
+      const [from, to] = rangeBounds(members.length, start, stop);
+      return withScores(from > to ? [] : members.slice(from, to + 1), flag);
+    },
+    zrevrange: (key, start, stop, flag) => {
+      const members = sortedMembers(key).reverse();
+      const [from, to] = rangeBounds(members.length, start, stop);
+      return withScores(from > to ? [] : members.slice(from, to + 1), flag);
+    },
+    zrangebyscore: (key, min, max, ...options) => byScore(sortedMembers(key), min, max, options),
+    zrevrangebyscore: (key, max, min, ...options) => byScore(sortedMembers(key).reverse(), min, max, options),
+
+    publish: (channel, message) => {
+      const subscribers = [...(channels.get(channel) ?? [])];
+      subscribers.forEach((connection) => setImmediate(() => connection.emit("message", channel, toStringValue(message))));
+      return subscribers.length;
+    },
+  };
+
+  // Blocked pops are retried after every command, oldest waiter first, like Redis serving blocked clients.
+  const wake = () => {
+    for (const waiter of [...waiters]) {
+      waiter();
+    }
+  };
+
+  const sweep = setInterval(() => {
+    for (const key of keys.keys()) {
+      entry(key);
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref?.();
+
+  return { commands, waiters, channels, wake };
+}
+
+/**
+ * One client on the keyspace, with the ioredis method names the hunter uses. `duplicate()` opens
+ * another client on the same data, so blocking pops and subscriptions behave as on separate
+ * connections.
+ */
+function createConnection(keyspace) {
+  const connection = new EventEmitter();
+  const scripts = new Map();
+  const pending = new Set();
+  let closed = false;
+
+  const execute = (name, args) => {
+    const command = keyspace.commands[name];
+    if (!command) {
+      throw new Error(`ERR unknown command '${name}' in the in-process store`);
+    }
+    return command(...args);
+  };
+
+  const run = (name, args) => {
+    if (closed) {
+      return Promise.reject(new Error("Connection is closed."));
+    }
+    try {
+      const result = execute(name, args);
+      queueMicrotask(keyspace.wake);
+      return Promise.resolve(result);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  };
+
+  // Resolves with the first non-null `attempt()` or with `null` once `timeoutSeconds` passes (0 waits forever).
+  const block = (attempt, timeoutSeconds) => {
+    if (closed) {
+      return Promise.reject(new Error("Connection is closed."));
+    }
+    return new Promise((resolve, reject) => {
+      let timer = null;
+      const finish = (settle, value) => {
+        clearTimeout(timer);
+        keyspace.waiters.splice(keyspace.waiters.indexOf(waiter), 1);
+        pending.delete(cancel);
+        settle(value);
+      };
+      const waiter = () => {
+        try {
+          const value = attempt();
+          if (value != null) {
+            finish(resolve, value);
+            queueMicrotask(keyspace.wake);
+          }
+        } catch (error) {
+          finish(reject, error);
+        }
+      };
+      const cancel = () => finish(reject, new Error("Connection is closed."));
+      keyspace.waiters.push(waiter);
+      pending.add(cancel);
+      if (Number(timeoutSeconds) > 0) {
+        timer = setTimeout(() => finish(resolve, null), Number(timeoutSeconds) * 1000);
+      }
+      waiter();
+    });
+  };
+
+  for (const name of Object.keys(keyspace.commands)) {
+    connection[name] = (...args) => run(name, args);
+  }
+
+  Object.assign(connection, {
+    blmove: (source, destination, from, to, timeout) =>
+      block(() => execute("lmove", [source, destination, from, to]), timeout),
+    brpop: (...args) => {
+      const timeout = args.pop();
+      return block(() => {
+        for (const key of args.flat()) {
+          const value = execute("rpop", [key]);
+          if (value != null) {
+            return [key, value];
+          }
+        }
+        return null;
+      }, timeout);
+    },
+    blpop: (...args) => {
+      const timeout = args.pop();
+      return block(() => {
+        for (const key of args.flat()) {
+          const value = execute("lpop", [key]);
+          if (value != null) {
+            return [key, value];
+          }
+        }
+        return null;
+      }, timeout);
+    },
+    multi() {
+      const queued = [];
+      const transaction = {
+        exec: () => {
+          if (closed) {
+            return Promise.reject(new Error("Connection is closed."));
+          }
+          const results = queued.map(([name, args]) => {
+            try {
+              return [null, scripts.has(name) ? scripts.get(name)(args) : execute(name, args)];
+            } catch (error) {
+              return [error, null];
+            }
+          });
+          queueMicrotask(keyspace.wake);
+          return Promise.resolve(results);
+        },
+      };
+      for (const name of [...Object.keys(keyspace.commands), ...scripts.keys()]) {
+        transaction[name] = (...args) => {
+          queued.push([name, args]);
+          return transaction;
+        };
+      }
+      return transaction;
+    },
+    /**
+     * Registers a script like ioredis does. Lua cannot run in-process, so each definition also
+     * carries `inProcess(call, keys, argv)`: the same steps written against `call("command", ...args)`.
+     */
+    defineCommand(name, { numberOfKeys, inProcess }) {
+      if (typeof inProcess !== "function") {
+        throw new Error(`Script ${name} has no in-process implementation.`);
+      }
+      const call = (command, ...args) => execute(String(command).toLowerCase(), args);
+      scripts.set(name, (args) => inProcess(call, args.slice(0, numberOfKeys), args.slice(numberOfKeys)));
+      connection[name] = (...args) => {
+        if (closed) {
+          return Promise.reject(new Error("Connection is closed."));
+        }
+        try {
+          const result = scripts.get(name)(args);
+          queueMicrotask(keyspace.wake);
+          return Promise.resolve(result);
+        } catch (error) {
+          return Promise.reject(error);
+        }
+      };
+    },
+    subscribe(...channels) {
+      channels.flat().forEach((channel) => {
+        if (!keyspace.channels.has(channel)) {
+          keyspace.channels.set(channel, new Set());
+        }
+        keyspace.channels.get(channel).add(connection);
+      });
+      return Promise.resolve(channels.flat().length);
+    },
+    unsubscribe(...channels) {
+      (channels.length ? channels.flat() : [...keyspace.channels.keys()]).forEach((channel) =>
+        keyspace.channels.get(channel)?.delete(connection),
+      );
+      return Promise.resolve();
+    },
+    duplicate: () => createConnection(keyspace),
+    disconnect() {
+      closed = true;
+      [...pending].forEach((cancel) => cancel());
+      connection.unsubscribe();
+    },
+    quit() {
+      connection.disconnect();
+      return Promise.resolve("OK");
+    },
+  });
+
+  setImmediate(() => connection.emit("ready"));
+  return connection;
+}
+
+/**
+ * Connects to the in-process store used when `HUNTER_STORE=memory`. The keyspace lives on
+ * `globalThis`, so the backend, the worker and the Next.js routes share it when they run in the
+ * same process; it is lost when the process exits.
+ *
+ * @returns {import("../src/lib/redis").StoreClient}
+ */
+export function connectMemoryStore() {
+  if (!globalThis.__hunterMemoryKeyspace) {
+    globalThis.__hunterMemoryKeyspace = createKeyspace();
+  }
+  return createConnection(globalThis.__hunterMemoryKeyspace);
+}
@@ -0,0 +1,32 @@
+import { redis } from "./redis.mjs";
+
+const JOB_METADATA_PREFIX = process.env.HUNTER_JOB_META_PREFIX ?? "hunter:job";
+const PROGRESS_CHANNEL = process.env.HUNTER_PROGRESS_CHANNEL ?? "hunter:progress";
+const RESULT_STORE_TTL_SECONDS = Number(process.env.HUNTER_RESULT_STORE_TTL_SECONDS ?? 3600);
+
+/**
+ * Appends a progress event to the job's event log and broadcasts it on the progress channel.
+ * Failures are logged and swallowed: progress is best-effort and must never fail a job.
+ */
+export async function publishProgress(jobId, step, message, extra = {}) {
+  const event = {
+    jobId,
+    step,
+    message,
+    ...extra,
+    at: new Date().toISOString(),
+  };
+  const serialized = JSON.stringify(event);
+  const eventsKey = `${JOB_METADATA_PREFIX}:${jobId}:events`;
+
+  try {
+    await redis
+      .multi()
+      .rpush(eventsKey, serialized)
+      .expire(eventsKey, RESULT_STORE_TTL_SECONDS)
+      .publish(PROGRESS_CHANNEL, serialized)
+      .exec();
+  } catch (error) {
+    console.warn(`[worker] Failed to publish progress for job ${jobId}`, error);
+  }
+}
@@ -0,0 +1,113 @@
+import { DEFAULT_SCORING, scoreSignals, weighSignals } from "./scoring.mjs";
+
+export function describeFreshness(daysSinceUpdate) {
+  if (!Number.isFinite(daysSinceUpdate)) {
+    return "unknown activity";
+  }
+  if (daysSinceUpdate <= 7) return "updated this week";
+  if (daysSinceUpdate <= 30) return "updated this month";
+  if (daysSinceUpdate <= 90) return "activity within the last quarter";
+  if (daysSinceUpdate <= 180) return "activity within the last six months";
+  if (daysSinceUpdate <= 365) return "activity within the last year";
+  return "no recent commits in the last year";
+}
+
+export function cleanDescription(raw) {
+  const value = typeof raw === "string" ? raw.trim() : "";
+  if (!value) {
+    return "";
+  }
+  return value;
+}
+
+const REGISTRY_LABELS = { npm: "npm", pypi: "PyPI", crates: "crates.io", go: "Go" };
+
+function formatCount(value) {
+  return Intl.NumberFormat("en", { notation: "compact", maximumFractionDigits: 1 }).format(value);
+}
+
+/**
+ * Adoption from package registries: monthly downloads (weekly × 4 when only that is known) and
+ * dependent packages, taking the best value across a project's packages.
+ */
+function adoptionSignals(packages = []) {
+  const monthlyDownloads = Math.max(0, ...packages.map((pkg) => pkg.monthlyDownloads ?? (pkg.weeklyDownloads ?? 0) * 4));
+  const dependents = Math.max(0, ...packages.map((pkg) => pkg.dependents ?? 0));
+  const primary = packages.find((pkg) => pkg.weeklyDownloads != null) ?? packages[0];
+  return { monthlyDownloads, dependents, primary };
+}
+
+export function daysSince(isoDate) {
+  return isoDate
+    ? Math.round((Date.now() - new Date(isoDate).getTime()) / (1000 * 60 * 60 * 24))
+    : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Completes a provider-mapped project with the fields every forge shares: days since the last
+ * push, the ranking score under `scoring` (a `{ id, weights }` profile) with its per-component
+ * breakdown, and the human-readable reasons shown on each card. Calling it again once registry
+ * `packages`, `health` metrics or the `docs` analysis are attached rescores the project with them.
+ */
+export function finalizeProject(project, scoring = DEFAULT_SCORING) {
+  const stars = project.stars ?? 0;
+  const forks = project.forks ?? 0;
+  const watchers = project.watchers ?? 0;
+  const openIssues = project.openIssues ?? 0;
+  const daysSinceUpdate = daysSince(project.lastPushedAt);
+
+  const adoption = adoptionSignals(project.packages);
+  const { score, breakdown } = weighSignals(
+    scoreSignals({ ...project, stars, forks, watchers, openIssues }, { daysSinceUpdate, ...adoption }),
+    scoring,
+  );
+
+  const reasons = [
+    stars ? `${stars.toLocaleString()} stars` : null,
+    forks ? `${forks.toLocaleString()} forks` : null,
+    adoption.primary?.weeklyDownloads
+      ? `${formatCount(adoption.primary.weeklyDownloads)} weekly ${REGISTRY_LABELS[adoption.primary.registry] ?? adoption.primary.registry} downloads`
+      : null,
+    adoption.dependents ? `${adoption.dependents.toLocaleString()} dependent packages` : null,
+    project.health?.activeContributors90d ? `${project.health.activeContributors90d} active contributors in 90 days` : null,
+    project.docs?.quality >= 0.7 ? "thorough documentation" : null,
+    describeFreshness(daysSinceUpdate),
+    project.license ? `License: ${project.license}` : null,
+  ].filter(Boolean);
+
+  return {
+    ...project,
+    stars,
+    forks,
+    watchers,
+    openIssues,
+    topics: project.topics ?? [],
+    daysSinceUpdate,
+    score,
+    scoreBreakdown: breakdown,
+    reasons,
+  };
+}
+
+const DEFAULT_ONLY_MAINTAINED_MONTHS = Number(process.env.HUNTER_MAINTAINED_MONTH_WINDOW ?? 12);
+
+/**
+ * Cut-off date (YYYY-MM-DD) for the `onlyMaintained` filter.
+ */
+export function maintainedSinceDate() {
+  const since = new Date();
+  since.setMonth(since.getMonth() - DEFAULT_ONLY_MAINTAINED_MONTHS);
+  return since.toISOString().split("T")[0];
+}
+
+/**
+ * `owner/repo` of a repository web URL (a parsed `URL`), ignoring deeper pages such as `/tree/main`.
+ * Returns `null` when the path has fewer than two segments.
+ */
+export function ownerRepoPath(url) {
+  const [owner, repo] = url.pathname
+    .replace(/\.git$/, "")
+    .split("/")
+    .filter(Boolean);
+  return owner && repo ? `${encodeURIComponent(owner)}/${encodeURIComponent(repo)}` : null;
+}
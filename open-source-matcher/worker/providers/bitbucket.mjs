@@ -0,0 +1,119 @@
+import { createHash } from "crypto";
+import { requestedLanguages } from "../filters.mjs";
+import { cleanDescription, finalizeProject, maintainedSinceDate, ownerRepoPath } from "../projects.mjs";
+import { limitedFetch } from "../limits.mjs";
+import { combineCacheInfo, fetchCachedSearch } from "./cached-search.mjs";
+
+const BITBUCKET_API_URL = process.env.HUNTER_BITBUCKET_API_URL ?? "https://api.bitbucket.org/2.0";
+const BITBUCKET_WORKSPACES = (process.env.HUNTER_BITBUCKET_WORKSPACES ?? "")
+  .split(",")
+  .map((workspace) => workspace.trim())
+  .filter(Boolean);
+const BITBUCKET_AUTH = process.env.HUNTER_BITBUCKET_AUTH ?? "";
+const BITBUCKET_WEB_HOST = "bitbucket.org";
+const USER_AGENT = process.env.HUNTER_USER_AGENT ?? "open-source-hunter/0.2.0";
+
+// Bitbucket identifies repositories by UUID; derive a stable numeric id to match ProjectSummary.
+function numericId(uuid) {
+  return Number.parseInt(createHash("sha1").update(String(uuid)).digest("hex").slice(0, 12), 16);
+}
+
+function escapeQuery(value) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function normalizeBitbucketRepo(repo) {
+  return finalizeProject({
+    id: numericId(repo.uuid ?? repo.full_name),
+    source: "bitbucket",
+    name: repo.full_name,
+    url: repo.links?.html?.href,
+    description: cleanDescription(repo.description),
+    homepage: repo.website || null,
+    stars: 0,
+    forks: 0,
+    watchers: 0,
+    openIssues: 0,
+    language: repo.language || null,
+    topics: [],
+    license: null,
+    // Bitbucket has no license metadata.
+    licenseUnknown: true,
+    lastPushedAt: repo.updated_on,
+    owner: {
+      login: repo.owner?.username ?? repo.owner?.nickname,
+      url: repo.owner?.links?.html?.href,
+      type: repo.owner?.type === "team" ? "Organization" : "User",
+    },
+    defaultBranch: repo.mainbranch?.name,
+    fork: Boolean(repo.parent),
+    createdAt: repo.created_on ?? null,
+  });
+}
+
+/**
+ * Bitbucket Cloud has no global repository search, so this provider only searches the workspaces
+ * listed in `HUNTER_BITBUCKET_WORKSPACES` and stays disabled when none are configured.
+ */
+export function createBitbucketProvider({
+  baseUrl = BITBUCKET_API_URL,
+  workspaces = BITBUCKET_WORKSPACES,
+  auth = BITBUCKET_AUTH,
+} = {}) {
+  const apiUrl = baseUrl.replace(/\/$/, "");
+  const request = (url) => (headers) =>
+    limitedFetch("forges", url, {
+      headers: {
+        Accept: "application/json",
+        "User-Agent": USER_AGENT,
+        ...(auth ? { Authorization: `Basic ${Buffer.from(auth).toString("base64")}` } : {}),
+        ...headers,
+      },
+    });
+
+  return {
+    id: "bitbucket",
+    label: "Bitbucket",
+    enabled: workspaces.length > 0,
+    async search(filters) {
+      const topic = escapeQuery(filters.topic);
+      const clauses = [`(name ~ "${topic}" OR description ~ "${topic}")`, "is_private = false"];
+      const languages = requestedLanguages(filters);
+      if (languages.length) {
+        clauses.push(`(${languages.map((language) => `language = "${escapeQuery(language.toLowerCase())}"`).join(" OR ")})`);
+      }
+      if (filters.onlyMaintained) {
+        clauses.push(`updated_on >= ${maintainedSinceDate()}`);
+      }
+      const params = new URLSearchParams({
+        q: clauses.join(" AND "),
+        sort: "-updated_on",
+        pagelen: String(Math.min(filters.limit * 2, 50)),
+      });
+
+      const responses = await Promise.all(
+        workspaces.map((workspace) => {
+          const url = `${apiUrl}/repositories/${encodeURIComponent(workspace)}?${params.toString()}`;
+          return fetchCachedSearch(url, {
+            label: "Bitbucket",
+            request: request(url),
+            select: (json) => ({ items: Array.isArray(json?.values) ? json.values : [] }),
+          });
+        }),
+      );
+
+      const items = responses.flatMap(({ body }) => (Array.isArray(body.items) ? body.items : []));
+      const cache = combineCacheInfo(responses.map((response) => response.cache));
+      return { projects: items.map(normalizeBitbucketRepo), totalFetched: items.length, cache };
+    },
+    // Looking up a known repository needs no workspace list, so this works even while search is disabled.
+    repositoryPath(url) {
+      return url.hostname === BITBUCKET_WEB_HOST ? ownerRepoPath(url) : null;
+    },
+    async fetchRepository(path) {
+      const url = `${apiUrl}/repositories/${path}`;
+      const { body, cache } = await fetchCachedSearch(url, { label: "Bitbucket", request: request(url), allowMissing: true });
+      return body ? { project: normalizeBitbucketRepo(body), cache } : null;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { TransientError, isTransientStatus } from "../errors.mjs";
+import { readSearchCache, searchCacheKey, writeSearchCache } from "../cache.mjs";
+
+/**
+ * Fetches a provider search endpoint through the Redis response cache. Fresh entries are returned
+ * without a request; stale ones are revalidated with `If-None-Match`/`If-Modified-Since`.
+ * `request(headers)` performs the actual call and `select(json)` trims the body before it is cached.
+ * With `allowMissing`, a 404/410 resolves to a `null` body instead of throwing.
+ */
+export async function fetchCachedSearch(url, { label, request, select = (json) => json, allowMissing = false }) {
+  const cacheKey = searchCacheKey(url);
+  const cached = await readSearchCache(cacheKey);
+
+  if (cached?.fresh) {
+    return { body: cached.body, cache: { search: "hit", fetchedAt: cached.fetchedAt } };
+  }
+
+  const headers = {};
+  if (cached?.etag) {
+    headers["If-None-Match"] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers["If-Modified-Since"] = cached.lastModified;
+  }
+
+  const response = await request(headers);
+
+  if (response.status === 304 && cached) {
+    const entry = await writeSearchCache(cacheKey, cached);
+    return { body: cached.body, cache: { search: "revalidated", fetchedAt: entry.fetchedAt } };
+  }
+
+  if (allowMissing && (response.status === 404 || response.status === 410)) {
+    return { body: null, cache: { search: "miss", fetchedAt: new Date().toISOString() } };
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    const message = `${label} search failed (${response.status}): ${text}`;
+    throw isTransientStatus(response.status) ? new TransientError(message) : new Error(message);
+  }
+
+  const body = select(await response.json());
+  const entry = await writeSearchCache(cacheKey, {
+    body,
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+  });
+  return { body, cache: { search: "miss", fetchedAt: entry.fetchedAt } };
+}
+
+const SEARCH_FRESHNESS = ["miss", "revalidated", "hit"];
+
+/**
+ * Collapses the cache info of several searches into one entry: the least fresh outcome and the oldest fetch time.
+ */
+export function combineCacheInfo(entries) {
+  if (!entries.length) {
+    return { search: "miss", fetchedAt: new Date().toISOString() };
+  }
+  const search = entries
+    .map((entry) => entry.search)
+    .sort((a, b) => SEARCH_FRESHNESS.indexOf(a) - SEARCH_FRESHNESS.indexOf(b))[0];
+  const fetchedAt = entries.map((entry) => entry.fetchedAt).sort()[0];
+  return { search, fetchedAt };
+}
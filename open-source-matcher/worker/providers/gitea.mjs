@@ -0,0 +1,97 @@
+import { cleanDescription, finalizeProject, ownerRepoPath } from "../projects.mjs";
+import { limitedFetch } from "../limits.mjs";
+import { fetchCachedSearch } from "./cached-search.mjs";
+
+const GITEA_URL = process.env.HUNTER_GITEA_URL ?? "https://codeberg.org";
+const GITEA_TOKEN = process.env.HUNTER_GITEA_TOKEN ?? "";
+const GITEA_LABEL = process.env.HUNTER_GITEA_LABEL ?? "Codeberg";
+const USER_AGENT = process.env.HUNTER_USER_AGENT ?? "open-source-hunter/0.2.0";
+
+function normalizeGiteaRepo(repo, webUrl) {
+  return finalizeProject({
+    id: repo.id,
+    source: "gitea",
+    name: repo.full_name,
+    url: repo.html_url,
+    description: cleanDescription(repo.description),
+    homepage: repo.website || null,
+    stars: repo.stars_count,
+    forks: repo.forks_count,
+    watchers: repo.watchers_count,
+    openIssues: repo.open_issues_count,
+    language: repo.language || null,
+    topics: repo.topics ?? [],
+    license: Array.isArray(repo.licenses) && repo.licenses.length ? repo.licenses[0] : null,
+    lastPushedAt: repo.updated_at,
+    owner: {
+      login: repo.owner?.login,
+      url: repo.owner?.login ? `${webUrl}/${repo.owner.login}` : undefined,
+    },
+    defaultBranch: repo.default_branch,
+    archived: repo.archived ?? false,
+    fork: repo.fork ?? false,
+    isTemplate: repo.template ?? false,
+    createdAt: repo.created_at ?? null,
+  });
+}
+
+/**
+ * Gitea and Forgejo share the same search API, so one provider covers Codeberg and self-hosted instances.
+ */
+export function createGiteaProvider({ baseUrl = GITEA_URL, token = GITEA_TOKEN, label = GITEA_LABEL } = {}) {
+  const webUrl = baseUrl.replace(/\/$/, "");
+  const webHost = new URL(webUrl).hostname;
+  const request = (url) => (headers) =>
+    limitedFetch("forges", url, {
+      headers: {
+        Accept: "application/json",
+        "User-Agent": USER_AGENT,
+        ...(token ? { Authorization: `token ${token}` } : {}),
+        ...headers,
+      },
+    });
+
+  return {
+    id: "gitea",
+    label,
+    enabled: true,
+    async search(filters) {
+      const params = new URLSearchParams({
+        q: filters.topic,
+        sort: "stars",
+        order: "desc",
+        includeDesc: "true",
+        limit: String(Math.min(filters.limit * 2, 50)),
+      });
+      if (filters.excludeArchived) {
+        params.set("archived", "false");
+      }
+      if (filters.excludeTemplates) {
+        params.set("template", "false");
+      }
+      if (filters.excludeForks) {
+        // "source" excludes forks and mirrors.
+        params.set("mode", "source");
+      }
+      const url = `${webUrl}/api/v1/repos/search?${params.toString()}`;
+
+      const { body, cache } = await fetchCachedSearch(url, {
+        label,
+        request: request(url),
+        select: (json) => ({ items: Array.isArray(json?.data) ? json.data : [] }),
+      });
+
+      // Language, star and activity filters have no search parameter here; the worker applies them.
+      const items = Array.isArray(body.items) ? body.items : [];
+      return { projects: items.map((item) => normalizeGiteaRepo(item, webUrl)), totalFetched: items.length, cache };
+    },
+    repositoryPath(url) {
+      return url.hostname === webHost ? ownerRepoPath(url) : null;
+    },
+    async fetchRepository(path) {
+      const url = `${webUrl}/api/v1/repos/${path}`;
+      const { body, cache } = await fetchCachedSearch(url, { label, request: request(url), allowMissing: true });
+      return body ? { project: normalizeGiteaRepo(body, webUrl), cache } : null;
+    },
+  };
+}
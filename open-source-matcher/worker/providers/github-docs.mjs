@@ -0,0 +1,26 @@
+import { DOCS_DIRECTORIES } from "../docs-analysis.mjs";
+import { getJson } from "./github-health.mjs";
+
+function decodeReadme(readme) {
+  if (!readme || Array.isArray(readme) || typeof readme.content !== "string") {
+    return "";
+  }
+  return readme.encoding === "base64" ? Buffer.from(readme.content, "base64").toString("utf8") : readme.content;
+}
+
+function listing(entries) {
+  return Array.isArray(entries) ? entries.map((entry) => ({ name: entry.name, type: entry.type })) : [];
+}
+
+/**
+ * The README text and the root listing, plus the listing of the docs directory when there is one:
+ * two or three core API requests per repository.
+ */
+export async function fetchGitHubDocumentation(project, apiUrl) {
+  const repoUrl = `${apiUrl}/repos/${project.name}`;
+  const [readme, root] = await Promise.all([getJson(`${repoUrl}/readme`), getJson(`${repoUrl}/contents`)]);
+  const entries = listing(root);
+  const docsDirectory = entries.find((entry) => entry.type === "dir" && DOCS_DIRECTORIES.includes(entry.name.toLowerCase()));
+  const docsEntries = docsDirectory ? listing(await getJson(`${repoUrl}/contents/${encodeURIComponent(docsDirectory.name)}`)) : [];
+  return { readme: decodeReadme(readme), entries, docsEntries };
+}
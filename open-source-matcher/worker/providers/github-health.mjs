@@ -0,0 +1,96 @@
+import { githubFetch } from "../github-client.mjs";
+import { TransientError, isTransientStatus } from "../errors.mjs";
+import {
+  HEALTH_WINDOW_DAYS,
+  commitMetrics,
+  mergeMetrics,
+  releaseMetrics,
+  responseMetrics,
+} from "../health-metrics.mjs";
+
+const MAX_COMMIT_PAGES = Number(process.env.HUNTER_HEALTH_MAX_COMMIT_PAGES ?? 3);
+const ISSUE_SAMPLE_SIZE = 30;
+const FIRST_RESPONSE_PAGE_SIZE = 10;
+const RESPONSE_GRACE_HOURS = 6;
+
+export async function getJson(url) {
+  const response = await githubFetch(url);
+  if (response.status === 404 || response.status === 409) {
+    // 409 is returned for empty repositories.
+    return [];
+  }
+  if (!response.ok) {
+    const message = `GitHub health request failed (${response.status}): ${await response.text()}`;
+    throw isTransientStatus(response.status) ? new TransientError(message) : new Error(message);
+  }
+  return response.json();
+}
+
+export function isBot(login) {
+  return typeof login === "string" && login.endsWith("[bot]");
+}
+
+async function fetchCommitAuthors(repoUrl, since) {
+  const authors = [];
+  for (let page = 1; page <= MAX_COMMIT_PAGES; page += 1) {
+    const commits = await getJson(`${repoUrl}/commits?since=${since}&per_page=100&page=${page}`);
+    commits.forEach((commit) => {
+      const author = commit.author?.login ?? commit.commit?.author?.email ?? commit.commit?.author?.name;
+      if (author && !isBot(author)) {
+        authors.push(author);
+      }
+    });
+    if (commits.length < 100) {
+      break;
+    }
+  }
+  return authors;
+}
+
+/**
+ * Hours until someone other than the author commented, for the most recent issues. Issues opened in
+ * the last few hours are left out, since nobody had a fair chance to answer them yet. Only issues
+ * with comments cost a request, and one page of their comments is enough to find the first reply.
+ */
+export async function fetchFirstResponses(repoUrl) {
+  const recent = await getJson(`${repoUrl}/issues?state=all&sort=created&direction=desc&per_page=${ISSUE_SAMPLE_SIZE}`);
+  const answerableBefore = Date.now() - RESPONSE_GRACE_HOURS * 3_600_000;
+  const issues = recent.filter(
+    (issue) => !issue.pull_request && !isBot(issue.user?.login) && new Date(issue.created_at).getTime() < answerableBefore,
+  );
+
+  const firstResponses = await Promise.all(
+    issues.map(async (issue) => {
+      if (!issue.comments) {
+        return null;
+      }
+      const comments = await getJson(`${repoUrl}/issues/${issue.number}/comments?per_page=${FIRST_RESPONSE_PAGE_SIZE}`);
+      return comments.find((comment) => comment.user?.login !== issue.user?.login) ?? null;
+    }),
+  );
+
+  const responseHours = issues
+    .map((issue, index) => [issue, firstResponses[index]])
+    .filter(([, response]) => response)
+    .map(([issue, response]) => (new Date(response.created_at) - new Date(issue.created_at)) / 3_600_000);
+  return { responseHours, sampled: issues.length };
+}
+
+export async function analyzeGitHubHealth(project, apiUrl) {
+  const repoUrl = `${apiUrl}/repos/${project.name}`;
+  const since = new Date(Date.now() - HEALTH_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [authors, releases, responses, pulls] = await Promise.all([
+    fetchCommitAuthors(repoUrl, since),
+    getJson(`${repoUrl}/releases?per_page=20`),
+    fetchFirstResponses(repoUrl),
+    getJson(`${repoUrl}/pulls?state=closed&sort=updated&direction=desc&per_page=50`),
+  ]);
+
+  return {
+    ...commitMetrics(authors),
+    ...releaseMetrics(releases.filter((release) => !release.draft).map((release) => release.published_at)),
+    ...responseMetrics(responses.responseHours, responses.sampled),
+    ...mergeMetrics(pulls.map((pull) => ({ merged: Boolean(pull.merged_at) }))),
+  };
+}
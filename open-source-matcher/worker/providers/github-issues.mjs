@@ -0,0 +1,47 @@
+import { fetchFirstResponses, getJson, isBot } from "./github-health.mjs";
+
+const ISSUES_PER_LABEL = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function responseRate(health, responses) {
+  if (health?.issuesSampled) {
+    return (health.issuesSampled - health.unansweredIssues) / health.issuesSampled;
+  }
+  return responses?.sampled ? responses.responseHours.length / responses.sampled : null;
+}
+
+/**
+ * Open issues carrying any of `labels`, opened within `maxAgeDays`, plus the share of recent issues
+ * maintainers answered. The health pass already sampled that for the top projects; otherwise it is
+ * sampled here. The API ANDs the labels of one request, so each label is its own request.
+ */
+export async function fetchGitHubContributionIssues(project, apiUrl, { labels, maxAgeDays }) {
+  const repoUrl = `${apiUrl}/repos/${project.name}`;
+  const cutoff = Date.now() - maxAgeDays * DAY_MS;
+  const [responses, ...pages] = await Promise.all([
+    project.health?.issuesSampled ? null : fetchFirstResponses(repoUrl),
+    ...labels.map((label) =>
+      getJson(`${repoUrl}/issues?state=open&labels=${encodeURIComponent(label)}&sort=created&direction=desc&per_page=${ISSUES_PER_LABEL}`),
+    ),
+  ]);
+
+  const issues = new Map();
+  pages.flat().forEach((issue) => {
+    if (issue.pull_request || isBot(issue.user?.login) || issues.has(issue.number)) {
+      return;
+    }
+    if (new Date(issue.created_at).getTime() < cutoff) {
+      return;
+    }
+    issues.set(issue.number, {
+      number: issue.number,
+      title: issue.title,
+      url: issue.html_url,
+      labels: (issue.labels ?? []).map((label) => (typeof label === "string" ? label : label.name)).filter(Boolean),
+      createdAt: issue.created_at,
+      comments: issue.comments ?? 0,
+      assigned: Boolean(issue.assignee || issue.assignees?.length),
+    });
+  });
+  return { issues: [...issues.values()], responseRate: responseRate(project.health, responses) };
+}
@@ -0,0 +1,131 @@
+import { GITHUB_API_URL, githubFetch } from "../github-client.mjs";
+import { cleanDescription, finalizeProject, maintainedSinceDate, ownerRepoPath } from "../projects.mjs";
+import { requestedLanguages } from "../filters.mjs";
+import { fetchCachedSearch } from "./cached-search.mjs";
+import { fetchGitHubDocumentation } from "./github-docs.mjs";
+import { analyzeGitHubHealth } from "./github-health.mjs";
+import { fetchGitHubContributionIssues } from "./github-issues.mjs";
+
+/**
+ * Builds the search URL from `SearchFilters`. Anything the search syntax cannot express (several
+ * allowed licenses, templates, owner type) is left to `applyFilters` in the worker.
+ */
+export function buildGitHubQuery(filters, apiUrl = GITHUB_API_URL) {
+  const { topic, minStars, minForks, onlyMaintained, limit } = filters;
+  const segments = [];
+  const quotedTopic = topic.includes(" ") ? `"${topic}"` : topic;
+  segments.push(`${quotedTopic} in:name,description,readme`);
+
+  // Repeated language qualifiers are OR-ed by the search API.
+  requestedLanguages(filters).forEach((language) => segments.push(`language:${qualifierValue(language)}`));
+
+  if (typeof minStars === "number" && Number.isFinite(minStars) && minStars > 0) {
+    segments.push(`stars:>=${Math.floor(minStars)}`);
+  }
+
+  if (typeof minForks === "number" && Number.isFinite(minForks) && minForks > 0) {
+    segments.push(`forks:>=${Math.floor(minForks)}`);
+  }
+
+  if (onlyMaintained) {
+    segments.push(`pushed:>=${maintainedSinceDate()}`);
+  }
+
+  if (filters.licenses?.length === 1) {
+    segments.push(`license:${filters.licenses[0].toLowerCase()}`);
+  }
+  filters.excludeLicenses?.forEach((license) => segments.push(`-license:${license.toLowerCase()}`));
+  filters.topics?.forEach((name) => segments.push(`topic:${qualifierValue(name)}`));
+  filters.excludeTopics?.forEach((name) => segments.push(`-topic:${qualifierValue(name)}`));
+
+  if (filters.excludeArchived) {
+    segments.push("archived:false");
+  }
+
+  if (filters.createdAfter && filters.createdBefore) {
+    segments.push(`created:${filters.createdAfter}..${filters.createdBefore}`);
+  } else if (filters.createdAfter) {
+    segments.push(`created:>=${filters.createdAfter}`);
+  } else if (filters.createdBefore) {
+    segments.push(`created:<=${filters.createdBefore}`);
+  }
+
+  const query = segments.join(" ");
+  return `${apiUrl}/search/repositories?q=${encodeURIComponent(query)}&sort=stars&order=desc&per_page=${Math.min(limit * 2, 50)}`;
+}
+
+function qualifierValue(value) {
+  return value.includes(" ") ? `"${value}"` : value;
+}
+
+export function normalizeRepo(repo) {
+  return finalizeProject({
+    id: repo.id,
+    source: "github",
+    name: repo.full_name,
+    url: repo.html_url,
+    description: cleanDescription(repo.description),
+    homepage: repo.homepage,
+    stars: repo.stargazers_count,
+    forks: repo.forks_count,
+    watchers: repo.watchers_count,
+    openIssues: repo.open_issues_count,
+    language: repo.language,
+    topics: repo.topics ?? [],
+    license: repo.license?.spdx_id ?? repo.license?.name ?? null,
+    lastPushedAt: repo.pushed_at ?? repo.updated_at,
+    owner: {
+      login: repo.owner?.login,
+      url: repo.owner?.html_url,
+      type: repo.owner?.type,
+    },
+    defaultBranch: repo.default_branch,
+    archived: repo.archived ?? false,
+    fork: repo.fork ?? false,
+    isTemplate: repo.is_template ?? false,
+    createdAt: repo.created_at ?? null,
+  });
+}
+
+export function createGitHubProvider({ baseUrl = GITHUB_API_URL } = {}) {
+  const apiUrl = baseUrl.replace(/\/$/, "");
+  // api.github.com serves github.com; GitHub Enterprise serves its API under /api/v3 on the web host.
+  const webHost = new URL(apiUrl).hostname.replace(/^api\./, "");
+
+  return {
+    id: "github",
+    label: "GitHub",
+    enabled: true,
+    async search(filters) {
+      const url = buildGitHubQuery(filters, apiUrl);
+      const { body, cache } = await fetchCachedSearch(url, {
+        label: "GitHub",
+        request: (headers) => githubFetch(url, { headers }),
+        select: (json) => ({ items: Array.isArray(json.items) ? json.items : [] }),
+      });
+      const items = Array.isArray(body.items) ? body.items : [];
+      return { projects: items.map(normalizeRepo), totalFetched: items.length, cache };
+    },
+    repositoryPath(url) {
+      return url.hostname === webHost ? ownerRepoPath(url) : null;
+    },
+    async fetchRepository(path) {
+      const url = `${apiUrl}/repos/${path}`;
+      const { body, cache } = await fetchCachedSearch(url, {
+        label: "GitHub",
+        request: (headers) => githubFetch(url, { headers }),
+        allowMissing: true,
+      });
+      return body ? { project: normalizeRepo(body), cache } : null;
+    },
+    analyzeHealth(project) {
+      return analyzeGitHubHealth(project, apiUrl);
+    },
+    fetchDocumentation(project) {
+      return fetchGitHubDocumentation(project, apiUrl);
+    },
+    findContributionIssues(project, options) {
+      return fetchGitHubContributionIssues(project, apiUrl, options);
+    },
+  };
+}
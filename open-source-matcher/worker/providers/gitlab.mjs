@@ -0,0 +1,148 @@
+import { requestedLanguages } from "../filters.mjs";
+import { cleanDescription, finalizeProject, maintainedSinceDate } from "../projects.mjs";
+import { limitedFetch } from "../limits.mjs";
+import { combineCacheInfo, fetchCachedSearch } from "./cached-search.mjs";
+
+const GITLAB_URL = process.env.HUNTER_GITLAB_URL ?? "https://gitlab.com";
+const GITLAB_TOKEN = process.env.HUNTER_GITLAB_TOKEN ?? "";
+const USER_AGENT = process.env.HUNTER_USER_AGENT ?? "open-source-hunter/0.2.0";
+
+function normalizeGitLabProject(project, language) {
+  return finalizeProject({
+    id: project.id,
+    source: "gitlab",
+    name: project.path_with_namespace,
+    url: project.web_url,
+    description: cleanDescription(project.description),
+    homepage: null,
+    stars: project.star_count,
+    forks: project.forks_count,
+    watchers: 0,
+    openIssues: project.open_issues_count ?? 0,
+    // The list endpoint does not report languages, so the project inherits the language it was queried for.
+    language: language ?? null,
+    topics: project.topics ?? project.tag_list ?? [],
+    license: project.license?.key ?? null,
+    // Only single-project requests with `license=true` include the field.
+    licenseUnknown: !("license" in project),
+    lastPushedAt: project.last_activity_at,
+    owner: {
+      login: project.namespace?.full_path,
+      url: project.namespace?.web_url,
+      type: project.namespace?.kind === "group" ? "Organization" : "User",
+    },
+    defaultBranch: project.default_branch,
+    archived: project.archived ?? false,
+    fork: Boolean(project.forked_from_project),
+    createdAt: project.created_at ?? null,
+  });
+}
+
+export function createGitLabProvider({ baseUrl = GITLAB_URL, token = GITLAB_TOKEN } = {}) {
+  const apiUrl = `${baseUrl.replace(/\/$/, "")}/api/v4`;
+  const webHost = new URL(baseUrl).hostname;
+
+  // Single-project requests are the only ones that report the license.
+  const fetchProject = (idOrPath) => {
+    const url = `${apiUrl}/projects/${encodeURIComponent(idOrPath)}?license=true`;
+    return fetchCachedSearch(url, {
+      label: "GitLab",
+      request: (headers) =>
+        limitedFetch("forges", url, {
+          headers: {
+            Accept: "application/json",
+            "User-Agent": USER_AGENT,
+            ...(token ? { "PRIVATE-TOKEN": token } : {}),
+            ...headers,
+          },
+        }),
+      allowMissing: true,
+    });
+  };
+
+  // The list endpoint leaves licenses out, so searches that filter on them look every project up;
+  // a failed lookup leaves the project's license unknown.
+  const withLicenses = (items) =>
+    Promise.all(
+      items.map(async (item) => {
+        try {
+          return (await fetchProject(item.id)).body ?? item;
+        } catch (error) {
+          console.warn(`[worker] GitLab license lookup failed for ${item.path_with_namespace}: ${error.message}`);
+          return item;
+        }
+      }),
+    );
+
+  return {
+    id: "gitlab",
+    label: "GitLab",
+    enabled: true,
+    async search(filters) {
+      const baseParams = new URLSearchParams({
+        search: filters.topic,
+        order_by: "star_count",
+        sort: "desc",
+        per_page: String(Math.min(filters.limit * 2, 50)),
+      });
+      if (filters.onlyMaintained) {
+        baseParams.set("last_activity_after", `${maintainedSinceDate()}T00:00:00Z`);
+      }
+      if (filters.excludeArchived) {
+        baseParams.set("archived", "false");
+      }
+      if (filters.topics?.length) {
+        baseParams.set("topic", filters.topics.join(","));
+      }
+
+      // `with_programming_language` takes a single language, so each requested language is its own query.
+      const languages = requestedLanguages(filters);
+      const responses = await Promise.all(
+        (languages.length ? languages : [null]).map(async (language) => {
+          const params = new URLSearchParams(baseParams);
+          if (language) {
+            params.set("with_programming_language", language);
+          }
+          const url = `${apiUrl}/projects?${params.toString()}`;
+          const { body, cache } = await fetchCachedSearch(url, {
+            label: "GitLab",
+            request: (headers) =>
+              limitedFetch("forges", url, {
+                headers: {
+                  Accept: "application/json",
+                  "User-Agent": USER_AGENT,
+                  ...(token ? { "PRIVATE-TOKEN": token } : {}),
+                  ...headers,
+                },
+              }),
+            select: (json) => ({ items: Array.isArray(json) ? json : [] }),
+          });
+          const items = Array.isArray(body.items) ? body.items : [];
+          const filtersLicenses = filters.licenses?.length || filters.excludeLicenses?.length;
+          return { items: filtersLicenses ? await withLicenses(items) : items, language, cache };
+        }),
+      );
+
+      const projects = responses.flatMap(({ items, language }) =>
+        items.map((item) => normalizeGitLabProject(item, language ?? filters.language)),
+      );
+      return {
+        projects,
+        totalFetched: projects.length,
+        cache: combineCacheInfo(responses.map((response) => response.cache)),
+      };
+    },
+    repositoryPath(url) {
+      if (url.hostname !== webHost) {
+        return null;
+      }
+      // Projects can sit in nested groups, so the whole path up to GitLab's `/-/` separator is the project.
+      const path = url.pathname.split("/-/")[0].replace(/\.git$/, "").split("/").filter(Boolean);
+      return path.length >= 2 ? path.join("/") : null;
+    },
+    async fetchRepository(path) {
+      const { body, cache } = await fetchProject(path);
+      return body ? { project: normalizeGitLabProject(body, null), cache } : null;
+    },
+  };
+}
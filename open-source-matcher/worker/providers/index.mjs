@@ -0,0 +1,63 @@
+import { createBitbucketProvider } from "./bitbucket.mjs";
+import { createGiteaProvider } from "./gitea.mjs";
+import { createGitHubProvider } from "./github.mjs";
+import { createGitLabProvider } from "./gitlab.mjs";
+import { createStubProvider } from "./stub.mjs";
+
+const DEFAULT_PROVIDERS = (process.env.HUNTER_DEFAULT_PROVIDERS ?? "github")
+  .split(",")
+  .map((id) => id.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * Every provider exposes `{ id, label, enabled, search(filters) }`; `search` resolves to
+ * `{ projects, totalFetched, cache }` with projects already mapped to the `ProjectSummary` shape.
+ * Providers that can also compute community health implement `analyzeHealth(project)`.
+ * `fetchDocumentation(project)` resolves to `{ readme, entries, docsEntries }` (README text and the
+ * root and docs directory listings) for the docs analysis.
+ * Providers that can list beginner-friendly issues implement
+ * `findContributionIssues(project, { labels, maxAgeDays })`.
+ * `repositoryPath(url)` recognizes the provider's repository URLs and `fetchRepository(path)`
+ * resolves to `{ project, cache }`, or `null` when the repository does not exist.
+ * The `stub` provider answers all of these from a local fixture file for offline runs.
+ */
+export const PROVIDERS = [
+  createGitHubProvider(),
+  createGitLabProvider(),
+  createGiteaProvider(),
+  createBitbucketProvider(),
+  createStubProvider(),
+];
+
+export function getProvider(id) {
+  return PROVIDERS.find((provider) => provider.id === id) ?? null;
+}
+
+/**
+ * Finds the provider hosting a repository URL. Returns `{ provider, path }` or `null` for other hosts.
+ */
+export function resolveRepository(repositoryUrl) {
+  let url;
+  try {
+    url = new URL(repositoryUrl);
+  } catch {
+    return null;
+  }
+  for (const provider of PROVIDERS) {
+    const path = provider.repositoryPath?.(url);
+    if (path) {
+      return { provider, path };
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves the providers a job asked for, falling back to `HUNTER_DEFAULT_PROVIDERS`. Unknown and
+ * disabled ids are dropped; GitHub is used when nothing usable is left.
+ */
+export function resolveProviders(requested) {
+  const ids = Array.isArray(requested) && requested.length ? requested : DEFAULT_PROVIDERS;
+  const resolved = [...new Set(ids)].map(getProvider).filter((provider) => provider?.enabled);
+  return resolved.length ? resolved : [getProvider("github")];
+}
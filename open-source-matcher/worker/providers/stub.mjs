@@ -0,0 +1,120 @@
+import fs from "fs";
+import { fileURLToPath } from "url";
+import { cleanDescription, finalizeProject, ownerRepoPath } from "../projects.mjs";
+
+const STUB_FIXTURES = process.env.HUNTER_STUB_FIXTURES ?? fileURLToPath(new URL("../../fixtures/stub-projects.json", import.meta.url));
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fixtures give ages in days so a demo data set never goes stale.
+function daysAgo(days) {
+  return Number.isFinite(days) ? new Date(Date.now() - days * DAY_MS).toISOString() : null;
+}
+
+function loadFixtures(file) {
+  try {
+    const { projects } = JSON.parse(fs.readFileSync(file, "utf8"));
+    return Array.isArray(projects) ? projects : [];
+  } catch (error) {
+    if (error?.code !== "ENOENT") {
+      console.warn(`[worker] Could not read stub fixtures ${file}:`, error instanceof Error ? error.message : error);
+    }
+    return null;
+  }
+}
+
+function normalizeFixture(fixture) {
+  return finalizeProject({
+    id: fixture.id,
+    source: "stub",
+    name: fixture.name,
+    url: fixture.url,
+    description: cleanDescription(fixture.description),
+    homepage: fixture.homepage ?? null,
+    stars: fixture.stars,
+    forks: fixture.forks,
+    watchers: fixture.watchers,
+    openIssues: fixture.openIssues,
+    language: fixture.language ?? null,
+    topics: fixture.topics ?? [],
+    license: fixture.license ?? null,
+    lastPushedAt: fixture.lastPushedAt ?? daysAgo(fixture.pushedDaysAgo),
+    owner: fixture.owner ?? { login: fixture.name.split("/")[0] },
+    defaultBranch: fixture.defaultBranch ?? "main",
+    archived: fixture.archived ?? false,
+    fork: fixture.fork ?? false,
+    isTemplate: fixture.isTemplate ?? false,
+    createdAt: fixture.createdAt ?? null,
+  });
+}
+
+function searchableText(fixture) {
+  return [fixture.name, fixture.description, ...(fixture.topics ?? [])].join(" ").toLowerCase();
+}
+
+/**
+ * Serves projects from a JSON fixture file (`HUNTER_STUB_FIXTURES`, default
+ * `fixtures/stub-projects.json`) so the whole pipeline runs without any forge. A project matches a
+ * search when every word of the topic appears in its name, description or topics. Health metrics,
+ * README, file listing and issues come from the same file; the provider is disabled when it is missing.
+ */
+export function createStubProvider({ file = STUB_FIXTURES } = {}) {
+  const fixtures = loadFixtures(file);
+  const byName = new Map((fixtures ?? []).map((fixture) => [fixture.name.toLowerCase(), fixture]));
+  const byUrl = new Map((fixtures ?? []).map((fixture) => [fixture.url.replace(/\/$/, "").toLowerCase(), fixture]));
+  const fixtureOf = (project) => {
+    const fixture = byName.get(project.name.toLowerCase());
+    if (!fixture) {
+      throw new Error(`No stub fixture for ${project.name}.`);
+    }
+    return fixture;
+  };
+  const cache = () => ({ search: "miss", fetchedAt: new Date().toISOString() });
+
+  return {
+    id: "stub",
+    label: "Fixtures",
+    enabled: fixtures !== null,
+    async search(filters) {
+      const words = filters.topic.toLowerCase().split(/\s+/).filter(Boolean);
+      const matches = (fixtures ?? []).filter((fixture) => words.every((word) => searchableText(fixture).includes(word)));
+      const items = matches.slice(0, Math.min(filters.limit * 2, 50));
+      return { projects: items.map(normalizeFixture), totalFetched: items.length, cache: cache() };
+    },
+    repositoryPath(url) {
+      const fixture = byUrl.get(`${url.origin}${url.pathname}`.replace(/\/$/, "").toLowerCase());
+      return fixture ? ownerRepoPath(url) : null;
+    },
+    async fetchRepository(path) {
+      const fixture = byName.get(path.toLowerCase());
+      return fixture ? { project: normalizeFixture(fixture), cache: cache() } : null;
+    },
+    async analyzeHealth(project) {
+      const { health } = fixtureOf(project);
+      if (!health) {
+        throw new Error(`The stub fixture for ${project.name} has no health metrics.`);
+      }
+      const { lastReleaseDaysAgo, ...metrics } = health;
+      return { ...metrics, lastReleaseAt: metrics.lastReleaseAt ?? daysAgo(lastReleaseDaysAgo) };
+    },
+    async fetchDocumentation(project) {
+      const fixture = fixtureOf(project);
+      return { readme: fixture.readme ?? "", entries: fixture.files ?? [], docsEntries: fixture.docsFiles ?? [] };
+    },
+    async findContributionIssues(project, { labels, maxAgeDays }) {
+      const fixture = fixtureOf(project);
+      const wanted = new Set(labels.map((label) => label.toLowerCase()));
+      const issues = (fixture.issues ?? [])
+        .filter((issue) => issue.labels?.some((label) => wanted.has(label.toLowerCase())))
+        .filter((issue) => (issue.openedDaysAgo ?? 0) <= maxAgeDays)
+        .map(({ openedDaysAgo, ...issue }) => ({
+          url: `${fixture.url}/issues/${issue.number}`,
+          comments: 0,
+          assigned: false,
+          ...issue,
+          createdAt: issue.createdAt ?? daysAgo(openedDaysAgo ?? 0),
+        }));
+      const { health } = project;
+      return { issues, responseRate: health?.issuesSampled ? (health.issuesSampled - health.unansweredIssues) / health.issuesSampled : null };
+    },
+  };
+}
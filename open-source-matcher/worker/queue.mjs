@@ -0,0 +1,208 @@
+import { redis, blockingRedis } from "./redis.mjs";
+
+export const REQUEST_QUEUE = process.env.HUNTER_REQUEST_QUEUE ?? "hunter:requests";
+export const PROCESSING_QUEUE = process.env.HUNTER_PROCESSING_QUEUE ?? "hunter:processing";
+export const DEAD_LETTER_QUEUE = process.env.HUNTER_DEAD_LETTER_QUEUE ?? "hunter:dead-letter";
+const LEASES_KEY = process.env.HUNTER_LEASES_KEY ?? "hunter:leases";
+const DELAYED_KEY = process.env.HUNTER_DELAYED_KEY ?? "hunter:delayed";
+const VISIBILITY_TIMEOUT_MS = Number(process.env.HUNTER_VISIBILITY_TIMEOUT_MS ?? 60000);
+const POLL_TIMEOUT_SECONDS = Number(process.env.HUNTER_POLL_TIMEOUT_SECONDS ?? 5);
+const MAINTENANCE_INTERVAL_MS = Number(process.env.HUNTER_QUEUE_MAINTENANCE_MS ?? 5000);
+const DEAD_LETTER_LIMIT = Number(process.env.HUNTER_DEAD_LETTER_LIMIT ?? 500);
+export const MAX_JOB_ATTEMPTS = Number(process.env.HUNTER_MAX_JOB_ATTEMPTS ?? 4);
+export const MAX_JOB_DEFERRALS = Number(process.env.HUNTER_MAX_JOB_DEFERRALS ?? 10);
+const RETRY_BASE_DELAY_MS = Number(process.env.HUNTER_RETRY_BASE_DELAY_MS ?? 2000);
+const RETRY_MAX_DELAY_MS = Number(process.env.HUNTER_RETRY_MAX_DELAY_MS ?? 60000);
+
+// Removes a claimed job from the in-flight list and its lease, then forwards `ARGV[2]` to the
+// destination. Returns 0 without forwarding when another worker already settled the job.
+// Each script's `inProcess` twin runs the same steps when HUNTER_STORE=memory.
+redis.defineCommand("hunterSettleJob", {
+  numberOfKeys: 3,
+  lua: `
+    local removed = redis.call("LREM", KEYS[1], 1, ARGV[1])
+    redis.call("ZREM", KEYS[2], ARGV[1])
+    if removed == 0 then
+      return 0
+    end
+    if ARGV[3] == "rpush" then
+      redis.call("RPUSH", KEYS[3], ARGV[2])
+    elseif ARGV[3] == "lpush" then
+      redis.call("LPUSH", KEYS[3], ARGV[2])
+      redis.call("LTRIM", KEYS[3], 0, tonumber(ARGV[5]) - 1)
+    elseif ARGV[3] == "zadd" then
+      redis.call("ZADD", KEYS[3], ARGV[4], ARGV[2])
+    end
+    return 1
+  `,
+  inProcess(call, [processing, leases, destination], [raw, forward, mode, score, limit]) {
+    const removed = call("lrem", processing, 1, raw);
+    call("zrem", leases, raw);
+    if (removed === 0) {
+      return 0;
+    }
+    if (mode === "rpush") {
+      call("rpush", destination, forward);
+    } else if (mode === "lpush") {
+      call("lpush", destination, forward);
+      call("ltrim", destination, 0, Number(limit) - 1);
+    } else if (mode === "zadd") {
+      call("zadd", destination, score, forward);
+    }
+    return 1;
+  },
+});
+
+redis.defineCommand("hunterPromoteDelayed", {
+  numberOfKeys: 2,
+  lua: `
+    local due = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, tonumber(ARGV[2]))
+    for _, raw in ipairs(due) do
+      redis.call("ZREM", KEYS[1], raw)
+      redis.call("RPUSH", KEYS[2], raw)
+    end
+    return #due
+  `,
+  inProcess(call, [delayed, queue], [now, limit]) {
+    const due = call("zrangebyscore", delayed, "-inf", now, "LIMIT", 0, Number(limit));
+    for (const raw of due) {
+      call("zrem", delayed, raw);
+      call("rpush", queue, raw);
+    }
+    return due.length;
+  },
+});
+
+function settle(raw, { destination = "", forward = "", mode = "none", score = 0 } = {}) {
+  return redis.hunterSettleJob(PROCESSING_QUEUE, LEASES_KEY, destination || PROCESSING_QUEUE, raw, forward, mode, score, DEAD_LETTER_LIMIT);
+}
+
+export function retryDelayMs(attempt, retryAfterMs) {
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+    return Math.min(retryAfterMs, RETRY_MAX_DELAY_MS);
+  }
+  const exponential = RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1);
+  const jitter = Math.random() * RETRY_BASE_DELAY_MS;
+  return Math.min(exponential + jitter, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Atomically moves the next pending job into the in-flight list and leases it to this worker.
+ * Resolves to `null` when nothing arrived within the poll timeout so callers can check for shutdown.
+ * Callers claiming concurrently each pass their own `connection`, since a blocking pop holds it.
+ */
+export async function claimJob(connection = blockingRedis) {
+  const raw = await connection.blmove(REQUEST_QUEUE, PROCESSING_QUEUE, "LEFT", "RIGHT", POLL_TIMEOUT_SECONDS);
+  if (!raw) {
+    return null;
+  }
+  await redis.zadd(LEASES_KEY, Date.now() + VISIBILITY_TIMEOUT_MS, raw);
+  return raw;
+}
+
+/**
+ * Keeps extending the lease of an in-flight job until the returned function is called.
+ */
+export function keepLeaseAlive(raw) {
+  const timer = setInterval(() => {
+    redis.zadd(LEASES_KEY, "XX", Date.now() + VISIBILITY_TIMEOUT_MS, raw).catch((error) => {
+      console.warn("[worker] Failed to extend job lease", error);
+    });
+  }, Math.max(1000, Math.floor(VISIBILITY_TIMEOUT_MS / 3)));
+  return () => clearInterval(timer);
+}
+
+export function ackJob(raw) {
+  return settle(raw);
+}
+
+export function scheduleRetry(raw, job, delayMs) {
+  return settle(raw, {
+    destination: DELAYED_KEY,
+    forward: JSON.stringify(job),
+    mode: "zadd",
+    score: Date.now() + delayMs,
+  });
+}
+
+export function deadLetterJob(raw, job, error) {
+  return settle(raw, {
+    destination: DEAD_LETTER_QUEUE,
+    forward: JSON.stringify({ job, error, failedAt: new Date().toISOString() }),
+    mode: "lpush",
+  });
+}
+
+/**
+ * Puts in-flight jobs whose lease expired back on the request queue. Jobs that already used up
+ * their attempts are dead-lettered instead and returned so the caller can report the failure.
+ */
+export async function reapStalledJobs() {
+  const now = Date.now();
+
+  // A worker that died between BLMOVE and ZADD leaves an in-flight job without a lease; give it one.
+  const inFlight = await redis.lrange(PROCESSING_QUEUE, 0, -1);
+  for (const raw of inFlight) {
+    await redis.zadd(LEASES_KEY, "NX", now + VISIBILITY_TIMEOUT_MS, raw);
+  }
+
+  const expired = await redis.zrangebyscore(LEASES_KEY, "-inf", now);
+  const deadLettered = [];
+  let requeued = 0;
+
+  for (const raw of expired) {
+    let job;
+    try {
+      job = JSON.parse(raw);
+    } catch {
+      await deadLetterJob(raw, raw, "Malformed job payload");
+      continue;
+    }
+
+    const attempts = (job.attempts ?? 0) + 1;
+    const next = { ...job, attempts, lastError: "Worker stalled before finishing the job" };
+    if (attempts >= MAX_JOB_ATTEMPTS) {
+      if (await deadLetterJob(raw, next, next.lastError)) {
+        deadLettered.push(next);
+      }
+      continue;
+    }
+    requeued += await settle(raw, { destination: REQUEST_QUEUE, forward: JSON.stringify(next), mode: "rpush" });
+  }
+
+  if (requeued > 0) {
+    console.warn(`[worker] Requeued ${requeued} stalled job(s)`);
+  }
+  return { requeued, deadLettered };
+}
+
+export async function promoteDelayedJobs() {
+  return redis.hunterPromoteDelayed(DELAYED_KEY, REQUEST_QUEUE, Date.now(), 100);
+}
+
+/**
+ * Runs the reaper and the delayed-job promoter on an interval until the returned function is called.
+ */
+export function startQueueMaintenance(onDeadLettered = async () => {}) {
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await promoteDelayedJobs();
+      const { deadLettered } = await reapStalledJobs();
+      for (const job of deadLettered) {
+        await onDeadLettered(job);
+      }
+    } catch (error) {
+      console.error("[worker] Queue maintenance failed", error);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(tick, MAINTENANCE_INTERVAL_MS);
+  tick();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,139 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+const prefix = `test:queue:${process.pid}`;
+const keys = {
+  requests: `${prefix}:requests`,
+  processing: `${prefix}:processing`,
+  deadLetter: `${prefix}:dead-letter`,
+  leases: `${prefix}:leases`,
+  delayed: `${prefix}:delayed`,
+};
+Object.assign(process.env, {
+  HUNTER_REQUEST_QUEUE: keys.requests,
+  HUNTER_PROCESSING_QUEUE: keys.processing,
+  HUNTER_DEAD_LETTER_QUEUE: keys.deadLetter,
+  HUNTER_LEASES_KEY: keys.leases,
+  HUNTER_DELAYED_KEY: keys.delayed,
+  HUNTER_DEAD_LETTER_LIMIT: "2",
+  HUNTER_MAX_JOB_ATTEMPTS: "2",
+  HUNTER_POLL_TIMEOUT_SECONDS: "1",
+});
+
+// Imported after the environment is set, since both modules read it when they load.
+const { redis, blockingRedis } = await import("./redis.mjs");
+const { ackJob, claimJob, deadLetterJob, promoteDelayedJobs, reapStalledJobs, scheduleRetry } = await import("./queue.mjs");
+
+async function inFlight(job) {
+  const raw = JSON.stringify(job);
+  await redis.rpush(keys.processing, raw);
+  await redis.zadd(keys.leases, Date.now() + 60000, raw);
+  return raw;
+}
+
+beforeEach(async () => {
+  await redis.del(...Object.values(keys));
+});
+
+afterAll(async () => {
+  await redis.del(...Object.values(keys));
+  await blockingRedis.quit();
+  await redis.quit();
+});
+
+describe("claimJob", () => {
+  it("moves the next request in flight and leases it", async () => {
+    const raw = JSON.stringify({ id: "a", payload: {} });
+    await redis.rpush(keys.requests, raw);
+
+    expect(await claimJob()).toBe(raw);
+    expect(await redis.lrange(keys.requests, 0, -1)).toEqual([]);
+    expect(await redis.lrange(keys.processing, 0, -1)).toEqual([raw]);
+    expect(Number(await redis.zscore(keys.leases, raw))).toBeGreaterThan(Date.now());
+  });
+
+  it("resolves to null when nothing arrives within the poll timeout", async () => {
+    expect(await claimJob()).toBeNull();
+  });
+});
+
+describe("settling a job", () => {
+  it("acks a job by dropping it and its lease", async () => {
+    const raw = await inFlight({ id: "a" });
+
+    expect(await ackJob(raw)).toBe(1);
+    expect(await redis.llen(keys.processing)).toBe(0);
+    expect(await redis.zscore(keys.leases, raw)).toBeNull();
+  });
+
+  it("does nothing for a job another worker already settled", async () => {
+    const raw = await inFlight({ id: "a" });
+    await ackJob(raw);
+
+    expect(await scheduleRetry(raw, { id: "a", attempts: 1 }, 0)).toBe(0);
+    expect(await redis.zcard(keys.delayed)).toBe(0);
+  });
+
+  it("parks a retry in the delayed set until it is due", async () => {
+    const raw = await inFlight({ id: "a" });
+    const before = Date.now();
+
+    expect(await scheduleRetry(raw, { id: "a", attempts: 1 }, 5000)).toBe(1);
+    const [member, score] = await redis.zrange(keys.delayed, 0, -1, "WITHSCORES");
+    expect(JSON.parse(member)).toEqual({ id: "a", attempts: 1 });
+    expect(Number(score)).toBeGreaterThanOrEqual(before + 5000);
+    expect(await redis.llen(keys.processing)).toBe(0);
+  });
+
+  it("keeps only the newest dead letters", async () => {
+    for (const id of ["a", "b", "c"]) {
+      await deadLetterJob(await inFlight({ id }), { id }, `failed ${id}`);
+    }
+
+    const letters = (await redis.lrange(keys.deadLetter, 0, -1)).map((entry) => JSON.parse(entry));
+    expect(letters.map((letter) => [letter.job.id, letter.error])).toEqual([
+      ["c", "failed c"],
+      ["b", "failed b"],
+    ]);
+  });
+});
+
+describe("promoteDelayedJobs", () => {
+  it("queues due retries and leaves later ones parked", async () => {
+    await redis.zadd(keys.delayed, Date.now() - 1000, "due", Date.now() + 60000, "later");
+
+    expect(await promoteDelayedJobs()).toBe(1);
+    expect(await redis.lrange(keys.requests, 0, -1)).toEqual(["due"]);
+    expect(await redis.zrange(keys.delayed, 0, -1)).toEqual(["later"]);
+  });
+});
+
+describe("reapStalledJobs", () => {
+  it("requeues a job whose lease expired and counts the attempt", async () => {
+    const raw = await inFlight({ id: "a", payload: {} });
+    await redis.zadd(keys.leases, Date.now() - 1, raw);
+
+    expect(await reapStalledJobs()).toEqual({ requeued: 1, deadLettered: [] });
+    const [requeued] = await redis.lrange(keys.requests, 0, -1);
+    expect(JSON.parse(requeued)).toMatchObject({ id: "a", attempts: 1 });
+    expect(await redis.llen(keys.processing)).toBe(0);
+  });
+
+  it("dead-letters a stalled job that used up its attempts", async () => {
+    const raw = await inFlight({ id: "a", payload: {}, attempts: 1 });
+    await redis.zadd(keys.leases, Date.now() - 1, raw);
+
+    const { requeued, deadLettered } = await reapStalledJobs();
+    expect(requeued).toBe(0);
+    expect(deadLettered).toMatchObject([{ id: "a", attempts: 2 }]);
+    expect(await redis.llen(keys.requests)).toBe(0);
+    expect(await redis.llen(keys.deadLetter)).toBe(1);
+  });
+
+  it("leases an in-flight job that was claimed without one", async () => {
+    const raw = JSON.stringify({ id: "a", payload: {} });
+    await redis.rpush(keys.processing, raw);
+
+    expect(await reapStalledJobs()).toEqual({ requeued: 0, deadLettered: [] });
+    expect(Number(await redis.zscore(keys.leases, raw))).toBeGreaterThan(Date.now());
+  });
+});
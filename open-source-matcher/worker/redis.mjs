@@ -0,0 +1,26 @@
+import Redis from "ioredis";
+import { connectMemoryStore } from "./memory-store.mjs";
+
+export const REDIS_URL = process.env.REDIS_URL ?? "redis://127.0.0.1:6379";
+// `redis` (default) talks to REDIS_URL; `memory` keeps queue and state in this process.
+export const HUNTER_STORE = (process.env.HUNTER_STORE ?? "redis").trim().toLowerCase();
+
+if (!["redis", "memory"].includes(HUNTER_STORE)) {
+  console.warn(`[worker] Unknown HUNTER_STORE "${HUNTER_STORE}"; using Redis.`);
+}
+// A worker process of its own would get an empty store that no backend can enqueue jobs into.
+if (HUNTER_STORE === "memory" && process.env.HUNTER_STANDALONE !== "true") {
+  console.error("[worker] HUNTER_STORE=memory only works with `npm run standalone`, which runs every service in one process.");
+  process.exit(1);
+}
+
+export const redis =
+  HUNTER_STORE === "memory"
+    ? connectMemoryStore()
+    : new Redis(REDIS_URL, {
+        maxRetriesPerRequest: null,
+        enableReadyCheck: true,
+      });
+
+// Blocking pops get their own connection so heartbeats and status writes are never stuck behind them.
+export const blockingRedis = redis.duplicate();
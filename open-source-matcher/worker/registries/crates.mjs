@@ -0,0 +1,58 @@
+import { fetchDependents } from "./deps-dev.mjs";
+import { fetchRegistryJson, repoBaseName, sameRepository } from "./http.mjs";
+
+const CRATES_URL = (process.env.HUNTER_CRATES_URL ?? "https://crates.io").replace(/\/$/, "");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * crates.io only reports a 90-day total, so weekly/monthly numbers are summed from the daily series.
+ */
+function sumRecentDownloads(series, days) {
+  const since = Date.now() - days * DAY_MS;
+  return series
+    .filter((entry) => new Date(entry.date).getTime() >= since)
+    .reduce((sum, entry) => sum + Number(entry.downloads ?? 0), 0);
+}
+
+export const cratesRegistry = {
+  id: "crates",
+  system: "CARGO",
+  languages: ["rust"],
+  async source(name) {
+    const data = await fetchRegistryJson(`${CRATES_URL}/api/v1/crates/${encodeURIComponent(name)}`);
+    if (!data?.crate) {
+      return null;
+    }
+    const { crate } = data;
+    return {
+      urls: [crate.repository, crate.homepage].filter(Boolean),
+      keywords: Array.isArray(crate.keywords) ? crate.keywords : [],
+      version: crate.max_stable_version ?? crate.newest_version,
+    };
+  },
+  async lookup(project) {
+    const params = new URLSearchParams({ q: repoBaseName(project), per_page: "20" });
+    const search = await fetchRegistryJson(`${CRATES_URL}/api/v1/crates?${params.toString()}`);
+    const match = (search?.crates ?? []).find((crate) => sameRepository(crate.repository, project));
+    if (!match) {
+      return null;
+    }
+
+    const version = match.max_stable_version ?? match.newest_version;
+    const [history, dependents] = await Promise.all([
+      fetchRegistryJson(`${CRATES_URL}/api/v1/crates/${encodeURIComponent(match.id)}/downloads`).catch(() => null),
+      fetchDependents("CARGO", match.id, version),
+    ]);
+    const series = [...(history?.version_downloads ?? []), ...(history?.meta?.extra_downloads ?? [])];
+    return {
+      registry: "crates",
+      name: match.id,
+      url: `https://crates.io/crates/${match.id}`,
+      latestVersion: version,
+      releasedAt: match.updated_at,
+      weeklyDownloads: series.length ? sumRecentDownloads(series, 7) : undefined,
+      monthlyDownloads: series.length ? sumRecentDownloads(series, 30) : undefined,
+      ...dependents,
+    };
+  },
+};
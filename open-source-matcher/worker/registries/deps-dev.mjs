@@ -0,0 +1,37 @@
+import { fetchRegistryJson } from "./http.mjs";
+
+const DEPS_DEV_URL = (process.env.HUNTER_DEPS_DEV_URL ?? "https://api.deps.dev/v3alpha").replace(/\/$/, "");
+
+/**
+ * Dependent counts from deps.dev for one package version. `system` is the deps.dev ecosystem name
+ * (NPM, PYPI, CARGO, GO). Resolves to `{}` when deps.dev has no data.
+ */
+export async function fetchDependents(system, name, version) {
+  if (!version) {
+    return {};
+  }
+  const url = `${DEPS_DEV_URL}/systems/${system}/packages/${encodeURIComponent(name)}/versions/${encodeURIComponent(version)}:dependents`;
+  const data = await fetchRegistryJson(url);
+  if (!data) {
+    return {};
+  }
+  return {
+    dependents: Number(data.dependentCount ?? 0),
+    directDependents: Number(data.directDependentCount ?? 0),
+  };
+}
+
+/**
+ * Source repository deps.dev links to one package version, or `null`. Used for packages whose own
+ * registry metadata names no repository, and for Go modules served from vanity import paths.
+ */
+export async function fetchSourceRepository(system, name, version) {
+  if (!version) {
+    return null;
+  }
+  const url = `${DEPS_DEV_URL}/systems/${system}/packages/${encodeURIComponent(name)}/versions/${encodeURIComponent(version)}`;
+  const data = await fetchRegistryJson(url);
+  const link = (data?.links ?? []).find((entry) => entry.label === "SOURCE_REPO")?.url;
+  const project = (data?.relatedProjects ?? []).find((entry) => entry.relationType === "SOURCE_REPO")?.projectKey?.id;
+  return link ?? (project ? `https://${project}` : null);
+}
@@ -0,0 +1,55 @@
+import { fetchDependents, fetchSourceRepository } from "./deps-dev.mjs";
+import { fetchRegistryJson } from "./http.mjs";
+
+const GO_PROXY_URL = (process.env.HUNTER_GO_PROXY_URL ?? "https://proxy.golang.org").replace(/\/$/, "");
+// Module paths on these hosts are the repository URL; vanity paths (golang.org/x/…, go.uber.org/…) are looked up.
+const FORGE_HOSTS = ["github.com", "gitlab.com", "bitbucket.org", "codeberg.org"];
+
+// The module proxy protocol escapes upper-case letters as "!" followed by the lower-case letter.
+function escapeModulePath(path) {
+  return path.replace(/[A-Z]/g, (letter) => `!${letter.toLowerCase()}`);
+}
+
+function modulePath(project) {
+  try {
+    const url = new URL(project.url);
+    return `${url.hostname}${url.pathname.replace(/\/$/, "")}`;
+  } catch {
+    return null;
+  }
+}
+
+export const goRegistry = {
+  id: "go",
+  system: "GO",
+  languages: ["go"],
+  async source(module, version) {
+    if (FORGE_HOSTS.includes(module.split("/")[0])) {
+      return { urls: [`https://${module}`], keywords: [], version };
+    }
+    const resolvedVersion = version ?? (await fetchRegistryJson(`${GO_PROXY_URL}/${escapeModulePath(module)}/@latest`))?.Version;
+    const repository = await fetchSourceRepository("GO", module, resolvedVersion);
+    return repository ? { urls: [repository], keywords: [], version: resolvedVersion } : null;
+  },
+  async lookup(project) {
+    const module = modulePath(project);
+    if (!module) {
+      return null;
+    }
+    const latest = await fetchRegistryJson(`${GO_PROXY_URL}/${escapeModulePath(module)}/@latest`);
+    if (!latest?.Version) {
+      return null;
+    }
+
+    // The Go proxy does not publish download counts; dependents are the adoption signal here.
+    const dependents = await fetchDependents("GO", module, latest.Version);
+    return {
+      registry: "go",
+      name: module,
+      url: `https://pkg.go.dev/${module}`,
+      latestVersion: latest.Version,
+      releasedAt: latest.Time ?? null,
+      ...dependents,
+    };
+  },
+};
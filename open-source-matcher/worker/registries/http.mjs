@@ -0,0 +1,56 @@
+import { TransientError, isTransientStatus } from "../errors.mjs";
+import { limitedFetch } from "../limits.mjs";
+
+const USER_AGENT = process.env.HUNTER_USER_AGENT ?? "open-source-hunter/0.2.0";
+
+/**
+ * GETs a registry JSON endpoint. Resolves to `null` for 404/410 so "no such package" is not an error.
+ */
+export async function fetchRegistryJson(url, { headers = {} } = {}) {
+  const response = await limitedFetch("registries", url, {
+    headers: { Accept: "application/json", "User-Agent": USER_AGENT, ...headers },
+  });
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+  if (!response.ok) {
+    const message = `${new URL(url).host} responded ${response.status}`;
+    throw isTransientStatus(response.status) ? new TransientError(message) : new Error(message);
+  }
+  return response.json();
+}
+
+/**
+ * Reduces a repository URL (`git+https://github.com/Owner/Repo.git`, `git@github.com:owner/repo`, …)
+ * to `host/owner/repo` so registry metadata can be matched against a project URL.
+ */
+export function repositoryKey(raw) {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return null;
+  }
+  const value = raw
+    .trim()
+    .toLowerCase()
+    .replace(/^git\+/, "")
+    .replace(/^git@([^:]+):/, "https://$1/")
+    .replace(/^(git|ssh|http):\/\//, "https://");
+  try {
+    const url = new URL(value.includes("://") ? value : `https://${value}`);
+    const segments = url.pathname.replace(/\.git$/, "").split("/").filter(Boolean).slice(0, 2);
+    if (segments.length < 2) {
+      return null;
+    }
+    return `${url.hostname.replace(/^www\./, "")}/${segments.join("/")}`;
+  } catch {
+    return null;
+  }
+}
+
+export function sameRepository(candidate, project) {
+  const key = repositoryKey(candidate);
+  return Boolean(key) && key === repositoryKey(project.url);
+}
+
+export function repoBaseName(project) {
+  return project.name.split("/").pop();
+}
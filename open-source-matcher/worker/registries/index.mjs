@@ -0,0 +1,96 @@
+import { readPackageCache, writePackageCache } from "../cache.mjs";
+import { finalizeProject } from "../projects.mjs";
+import { DEFAULT_SCORING } from "../scoring.mjs";
+import { cratesRegistry } from "./crates.mjs";
+import { goRegistry } from "./go.mjs";
+import { npmRegistry } from "./npm.mjs";
+import { pypiRegistry } from "./pypi.mjs";
+import { fetchSourceRepository } from "./deps-dev.mjs";
+import { repositoryKey } from "./http.mjs";
+
+const REGISTRY_LOOKUPS_ENABLED = process.env.HUNTER_REGISTRY_LOOKUPS !== "false";
+const REGISTRY_CONCURRENCY = Number(process.env.HUNTER_REGISTRY_CONCURRENCY ?? 4);
+
+/**
+ * Every registry exposes `{ id, system, languages, lookup(project), source(name, version) }`; `lookup`
+ * resolves to a package signal (`registry`, `name`, `url`, `latestVersion`, `releasedAt`, downloads,
+ * dependents) or `null` when no package published from the project's repository could be found.
+ * `source` goes the other way, from a package to `{ urls, keywords, version }`: the links its metadata
+ * publishes (repository first) and its keywords. `system` is the package's deps.dev ecosystem.
+ */
+const REGISTRIES = [npmRegistry, pypiRegistry, cratesRegistry, goRegistry];
+
+export function registriesFor(language) {
+  const normalized = typeof language === "string" ? language.toLowerCase() : "";
+  return REGISTRIES.filter((registry) => registry.languages.includes(normalized));
+}
+
+/**
+ * Where a dependency's code lives, according to its registry. When the metadata links to nothing
+ * that looks like a repository, deps.dev's source link for that version is tried instead.
+ */
+export async function packageSource(registryId, name, version) {
+  const registry = REGISTRIES.find((entry) => entry.id === registryId);
+  const source = registry ? await registry.source(name, version) : null;
+  if (!source) {
+    return null;
+  }
+  if (!source.urls.some(repositoryKey) && source.version) {
+    const linked = await fetchSourceRepository(registry.system, name, source.version);
+    if (linked) {
+      source.urls.push(linked);
+    }
+  }
+  return source;
+}
+
+async function lookupPackages(project) {
+  const registries = registriesFor(project.language);
+  if (!registries.length) {
+    return [];
+  }
+
+  const cached = await readPackageCache(project);
+  if (cached) {
+    return cached.packages;
+  }
+
+  const packages = [];
+  for (const registry of registries) {
+    try {
+      const signal = await registry.lookup(project);
+      if (signal) {
+        packages.push(signal);
+      }
+    } catch (error) {
+      // Registry data is a nice-to-have: skip it without caching so the next search tries again.
+      console.warn(`[worker] ${registry.id} lookup failed for ${project.name}:`, error instanceof Error ? error.message : error);
+      return packages;
+    }
+  }
+  await writePackageCache(project, packages);
+  return packages;
+}
+
+/**
+ * Looks up published packages for each project and rescores it with the adoption signals found.
+ * Projects are processed `HUNTER_REGISTRY_CONCURRENCY` at a time; the input order is preserved.
+ */
+export async function attachPackageSignals(projects, scoring = DEFAULT_SCORING) {
+  if (!REGISTRY_LOOKUPS_ENABLED) {
+    return projects;
+  }
+
+  const results = [];
+  for (let index = 0; index < projects.length; index += REGISTRY_CONCURRENCY) {
+    const batch = projects.slice(index, index + REGISTRY_CONCURRENCY);
+    const enriched = await Promise.all(
+      batch.map(async (project) => {
+        const packages = await lookupPackages(project);
+        return packages.length ? finalizeProject({ ...project, packages }, scoring) : project;
+      }),
+    );
+    results.push(...enriched);
+  }
+  return results;
+}
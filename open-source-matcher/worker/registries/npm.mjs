@@ -0,0 +1,62 @@
+import { fetchDependents } from "./deps-dev.mjs";
+import { fetchRegistryJson, repoBaseName, sameRepository } from "./http.mjs";
+
+const NPM_REGISTRY_URL = (process.env.HUNTER_NPM_REGISTRY_URL ?? "https://registry.npmjs.org").replace(/\/$/, "");
+const NPM_DOWNLOADS_URL = (process.env.HUNTER_NPM_DOWNLOADS_URL ?? "https://api.npmjs.org").replace(/\/$/, "");
+
+const SHORTHAND_HOSTS = { github: "github.com", gitlab: "gitlab.com", bitbucket: "bitbucket.org" };
+
+/** Expands npm's `github:owner/repo`, `gitlab:…`, `bitbucket:…` and bare `owner/repo` repository shorthands. */
+function expandShorthand(repository) {
+  const match = /^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+)$/.exec(repository?.trim() ?? "");
+  return match ? `https://${SHORTHAND_HOSTS[match[1] ?? "github"]}/${match[2]}` : repository;
+}
+
+async function downloads(period, name) {
+  const data = await fetchRegistryJson(`${NPM_DOWNLOADS_URL}/downloads/point/${period}/${name}`);
+  return data?.downloads != null ? Number(data.downloads) : undefined;
+}
+
+export const npmRegistry = {
+  id: "npm",
+  system: "NPM",
+  languages: ["javascript", "typescript"],
+  async source(name) {
+    const latest = await fetchRegistryJson(`${NPM_REGISTRY_URL}/${name}/latest`);
+    if (!latest) {
+      return null;
+    }
+    const repository = expandShorthand(typeof latest.repository === "string" ? latest.repository : latest.repository?.url);
+    return {
+      urls: [repository, latest.homepage, latest.bugs?.url].filter(Boolean),
+      keywords: Array.isArray(latest.keywords) ? latest.keywords : [],
+      version: latest.version,
+    };
+  },
+  async lookup(project) {
+    const params = new URLSearchParams({ text: repoBaseName(project), size: "20" });
+    const search = await fetchRegistryJson(`${NPM_REGISTRY_URL}/-/v1/search?${params.toString()}`);
+    const match = (search?.objects ?? [])
+      .map((entry) => entry.package)
+      .find((pkg) => pkg && sameRepository(pkg.links?.repository, project));
+    if (!match) {
+      return null;
+    }
+
+    const [weeklyDownloads, monthlyDownloads, dependents] = await Promise.all([
+      downloads("last-week", match.name),
+      downloads("last-month", match.name),
+      fetchDependents("NPM", match.name, match.version),
+    ]);
+    return {
+      registry: "npm",
+      name: match.name,
+      url: match.links?.npm ?? `https://www.npmjs.com/package/${match.name}`,
+      latestVersion: match.version,
+      releasedAt: match.date,
+      weeklyDownloads,
+      monthlyDownloads,
+      ...dependents,
+    };
+  },
+};
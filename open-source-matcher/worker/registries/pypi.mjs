@@ -0,0 +1,65 @@
+import { fetchDependents } from "./deps-dev.mjs";
+import { fetchRegistryJson, repoBaseName, sameRepository } from "./http.mjs";
+
+const PYPI_URL = (process.env.HUNTER_PYPI_URL ?? "https://pypi.org").replace(/\/$/, "");
+const PYPISTATS_URL = (process.env.HUNTER_PYPISTATS_URL ?? "https://pypistats.org").replace(/\/$/, "");
+const SOURCE_LABEL = /source|repo|code|github|gitlab/i;
+
+function linksToRepository(info, project) {
+  const urls = [info.home_page, info.download_url, ...Object.values(info.project_urls ?? {})];
+  return urls.some((url) => sameRepository(url, project));
+}
+
+export const pypiRegistry = {
+  id: "pypi",
+  system: "PYPI",
+  languages: ["python"],
+  async source(name) {
+    const metadata = await fetchRegistryJson(`${PYPI_URL}/pypi/${encodeURIComponent(name)}/json`);
+    if (!metadata?.info) {
+      return null;
+    }
+    const { info } = metadata;
+    // Project URLs are free-form; the ones labelled as source code are the most likely repositories.
+    const projectUrls = Object.entries(info.project_urls ?? {}).sort(
+      ([a], [b]) => Number(SOURCE_LABEL.test(b)) - Number(SOURCE_LABEL.test(a)),
+    );
+    return {
+      urls: [...projectUrls.map(([, url]) => url), info.home_page, info.download_url].filter(Boolean),
+      keywords: typeof info.keywords === "string" ? info.keywords.split(/[,\s]+/).filter(Boolean) : [],
+      version: info.version,
+    };
+  },
+  async lookup(project) {
+    // PyPI has no search API; try the repository name and trust it only if the package links back.
+    const base = repoBaseName(project);
+    const candidates = Array.from(new Set([base, base.toLowerCase(), base.toLowerCase().replace(/^python-|-python$|^py/, "")]));
+    let data = null;
+    for (const name of candidates.filter(Boolean)) {
+      const metadata = await fetchRegistryJson(`${PYPI_URL}/pypi/${encodeURIComponent(name)}/json`);
+      if (metadata?.info && linksToRepository(metadata.info, project)) {
+        data = metadata;
+        break;
+      }
+    }
+    if (!data) {
+      return null;
+    }
+
+    const { name, version, package_url: packageUrl } = data.info;
+    const [stats, dependents] = await Promise.all([
+      fetchRegistryJson(`${PYPISTATS_URL}/api/packages/${encodeURIComponent(name.toLowerCase())}/recent`).catch(() => null),
+      fetchDependents("PYPI", name, version),
+    ]);
+    return {
+      registry: "pypi",
+      name,
+      url: packageUrl ?? `https://pypi.org/project/${name}/`,
+      latestVersion: version,
+      releasedAt: data.urls?.[0]?.upload_time_iso_8601 ?? null,
+      weeklyDownloads: stats?.data?.last_week,
+      monthlyDownloads: stats?.data?.last_month,
+      ...dependents,
+    };
+  },
+};
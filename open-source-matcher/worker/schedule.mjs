@@ -0,0 +1,153 @@
+/**
+ * Minimal cron support for watchlists: five fields (minute hour day-of-month month day-of-week)
+ * with `*`, lists, ranges and steps, plus the usual `@hourly`/`@daily`/`@weekly`/`@monthly`
+ * aliases. Schedules are evaluated in UTC. This module has no Redis dependency so the backend can
+ * validate schedules with the same rules the worker runs them by.
+ */
+
+const ALIASES = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+const MINUTE_MS = 60 * 1000;
+// Enough to find the next match of any valid expression, including 29 February.
+const MAX_LOOKAHEAD_MS = 4 * 366 * 24 * 60 * MINUTE_MS;
+
+export class InvalidScheduleError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "InvalidScheduleError";
+  }
+}
+
+function parseNumber(value, field) {
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < field.min || number > field.max) {
+    throw new InvalidScheduleError(`"${value}" is not a valid ${field.name} (${field.min}-${field.max}).`);
+  }
+  return number;
+}
+
+function parseField(expression, field) {
+  const values = new Set();
+  for (const part of expression.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new InvalidScheduleError(`"${part}" has an invalid step in the ${field.name} field.`);
+    }
+    let [start, end] = [field.min, field.max];
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseNumber(from, field);
+      end = to === undefined ? (stepText === undefined ? start : field.max) : parseNumber(to, field);
+      if (end < start) {
+        throw new InvalidScheduleError(`"${part}" is an empty range in the ${field.name} field.`);
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses a cron expression or alias. Throws `InvalidScheduleError` with a message suitable for API callers.
+ */
+export function parseSchedule(expression) {
+  const normalized = String(expression ?? "").trim().toLowerCase();
+  const source = ALIASES[normalized] ?? normalized;
+  const parts = source.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new InvalidScheduleError(
+      `Schedules are five cron fields (minute hour day month weekday) or one of ${Object.keys(ALIASES).join(", ")}.`,
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+  return {
+    expression: normalized,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    // Classic cron semantics: when both day fields are restricted, either one matching is enough.
+    anyDay: parts[2] === "*",
+    anyWeekday: parts[4] === "*",
+  };
+}
+
+function dayMatches(schedule, date) {
+  const day = schedule.days.has(date.getUTCDate());
+  const weekday = schedule.weekdays.has(date.getUTCDay());
+  if (schedule.anyDay || schedule.anyWeekday) {
+    return day && weekday;
+  }
+  return day || weekday;
+}
+
+/**
+ * Epoch milliseconds of the first run strictly after `from`.
+ */
+export function nextRunAt(expression, from = Date.now()) {
+  const schedule = typeof expression === "string" ? parseSchedule(expression) : expression;
+  const date = new Date(Math.floor(from / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = from + MAX_LOOKAHEAD_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date.getTime();
+  }
+  throw new InvalidScheduleError(`"${schedule.expression}" never runs.`);
+}
+
+/**
+ * Shortest gap between consecutive runs over the next day (or the next few runs for sparser
+ * schedules), used to keep watches from hammering the forges.
+ */
+export function shortestInterval(expression, from = Date.now()) {
+  const schedule = parseSchedule(expression);
+  let previous = nextRunAt(schedule, from);
+  let shortest = Number.POSITIVE_INFINITY;
+  for (let run = 0; run < 1440; run += 1) {
+    const next = nextRunAt(schedule, previous);
+    shortest = Math.min(shortest, next - previous);
+    if (next - from > 24 * 60 * MINUTE_MS && run >= 2) {
+      break;
+    }
+    previous = next;
+  }
+  return shortest;
+}
@@ -0,0 +1,56 @@
+/**
+ * Weights used when a job carries no scoring profile (jobs queued before profiles existed). They
+ * match the backend's built-in "balanced" profile.
+ */
+export const DEFAULT_SCORING = {
+  id: "balanced",
+  weights: {
+    stars: 2.5,
+    forks: 1.5,
+    watchers: 1,
+    freshness: 1,
+    issues: -1,
+    downloads: 1.2,
+    dependents: 1.5,
+    contributors: 1.5,
+    inactivity: -1.5,
+    docs: 1,
+  },
+};
+
+/**
+ * Raw, unweighted signals per scoring component. Counts are log-scaled; freshness is a 0–3 bonus
+ * that decays over a year; inactivity is 1 for no commits in the health window and 0.5 for a bus factor of 1;
+ * docs is the README analysis quality scaled to 0–3.
+ */
+export function scoreSignals(project, { daysSinceUpdate, monthlyDownloads, dependents }) {
+  const health = project.health;
+  return {
+    stars: Math.log10((project.stars ?? 0) + 1),
+    forks: Math.log10((project.forks ?? 0) + 1),
+    watchers: Math.log10((project.watchers ?? 0) + 1),
+    freshness: Number.isFinite(daysSinceUpdate) ? Math.max(0, 3 - daysSinceUpdate / 120) : 0,
+    issues: Math.log10((project.openIssues ?? 0) + 1),
+    downloads: Math.log10(monthlyDownloads + 1),
+    dependents: Math.log10(dependents + 1),
+    contributors: health ? Math.log10((health.activeContributors90d ?? 0) + 1) : 0,
+    inactivity: !health ? 0 : health.commits90d === 0 ? 1 : health.busFactor === 1 ? 0.5 : 0,
+    docs: project.docs ? project.docs.quality * 3 : 0,
+  };
+}
+
+/**
+ * Weights every signal and returns the total score with the points each component contributed.
+ */
+export function weighSignals(signals, scoring = DEFAULT_SCORING) {
+  const components = {};
+  let score = 0;
+  for (const [component, signal] of Object.entries(signals)) {
+    const points = signal * (scoring.weights?.[component] ?? 0);
+    if (points !== 0) {
+      components[component] = Number(points.toFixed(2));
+    }
+    score += points;
+  }
+  return { score: Number(score.toFixed(2)), breakdown: { profile: scoring.id, components } };
+}
@@ -0,0 +1,65 @@
+import { redis } from "./redis.mjs";
+
+const SEARCHES_KEY = process.env.HUNTER_SEARCHES_KEY ?? "hunter:searches";
+// 0 keeps every search; otherwise the oldest ones beyond the limit are dropped per workspace.
+const SEARCH_HISTORY_LIMIT = Number(process.env.HUNTER_SEARCH_HISTORY_LIMIT ?? 0);
+const DEFAULT_WORKSPACE = "default";
+
+// Same layout as `workspaceKey` in the dashboard, which reads these keys back.
+function searchKeys(workspace) {
+  const base = workspace === DEFAULT_WORKSPACE ? SEARCHES_KEY : `${SEARCHES_KEY}:ws:${workspace}`;
+  return { items: `${base}:items`, meta: `${base}:meta`, index: `${base}:index` };
+}
+
+/**
+ * The fields the history is filtered on, kept apart from the full result so a search over a long
+ * history does not parse every project list.
+ */
+function describeSearch(search) {
+  const languages = new Set(
+    [search.filters.language, ...(search.filters.languages ?? []), ...search.projects.map((project) => project.language)]
+      .filter(Boolean)
+      .map((language) => String(language).toLowerCase()),
+  );
+  const text = [search.filters.topic, search.prompt, search.summary, ...search.projects.map((project) => project.name)]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+  return { topic: search.filters.topic, languages: [...languages], text, generatedAt: search.generatedAt };
+}
+
+/**
+ * Keeps a completed search for good. The published result expires with the job; this copy is what
+ * the dashboard's history pages through.
+ */
+export async function recordSearch(job, result) {
+  const workspace = job.workspace ?? DEFAULT_WORKSPACE;
+  const keys = searchKeys(workspace);
+  const search = {
+    jobId: job.id,
+    ...result,
+    ...(job.prompt ? { prompt: job.prompt } : {}),
+    requestedAt: job.requestedAt,
+    completedAt: new Date().toISOString(),
+  };
+  delete search.status;
+
+  await redis
+    .multi()
+    .hset(keys.items, job.id, JSON.stringify(search))
+    .hset(keys.meta, job.id, JSON.stringify(describeSearch(search)))
+    .zadd(keys.index, Date.parse(search.generatedAt), job.id)
+    .exec();
+
+  if (SEARCH_HISTORY_LIMIT > 0) {
+    const expired = await redis.zrange(keys.index, 0, -SEARCH_HISTORY_LIMIT - 1);
+    if (expired.length) {
+      await redis
+        .multi()
+        .zrem(keys.index, ...expired)
+        .hdel(keys.items, ...expired)
+        .hdel(keys.meta, ...expired)
+        .exec();
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { enqueueJob, normalizeSearchFilters } from "../backend/jobs.mjs";
+import { redis } from "./redis.mjs";
+import { nextRunAt } from "./schedule.mjs";
+
+const WATCHES_KEY = process.env.HUNTER_WATCHES_KEY ?? "hunter:watches";
+const WATCH_SCHEDULE_KEY = process.env.HUNTER_WATCH_SCHEDULE_KEY ?? "hunter:watches:due";
+const WATCH_RUNS_PREFIX = process.env.HUNTER_WATCH_RUNS_PREFIX ?? "hunter:watch";
+const WATCH_POLL_MS = Number(process.env.HUNTER_WATCH_POLL_MS ?? 30000);
+const WATCH_HISTORY_LIMIT = Number(process.env.HUNTER_WATCH_HISTORY_LIMIT ?? 30);
+const RANK_MOVE_THRESHOLD = Number(process.env.HUNTER_WATCH_RANK_MOVE ?? 3);
+const DEFAULT_WORKSPACE = "default";
+
+// Moves a due watch to its next run time. Returns 0 when another worker already claimed this run.
+redis.defineCommand("hunterClaimWatch", {
+  numberOfKeys: 1,
+  lua: `
+    local score = redis.call("ZSCORE", KEYS[1], ARGV[1])
+    if not score or tonumber(score) > tonumber(ARGV[2]) then
+      return 0
+    end
+    redis.call("ZADD", KEYS[1], ARGV[3], ARGV[1])
+    return 1
+  `,
+  inProcess(call, [schedule], [member, now, nextRun]) {
+    const score = call("zscore", schedule, member);
+    if (score == null || Number(score) > Number(now)) {
+      return 0;
+    }
+    call("zadd", schedule, nextRun, member);
+    return 1;
+  },
+});
+
+// Same layout as `workspaceKey` in the backend, which saves the watches.
+function watchesKey(workspace) {
+  return workspace === DEFAULT_WORKSPACE ? WATCHES_KEY : `${WATCHES_KEY}:ws:${workspace}`;
+}
+
+// Schedule members are `<workspace>:<id>`, or a bare id for the default workspace.
+function parseScheduleMember(member) {
+  const separator = member.indexOf(":");
+  return separator < 0
+    ? { workspace: DEFAULT_WORKSPACE, id: member }
+    : { workspace: member.slice(0, separator), id: member.slice(separator + 1) };
+}
+
+function parseWatch(raw) {
+  try {
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Queues a watch run the way the backend queues a search: the stored filters are normalized again
+ * and the scoring profile and policy they name are resolved now, so edits to either reach the next run.
+ */
+async function enqueueWatchRun(watch, workspace) {
+  const { jobId } = await enqueueJob(normalizeSearchFilters(watch.filters), {
+    workspace,
+    watchId: watch.id,
+    queuedMessage: `Scheduled re-run of watch "${watch.name}"`,
+  });
+  return jobId;
+}
+
+/**
+ * Queues a search job for every watch whose run is due and moves it to its next scheduled time.
+ * Watches that were deleted in the meantime are dropped from the schedule.
+ */
+export async function runDueWatches(now = Date.now()) {
+  const due = await redis.zrangebyscore(WATCH_SCHEDULE_KEY, "-inf", now);
+  let queued = 0;
+  for (const member of due) {
+    const { workspace, id } = parseScheduleMember(member);
+    const watch = parseWatch(await redis.hget(watchesKey(workspace), id));
+    if (!watch) {
+      await redis.zrem(WATCH_SCHEDULE_KEY, member);
+      continue;
+    }
+    let next;
+    try {
+      next = nextRunAt(watch.schedule, now);
+    } catch (error) {
+      console.warn(`[worker] Watch ${id} has an unusable schedule "${watch.schedule}"; unscheduling it`, error);
+      await redis.zrem(WATCH_SCHEDULE_KEY, member);
+      continue;
+    }
+    if (!(await redis.hunterClaimWatch(WATCH_SCHEDULE_KEY, member, now, next))) {
+      continue;
+    }
+    let jobId;
+    try {
+      jobId = await enqueueWatchRun(watch, workspace);
+    } catch (error) {
+      // E.g. its scoring profile or policy was deleted; the watch stays scheduled for its next run.
+      console.warn(`[worker] Could not queue a run of watch ${id}:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+    queued += 1;
+    console.log(`[worker] Queued job ${jobId} for watch ${id}; next run at ${new Date(next).toISOString()}`);
+  }
+  return queued;
+}
+
+/**
+ * Polls for due watches every `HUNTER_WATCH_POLL_MS` until the returned function is called.
+ */
+export function startWatchScheduler() {
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await runDueWatches();
+    } catch (error) {
+      console.error("[worker] Watch scheduler failed", error);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(tick, WATCH_POLL_MS);
+  tick();
+  return () => clearInterval(timer);
+}
+
+function snapshotEntry(project, index) {
+  return {
+    key: `${project.source ?? "github"}:${project.id}`,
+    name: project.name,
+    url: project.url,
+    source: project.source ?? "github",
+    rank: index + 1,
+    score: project.score,
+    stars: project.stars,
+    license: project.license ?? null,
+    archived: Boolean(project.archived),
+  };
+}
+
+/**
+ * Compares two ranked snapshots. Rank moves smaller than `HUNTER_WATCH_RANK_MOVE` places are ignored.
+ */
+export function diffSnapshots(previous, current) {
+  const before = new Map(previous.map((entry) => [entry.key, entry]));
+  const after = new Map(current.map((entry) => [entry.key, entry]));
+
+  const entered = current.filter((entry) => !before.has(entry.key));
+  const dropped = previous.filter((entry) => !after.has(entry.key));
+  const moved = [];
+  const licenseChanged = [];
+  const archivedChanged = [];
+
+  current.forEach((entry) => {
+    const old = before.get(entry.key);
+    if (!old) {
+      return;
+    }
+    if (Math.abs(old.rank - entry.rank) >= RANK_MOVE_THRESHOLD) {
+      moved.push({ ...entry, previousRank: old.rank });
+    }
+    if ((old.license ?? null) !== (entry.license ?? null)) {
+      licenseChanged.push({ ...entry, previousLicense: old.license ?? null });
+    }
+    if (old.archived !== entry.archived) {
+      archivedChanged.push(entry);
+    }
+  });
+
+  const diff = { entered, dropped, moved, licenseChanged, archivedChanged };
+  return { ...diff, summary: describeDiff(diff) };
+}
+
+function describeDiff({ entered, dropped, moved, licenseChanged, archivedChanged }) {
+  const parts = [
+    entered.length ? `new: ${entered.map((entry) => `${entry.name} (#${entry.rank})`).join(", ")}` : null,
+    dropped.length ? `dropped: ${dropped.map((entry) => entry.name).join(", ")}` : null,
+    moved.length ? `moved: ${moved.map((entry) => `${entry.name} #${entry.previousRank}→#${entry.rank}`).join(", ")}` : null,
+    licenseChanged.length
+      ? `license changed: ${licenseChanged.map((entry) => `${entry.name} ${entry.previousLicense ?? "none"}→${entry.license ?? "none"}`).join(", ")}`
+      : null,
+    archivedChanged.length
+      ? `archive status: ${archivedChanged.map((entry) => `${entry.name} ${entry.archived ? "archived" : "unarchived"}`).join(", ")}`
+      : null,
+  ].filter(Boolean);
+  return parts.length ? `${parts.join("; ")}.` : "No changes since the previous run.";
+}
+
+/**
+ * Stores a watch run as a snapshot and diffs it against the previous one. Returns the `watch`
+ * block added to the job result, or `null` when the watch no longer exists.
+ */
+export async function recordWatchRun(job, projects) {
+  const watch = parseWatch(await redis.hget(watchesKey(job.workspace ?? DEFAULT_WORKSPACE), job.watchId));
+  if (!watch) {
+    return null;
+  }
+  const runsKey = `${WATCH_RUNS_PREFIX}:${watch.id}:runs`;
+  const previous = parseWatch(await redis.lindex(runsKey, 0));
+  const snapshot = projects.map(snapshotEntry);
+  const diff = previous ? diffSnapshots(previous.projects ?? [], snapshot) : null;
+  const run = { jobId: job.id, runAt: new Date().toISOString(), projects: snapshot, diff };
+
+  await redis.multi().lpush(runsKey, JSON.stringify(run)).ltrim(runsKey, 0, WATCH_HISTORY_LIMIT - 1).exec();
+  return { id: watch.id, name: watch.name, diff };
+}